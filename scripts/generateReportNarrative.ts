@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { getLLMClient, OpenAIClient } from '../src/strategy/openaiClient';
+import { getLLMClient } from '../src/strategy/llmClients';
 
 const schemaPath = path.resolve(process.cwd(), 'schemas', 'report_narrative.schema.json');
 
@@ -52,7 +52,7 @@ const main = async () => {
     return;
   }
 
-  const client = getLLMClient() as OpenAIClient | null;
+  const client = getLLMClient();
   let content: string;
   if (!client) {
     // Fallback stub narrative to avoid failures when LLM is unavailable
@@ -74,7 +74,7 @@ const main = async () => {
       glossary: 'N/A'
     });
   } else {
-    const resp = await client.complete(prompt);
+    const resp = await client.complete(prompt, { json: true });
     content = cleanJsonString(resp);
   }
 
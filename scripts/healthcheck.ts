@@ -1,6 +1,6 @@
 /* eslint-disable no-console */
 import { performance } from 'perf_hooks';
-import { getMarketDataProvider, StubMarketDataProvider } from '../src/data/marketData';
+import { getMarketDataProvider, marketDataProviderName } from '../src/data/marketData';
 import { Mode } from '../src/core/types';
 
 type QuoteResult = {
@@ -63,7 +63,7 @@ export const marketDataHealthcheck = async (
       ok = Object.values(perSymbol).some((v) => v.status === 'FOUND');
     } else {
       const provider = getMarketDataProvider(mode === 'live' ? 'live' : 'paper');
-      const isStubProvider = provider instanceof StubMarketDataProvider;
+      const isStubProvider = marketDataProviderName(provider) === 'stub';
       providerName = isStubProvider ? 'STUB' : 'ETRADE_QUOTE_API';
       usedStub = isStubProvider;
       if (isStubProvider) {
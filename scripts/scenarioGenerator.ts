@@ -0,0 +1,296 @@
+/**
+ * Synthetic weekly return paths for the sim harnesses, as an alternative to the hand-written presets
+ * in ./scenario. Three models:
+ * - bootstrap: moving-block bootstrap of historical weekly returns (rows keep cross-asset correlation)
+ * - gbm: correlated geometric Brownian motion from annualized drift/vol and a correlation matrix
+ * - regime: gbm whose drift/vol switch between regimes on a Markov chain
+ * Shock overlays compound on top of any model. Proxies track their parent plus small noise.
+ */
+import { mulberry32 } from '../src/core/utils';
+import { ReplayMarketDataProvider } from '../src/data/marketData.replay';
+import { ScenarioPreset } from './scenario';
+
+export type GeneratorModel = 'bootstrap' | 'gbm' | 'regime';
+
+export interface AssetParams {
+  drift: number; // annualized
+  vol: number; // annualized
+}
+
+export interface RegimeSpec {
+  name: string;
+  assets: Record<string, AssetParams>;
+}
+
+export interface ShockOverlay {
+  name: string;
+  probability: number; // per path per week
+  returns: Record<string, number>; // added (compounded) on the week it fires
+  durationWeeks?: number; // consecutive weeks the shock repeats once fired
+}
+
+export interface GeneratorSpec {
+  model: GeneratorModel;
+  paths: number;
+  weeks: number; // return steps per path; the sims add the anchor week
+  seed: number;
+  symbols: string[];
+  proxies?: Record<string, string>; // proxy -> parent
+  trackingNoise?: number; // weekly stdev of proxy vs parent
+  // bootstrap
+  history?: Record<string, number[]>; // aligned weekly returns per symbol
+  blockWeeks?: number;
+  // gbm
+  assets?: Record<string, AssetParams>;
+  correlation?: number[][]; // in `symbols` order; identity when omitted
+  // regime
+  regimes?: RegimeSpec[];
+  transitions?: number[][]; // row-stochastic, regimes order
+  shocks?: ShockOverlay[];
+}
+
+export interface ScenarioPath {
+  name: string;
+  returns: Array<Record<string, number>>;
+  regimes?: string[];
+  shocks: Array<{ weekIndex: number; name: string }>;
+}
+
+const WEEKS_PER_YEAR = 52;
+
+// Symbols simPortfolio prices each week; proxies follow parents as in its synthetic fallback.
+export const SIM_SYMBOLS = ['SPY', 'QQQ', 'TLT', 'IWM', 'DIA', 'EFA', 'EEM', 'SHY', 'GLD'];
+export const SIM_PROXIES: Record<string, string> = { SPYM: 'SPY', QQQM: 'QQQ' };
+
+export const DEFAULT_ASSETS: Record<string, AssetParams> = {
+  SPY: { drift: 0.08, vol: 0.17 },
+  QQQ: { drift: 0.1, vol: 0.22 },
+  TLT: { drift: 0.03, vol: 0.14 },
+  IWM: { drift: 0.07, vol: 0.22 },
+  DIA: { drift: 0.07, vol: 0.16 },
+  EFA: { drift: 0.06, vol: 0.17 },
+  EEM: { drift: 0.06, vol: 0.22 },
+  SHY: { drift: 0.03, vol: 0.02 },
+  GLD: { drift: 0.05, vol: 0.15 }
+};
+
+const ASSET_GROUP: Record<string, 'equity' | 'bond' | 'gold'> = {
+  SPY: 'equity',
+  QQQ: 'equity',
+  IWM: 'equity',
+  DIA: 'equity',
+  EFA: 'equity',
+  EEM: 'equity',
+  TLT: 'bond',
+  SHY: 'bond',
+  GLD: 'gold'
+};
+const GROUP_CORRELATION: Record<string, number> = {
+  'equity|equity': 0.8,
+  'bond|bond': 0.6,
+  'gold|gold': 1,
+  'bond|equity': -0.2,
+  'equity|gold': 0.1,
+  'bond|gold': 0.2
+};
+
+/** Equities move together, bonds hedge them mildly, gold sits apart; unknown symbols are uncorrelated. */
+export const defaultCorrelation = (symbols: string[]): number[][] =>
+  symbols.map((a, i) =>
+    symbols.map((b, j) => {
+      if (i === j) return 1;
+      const groups = [ASSET_GROUP[a], ASSET_GROUP[b]];
+      if (!groups[0] || !groups[1]) return 0;
+      return GROUP_CORRELATION[groups.sort().join('|')] ?? 0;
+    })
+  );
+
+const scaleAssets = (driftShift: number, volScale: number): Record<string, AssetParams> =>
+  Object.fromEntries(
+    Object.entries(DEFAULT_ASSETS).map(([sym, p]) => [
+      sym,
+      ASSET_GROUP[sym] === 'equity' ? { drift: p.drift + driftShift, vol: p.vol * volScale } : p
+    ])
+  );
+
+export const DEFAULT_REGIMES: RegimeSpec[] = [
+  { name: 'CALM', assets: scaleAssets(0.04, 0.8) },
+  { name: 'STRESS', assets: scaleAssets(-0.35, 2) }
+];
+// Calm spells last ~25 weeks on average, stress spells ~6.
+export const DEFAULT_TRANSITIONS = [
+  [0.96, 0.04],
+  [0.16, 0.84]
+];
+
+export const DEFAULT_SHOCKS: ShockOverlay[] = [
+  { name: 'EQUITY_CRASH', probability: 0.005, returns: { SPY: -0.12, QQQ: -0.15, IWM: -0.14, DIA: -0.11, EFA: -0.12, EEM: -0.14 } },
+  { name: 'RATE_SHOCK', probability: 0.005, returns: { TLT: -0.06, QQQ: -0.04 }, durationWeeks: 2 }
+];
+
+const normal = (rng: () => number) => {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+/** Lower-triangular L with L·Lᵀ = matrix; throws when the matrix is not positive definite. */
+export const cholesky = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let acc = matrix[i][j];
+      for (let k = 0; k < j; k++) acc -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (acc <= 0) throw new Error('Correlation matrix is not positive definite');
+        L[i][j] = Math.sqrt(acc);
+      } else {
+        L[i][j] = acc / L[j][j];
+      }
+    }
+  }
+  return L;
+};
+
+const identity = (n: number) => Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+const correlatedNormals = (L: number[][], rng: () => number) => {
+  const z = L.map(() => normal(rng));
+  return L.map((row) => row.reduce((acc, l, k) => acc + l * z[k], 0));
+};
+
+const gbmStep = (symbols: string[], assets: Record<string, AssetParams>, L: number[][], rng: () => number) => {
+  const shocks = correlatedNormals(L, rng);
+  const out: Record<string, number> = {};
+  symbols.forEach((sym, i) => {
+    const { drift, vol } = assets[sym] ?? { drift: 0, vol: 0 };
+    const mu = drift / WEEKS_PER_YEAR;
+    const sigma = vol / Math.sqrt(WEEKS_PER_YEAR);
+    out[sym] = Math.exp(mu - (sigma * sigma) / 2 + sigma * shocks[i]) - 1;
+  });
+  return out;
+};
+
+const pickIndex = (weights: number[], rng: () => number) => {
+  let u = rng() * weights.reduce((acc, w) => acc + w, 0);
+  for (let i = 0; i < weights.length; i++) {
+    u -= weights[i];
+    if (u <= 0) return i;
+  }
+  return weights.length - 1;
+};
+
+/** Closes to simple returns, aligned across symbols by trimming to the shortest series' tail. */
+export const weeklyReturnsFromCloses = (closes: Record<string, number[]>): Record<string, number[]> => {
+  const series = Object.entries(closes).map(
+    ([sym, px]) => [sym, px.slice(1).map((p, i) => (px[i] > 0 ? p / px[i] - 1 : 0))] as const
+  );
+  const length = Math.min(...series.map(([, r]) => r.length));
+  return Object.fromEntries(series.map(([sym, r]) => [sym, r.slice(r.length - length)]));
+};
+
+/** Weekly closes for `symbols` from a backtest data dir (see README Backtesting), as bootstrap history. */
+export const loadWeeklyHistory = async (dataDir: string, symbols: string[], asOf: string, lookbackDays = 365 * 10) => {
+  const provider = new ReplayMarketDataProvider(dataDir, { barInterval: '1w' });
+  const closes: Record<string, number[]> = {};
+  for (const sym of symbols) {
+    const bars = await provider.getHistory(sym, asOf, lookbackDays);
+    if (bars.length > 1) closes[sym] = bars.map((b) => b.close);
+  }
+  return weeklyReturnsFromCloses(closes);
+};
+
+const validate = (spec: GeneratorSpec) => {
+  if (spec.paths < 1 || spec.weeks < 1) throw new Error('paths and weeks must be at least 1');
+  const n = spec.symbols.length;
+  if (spec.correlation && (spec.correlation.length !== n || spec.correlation.some((row) => row.length !== n))) {
+    throw new Error(`correlation must be ${n}x${n} (one row per symbol)`);
+  }
+  if (spec.model === 'bootstrap') {
+    const missing = spec.symbols.filter((s) => !spec.history?.[s]?.length);
+    if (missing.length) throw new Error(`bootstrap history missing for ${missing.join(', ')}`);
+    const lengths = new Set(spec.symbols.map((s) => spec.history![s].length));
+    if (lengths.size > 1) throw new Error('bootstrap history series must be aligned (equal length)');
+  }
+  if (spec.model === 'regime') {
+    const k = spec.regimes?.length ?? 0;
+    if (!k) throw new Error('regime model needs at least one regime');
+    if (!spec.transitions || spec.transitions.length !== k || spec.transitions.some((row) => row.length !== k)) {
+      throw new Error(`transitions must be ${k}x${k} (one row per regime)`);
+    }
+  }
+};
+
+/** Deterministic for a given spec (seeded); path i is named `MC_<MODEL>_<i>`. */
+export const generatePaths = (spec: GeneratorSpec): ScenarioPath[] => {
+  validate(spec);
+  const rng = mulberry32(spec.seed);
+  const L = cholesky(spec.correlation ?? identity(spec.symbols.length));
+  const trackingNoise = spec.trackingNoise ?? 0.002;
+  const paths: ScenarioPath[] = [];
+
+  for (let p = 0; p < spec.paths; p++) {
+    const returns: Array<Record<string, number>> = [];
+    const regimes: string[] = [];
+
+    if (spec.model === 'bootstrap') {
+      const history = spec.history as Record<string, number[]>;
+      const n = history[spec.symbols[0]].length;
+      const block = Math.max(1, Math.min(spec.blockWeeks ?? 4, n));
+      while (returns.length < spec.weeks) {
+        const start = Math.floor(rng() * (n - block + 1));
+        for (let t = start; t < start + block && returns.length < spec.weeks; t++) {
+          returns.push(Object.fromEntries(spec.symbols.map((s) => [s, history[s][t]])));
+        }
+      }
+    } else if (spec.model === 'gbm') {
+      const assets = spec.assets ?? DEFAULT_ASSETS;
+      for (let w = 0; w < spec.weeks; w++) returns.push(gbmStep(spec.symbols, assets, L, rng));
+    } else {
+      const regimeSpecs = spec.regimes as RegimeSpec[];
+      const transitions = spec.transitions as number[][];
+      let state = 0;
+      for (let w = 0; w < spec.weeks; w++) {
+        if (w > 0) state = pickIndex(transitions[state], rng);
+        regimes.push(regimeSpecs[state].name);
+        returns.push(gbmStep(spec.symbols, regimeSpecs[state].assets, L, rng));
+      }
+    }
+
+    const fired: ScenarioPath['shocks'] = [];
+    for (const shock of spec.shocks ?? []) {
+      for (let w = 0; w < spec.weeks; w++) {
+        if (rng() >= shock.probability) continue;
+        const until = Math.min(spec.weeks, w + (shock.durationWeeks ?? 1));
+        for (let t = w; t < until; t++) {
+          for (const [sym, r] of Object.entries(shock.returns)) {
+            if (returns[t][sym] !== undefined) returns[t][sym] = (1 + returns[t][sym]) * (1 + r) - 1;
+          }
+          fired.push({ weekIndex: t + 1, name: shock.name });
+        }
+        w = until - 1;
+      }
+    }
+
+    for (const row of returns) {
+      for (const [proxy, parent] of Object.entries(spec.proxies ?? {})) {
+        if (row[parent] !== undefined) row[proxy] = row[parent] + normal(rng) * trackingNoise;
+      }
+    }
+
+    paths.push({
+      name: `MC_${spec.model.toUpperCase()}_${String(p + 1).padStart(4, '0')}`,
+      returns,
+      ...(regimes.length ? { regimes } : {}),
+      shocks: fired
+    });
+  }
+  return paths;
+};
+
+/** A path as a simPortfolio scenario: week 0 is the quote anchor, week i+1 applies returns[i]. */
+export const pathToScenarioPreset = (path: ScenarioPath): ScenarioPreset => ({
+  name: path.name,
+  baseReturns: {},
+  events: [{ weekIndex: 0 }, ...path.returns.map((returns, i) => ({ weekIndex: i + 1, returns }))]
+});
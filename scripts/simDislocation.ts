@@ -5,6 +5,7 @@ import { planWholeShareExecution } from '../src/execution/wholeSharePlanner';
 import { detectDislocation } from '../src/dislocation/dislocationDetector';
 import { runSleeveLifecycle, deriveLifecycleBooleans } from '../src/dislocation/sleeveLifecycle';
 import { buildDislocationBuys } from '../src/execution/dislocationPlanner';
+import { checkBotConfig } from '../src/core/config';
 import { BotConfig, PortfolioState, SleevePositions, RegimeContext } from '../src/core/types';
 import { computeOverlayBudget, getAllowedExposurePct } from '../src/dislocation/overlayBudget';
 import { arbitrateSleeves } from '../src/sleeves/sleeveArbitration';
@@ -140,6 +141,7 @@ const baseConfig: BotConfig = {
   uiPort: 8787,
   uiBind: '127.0.0.1'
 };
+checkBotConfig(baseConfig, 'scripts/simDislocation.ts');
 
 interface SimState {
   portfolio: PortfolioState;
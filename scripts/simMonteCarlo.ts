@@ -0,0 +1,245 @@
+/* eslint-disable no-console */
+/**
+ * Runs the simPortfolio harness over generated scenario paths and reports distributions:
+ * drawdown-stop trips, dislocation sleeve usage, options reserve burn and final NAV.
+ *
+ * Usage: ts-node scripts/simMonteCarlo.ts [--model gbm|regime|bootstrap] [--paths 1000] [--weeks 26]
+ *   [--seed 1] [--block-weeks 4] [--data-dir history --as-of 2024-12-31] [--no-shocks] [--out path]
+ */
+import fs from 'fs';
+import path from 'path';
+import { baseConfig, runSimulation } from './simPortfolio';
+import {
+  DEFAULT_REGIMES,
+  DEFAULT_SHOCKS,
+  DEFAULT_TRANSITIONS,
+  GeneratorModel,
+  GeneratorSpec,
+  SIM_PROXIES,
+  SIM_SYMBOLS,
+  ScenarioPath,
+  defaultCorrelation,
+  generatePaths,
+  loadWeeklyHistory,
+  pathToScenarioPreset
+} from './scenarioGenerator';
+
+export interface PathOutcome {
+  name: string;
+  ok: boolean;
+  error?: string;
+  finalNav: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  drawdownTripped: boolean;
+  firstTripWeek: number | null;
+  dislocationEpisodes: number;
+  dislocationActiveWeeks: number;
+  dislocationBuyUSD: number;
+  optionsSpendUSD: number;
+  reserveBurnPct: number; // peak share of the reserve budget spent on options
+  shocks: number;
+}
+
+export interface Distribution {
+  mean: number;
+  min: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  max: number;
+}
+
+export interface MonteCarloSummary {
+  paths: number;
+  failedPaths: number;
+  startingCapitalUSD: number;
+  maxWeeklyDrawdownPct: number;
+  drawdownTripProbability: number;
+  dislocationEngagedProbability: number;
+  reserveUsedProbability: number;
+  finalNav: Distribution;
+  totalReturn: Distribution;
+  maxDrawdown: Distribution;
+  dislocationActiveWeeks: Distribution;
+  dislocationBuyUSD: Distribution;
+  optionsSpendUSD: Distribution;
+  reserveBurnPct: Distribution;
+}
+
+const quantile = (sorted: number[], q: number) => {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: sorted.length ? sorted.reduce((acc, v) => acc + v, 0) / sorted.length : 0,
+    min: sorted[0] ?? 0,
+    p5: quantile(sorted, 0.05),
+    p25: quantile(sorted, 0.25),
+    p50: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    p95: quantile(sorted, 0.95),
+    max: sorted[sorted.length - 1] ?? 0
+  };
+};
+
+/** Reduces one simPortfolio run to the stats the Monte Carlo aggregates. */
+export const summarizeSimPath = (name: string, weeks: any[], startingCapitalUSD: number, maxWeeklyDrawdownPct: number, shocks = 0): PathOutcome => {
+  let peak = startingCapitalUSD;
+  let maxDrawdown = 0;
+  let firstTripWeek: number | null = null;
+  let episodes = 0;
+  let activeWeeks = 0;
+  let buyUSD = 0;
+  let optionsSpend = 0;
+  let reserveBurnPct = 0;
+  let prevPhase = 'INACTIVE';
+  weeks.forEach((w, idx) => {
+    const nav = Number(w.nav) || 0;
+    peak = Math.max(peak, nav);
+    const drawdown = peak > 0 ? (peak - nav) / peak : 0;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    if (firstTripWeek === null && drawdown >= maxWeeklyDrawdownPct) firstTripWeek = idx;
+    const phase = w.dislocation?.phase ?? 'INACTIVE';
+    if (phase === 'ADD' && prevPhase !== 'ADD') episodes += 1;
+    if (phase === 'ADD' || phase === 'HOLD') activeWeeks += 1;
+    prevPhase = phase;
+    buyUSD += (w.overlayOrders ?? []).filter((o: any) => o.side === 'BUY').reduce((acc: number, o: any) => acc + (o.notionalUSD || 0), 0);
+    optionsSpend += (w.insurance?.spend || 0) + (w.growth?.spend || 0);
+    if (w.reserveBudget > 0) reserveBurnPct = Math.max(reserveBurnPct, (w.reserveUsedTotal || 0) / w.reserveBudget);
+  });
+  const finalNav = Number(weeks[weeks.length - 1]?.nav) || 0;
+  return {
+    name,
+    ok: true,
+    finalNav,
+    totalReturn: startingCapitalUSD > 0 ? finalNav / startingCapitalUSD - 1 : 0,
+    maxDrawdown,
+    drawdownTripped: firstTripWeek !== null,
+    firstTripWeek,
+    dislocationEpisodes: episodes,
+    dislocationActiveWeeks: activeWeeks,
+    dislocationBuyUSD: buyUSD,
+    optionsSpendUSD: optionsSpend,
+    reserveBurnPct,
+    shocks
+  };
+};
+
+export const summarizeMonteCarlo = (outcomes: PathOutcome[], startingCapitalUSD: number, maxWeeklyDrawdownPct: number): MonteCarloSummary => {
+  const ok = outcomes.filter((o) => o.ok);
+  const share = (pred: (o: PathOutcome) => boolean) => (ok.length ? ok.filter(pred).length / ok.length : 0);
+  const pick = (key: keyof PathOutcome) => distribution(ok.map((o) => o[key] as number));
+  return {
+    paths: outcomes.length,
+    failedPaths: outcomes.length - ok.length,
+    startingCapitalUSD,
+    maxWeeklyDrawdownPct,
+    drawdownTripProbability: share((o) => o.drawdownTripped),
+    dislocationEngagedProbability: share((o) => o.dislocationEpisodes > 0),
+    reserveUsedProbability: share((o) => o.optionsSpendUSD > 0),
+    finalNav: pick('finalNav'),
+    totalReturn: pick('totalReturn'),
+    maxDrawdown: pick('maxDrawdown'),
+    dislocationActiveWeeks: pick('dislocationActiveWeeks'),
+    dislocationBuyUSD: pick('dislocationBuyUSD'),
+    optionsSpendUSD: pick('optionsSpendUSD'),
+    reserveBurnPct: pick('reserveBurnPct')
+  };
+};
+
+export interface MonteCarloOptions {
+  startDate?: string;
+  startingCapitalUSD?: number;
+  maxWeeklyDrawdownPct?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Paths that break a harness invariant are recorded as failed rather than aborting the batch. */
+export const runMonteCarlo = async (paths: ScenarioPath[], opts: MonteCarloOptions = {}) => {
+  const startingCapitalUSD = opts.startingCapitalUSD ?? baseConfig.startingCapitalUSD;
+  const maxWeeklyDrawdownPct = opts.maxWeeklyDrawdownPct ?? baseConfig.maxWeeklyDrawdownPct;
+  const outcomes: PathOutcome[] = [];
+  for (const [i, p] of paths.entries()) {
+    try {
+      const weeks = await runSimulation({
+        startDate: opts.startDate ?? '2025-01-07',
+        weeks: p.returns.length + 1,
+        scenario: pathToScenarioPreset(p),
+        scenarioName: p.name,
+        startingCapitalUSD
+      });
+      outcomes.push(summarizeSimPath(p.name, weeks, startingCapitalUSD, maxWeeklyDrawdownPct, p.shocks.length));
+    } catch (err: any) {
+      outcomes.push({
+        ...summarizeSimPath(p.name, [], startingCapitalUSD, maxWeeklyDrawdownPct, p.shocks.length),
+        ok: false,
+        error: err?.message ?? String(err)
+      });
+    }
+    opts.onProgress?.(i + 1, paths.length);
+  }
+  return { outcomes, summary: summarizeMonteCarlo(outcomes, startingCapitalUSD, maxWeeklyDrawdownPct) };
+};
+
+const args = process.argv.slice(2);
+const argValue = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+};
+
+const main = async () => {
+  const model = (argValue('--model') ?? 'regime') as GeneratorModel;
+  if (!['gbm', 'regime', 'bootstrap'].includes(model)) throw new Error(`Unknown model ${model} (gbm|regime|bootstrap)`);
+  const spec: GeneratorSpec = {
+    model,
+    paths: Number(argValue('--paths') ?? 1000),
+    weeks: Number(argValue('--weeks') ?? 26),
+    seed: Number(argValue('--seed') ?? 1),
+    symbols: SIM_SYMBOLS,
+    proxies: SIM_PROXIES,
+    blockWeeks: Number(argValue('--block-weeks') ?? 4),
+    correlation: defaultCorrelation(SIM_SYMBOLS),
+    regimes: DEFAULT_REGIMES,
+    transitions: DEFAULT_TRANSITIONS,
+    shocks: args.includes('--no-shocks') ? [] : DEFAULT_SHOCKS
+  };
+  if (model === 'bootstrap') {
+    const dataDir = argValue('--data-dir');
+    if (!dataDir) throw new Error('--data-dir is required for the bootstrap model');
+    spec.history = await loadWeeklyHistory(path.resolve(dataDir), SIM_SYMBOLS, argValue('--as-of') ?? new Date().toISOString().slice(0, 10));
+    spec.symbols = SIM_SYMBOLS.filter((s) => spec.history?.[s]);
+    spec.correlation = undefined;
+  }
+  const paths = generatePaths(spec);
+  const { outcomes, summary } = await runMonteCarlo(paths, {
+    onProgress: (done, total) => {
+      if (done % 100 === 0 || done === total) console.log(`simulated ${done}/${total} paths`);
+    }
+  });
+  const out = path.resolve(argValue('--out') ?? `backtests/montecarlo/${model}_${spec.seed}.json`);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify({ spec: { ...spec, history: undefined }, summary, outcomes }, null, 2));
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  console.log(`P(drawdown stop ${pct(summary.maxWeeklyDrawdownPct)}) = ${pct(summary.drawdownTripProbability)}`);
+  console.log(`P(dislocation engaged) = ${pct(summary.dislocationEngagedProbability)}; overlay buys p50/p95 = ${summary.dislocationBuyUSD.p50.toFixed(0)}/${summary.dislocationBuyUSD.p95.toFixed(0)} USD`);
+  console.log(`reserve burn p50/p95 = ${pct(summary.reserveBurnPct.p50)}/${pct(summary.reserveBurnPct.p95)}`);
+  console.log(`final NAV p5/p50/p95 = ${summary.finalNav.p5.toFixed(0)}/${summary.finalNav.p50.toFixed(0)}/${summary.finalNav.p95.toFixed(0)}`);
+  if (summary.failedPaths) console.log(`${summary.failedPaths} paths failed a harness invariant (see outcomes[].error)`);
+  console.log(`wrote ${out}`);
+};
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -10,6 +10,7 @@
  * - Outputs rich diagnostics per week: pricesUsed, invariants, weight mapping, sleeve states
  */
 import { computeBudgets, computeNav } from '../src/core/capital';
+import { checkBotConfig } from '../src/core/config';
 import { BotConfig, PortfolioState, SleevePositions, PriceBar, DataQualityFlag, RegimeContext } from '../src/core/types';
 import { planWholeShareExecution } from '../src/execution/wholeSharePlanner';
 import {
@@ -52,7 +53,7 @@ const proxyMap: Record<string, string[]> = { SPY: ['SPYM'], QQQ: ['QQQM'], TLT:
 const symbolsOfInterest = ['SPY', 'QQQ', 'TLT', 'SPYM', 'QQQM', 'IWM', 'DIA', 'EFA', 'EEM', 'SHY', 'GLD'];
 const contractMultiplier = 100;
 
-const baseConfig: BotConfig = {
+export const baseConfig: BotConfig = {
   startingCapitalUSD: 2000,
   capital: { corePct: 0.7, reservePct: 0.3 },
   maxPositions: 4,
@@ -125,6 +126,7 @@ const baseConfig: BotConfig = {
   uiPort: 8787,
   uiBind: '127.0.0.1'
 };
+checkBotConfig(baseConfig, 'scripts/simPortfolio.ts');
 
 type BaseRegime = 'RISK_OFF' | 'NEUTRAL' | 'RISK_ON';
 interface BaseRegimeSnapshot {
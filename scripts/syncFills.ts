@@ -2,37 +2,51 @@ import path from 'path';
 import { loadConfig } from '../src/core/utils';
 import { getMarketDataProvider } from '../src/data/marketData';
 import { getBroker } from '../src/broker/broker';
-import { runIdToAsOf } from '../src/core/time';
-import { readRunArtifact, writeRunArtifact } from '../src/ledger/storage';
-import { appendEvent, makeEvent } from '../src/ledger/ledger';
-import { Fill, OrderPlacement } from '../src/core/types';
+import { readRunArtifact } from '../src/ledger/storage';
+import { getEvents } from '../src/ledger/ledger';
+import { eventsForAccount, resolveAccount, splitRunId } from '../src/core/accounts';
+import { isOpenOrder, replayOrders, syncRunOrders } from '../src/execution/orderLifecycle';
+import { OrderPlacement } from '../src/core/types';
 
 const args = process.argv.slice(2);
-const runArg = args.find((a) => a === '--run' || a === '-r');
-const runId = runArg ? args[args.indexOf(runArg) + 1] : args[0];
+const argValue = (...names: string[]) => {
+  const flag = args.find((a) => names.includes(a));
+  return flag ? args[args.indexOf(flag) + 1] : undefined;
+};
+const runArg = argValue('--run', '-r') ?? (args[0] && !args[0].startsWith('-') ? args[0] : undefined);
+const accountArg = argValue('--account');
 
-if (!runId) {
-  console.error('Usage: ts-node scripts/syncFills.ts --run <runId>');
+if (!runArg && !accountArg) {
+  console.error('Usage: ts-node scripts/syncFills.ts --run <runId> | --account <id> (resumes every open order of the account)');
   process.exit(1);
 }
 
 const main = async () => {
-  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'));
+  const account = resolveAccount(accountArg ?? (runArg ? splitRunId(runArg).accountId : undefined));
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
   const marketData = getMarketDataProvider('live' as any);
-  const broker = getBroker(config, marketData, 'live');
-  const asOf = runIdToAsOf(runId);
-  const placements = readRunArtifact<OrderPlacement[]>(runId, 'placements.json') || [];
-  if (!placements.length) {
-    console.error(`No placements.json found for run ${runId}`);
-    process.exit(1);
+  const broker = getBroker(config, marketData, 'live', account.id);
+
+  let runIds: string[];
+  if (runArg) {
+    const placements = readRunArtifact<OrderPlacement[]>(runArg, 'placements.json') || [];
+    if (!placements.length) {
+      console.error(`No placements.json found for run ${runArg}`);
+      process.exit(1);
+    }
+    runIds = [runArg];
+  } else {
+    const open = replayOrders(eventsForAccount(getEvents(), account.id)).filter(isOpenOrder);
+    runIds = Array.from(new Set(open.map((t) => t.runId)));
+    if (!runIds.length) console.log(`No open orders for account ${account.id}.`);
   }
-  const orderIds = placements.map((p) => String(p.orderId));
-  const fills: Fill[] = await broker.getFills(orderIds, asOf);
-  writeRunArtifact(runId, 'fills.json', fills);
-  for (const fill of fills) {
-    appendEvent(makeEvent(runId, 'FILL_RECORDED', { fill }));
+
+  for (const runId of runIds) {
+    const { orders, fills, flags } = await syncRunOrders(runId, broker, config, { marketData });
+    const states = orders.map((t) => `${t.order.symbol}:${t.state}`).join(', ');
+    console.log(`Synced ${runId}: ${fills.length} new fill(s); orders ${states || 'none'}`);
+    for (const flag of flags) console.warn(`  ${flag.code}: ${flag.message}`);
   }
-  console.log(`Synced fills for ${runId}. Wrote ${fills.length} fills to fills.json`);
 };
 
 main().catch((err) => {
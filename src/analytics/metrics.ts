@@ -2,32 +2,75 @@ import { EquityPoint } from '../core/types';
 import { average } from '../core/utils';
 
 export interface SummaryMetrics {
+  // Time-weighted, so deposits and withdrawals do not count as return.
   totalReturn: number;
   cagr: number;
   maxDrawdown: number;
   weeklyVolatility: number;
   turnover: number;
+  timeWeightedReturn: number;
+  // Annualized internal rate of return on the account's own cash flows.
+  moneyWeightedReturn: number;
+  netExternalFlows: number;
 }
 
+const DAY_MS = 86_400_000;
+
+/** Return over one period whose end equity includes `externalFlow` of new money (negative for withdrawals). */
+export const periodReturn = (prevEquity: number, equity: number, externalFlow = 0) =>
+  prevEquity > 0 ? (equity - externalFlow - prevEquity) / prevEquity : 0;
+
 export const computeWeeklyReturns = (points: EquityPoint[]): number[] => {
   const returns: number[] = [];
   for (let i = 1; i < points.length; i++) {
-    const prev = points[i - 1];
-    const curr = points[i];
-    const r = prev.equity > 0 ? (curr.equity - prev.equity) / prev.equity : 0;
-    returns.push(r);
+    returns.push(periodReturn(points[i - 1].equity, points[i].equity, points[i].externalFlow));
   }
   return returns;
 };
 
+/**
+ * Annualized rate that discounts the dated flows to zero, by bisection. Flows are from the investor's
+ * side: money put in is negative, money taken out (and the final value) positive.
+ */
+export const internalRateOfReturn = (flows: Array<{ date: string; amount: number }>): number | undefined => {
+  if (!flows.length) return undefined;
+  const t0 = Date.parse(flows[0].date);
+  const years = flows.map((f) => (Date.parse(f.date) - t0) / (365 * DAY_MS));
+  const npv = (rate: number) => flows.reduce((acc, f, i) => acc + f.amount / Math.pow(1 + rate, years[i]), 0);
+  let lo = -0.9999;
+  let hi = 1;
+  // Short windows annualize to large rates; widen until the bracket holds a root.
+  while (npv(lo) * npv(hi) > 0 && hi < 1e9) hi *= 10;
+  if (npv(lo) * npv(hi) > 0) return undefined;
+  for (let i = 0; i < 200 && hi - lo > 1e-10; i++) {
+    const mid = (lo + hi) / 2;
+    if (npv(lo) * npv(mid) <= 0) hi = mid;
+    else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
 export const computeSummaryMetrics = (points: EquityPoint[], startingCapital: number): SummaryMetrics => {
   if (!points.length) {
-    return { totalReturn: 0, cagr: 0, maxDrawdown: 0, weeklyVolatility: 0, turnover: 0 };
+    return {
+      totalReturn: 0,
+      cagr: 0,
+      maxDrawdown: 0,
+      weeklyVolatility: 0,
+      turnover: 0,
+      timeWeightedReturn: 0,
+      moneyWeightedReturn: 0,
+      netExternalFlows: 0
+    };
   }
   const finalEquity = points[points.length - 1].equity;
-  const totalReturn = startingCapital > 0 ? (finalEquity - startingCapital) / startingCapital : 0;
+  const growth = points.reduce(
+    (acc, p, i) => acc * (1 + periodReturn(i ? points[i - 1].equity : startingCapital, p.equity, p.externalFlow)),
+    1
+  );
+  const totalReturn = growth - 1;
   const weeks = Math.max(points.length, 1);
-  const cagr = weeks > 1 ? Math.pow(finalEquity / startingCapital, 52 / (weeks - 1)) - 1 : totalReturn;
+  const cagr = weeks > 1 ? Math.pow(growth, 52 / (weeks - 1)) - 1 : totalReturn;
   const maxDrawdown = Math.max(...points.map((p) => p.drawdown));
   const weeklyReturns = computeWeeklyReturns(points);
   const vol = weeklyReturns.length
@@ -35,11 +78,185 @@ export const computeSummaryMetrics = (points: EquityPoint[], startingCapital: nu
     : 0;
   const turnover = average(points.map((p) => Math.abs(p.exposure)));
 
+  const netExternalFlows = points.reduce((acc, p) => acc + (p.externalFlow ?? 0), 0);
+  const investorFlows = [
+    { date: points[0].date, amount: -startingCapital },
+    ...points.filter((p) => p.externalFlow).map((p) => ({ date: p.date, amount: -(p.externalFlow as number) })),
+    { date: points[points.length - 1].date, amount: finalEquity }
+  ];
+  const invested = startingCapital + netExternalFlows;
+  // A single day has no rate to annualize; fall back to the simple gain on money put in.
+  const sameDay = points[0].date.slice(0, 10) === points[points.length - 1].date.slice(0, 10);
+  const moneyWeightedReturn = sameDay
+    ? invested > 0
+      ? (finalEquity - invested) / invested
+      : 0
+    : internalRateOfReturn(investorFlows) ?? 0;
+
   return {
     totalReturn,
     cagr,
     maxDrawdown,
     weeklyVolatility: vol,
-    turnover
+    turnover,
+    timeWeightedReturn: totalReturn,
+    moneyWeightedReturn,
+    netExternalFlows
   };
 };
+
+/** Annualized Sharpe ratio of the per-period returns (no risk-free rate); the first period is measured from starting capital. */
+export const computeSharpe = (points: EquityPoint[], startingCapital: number, periodsPerYear = 52): number => {
+  const returns = points.map((p, i) => periodReturn(i ? points[i - 1].equity : startingCapital, p.equity, p.externalFlow));
+  if (returns.length < 2) return 0;
+  const mean = average(returns);
+  const sd = Math.sqrt(returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1));
+  return sd > 0 ? (mean / sd) * Math.sqrt(periodsPerYear) : 0;
+};
+
+export type StrategyTrack = 'live' | 'llm' | 'deterministic' | 'random';
+
+const TRACK_EQUITY: Record<StrategyTrack, (p: EquityPoint) => number | undefined> = {
+  live: (p) => p.equity,
+  llm: (p) => p.llmEquity,
+  deterministic: (p) => p.deterministicEquity,
+  random: (p) => p.randomEquity
+};
+
+export interface StrategyScore {
+  periods: number;
+  totalReturn: number;
+  meanPeriodReturn: number;
+  // Share of periods with a positive return.
+  hitRate: number;
+}
+
+export interface StrategyGap {
+  a: StrategyTrack;
+  b: StrategyTrack;
+  periods: number;
+  // Mean of a's period return minus b's, over periods both tracked.
+  meanDiff: number;
+  // Share of those periods where a beat b.
+  winRate: number;
+  // Paired t-test on the differences; undefined with fewer than 3 periods or no variance.
+  tStat?: number;
+  pValue?: number;
+}
+
+export interface StrategyComparison {
+  strategies: Partial<Record<StrategyTrack, StrategyScore>>;
+  gaps: StrategyGap[];
+}
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes betacf).
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+const logGamma = (z: number): number => {
+  // Lanczos approximation, g = 7.
+  const coef = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  const x = z - 1;
+  let acc = coef[0];
+  for (let i = 1; i < coef.length; i++) acc += coef[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(acc);
+};
+
+const incompleteBeta = (a: number, b: number, x: number) => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? (front * betaContinuedFraction(a, b, x)) / a : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+/** Two-sided p-value of a Student t statistic. */
+export const studentTPValue = (t: number, df: number) => incompleteBeta(df / 2, 0.5, df / (df + t * t));
+
+const trackReturns = (points: EquityPoint[], track: StrategyTrack, startingCapital: number) => {
+  const equity = TRACK_EQUITY[track];
+  const returns = new Map<string, number>();
+  let prev: number | undefined;
+  for (const p of points) {
+    const value = equity(p);
+    if (value === undefined) continue;
+    returns.set(p.date, periodReturn(prev ?? startingCapital, value, p.externalFlow));
+    prev = value;
+  }
+  return returns;
+};
+
+/**
+ * Scores the live curve and each shadow strategy curve, and tests every pair's per-period return gap.
+ * Each track's first period is measured from starting capital, like `computeSummaryMetrics`.
+ */
+export const computeStrategyComparison = (points: EquityPoint[], startingCapital: number): StrategyComparison => {
+  const tracks = (Object.keys(TRACK_EQUITY) as StrategyTrack[]).filter((t) => points.some((p) => TRACK_EQUITY[t](p) !== undefined));
+  const returns = new Map(tracks.map((t) => [t, trackReturns(points, t, startingCapital)]));
+  const strategies: StrategyComparison['strategies'] = {};
+  for (const track of tracks) {
+    const series = Array.from(returns.get(track)!.values());
+    strategies[track] = {
+      periods: series.length,
+      totalReturn: series.reduce((acc, r) => acc * (1 + r), 1) - 1,
+      meanPeriodReturn: average(series),
+      hitRate: series.length ? series.filter((r) => r > 0).length / series.length : 0
+    };
+  }
+  const gaps: StrategyGap[] = [];
+  for (let i = 0; i < tracks.length; i++) {
+    for (let j = i + 1; j < tracks.length; j++) {
+      const a = returns.get(tracks[i])!;
+      const b = returns.get(tracks[j])!;
+      const diffs = Array.from(a.entries())
+        .filter(([date]) => b.has(date))
+        .map(([date, r]) => r - (b.get(date) as number));
+      const n = diffs.length;
+      const meanDiff = average(diffs);
+      const variance = n > 1 ? diffs.reduce((acc, d) => acc + (d - meanDiff) ** 2, 0) / (n - 1) : 0;
+      const gap: StrategyGap = {
+        a: tracks[i],
+        b: tracks[j],
+        periods: n,
+        meanDiff,
+        winRate: n ? diffs.filter((d) => d > 0).length / n : 0
+      };
+      if (n >= 3 && variance > 0) {
+        gap.tStat = meanDiff / Math.sqrt(variance / n);
+        gap.pValue = studentTPValue(gap.tStat, n - 1);
+      }
+      gaps.push(gap);
+    }
+  }
+  return { strategies, gaps };
+};
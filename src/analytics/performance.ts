@@ -1,42 +1,54 @@
-import { BotConfig, EquityPoint, Fill } from '../core/types';
+import { BotConfig, EquityPoint, StrategyName } from '../core/types';
 import { MarketDataProvider } from '../data/marketData.types';
-import { readLedgerEvents } from '../ledger/storage';
-import { runIdToAsOf } from '../core/time';
+import { SHADOW_STRATEGIES, readLedgerEvents, readShadowEvents } from '../ledger/storage';
+import { asOfCutoffMs, runIdToAsOf } from '../core/time';
+import { DEFAULT_ACCOUNT_ID, eventsForAccount, splitRunId } from '../core/accounts';
+import { RECONCILIATION_RUN_ID, isSystemRunId } from '../ledger/ledger';
+import { lotBookOptions, lotPositions } from './taxLots';
+import { cashEffect, cashFlowsFromEvents, externalAmount } from '../ledger/cashFlows';
+import { PortfolioFold, createPortfolioFold, foldPortfolioEvent } from '../ledger/portfolioProjection';
+import { periodReturn } from './metrics';
 
-const applyFill = (
-  fill: Fill,
-  state: { cash: number; holdings: Record<string, { qty: number; cost: number }> }
-) => {
-  const direction = fill.side === 'BUY' ? 1 : -1;
-  const qty = direction * fill.quantity;
-  const current = state.holdings[fill.symbol] || { qty: 0, cost: 0 };
-  const newQty = current.qty + qty;
-  const newCost = current.cost + direction * fill.notional;
-  state.holdings[fill.symbol] = { qty: newQty, cost: newCost };
-  if (state.holdings[fill.symbol].qty === 0) delete state.holdings[fill.symbol];
-  state.cash -= direction * fill.notional;
+const SHADOW_EQUITY_KEY: Record<StrategyName, 'llmEquity' | 'deterministicEquity' | 'randomEquity'> = {
+  llm: 'llmEquity',
+  deterministic: 'deterministicEquity',
+  random: 'randomEquity'
 };
 
-const markToMarket = async (
-  asOf: string,
-  marketData: MarketDataProvider,
-  state: { cash: number; holdings: Record<string, { qty: number; cost: number }> }
-) => {
+// `flowCash` is the net of cash flows so far, shared by the live and shadow books.
+const markToMarket = async (asOf: string, marketData: MarketDataProvider, fold: PortfolioFold, flowCash: number) => {
   let holdingsValue = 0;
-  for (const [symbol, pos] of Object.entries(state.holdings)) {
+  for (const [symbol, pos] of Object.entries(lotPositions(fold.book))) {
     const quote = await marketData.getQuote(symbol, asOf);
-    holdingsValue += pos.qty * quote.price;
+    holdingsValue += pos.quantity * quote.price;
   }
-  const equity = state.cash + holdingsValue;
+  const equity = fold.tradeCash + flowCash + holdingsValue;
   const exposure = equity > 0 ? holdingsValue / equity : 0;
   return { equity, exposure };
 };
 
+// One curve per account: only that account's runs and fills, starting from its own startingCapitalUSD.
+// Events go through the same fold as getPortfolioAt, run by run, so each point includes its run's own
+// fills whenever they were recorded. Cash flows effective by a run's as-of are in its equity; drawdown is
+// measured on the flow-adjusted (time-weighted) value so a withdrawal is not a loss. Reconciliation
+// adjustments (manual trades, corporate actions) apply from their timestamp the same way. Each strategy's
+// shadow book gets the same flows and corporate actions but only its own shadow fills, and is charted
+// from its first recorded run.
 export const buildEquityCurve = async (
   config: BotConfig,
-  marketData: MarketDataProvider
+  marketData: MarketDataProvider,
+  accountId = DEFAULT_ACCOUNT_ID
 ): Promise<EquityPoint[]> => {
-  const events = readLedgerEvents();
+  const accountEvents = eventsForAccount(readLedgerEvents(), accountId);
+  const flows = cashFlowsFromEvents(accountEvents);
+  const adjustments = accountEvents
+    .filter(
+      (e) =>
+        splitRunId(e.runId).baseRunId === RECONCILIATION_RUN_ID &&
+        (e.type === 'FILL_RECORDED' || e.type === 'CORPORATE_ACTION_RECORDED')
+    )
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const events = accountEvents.filter((e) => !isSystemRunId(e.runId));
   const runs = Array.from(new Set(events.map((e) => e.runId)));
   runs.sort((a, b) => {
     const aTime = Math.min(
@@ -47,31 +59,60 @@ export const buildEquityCurve = async (
     );
     return aTime - bTime;
   });
-  const state = { cash: config.startingCapitalUSD, holdings: {} as Record<string, { qty: number; cost: number }> };
+  const options = lotBookOptions(config);
+  const state = createPortfolioFold(config, options);
+  const shadows = SHADOW_STRATEGIES.map((strategy) => ({
+    strategy,
+    events: eventsForAccount(readShadowEvents(strategy), accountId),
+    state: createPortfolioFold(config, options),
+    started: false
+  }));
   const points: EquityPoint[] = [];
-  let peak = config.startingCapitalUSD;
+  let prevEquity = config.startingCapitalUSD;
+  let index = 1;
+  let peak = 1;
+  let nextFlow = 0;
+  let nextAdjustment = 0;
+  let flowCash = 0;
 
   for (const runId of runs) {
     const asOfForRun = runIdToAsOf(runId);
-    const runEvents = events.filter((e) => e.runId === runId && e.type === 'FILL_RECORDED');
-    for (const evt of runEvents) {
-      const detail = evt.details as { fill?: Fill } | undefined;
-      if (!detail?.fill) continue;
-      applyFill(detail.fill, state);
+    for (const evt of events.filter((e) => e.runId === runId)) foldPortfolioEvent(state, evt);
+    for (const shadow of shadows) {
+      const shadowEvents = shadow.events.filter((e) => e.runId === runId);
+      if (shadowEvents.length) shadow.started = true;
+      for (const evt of shadowEvents) foldPortfolioEvent(shadow.state, evt);
+    }
+    const cutoff = asOfCutoffMs(asOfForRun);
+    while (nextAdjustment < adjustments.length && Date.parse(adjustments[nextAdjustment].timestamp) <= cutoff) {
+      const evt = adjustments[nextAdjustment++];
+      foldPortfolioEvent(state, evt);
+      if (evt.type === 'CORPORATE_ACTION_RECORDED') for (const shadow of shadows) foldPortfolioEvent(shadow.state, evt);
     }
-    const { equity, exposure } = await markToMarket(asOfForRun, marketData, state);
-    peak = Math.max(peak, equity);
-    const drawdown = peak > 0 ? (peak - equity) / peak : 0;
+    let externalFlow = 0;
+    while (nextFlow < flows.length && Date.parse(flows[nextFlow].effectiveAt) <= cutoff) {
+      flowCash += cashEffect(flows[nextFlow]);
+      externalFlow += externalAmount(flows[nextFlow]);
+      nextFlow++;
+    }
+    const { equity, exposure } = await markToMarket(asOfForRun, marketData, state, flowCash);
+    index *= 1 + periodReturn(prevEquity, equity, externalFlow);
+    prevEquity = equity;
+    peak = Math.max(peak, index);
+    const drawdown = peak > 0 ? (peak - index) / peak : 0;
     const spyQuote = await marketData.getQuote('SPY', asOfForRun);
-    points.push({
+    const point: EquityPoint = {
       date: asOfForRun,
       equity,
       exposure,
       drawdown,
       benchmarkSPY: spyQuote.price,
-      deterministicEquity: equity,
-      randomEquity: equity
-    });
+      ...(externalFlow ? { externalFlow } : {})
+    };
+    for (const shadow of shadows) {
+      if (shadow.started) point[SHADOW_EQUITY_KEY[shadow.strategy]] = (await markToMarket(asOfForRun, marketData, shadow.state, flowCash)).equity;
+    }
+    points.push(point);
   }
 
   return points;
@@ -79,9 +120,10 @@ export const buildEquityCurve = async (
 
 export const currentDrawdown = async (
   config: BotConfig,
-  marketData: MarketDataProvider
+  marketData: MarketDataProvider,
+  accountId = DEFAULT_ACCOUNT_ID
 ): Promise<number> => {
-  const curve = await buildEquityCurve(config, marketData);
+  const curve = await buildEquityCurve(config, marketData, accountId);
   if (!curve.length) return 0;
   return curve[curve.length - 1].drawdown;
 };
@@ -0,0 +1,207 @@
+import { BotConfig, Fill, PortfolioState, ProposalResult, RegimeContext, StrategyName, TradeOrder } from '../core/types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { eventsForAccount } from '../core/accounts';
+import { computeBudgets } from '../core/capital';
+import { ExposureGroups } from '../core/exposureGroups';
+import { SHADOW_STRATEGIES, appendShadowEvent, readLedgerEvents, readShadowEvents } from '../ledger/storage';
+import { makeEvent } from '../ledger/ledger';
+import { cashEffect, cashFlowsFromEvents, flowsThrough } from '../ledger/cashFlows';
+import { lotPositions } from './taxLots';
+import { createPortfolioFold, foldPortfolioEvent } from '../ledger/portfolioProjection';
+import { asOfCutoffMs } from '../core/time';
+import { planWholeShareExecution, ExecutionPlan } from '../execution/wholeSharePlanner';
+import { rebalancePortfolio, RebalanceResult } from '../execution/rebalanceEngine';
+import { runDeterministicBaseline } from '../strategy/deterministicBaseline';
+import { runRandomBaseline } from '../strategy/randomBaseline';
+import { generateLLMProposal } from '../strategy/llmProposer';
+
+/** Run-level inputs every strategy is planned against, so only the proposal differs. */
+export interface ShadowPlanningContext {
+  prices: Record<string, number>;
+  proxiesMap: Record<string, string[]>;
+  proxyParentMap: Record<string, string>;
+  exposureGroups: ExposureGroups;
+  regimes?: RegimeContext;
+  priorRegimes?: RegimeContext;
+  // Share of the core pool the regime allows deploying this run.
+  deployPct: number;
+  // Regime and data-quality exposure cap, before the proposal's own netExposureTarget.
+  marketExposureCap: number;
+}
+
+export interface ShadowRunResult {
+  strategy: StrategyName;
+  // False when the strategy failed to propose (e.g. invalid LLM output); the shadow then holds.
+  proposed: boolean;
+  proposal?: ProposalResult;
+  portfolio: PortfolioState;
+  planStatus?: ExecutionPlan['status'];
+  rebalanceStatus?: RebalanceResult['status'];
+  orders: TradeOrder[];
+  fills: Fill[];
+}
+
+/**
+ * The shadow book as of `asOf`: starting capital and the account's cash flows and corporate actions,
+ * plus the strategy's shadow fills.
+ */
+export const shadowPortfolioState = (
+  strategy: StrategyName,
+  config: BotConfig,
+  accountId: string,
+  asOf: string,
+  prices: Record<string, number>
+): PortfolioState => {
+  const cutoff = asOfCutoffMs(asOf);
+  const liveEvents = eventsForAccount(readLedgerEvents(), accountId);
+  const events = [
+    ...eventsForAccount(readShadowEvents(strategy), accountId),
+    ...liveEvents.filter((e) => e.type === 'CORPORATE_ACTION_RECORDED')
+  ]
+    .filter((e) => Date.parse(e.timestamp) <= cutoff)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const fold = createPortfolioFold(config);
+  for (const evt of events) foldPortfolioEvent(fold, evt);
+  let cash = fold.tradeCash;
+  for (const flow of flowsThrough(cashFlowsFromEvents(liveEvents), cutoff)) cash += cashEffect(flow);
+  const holdings = Object.entries(lotPositions(fold.book)).map(([symbol, pos]) => ({
+    symbol,
+    quantity: pos.quantity,
+    avgPrice: pos.costBasis / pos.quantity
+  }));
+  const equity = cash + holdings.reduce((acc, h) => acc + h.quantity * (prices[h.symbol] ?? h.avgPrice), 0);
+  return { cash, holdings, equity };
+};
+
+/** The live run's planning path: core budget and exposure cap, whole-share plan, then rebalance against the shadow book. */
+export const planShadowOrders = (
+  proposal: ProposalResult,
+  portfolio: PortfolioState,
+  config: BotConfig,
+  planning: ShadowPlanningContext,
+  asOf: string
+): { plan: ExecutionPlan; rebalance: RebalanceResult; orders: TradeOrder[] } => {
+  const deployBudgetUsd = computeBudgets(portfolio.equity, config).coreBudget * planning.deployPct;
+  const minCashUSD = Math.max(0, config.minCashPct * portfolio.equity);
+  const exposureCap = Math.min(planning.marketExposureCap, proposal.intent.orders[0]?.portfolioLevel?.netExposureTarget ?? 1);
+  const capBudget = Math.min(deployBudgetUsd, portfolio.equity * exposureCap);
+  const plan = planWholeShareExecution({
+    targets: proposal.intent.orders.map((o) => ({ symbol: o.symbol, notionalUSD: o.notionalUSD, priority: o.confidence })),
+    prices: planning.prices,
+    buyBudgetUSD: Math.max(0, Math.min(deployBudgetUsd, deployBudgetUsd - minCashUSD, capBudget)),
+    minCashUSD,
+    allowPartial: true,
+    minViablePositions: 1,
+    maxAbsWeightError: 0.2,
+    proxyMap: planning.proxiesMap,
+    allowProxies: config.allowExecutionProxies,
+    maxProxyTrackingErrorAbs: config.maxProxyTrackingErrorAbs,
+    exposureGroups: planning.exposureGroups
+  });
+  const prices: Record<string, number> = { ...planning.prices };
+  for (const o of plan.orders) if (!prices[o.symbol]) prices[o.symbol] = o.estPrice || 0;
+  for (const h of portfolio.holdings) if (!prices[h.symbol]) prices[h.symbol] = h.avgPrice || 0;
+  const rebalance = rebalancePortfolio({
+    asOf,
+    portfolio,
+    prices,
+    targetPlan: plan,
+    regimes: planning.regimes,
+    priorRegimes: planning.priorRegimes,
+    proxyParentMap: planning.proxyParentMap,
+    config,
+    exposureGroups: planning.exposureGroups
+  });
+  const orders = rebalance.status === 'OK' ? rebalance.combinedOrders : [];
+  return { plan, rebalance, orders };
+};
+
+/** Fills every order at the run's price with the stub broker's slippage; sells never exceed the shadow position. */
+export const fillShadowOrders = (
+  orders: TradeOrder[],
+  portfolio: PortfolioState,
+  prices: Record<string, number>,
+  config: BotConfig,
+  asOf: string
+): Fill[] => {
+  const held = new Map(portfolio.holdings.map((h) => [h.symbol, h.quantity]));
+  const timestamp = (asOf.includes('T') ? new Date(asOf) : new Date(`${asOf}T12:00:00Z`)).toISOString();
+  return orders.flatMap((order, i) => {
+    const px = prices[order.symbol];
+    if (!px || px <= 0) return [];
+    const planned = order.notionalUSD / px;
+    const quantity = order.side === 'SELL' ? Math.min(planned, held.get(order.symbol) ?? 0) : planned;
+    if (quantity <= 0) return [];
+    const price = px * (order.side === 'BUY' ? 1 + config.slippageBps / 10000 : 1 - config.slippageBps / 10000);
+    return [
+      {
+        orderId: `shadow-${i}-${order.symbol}`,
+        symbol: order.symbol,
+        side: order.side,
+        quantity,
+        price,
+        notional: quantity * price,
+        timestamp
+      }
+    ];
+  });
+};
+
+export interface ShadowRunInput {
+  runId: string;
+  asOf: string;
+  universe: string[];
+  config: BotConfig;
+  marketData: MarketDataProvider;
+  accountId: string;
+  // The proposal the live run went with; its strategy's shadow reuses it.
+  selected: ProposalResult;
+  // Proposals already attempted this run; null means the strategy failed to propose.
+  known?: Partial<Record<StrategyName, ProposalResult | null>>;
+  planning: ShadowPlanningContext;
+}
+
+const propose = async (strategy: StrategyName, input: ShadowRunInput, portfolio: PortfolioState): Promise<ProposalResult | null> => {
+  const { asOf, universe, config, marketData, planning } = input;
+  if (strategy === input.selected.strategy) return input.selected;
+  const known = input.known?.[strategy];
+  if (known !== undefined) return known;
+  if (strategy === 'deterministic') return runDeterministicBaseline(asOf, universe, config, portfolio, marketData, planning.regimes);
+  if (strategy === 'random') return runRandomBaseline(asOf, universe, config, portfolio, marketData);
+  const llm = await generateLLMProposal(asOf, universe, config, portfolio, marketData);
+  return llm.success ? llm.result : null;
+};
+
+/**
+ * Proposes, plans and fills every strategy against its own shadow book at this run's prices, and appends
+ * the hypothetical fills to the strategy's shadow ledger. A run already recorded in a shadow ledger is skipped.
+ */
+export const runShadowStrategies = async (input: ShadowRunInput): Promise<ShadowRunResult[]> => {
+  const results: ShadowRunResult[] = [];
+  for (const strategy of SHADOW_STRATEGIES) {
+    if (readShadowEvents(strategy).some((e) => e.runId === input.runId && e.type === 'PROPOSAL_CREATED')) continue;
+    const portfolio = shadowPortfolioState(strategy, input.config, input.accountId, input.asOf, input.planning.prices);
+    const proposal = await propose(strategy, input, portfolio);
+    const result: ShadowRunResult = { strategy, proposed: Boolean(proposal), portfolio, orders: [], fills: [] };
+    if (proposal) {
+      const planned = planShadowOrders(proposal, portfolio, input.config, input.planning, input.asOf);
+      result.proposal = proposal;
+      result.planStatus = planned.plan.status;
+      result.rebalanceStatus = planned.rebalance.status;
+      result.orders = planned.orders;
+      result.fills = fillShadowOrders(planned.orders, portfolio, input.planning.prices, input.config, input.asOf);
+    }
+    appendShadowEvent(
+      strategy,
+      makeEvent(input.runId, 'PROPOSAL_CREATED', {
+        strategy,
+        proposed: result.proposed,
+        orderCount: proposal?.intent.orders.length ?? 0,
+        plannedOrders: result.orders.length
+      })
+    );
+    for (const fill of result.fills) appendShadowEvent(strategy, makeEvent(input.runId, 'FILL_RECORDED', { fill, shadow: true }));
+    results.push(result);
+  }
+  return results;
+};
@@ -0,0 +1,331 @@
+import fs from 'fs';
+import path from 'path';
+import { BotConfig, Fill, HoldingTerm, LedgerEvent, LotReliefMethod, RealizedLot, TaxLot, TradeOrder } from '../core/types';
+import { ExposureGroups, loadExposureGroups } from '../core/exposureGroups';
+
+const DAY_MS = 86_400_000;
+const EPS = 1e-9;
+
+export interface LotBookOptions {
+  method?: LotReliefMethod;
+  washSaleWindowDays?: number;
+  // symbol -> wash-sale family; symbols missing from it only match themselves.
+  families?: Map<string, string>;
+}
+
+export interface LotBook {
+  method: LotReliefMethod;
+  washSaleWindowDays: number;
+  families: Map<string, string>;
+  // Open lots in the order they were opened.
+  lots: TaxLot[];
+  realized: RealizedLot[];
+  // Start of each symbol's current position (first BUY since it was last flat).
+  positionSince: Record<string, string>;
+  lotSeq: Record<string, number>;
+  // Loss shares of each realized lot not yet matched to a replacement purchase.
+  unmatchedLoss: Map<RealizedLot, number>;
+  // Lots already carrying a washed loss; a purchase replaces at most one sale.
+  replacementLots: Set<string>;
+}
+
+/**
+ * Groups symbols that count as substantially identical for wash sales: each proxies.json entry
+ * with its proxies, and each exposure group's members (so SPY, IVV, VOO and SPYM are one family).
+ */
+export const washSaleFamilies = (proxies: Record<string, string[]>, groups: ExposureGroups): Map<string, string> => {
+  const parent = new Map<string, string>();
+  const find = (symbol: string): string => {
+    let root = symbol;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root) as string;
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (!parent.has(ra)) parent.set(ra, ra);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+  for (const [symbol, alternates] of Object.entries(proxies)) {
+    union(symbol, symbol);
+    alternates.forEach((alt) => union(symbol, alt));
+  }
+  for (const group of Object.values(groups)) {
+    const [first, ...rest] = group.members ?? [];
+    if (!first) continue;
+    union(first, first);
+    rest.forEach((member) => union(first, member));
+  }
+  return new Map(Array.from(parent.keys()).map((symbol) => [symbol, find(symbol)]));
+};
+
+/** `tax.substantiallyIdentical` when set, otherwise families derived from the proxy and exposure group files. */
+export const loadWashSaleFamilies = (config: BotConfig): Map<string, string> => {
+  const explicit = config.tax?.substantiallyIdentical ?? [];
+  if (explicit.length) {
+    return new Map(explicit.flatMap((family) => family.map((symbol): [string, string] => [symbol, family[0]])));
+  }
+  const proxiesPath = path.resolve(process.cwd(), config.proxiesFile || 'src/config/proxies.json');
+  let proxies: Record<string, string[]> = {};
+  try {
+    if (fs.existsSync(proxiesPath)) proxies = JSON.parse(fs.readFileSync(proxiesPath, 'utf-8'));
+  } catch {
+    proxies = {};
+  }
+  return washSaleFamilies(proxies, loadExposureGroups(config.exposureGroupsFile));
+};
+
+export const lotBookOptions = (config: BotConfig): LotBookOptions => ({
+  method: config.tax?.lotMethod ?? 'FIFO',
+  washSaleWindowDays: config.tax?.washSaleWindowDays ?? 30,
+  families: loadWashSaleFamilies(config)
+});
+
+export const createLotBook = (options: LotBookOptions = {}): LotBook => ({
+  method: options.method ?? 'FIFO',
+  washSaleWindowDays: options.washSaleWindowDays ?? 30,
+  families: options.families ?? new Map(),
+  lots: [],
+  realized: [],
+  positionSince: {},
+  lotSeq: {},
+  unmatchedLoss: new Map(),
+  replacementLots: new Set()
+});
+
+/** Long-term once sold after the first anniversary of the holding period's start (calendar days, UTC). */
+export const holdingTerm = (holdingStart: string, closedAt: string): HoldingTerm => {
+  const anniversary = new Date(holdingStart);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return closedAt.slice(0, 10) > anniversary.toISOString().slice(0, 10) ? 'LONG' : 'SHORT';
+};
+
+const sameFamily = (book: LotBook, a: string, b: string) =>
+  a === b || (book.families.has(a) && book.families.get(a) === book.families.get(b));
+
+const withinWindow = (book: LotBook, a: string, b: string) =>
+  Math.abs(Date.parse(a) - Date.parse(b)) <= book.washSaleWindowDays * DAY_MS;
+
+// Lots named on the order go first whatever the method; the method orders the rest.
+const reliefOrder = (book: LotBook, symbol: string, lotIds: string[] = []): TaxLot[] => {
+  const held = book.lots.filter((l) => l.symbol === symbol);
+  const chosen = lotIds.flatMap((id) => held.filter((l) => l.lotId === id));
+  const rest = held.filter((l) => !chosen.includes(l)).sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+  if (book.method === 'HIFO') rest.sort((a, b) => b.costBasis / b.quantity - a.costBasis / a.quantity);
+  return [...chosen, ...rest];
+};
+
+/**
+ * Moves `quantity` of a loss onto a replacement lot: the disallowed loss is added to the lot's
+ * basis and the sold lot's holding period is tacked on. A partly used lot is split so only the
+ * replacement shares carry the adjustment.
+ */
+const washMatch = (book: LotBook, loss: RealizedLot, lot: TaxLot) => {
+  const open = book.unmatchedLoss.get(loss) ?? 0;
+  const quantity = Math.min(open, lot.quantity);
+  if (quantity <= EPS) return;
+  let target = lot;
+  if (quantity < lot.quantity - EPS) {
+    const key = `${lot.lotId}#w`;
+    book.lotSeq[key] = (book.lotSeq[key] ?? 0) + 1;
+    const share = quantity / lot.quantity;
+    target = {
+      ...lot,
+      lotId: `${lot.lotId}-w${book.lotSeq[key]}`,
+      quantity,
+      costBasis: lot.costBasis * share,
+      washSaleAdjustment: lot.washSaleAdjustment !== undefined ? lot.washSaleAdjustment * share : undefined
+    };
+    lot.quantity -= quantity;
+    lot.costBasis -= target.costBasis;
+    if (lot.washSaleAdjustment !== undefined) lot.washSaleAdjustment -= target.washSaleAdjustment as number;
+    book.lots.splice(book.lots.indexOf(lot), 0, target);
+  }
+  const disallowed = (-loss.gain * quantity) / loss.quantity;
+  const heldMs = Date.parse(loss.closedAt) - Date.parse(loss.holdingStart);
+  target.costBasis += disallowed;
+  target.washSaleAdjustment = (target.washSaleAdjustment ?? 0) + disallowed;
+  target.holdingStart = new Date(Date.parse(target.openedAt) - heldMs).toISOString();
+  book.replacementLots.add(target.lotId);
+  book.unmatchedLoss.set(loss, open - quantity);
+  loss.washSaleDisallowed = (loss.washSaleDisallowed ?? 0) + disallowed;
+  loss.washSaleReplacements = [...(loss.washSaleReplacements ?? []), target.lotId];
+};
+
+/**
+ * Applies one fill to the book. BUYs open a lot; SELLs relieve the order's `lotIds` first, then
+ * lots by the book's method (FIFO for SPECIFIC_ID), and return the realized lots. Losses are matched
+ * against substantially identical purchases within the wash-sale window on either side.
+ */
+export const applyFillToLots = (
+  book: LotBook,
+  fill: Fill,
+  context: { runId?: string; lotIds?: string[] } = {}
+): RealizedLot[] => {
+  if (!(fill.quantity > 0)) return [];
+  const orderId = String(fill.orderId);
+  if (fill.side === 'BUY') {
+    book.lotSeq[orderId] = (book.lotSeq[orderId] ?? 0) + 1;
+    const seq = book.lotSeq[orderId];
+    const lot: TaxLot = {
+      lotId: seq === 1 ? orderId : `${orderId}:${seq}`,
+      symbol: fill.symbol,
+      quantity: fill.quantity,
+      costBasis: fill.notional,
+      openedAt: fill.timestamp,
+      holdingStart: fill.timestamp,
+      orderId,
+      runId: context.runId
+    };
+    if (!book.lots.some((l) => l.symbol === fill.symbol)) book.positionSince[fill.symbol] = fill.timestamp;
+    book.lots.push(lot);
+    const losses = book.realized.filter(
+      (r) => (book.unmatchedLoss.get(r) ?? 0) > EPS && sameFamily(book, r.symbol, lot.symbol) && withinWindow(book, r.closedAt, lot.openedAt)
+    );
+    for (const loss of losses) {
+      if (book.replacementLots.has(lot.lotId)) break;
+      washMatch(book, loss, lot);
+    }
+    return [];
+  }
+
+  const realized: RealizedLot[] = [];
+  let remaining = fill.quantity;
+  for (const lot of reliefOrder(book, fill.symbol, context.lotIds)) {
+    if (remaining <= EPS) break;
+    const quantity = Math.min(lot.quantity, remaining);
+    const share = quantity / lot.quantity;
+    const costBasis = lot.costBasis * share;
+    const proceeds = (fill.notional * quantity) / fill.quantity;
+    realized.push({
+      lotId: lot.lotId,
+      symbol: lot.symbol,
+      quantity,
+      proceeds,
+      costBasis,
+      gain: proceeds - costBasis,
+      openedAt: lot.openedAt,
+      holdingStart: lot.holdingStart,
+      closedAt: fill.timestamp,
+      term: holdingTerm(lot.holdingStart, fill.timestamp),
+      sellOrderId: orderId,
+      runId: context.runId
+    });
+    lot.quantity -= quantity;
+    lot.costBasis -= costBasis;
+    if (lot.washSaleAdjustment !== undefined) lot.washSaleAdjustment *= 1 - share;
+    remaining -= quantity;
+  }
+  book.lots = book.lots.filter((l) => l.quantity > EPS);
+  if (!book.lots.some((l) => l.symbol === fill.symbol)) delete book.positionSince[fill.symbol];
+  book.realized.push(...realized);
+
+  for (const loss of realized.filter((r) => r.gain < 0)) {
+    book.unmatchedLoss.set(loss, loss.quantity);
+    const replacements = book.lots
+      .filter(
+        (l) =>
+          l.lotId !== loss.lotId &&
+          !book.replacementLots.has(l.lotId) &&
+          sameFamily(book, l.symbol, loss.symbol) &&
+          l.openedAt <= loss.closedAt &&
+          withinWindow(book, l.openedAt, loss.closedAt)
+      )
+      .sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+    for (const lot of replacements) washMatch(book, loss, lot);
+  }
+  return realized;
+};
+
+export interface CorporateAction {
+  symbol: string;
+  // New shares per old share (2 for a 2:1 split).
+  ratio: number;
+  // Set when the holding now trades under another ticker.
+  newSymbol?: string;
+}
+
+/** Split or ticker change: lots keep their basis and holding period; quantities scale by `ratio`. */
+export const applyCorporateAction = (book: LotBook, action: CorporateAction) => {
+  const target = action.newSymbol ?? action.symbol;
+  for (const lot of book.lots) {
+    if (lot.symbol !== action.symbol) continue;
+    lot.quantity *= action.ratio;
+    lot.symbol = target;
+  }
+  if (target !== action.symbol && book.positionSince[action.symbol]) {
+    book.positionSince[target] ??= book.positionSince[action.symbol];
+    delete book.positionSince[action.symbol];
+  }
+};
+
+/**
+ * Replays FILL_RECORDED and CORPORATE_ACTION_RECORDED events into a lot book; SELL orders' `lotIds`
+ * come from their ORDER_PLACED events.
+ */
+export const replayLotBook = (events: LedgerEvent[], options: LotBookOptions = {}): LotBook => {
+  const book = createLotBook(options);
+  const lotIdsByOrder = new Map<string, string[]>();
+  for (const evt of events) {
+    if (evt.type === 'CORPORATE_ACTION_RECORDED') {
+      applyCorporateAction(book, evt.details as unknown as CorporateAction);
+      continue;
+    }
+    if (evt.type === 'ORDER_PLACED') {
+      const order = evt.details?.order as TradeOrder | undefined;
+      const orderId = (evt.details?.placement as { orderId?: string | number } | undefined)?.orderId;
+      if (order?.lotIds?.length && orderId !== undefined) lotIdsByOrder.set(String(orderId), order.lotIds);
+      continue;
+    }
+    if (evt.type !== 'FILL_RECORDED') continue;
+    const fill = evt.details?.fill as Fill | undefined;
+    if (!fill) continue;
+    applyFillToLots(book, fill, { runId: evt.runId, lotIds: lotIdsByOrder.get(String(fill.orderId)) });
+  }
+  return book;
+};
+
+/** Quantity and basis per symbol; `costBasis` excludes wash-sale adjustments (what was actually paid). */
+export const lotPositions = (book: LotBook): Record<string, { quantity: number; costBasis: number; since?: string }> => {
+  const positions: Record<string, { quantity: number; costBasis: number; since?: string }> = {};
+  for (const lot of book.lots) {
+    const pos = positions[lot.symbol] ?? { quantity: 0, costBasis: 0, since: book.positionSince[lot.symbol] };
+    pos.quantity += lot.quantity;
+    pos.costBasis += lot.costBasis - (lot.washSaleAdjustment ?? 0);
+    positions[lot.symbol] = pos;
+  }
+  return positions;
+};
+
+export const unrealizedLots = (lots: TaxLot[], prices: Record<string, number>, asOf: string) =>
+  lots.map((lot) => {
+    const price = prices[lot.symbol];
+    const marketValue = price > 0 ? lot.quantity * price : undefined;
+    return {
+      ...lot,
+      price,
+      marketValue,
+      unrealizedGain: marketValue !== undefined ? marketValue - lot.costBasis : undefined,
+      term: holdingTerm(lot.holdingStart, asOf)
+    };
+  });
+
+const sumRealized = (rows: RealizedLot[]) => {
+  const proceeds = rows.reduce((acc, r) => acc + r.proceeds, 0);
+  const costBasis = rows.reduce((acc, r) => acc + r.costBasis, 0);
+  const washSaleDisallowed = rows.reduce((acc, r) => acc + (r.washSaleDisallowed ?? 0), 0);
+  return { proceeds, costBasis, washSaleDisallowed, gain: proceeds - costBasis + washSaleDisallowed };
+};
+
+/** Realized gains closed in `year`, split short/long term; `gain` is net of disallowed wash-sale losses. */
+export const realizedGainsReport = (realized: RealizedLot[], year: number) => {
+  const rows = realized.filter((r) => r.closedAt.startsWith(String(year)));
+  return {
+    year,
+    rows,
+    shortTerm: sumRealized(rows.filter((r) => r.term === 'SHORT')),
+    longTerm: sumRealized(rows.filter((r) => r.term === 'LONG')),
+    total: sumRealized(rows),
+    washSales: rows.filter((r) => (r.washSaleDisallowed ?? 0) > 0).length
+  };
+};
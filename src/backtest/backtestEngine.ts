@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { BotConfig, EquityPoint } from '../core/types';
+import { ensureDir, loadConfig, writeJSONFile } from '../core/utils';
+import { parseAsOfDateTime } from '../core/time';
+import { listRebalanceSessions } from '../core/calendar';
+import { ReplayMarketDataProvider } from '../data/marketData.replay';
+import { StubBroker } from '../broker/broker.stub';
+import { appendEvent, getRunStatus, makeEvent, RunStatus } from '../ledger/ledger';
+import { runInWorkspace, workspaceAt } from '../core/workspace';
+import { buildEquityCurve } from '../analytics/performance';
+import { computeSummaryMetrics, SummaryMetrics } from '../analytics/metrics';
+import { runBot } from '../cli/run';
+import { resolveTemplatesDir } from '../strategy/llmPrompt';
+
+export interface BacktestOptions {
+  from: string;
+  to: string;
+  dataDir: string;
+  strategy?: string;
+  outDir?: string;
+  config?: BotConfig;
+  configPath?: string;
+  startingCapitalUSD?: number;
+  // Session time (UTC) each replayed week runs at; defaults to just after the US close.
+  runTimeUTC?: string;
+}
+
+export interface BacktestWeek {
+  asOf: string;
+  runId: string;
+  status: RunStatus;
+  error?: string;
+}
+
+export interface BacktestResult {
+  outDir: string;
+  weeks: BacktestWeek[];
+  equityCurve: EquityPoint[];
+  metrics: SummaryMetrics & { startingCapitalUSD: number; finalEquity: number; weeksRun: number; weeksFailed: number };
+  equityCurvePath: string;
+  metricsPath: string;
+}
+
+// One rebalance per week on the configured weekday, rolled to the next session over market holidays.
+export const listRebalanceDates = (from: string, to: string, rebalanceDay: string): string[] => {
+  if (Number.isNaN(new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime()) || Number.isNaN(new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime())) {
+    throw new Error(`Invalid backtest range: ${from} -> ${to}`);
+  }
+  return listRebalanceSessions(from, to, rebalanceDay);
+};
+
+// Config file references are relative to the base directory; pin them so they do not depend on the caller's cwd.
+const absolutizeConfigPaths = (config: BotConfig, baseDir: string): BotConfig => ({
+  ...config,
+  universeFile: path.resolve(baseDir, config.universeFile),
+  proxiesFile: config.proxiesFile ? path.resolve(baseDir, config.proxiesFile) : config.proxiesFile,
+  exposureGroupsFile: config.exposureGroupsFile
+    ? path.resolve(baseDir, config.exposureGroupsFile)
+    : config.exposureGroupsFile,
+  prompt: config.prompt ? { ...config.prompt, templatesDir: resolveTemplatesDir(config) } : config.prompt
+});
+
+const writeEquityCurveCsv = (filePath: string, points: EquityPoint[]) => {
+  const lines = ['date,equity,drawdown,exposure,benchmarkSPY'];
+  for (const p of points) {
+    lines.push([p.date, p.equity.toFixed(2), p.drawdown.toFixed(4), p.exposure.toFixed(4), p.benchmarkSPY.toFixed(2)].join(','));
+  }
+  fs.writeFileSync(filePath, lines.join('\n'));
+};
+
+/**
+ * Replays each rebalance day in [from, to] through the full runBot pipeline against an isolated
+ * workspace (runs/, ledger/, data_cache/ under outDir), with ledger timestamps pinned to the
+ * simulated clock so the stub broker rebuilds the portfolio exactly as it stood that week. The
+ * workspace is scoped to this call; the process's cwd and environment are left alone.
+ */
+export const runBacktest = async (options: BacktestOptions): Promise<BacktestResult> => {
+  const baseDir = process.cwd();
+  const rawConfig =
+    options.config ?? loadConfig(path.resolve(baseDir, options.configPath || 'src/config/default.json'));
+  const config = absolutizeConfigPaths(
+    options.startingCapitalUSD ? { ...rawConfig, startingCapitalUSD: options.startingCapitalUSD } : rawConfig,
+    baseDir
+  );
+  const outDir = path.resolve(baseDir, options.outDir || path.join('backtests', `${options.from}_${options.to}`));
+  const marketData = new ReplayMarketDataProvider(path.resolve(baseDir, options.dataDir), {
+    barInterval: config.dislocation?.barInterval === '1d' ? '1d' : '1w'
+  });
+  const broker = new StubBroker(config, marketData);
+  const dates = listRebalanceDates(options.from, options.to, config.rebalanceDay);
+  const runTime = options.runTimeUTC || '21:00';
+
+  // A rerun replaces the previous workspace; stale fills would otherwise leak into the new replay.
+  fs.rmSync(outDir, { recursive: true, force: true });
+  ensureDir(outDir);
+
+  const weeks: BacktestWeek[] = [];
+  let tick = 0;
+  let simulatedNow = new Date();
+  // Millisecond ticks keep intra-run event order stable under the simulated clock.
+  const workspace = workspaceAt(outDir, () => new Date(simulatedNow.getTime() + tick++));
+  return runInWorkspace(workspace, async () => {
+    for (const date of dates) {
+      const { asOf, runId } = parseAsOfDateTime(`${date}T${runTime}Z`);
+      simulatedNow = new Date(`${asOf}:00Z`);
+      tick = 0;
+      try {
+        await runBot({
+          asof: asOf,
+          mode: 'backtest',
+          strategy: options.strategy || 'deterministic',
+          autoExec: true,
+          force: true,
+          config,
+          marketData,
+          broker,
+          skipConsolidatedReport: true
+        });
+        weeks.push({ asOf, runId, status: getRunStatus(runId) });
+      } catch (err) {
+        const message = (err as Error).message;
+        appendEvent(makeEvent(runId, 'RUN_FAILED', { error: message, stage: 'BACKTEST' }));
+        weeks.push({ asOf, runId, status: 'FAILED', error: message });
+      }
+    }
+
+    const equityCurve = await buildEquityCurve(config, marketData);
+    const summary = computeSummaryMetrics(equityCurve, config.startingCapitalUSD);
+    const metrics = {
+      ...summary,
+      startingCapitalUSD: config.startingCapitalUSD,
+      finalEquity: equityCurve.length ? equityCurve[equityCurve.length - 1].equity : config.startingCapitalUSD,
+      weeksRun: weeks.length,
+      weeksFailed: weeks.filter((w) => w.status === 'FAILED').length
+    };
+    const equityCurvePath = path.join(outDir, 'equity_curve.csv');
+    const metricsPath = path.join(outDir, 'metrics.json');
+    writeEquityCurveCsv(equityCurvePath, equityCurve);
+    writeJSONFile(metricsPath, {
+      from: options.from,
+      to: options.to,
+      dataDir: path.resolve(baseDir, options.dataDir),
+      strategy: options.strategy || 'deterministic',
+      metrics,
+      weeks
+    });
+    return { outDir, weeks, equityCurve, metrics, equityCurvePath, metricsPath };
+  });
+};
@@ -0,0 +1,435 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { BotConfig, EquityPoint } from '../core/types';
+import { applyConfigOverrides } from '../core/config';
+import { average, mulberry32, writeJSONFile } from '../core/utils';
+import { computeSharpe, computeSummaryMetrics } from '../analytics/metrics';
+import { listRebalanceDates, runBacktest } from './backtestEngine';
+
+const OBJECTIVE_METRICS = ['cagr', 'totalReturn', 'maxDrawdown', 'turnover', 'sharpe', 'weeklyVolatility'] as const;
+export type OptimizerMetric = (typeof OBJECTIVE_METRICS)[number];
+
+const rangeSchema = z
+  .object({
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().optional(),
+    integer: z.boolean().default(false)
+  })
+  .strict()
+  .refine((r) => r.min <= r.max, { message: 'min must not exceed max' });
+
+const parameterSchema = z.union([z.array(z.unknown()).min(1), rangeSchema]);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected YYYY-MM-DD');
+
+export const optimizerSpecSchema = z
+  .object({
+    from: isoDate,
+    to: isoDate,
+    dataDir: z.string().min(1),
+    strategy: z.enum(['deterministic', 'random', 'llm']).default('deterministic'),
+    startingCapitalUSD: z.number().positive().optional(),
+    windows: z
+      .object({
+        trainWeeks: z.number().int().min(1).default(26),
+        testWeeks: z.number().int().min(1).default(8),
+        // Defaults to testWeeks, so test windows tile without overlap.
+        stepWeeks: z.number().int().min(1).optional(),
+        // Anchored windows keep the first train date and grow; rolling ones slide.
+        anchored: z.boolean().default(false)
+      })
+      .strict()
+      .default({}),
+    search: z
+      .object({
+        mode: z.enum(['grid', 'random']).default('grid'),
+        samples: z.number().int().min(1).default(20),
+        seed: z.number().int().default(1),
+        maxCandidates: z.number().int().min(1).default(200),
+        // Dotted config paths, as for --set: a list of values, or a {min, max, step?, integer?} range.
+        parameters: z.record(parameterSchema)
+      })
+      .strict()
+      .refine((s) => Object.keys(s.parameters).length > 0, { message: 'at least one parameter is required', path: ['parameters'] })
+      .refine((s) => s.mode !== 'grid' || Object.values(s.parameters).every((p) => Array.isArray(p) || p.step !== undefined), {
+        message: 'grid search needs a value list or a range with a step for every parameter',
+        path: ['parameters']
+      }),
+    // Weighted sum; negative weights penalize (drawdown, turnover, volatility).
+    objectives: z.record(z.enum(OBJECTIVE_METRICS), z.number()).default({ cagr: 1, maxDrawdown: -1 })
+  })
+  .strict();
+
+export type OptimizerSpec = z.infer<typeof optimizerSpecSchema>;
+type RangeSpec = z.infer<typeof rangeSchema>;
+
+export const parseOptimizerSpec = (raw: unknown, source = 'optimizer spec'): OptimizerSpec => {
+  const result = optimizerSpecSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `  - ${i.path.join('.') || '<root>'}: ${i.message}`);
+    throw new Error(`Invalid optimizer spec (${source}):\n${issues.join('\n')}`);
+  }
+  return result.data;
+};
+
+export interface Candidate {
+  id: string;
+  parameters: Record<string, unknown>;
+}
+
+export type CandidateScore = Record<OptimizerMetric, number> & { objective: number };
+
+export interface Segment {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  train: Segment;
+  test: Segment;
+  // Best in-sample candidate, which is what walk-forward would have traded in the test window.
+  selected?: string;
+  inSample: Record<string, CandidateScore>;
+  outOfSample: Record<string, CandidateScore>;
+  // Spearman correlation of in-sample and out-of-sample objective ranks; near 1 means the ranking carries over.
+  rankCorrelation?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  id: string;
+  parameters: Record<string, unknown>;
+  inSampleObjective: number;
+  outOfSampleObjective: number;
+  outOfSampleStd: number;
+  // In-sample minus out-of-sample objective; large values suggest overfitting.
+  degradation: number;
+  // Share of windows whose out-of-sample objective was at least the median candidate's.
+  consistency: number;
+  timesSelected: number;
+  outOfSampleMetrics: Record<OptimizerMetric, number>;
+  failedSegments: number;
+}
+
+export interface WalkForwardStability {
+  windows: number;
+  meanRankCorrelation?: number;
+  // The selected candidate's out-of-sample results, window by window.
+  selectedOutOfSampleObjective: number;
+  selectedOutOfSampleReturn: number;
+  selectionChanges: number;
+}
+
+export interface WalkForwardResult {
+  spec: OptimizerSpec;
+  candidates: Candidate[];
+  rejected: Array<Candidate & { error: string }>;
+  windows: WalkForwardWindow[];
+  leaderboard: LeaderboardEntry[];
+  stability: WalkForwardStability;
+}
+
+/** Runs one candidate config over one segment and returns its equity curve. */
+export type SegmentEvaluator = (config: BotConfig, segment: Segment, candidate: Candidate) => Promise<EquityPoint[]>;
+
+const rangeValues = (range: RangeSpec): number[] => {
+  const step = range.step as number;
+  const values: number[] = [];
+  for (let i = 0; range.min + i * step <= range.max + 1e-9; i++) values.push(Number((range.min + i * step).toFixed(10)));
+  return values;
+};
+
+const sampleRange = (range: RangeSpec, rng: () => number): number => {
+  let value = range.min + rng() * (range.max - range.min);
+  if (range.step) value = range.min + Math.round((value - range.min) / range.step) * range.step;
+  if (range.integer) value = Math.round(value);
+  return Number(Math.min(range.max, value).toFixed(10));
+};
+
+/** Every grid combination, or `samples` distinct random draws; ids follow generation order. */
+export const generateCandidates = (search: OptimizerSpec['search']): Candidate[] => {
+  const keys = Object.keys(search.parameters);
+  let combos: Array<Record<string, unknown>> = [];
+  if (search.mode === 'grid') {
+    combos = [{}];
+    for (const key of keys) {
+      const spec = search.parameters[key];
+      const values = Array.isArray(spec) ? spec : rangeValues(spec);
+      combos = combos.flatMap((combo) => values.map((value) => ({ ...combo, [key]: value })));
+      if (combos.length > search.maxCandidates) {
+        throw new Error(`Grid has more than ${search.maxCandidates} candidates; narrow it or raise search.maxCandidates`);
+      }
+    }
+  } else {
+    const rng = mulberry32(search.seed);
+    const seen = new Set<string>();
+    const target = Math.min(search.samples, search.maxCandidates);
+    for (let attempt = 0; combos.length < target && attempt < target * 20; attempt++) {
+      const combo: Record<string, unknown> = {};
+      for (const key of keys) {
+        const spec = search.parameters[key];
+        combo[key] = Array.isArray(spec) ? spec[Math.floor(rng() * spec.length)] : sampleRange(spec, rng);
+      }
+      const fingerprint = JSON.stringify(combo);
+      if (seen.has(fingerprint)) continue;
+      seen.add(fingerprint);
+      combos.push(combo);
+    }
+  }
+  return combos.map((parameters, i) => ({ id: `c${String(i + 1).padStart(3, '0')}`, parameters }));
+};
+
+/** Train/test windows over the rebalance sessions in [from, to]; each test window follows its train window. */
+export const buildWalkForwardWindows = (dates: string[], windows: OptimizerSpec['windows']): Array<{ train: Segment; test: Segment }> => {
+  const step = windows.stepWeeks ?? windows.testWeeks;
+  const out: Array<{ train: Segment; test: Segment }> = [];
+  for (let trainEnd = windows.trainWeeks; trainEnd + windows.testWeeks <= dates.length; trainEnd += step) {
+    const trainStart = windows.anchored ? 0 : trainEnd - windows.trainWeeks;
+    const index = out.length;
+    out.push({
+      train: { label: `w${index + 1}-train`, from: dates[trainStart], to: dates[trainEnd - 1] },
+      test: { label: `w${index + 1}-test`, from: dates[trainEnd], to: dates[trainEnd + windows.testWeeks - 1] }
+    });
+  }
+  return out;
+};
+
+export const scoreCurve = (
+  points: EquityPoint[],
+  startingCapital: number,
+  objectives: OptimizerSpec['objectives']
+): CandidateScore => {
+  const summary = computeSummaryMetrics(points, startingCapital);
+  const metrics: Record<OptimizerMetric, number> = {
+    cagr: summary.cagr,
+    totalReturn: summary.totalReturn,
+    maxDrawdown: summary.maxDrawdown,
+    turnover: summary.turnover,
+    sharpe: computeSharpe(points, startingCapital),
+    weeklyVolatility: summary.weeklyVolatility
+  };
+  const objective = Object.entries(objectives).reduce((acc, [metric, weight]) => acc + (weight ?? 0) * metrics[metric as OptimizerMetric], 0);
+  return { ...metrics, objective };
+};
+
+const ranks = (values: number[]) => {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let k = i; k <= j; k++) out[order[k][1]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return out;
+};
+
+/** Spearman rank correlation (Pearson on average ranks); undefined below 3 pairs or with no spread. */
+export const spearman = (a: number[], b: number[]): number | undefined => {
+  if (a.length < 3 || a.length !== b.length) return undefined;
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const ma = average(ra);
+  const mb = average(rb);
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < ra.length; i++) {
+    cov += (ra[i] - ma) * (rb[i] - mb);
+    va += (ra[i] - ma) ** 2;
+    vb += (rb[i] - mb) ** 2;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : undefined;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const std = (values: number[]) => {
+  const mean = average(values);
+  return values.length > 1 ? Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1)) : 0;
+};
+
+/** Replays the segment through the backtest engine in a scratch workspace, removed afterwards. */
+export const backtestEvaluator =
+  (spec: OptimizerSpec, workDir: string): SegmentEvaluator =>
+  async (config, segment, candidate) => {
+    const outDir = path.join(workDir, candidate.id, segment.label);
+    try {
+      const result = await runBacktest({
+        from: segment.from,
+        to: segment.to,
+        dataDir: spec.dataDir,
+        strategy: spec.strategy,
+        config,
+        outDir,
+        startingCapitalUSD: spec.startingCapitalUSD
+      });
+      return result.equityCurve;
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  };
+
+/**
+ * Walk-forward search: every candidate is scored on each train window and again on the test window that
+ * follows, so the leaderboard ranks on out-of-sample results and shows how much of the in-sample edge survived.
+ */
+export const runWalkForward = async (
+  spec: OptimizerSpec,
+  baseConfig: BotConfig,
+  evaluate: SegmentEvaluator
+): Promise<WalkForwardResult> => {
+  const startingCapital = spec.startingCapitalUSD ?? baseConfig.startingCapitalUSD;
+  const generated = generateCandidates(spec.search);
+  const configs = new Map<string, BotConfig>();
+  const rejected: WalkForwardResult['rejected'] = [];
+  for (const candidate of generated) {
+    try {
+      configs.set(candidate.id, applyConfigOverrides(baseConfig, candidate.parameters, `candidate ${candidate.id}`));
+    } catch (err) {
+      rejected.push({ ...candidate, error: (err as Error).message });
+    }
+  }
+  const candidates = generated.filter((c) => configs.has(c.id));
+  if (!candidates.length) throw new Error('Every candidate failed config validation; see the parameter values');
+
+  const segments = buildWalkForwardWindows(listRebalanceDates(spec.from, spec.to, baseConfig.rebalanceDay), spec.windows);
+  if (!segments.length) {
+    throw new Error(`No walk-forward window fits ${spec.from} -> ${spec.to} with ${spec.windows.trainWeeks}+${spec.windows.testWeeks} weeks`);
+  }
+
+  const failures = new Map<string, number>();
+  const score = async (candidate: Candidate, segment: Segment): Promise<CandidateScore | undefined> => {
+    try {
+      const curve = await evaluate(configs.get(candidate.id) as BotConfig, segment, candidate);
+      if (curve.length) return scoreCurve(curve, startingCapital, spec.objectives);
+    } catch (err) {
+      console.warn(`Candidate ${candidate.id} failed on ${segment.label}: ${(err as Error).message}`);
+    }
+    failures.set(candidate.id, (failures.get(candidate.id) ?? 0) + 1);
+    return undefined;
+  };
+
+  const windows: WalkForwardWindow[] = [];
+  for (const [index, { train, test }] of segments.entries()) {
+    const window: WalkForwardWindow = { index, train, test, inSample: {}, outOfSample: {} };
+    for (const candidate of candidates) {
+      const inSample = await score(candidate, train);
+      if (inSample) window.inSample[candidate.id] = inSample;
+      const outOfSample = await score(candidate, test);
+      if (outOfSample) window.outOfSample[candidate.id] = outOfSample;
+    }
+    const ranked = Object.entries(window.inSample).sort((a, b) => b[1].objective - a[1].objective);
+    if (ranked.length) window.selected = ranked[0][0];
+    const paired = candidates.filter((c) => window.inSample[c.id] && window.outOfSample[c.id]);
+    const rankCorrelation = spearman(
+      paired.map((c) => window.inSample[c.id].objective),
+      paired.map((c) => window.outOfSample[c.id].objective)
+    );
+    if (rankCorrelation !== undefined) window.rankCorrelation = rankCorrelation;
+    windows.push(window);
+  }
+
+  const windowMedians = windows.map((w) => {
+    const values = Object.values(w.outOfSample).map((s) => s.objective);
+    return values.length ? median(values) : undefined;
+  });
+  const leaderboard = candidates
+    .map((candidate) => {
+      const inSample = windows.flatMap((w) => (w.inSample[candidate.id] ? [w.inSample[candidate.id]] : []));
+      const outOfSample = windows.flatMap((w) => (w.outOfSample[candidate.id] ? [w.outOfSample[candidate.id]] : []));
+      const oos = outOfSample.map((s) => s.objective);
+      const beatMedian = windows.filter((w, i) => w.outOfSample[candidate.id] && w.outOfSample[candidate.id].objective >= (windowMedians[i] as number));
+      return {
+        rank: 0,
+        id: candidate.id,
+        parameters: candidate.parameters,
+        inSampleObjective: average(inSample.map((s) => s.objective)),
+        outOfSampleObjective: oos.length ? average(oos) : -Infinity,
+        outOfSampleStd: std(oos),
+        degradation: average(inSample.map((s) => s.objective)) - average(oos),
+        consistency: outOfSample.length ? beatMedian.length / windows.length : 0,
+        timesSelected: windows.filter((w) => w.selected === candidate.id).length,
+        outOfSampleMetrics: Object.fromEntries(
+          OBJECTIVE_METRICS.map((metric) => [metric, average(outOfSample.map((s) => s[metric]))])
+        ) as Record<OptimizerMetric, number>,
+        failedSegments: failures.get(candidate.id) ?? 0
+      };
+    })
+    .sort((a, b) => b.outOfSampleObjective - a.outOfSampleObjective || b.consistency - a.consistency)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+
+  const selectedOos = windows.flatMap((w) => (w.selected && w.outOfSample[w.selected] ? [w.outOfSample[w.selected]] : []));
+  const correlations = windows.flatMap((w) => (w.rankCorrelation !== undefined ? [w.rankCorrelation] : []));
+  const stability: WalkForwardStability = {
+    windows: windows.length,
+    ...(correlations.length ? { meanRankCorrelation: average(correlations) } : {}),
+    selectedOutOfSampleObjective: average(selectedOos.map((s) => s.objective)),
+    selectedOutOfSampleReturn: selectedOos.reduce((acc, s) => acc * (1 + s.totalReturn), 1) - 1,
+    selectionChanges: windows.filter((w, i) => i > 0 && w.selected !== windows[i - 1].selected).length
+  };
+
+  return { spec, candidates, rejected, windows, leaderboard, stability };
+};
+
+const csvCell = (value: unknown) => {
+  const text =
+    typeof value === 'number'
+      ? Number.isInteger(value)
+        ? String(value)
+        : Number.isFinite(value)
+        ? value.toFixed(4)
+        : ''
+      : typeof value === 'string'
+      ? value
+      : JSON.stringify(value) ?? '';
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Writes leaderboard.json/.csv and walk_forward.json (every window's scores) under outDir. */
+export const writeWalkForwardReport = (outDir: string, result: WalkForwardResult) => {
+  const keys = Object.keys(result.spec.search.parameters);
+  const header = [
+    'rank',
+    'id',
+    ...keys,
+    'outOfSampleObjective',
+    'outOfSampleStd',
+    'inSampleObjective',
+    'degradation',
+    'consistency',
+    'timesSelected',
+    ...OBJECTIVE_METRICS.map((m) => `oos_${m}`),
+    'failedSegments'
+  ];
+  const rows = result.leaderboard.map((e) =>
+    [
+      e.rank,
+      e.id,
+      ...keys.map((k) => e.parameters[k]),
+      e.outOfSampleObjective,
+      e.outOfSampleStd,
+      e.inSampleObjective,
+      e.degradation,
+      e.consistency,
+      e.timesSelected,
+      ...OBJECTIVE_METRICS.map((m) => e.outOfSampleMetrics[m]),
+      e.failedSegments
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  const leaderboardPath = path.join(outDir, 'leaderboard.json');
+  writeJSONFile(leaderboardPath, { stability: result.stability, leaderboard: result.leaderboard, rejected: result.rejected });
+  fs.writeFileSync(path.join(outDir, 'leaderboard.csv'), [header.join(','), ...rows].join('\n'));
+  writeJSONFile(path.join(outDir, 'walk_forward.json'), { spec: result.spec, candidates: result.candidates, windows: result.windows });
+  return leaderboardPath;
+};
@@ -1,80 +1,31 @@
 import { BotConfig, Fill, OrderPlacement, OrderPreview, PortfolioState, TradeOrder } from '../core/types';
-import { MarketDataProvider } from '../data/marketData.types';
-import { readLedgerEvents } from '../ledger/storage';
+import { MarketDataProvider, Quote } from '../data/marketData.types';
 import { hashString } from '../core/utils';
-
-interface FillEventDetails {
-  fill: Fill;
-}
+import { DEFAULT_ACCOUNT_ID } from '../core/accounts';
+import { quoteTouch } from '../execution/limitPricing';
+import { getPortfolioAt, priceProjection } from '../ledger/portfolioProjection';
 
 export class StubBroker {
   private config: BotConfig;
   private marketData: MarketDataProvider;
-  private pending: Record<string, { symbol: string; quantity: number; price: number; side: 'BUY' | 'SELL' }> = {};
+  private accountId: string;
+  private pending: Record<string, { symbol: string; quantity: number; price: number; side: 'BUY' | 'SELL'; limitPrice?: number }> = {};
 
-  constructor(config: BotConfig, marketData: MarketDataProvider) {
+  constructor(config: BotConfig, marketData: MarketDataProvider, accountId: string = DEFAULT_ACCOUNT_ID) {
     this.config = config;
+    this.accountId = accountId;
     this.marketData = marketData;
   }
 
   async getPortfolioState(asOf: string): Promise<PortfolioState> {
-    const events = readLedgerEvents();
-    const cutoff = new Date(asOf.includes('T') ? asOf : `${asOf}T23:59:59Z`).getTime();
-    let cash = this.config.startingCapitalUSD;
-    const holdings: Record<string, { quantity: number; avgPrice: number; holdSince?: number }> = {};
-
-    for (const evt of events) {
-      const ts = new Date(evt.timestamp).getTime();
-      if (Number.isNaN(ts) || ts > cutoff) continue;
-      if (evt.type !== 'FILL_RECORDED') continue;
-      const detail = evt.details as FillEventDetails | undefined;
-      if (!detail || !detail.fill) continue;
-      const fill = detail.fill;
-      const direction = fill.side === 'BUY' ? 1 : -1;
-      const qty = direction * fill.quantity;
-      cash -= direction * fill.notional;
-      const current = holdings[fill.symbol] || { quantity: 0, avgPrice: 0, holdSince: undefined as number | undefined };
-      const newQty = current.quantity + qty;
-      const cost = current.avgPrice * current.quantity + direction * fill.notional;
-      const avgPrice = newQty !== 0 ? cost / newQty : current.avgPrice;
-      let holdSince = current.holdSince;
-      if (direction === 1 && current.quantity === 0 && newQty > 0) {
-        holdSince = ts;
-      }
-      if (direction === -1 && newQty <= 0) {
-        holdSince = undefined;
-      }
-      holdings[fill.symbol] = { quantity: newQty, avgPrice, holdSince };
-      if (holdings[fill.symbol].quantity <= 0) {
-        delete holdings[fill.symbol];
-      }
-    }
-
-    const pricedHoldings = await Promise.all(
-      Object.entries(holdings).map(async ([symbol, pos]) => {
-        const quote = await this.marketData.getQuote(symbol, asOf);
-        return { symbol, quantity: pos.quantity, avgPrice: pos.avgPrice, mark: quote.price, holdSince: pos.holdSince };
-      })
-    );
-
-    const equityFromHoldings = pricedHoldings.reduce((acc, h) => acc + h.quantity * h.mark, 0);
-    const equity = cash + equityFromHoldings;
-    return {
-      cash,
-      holdings: pricedHoldings.map((h) => ({
-        symbol: h.symbol,
-        quantity: h.quantity,
-        avgPrice: h.avgPrice,
-        holdSince: h.holdSince ? new Date(h.holdSince).toISOString() : undefined
-      })),
-      equity
-    };
+    // Each account's book is projected from its own ledger events only.
+    return priceProjection(getPortfolioAt(asOf, this.config, this.accountId), this.marketData);
   }
 
   async previewOrder(order: TradeOrder, asOf: string): Promise<OrderPreview> {
     const quote = await this.marketData.getQuote(order.symbol, asOf);
     const slip = order.side === 'BUY' ? 1 + this.config.slippageBps / 10000 : 1 - this.config.slippageBps / 10000;
-    const px = quote.price * slip;
+    const px = order.orderType === 'LIMIT' && order.limitPrice ? order.limitPrice : quote.price * slip;
     const quantity = order.notionalUSD / px;
     const fees = this.config.commissionPerTradeUSD;
     return {
@@ -92,7 +43,8 @@ export class StubBroker {
       symbol: order.symbol,
       quantity: preview.quantity,
       price: preview.estimatedCost / preview.quantity,
-      side: order.side
+      side: order.side,
+      limitPrice: order.orderType === 'LIMIT' ? order.limitPrice : undefined
     };
     return { ...preview, orderId };
   }
@@ -103,9 +55,11 @@ export class StubBroker {
       const pending = this.pending[id];
       const symbol = pending?.symbol || (typeof id === 'string' ? id.split('-')[1] : 'UNK');
       const quote = await this.marketData.getQuote(symbol, asOf);
-      const price = pending?.price ?? quote.price;
-      const quantity = pending?.quantity ?? 0;
       const side = pending?.side ?? 'BUY';
+      const limitFill = pending?.limitPrice ? this.simulateLimit(side, pending.limitPrice, quote) : undefined;
+      const price = limitFill ?? pending?.price ?? quote.price;
+      // A limit the market has moved away from keeps working (reported as a zero fill).
+      const quantity = pending?.limitPrice && limitFill === undefined ? 0 : pending?.quantity ?? 0;
       const ts = asOf.includes('T') ? new Date(asOf) : new Date(`${asOf}T12:00:00Z`);
       fills.push({
         orderId: id,
@@ -116,14 +70,26 @@ export class StubBroker {
         notional: price * quantity,
         timestamp: ts.toISOString()
       });
-      if (pending) {
+      if (pending && quantity > 0) {
         delete this.pending[id];
       }
     }
     return fills;
   }
 
-  async cancelOrder(_orderId: string): Promise<void> {
-    return;
+  // Marketable limits fill at the touch; limits inside the spread fill at their price once they reach
+  // the mid, otherwise nothing trades.
+  private simulateLimit(side: 'BUY' | 'SELL', limit: number, quote: Quote): number | undefined {
+    const touch = quoteTouch(quote, this.config.slippageBps);
+    if (side === 'BUY') {
+      if (limit >= touch.ask) return touch.ask;
+      return limit >= touch.mid ? limit : undefined;
+    }
+    if (limit <= touch.bid) return touch.bid;
+    return limit <= touch.mid ? limit : undefined;
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    delete this.pending[orderId];
   }
 }
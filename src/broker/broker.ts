@@ -5,27 +5,29 @@ import { ETradeBroker } from './etrade/etradeBroker';
 import { ETradeClient } from '../integrations/etradeClient';
 import { resolveTokenStorePath } from '../integrations/etradeTokenStore';
 import { getStatus } from './etrade/authService';
+import { resolveAccount } from '../core/accounts';
 
-export const getBroker = (config: BotConfig, marketData: MarketDataProvider, mode: Mode = 'paper') => {
+export const getBroker = (config: BotConfig, marketData: MarketDataProvider, mode: Mode = 'paper', accountId?: string) => {
+  const account = resolveAccount(accountId);
   const provider = (process.env.BROKER_PROVIDER || 'stub').toLowerCase();
   const consumerKey = process.env.ETRADE_CONSUMER_KEY;
   const consumerSecret = process.env.ETRADE_CONSUMER_SECRET;
   const allowLive = process.env.USE_ETRADE_ORDERS === 'true';
   if (!allowLive) {
     console.warn('USE_ETRADE_ORDERS not enabled; using stub broker.');
-    return new StubBroker(config, marketData);
+    return new StubBroker(config, marketData, account.id);
   }
   const allowLiveInPaper = process.env.USE_LIVE_BROKER_IN_PAPER === 'true' || allowLive;
   const wantsEtrade = provider === 'etrade' && (mode === 'live' || allowLiveInPaper);
   if (wantsEtrade) {
     if (!consumerKey || !consumerSecret) {
       console.warn('BROKER_PROVIDER=etrade but E*TRADE keys missing; falling back to stub broker.');
-      return new StubBroker(config, marketData);
+      return new StubBroker(config, marketData, account.id);
     }
     const status = getStatus();
     if (status.status !== 'ACTIVE') {
       console.warn(`E*TRADE auth not active (${status.status}); using stub broker.`);
-      return new StubBroker(config, marketData);
+      return new StubBroker(config, marketData, account.id);
     }
     const client = new ETradeClient({
       consumerKey,
@@ -34,9 +36,9 @@ export const getBroker = (config: BotConfig, marketData: MarketDataProvider, mod
       callbackUrl: process.env.ETRADE_CALLBACK_URL,
       tokenStorePath: resolveTokenStorePath()
     });
-    return new ETradeBroker(config, marketData, client);
+    return new ETradeBroker(config, marketData, client, account);
   }
-  return new StubBroker(config, marketData);
+  return new StubBroker(config, marketData, account.id);
 };
 
 export { StubBroker, ETradeBroker };
@@ -1,4 +1,4 @@
-import { Fill, OrderPlacement, OrderPreview, PortfolioState, TradeOrder } from '../core/types';
+import { BrokerOpenOrder, BrokerOrderStatus, Fill, OrderPlacement, OrderPreview, PortfolioState, TradeOrder } from '../core/types';
 
 export interface Broker {
   getPortfolioState(asOf: string): Promise<PortfolioState>;
@@ -6,4 +6,8 @@ export interface Broker {
   placeOrder(order: TradeOrder, asOf: string): Promise<OrderPlacement>;
   getFills(orderIds: string[], asOf: string): Promise<Fill[]>;
   cancelOrder(orderId: string): Promise<void>;
+  // Brokers that can report order status let the lifecycle see rejections and expiries; otherwise it infers them from fills.
+  getOrderStatus?(orderId: string, asOf: string): Promise<BrokerOrderStatus | undefined>;
+  // Every working order in the account, so reconciliation can spot ones the ledger does not know about.
+  getOpenOrders?(asOf: string): Promise<BrokerOpenOrder[]>;
 }
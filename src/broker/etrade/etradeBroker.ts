@@ -1,12 +1,73 @@
-import { BotConfig, Fill, OrderPlacement, OrderPreview, PortfolioState, TradeOrder } from '../../core/types';
+import { BotConfig, BrokerOpenOrder, BrokerOrderStatus, Fill, OrderPlacement, OrderPreview, PortfolioState, TradeOrder } from '../../core/types';
 import { MarketDataProvider } from '../../data/marketData.types';
 import { Broker } from '../broker.types';
 import { ETradeClient } from '../../integrations/etradeClient';
 import { StubBroker } from '../broker.stub';
+import { AccountProfile, brokerAccountIdKey, DEFAULT_ACCOUNT_ID } from '../../core/accounts';
 
 const baseApi = (env: string) => (env === 'prod' ? 'https://api.etrade.com' : 'https://apisb.etrade.com');
 const ORDER_STATUS_URL = (env: string, accountKey: string, orderId: string | number) =>
   `${baseApi(env)}/v1/accounts/${accountKey}/orders/${orderId}.json`;
+const OPEN_ORDERS_URL = (env: string, accountKey: string) =>
+  `${baseApi(env)}/v1/accounts/${accountKey}/orders.json?status=OPEN&count=100`;
+const CANCEL_ORDER_URL = (env: string, accountKey: string) => `${baseApi(env)}/v1/accounts/${accountKey}/orders/cancel.json`;
+
+const ORDER_STATUS_MAP: Record<string, BrokerOrderStatus['status']> = {
+  OPEN: 'OPEN',
+  CANCEL_REQUESTED: 'OPEN',
+  PARTIAL: 'PARTIALLY_FILLED',
+  INDIVIDUAL_FILLS: 'PARTIALLY_FILLED',
+  EXECUTED: 'FILLED',
+  DONE_TRADE_EXECUTED: 'FILLED',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED',
+  REJECTED: 'REJECTED'
+};
+
+const extractOrderStatus = (payload: any, orderId: string): BrokerOrderStatus | undefined => {
+  const details =
+    payload?.OrdersResponse?.Order?.[0]?.OrderDetail ??
+    payload?.OrderResponse?.OrderDetail ??
+    payload?.OrdersResponse?.OrderDetail ??
+    [];
+  const detail = Array.isArray(details) ? details[0] : details;
+  const status = ORDER_STATUS_MAP[String(detail?.status || '').toUpperCase()];
+  if (!status) return undefined;
+  const instruments = detail?.Instrument || [];
+  const inst = Array.isArray(instruments) ? instruments[0] : instruments;
+  const filled = Number(inst?.filledQuantity);
+  return { orderId, status, filledQuantity: Number.isFinite(filled) ? filled : undefined };
+};
+
+const extractOpenOrders = (payload: any): BrokerOpenOrder[] => {
+  const orders = payload?.OrdersResponse?.Order ?? [];
+  const out: BrokerOpenOrder[] = [];
+  for (const order of Array.isArray(orders) ? orders : [orders]) {
+    const details = order?.OrderDetail ?? [];
+    for (const detail of Array.isArray(details) ? details : [details]) {
+      const instruments = detail?.Instrument ?? [];
+      for (const inst of Array.isArray(instruments) ? instruments : [instruments]) {
+        const symbol = inst?.Product?.symbol;
+        const quantity = Number(inst?.orderedQuantity ?? inst?.quantity);
+        if (!symbol || !Number.isFinite(quantity)) continue;
+        const filled = Number(inst?.filledQuantity);
+        out.push({
+          orderId: String(order?.orderId),
+          symbol,
+          side: String(inst?.orderAction).toUpperCase().startsWith('SELL') ? 'SELL' : 'BUY',
+          quantity,
+          filledQuantity: Number.isFinite(filled) ? filled : undefined
+        });
+      }
+    }
+  }
+  return out;
+};
+
+const priceTerms = (order: TradeOrder) =>
+  order.orderType === 'LIMIT' && order.limitPrice
+    ? { priceType: 'LIMIT', limitPrice: order.limitPrice.toFixed(2) }
+    : { priceType: 'MARKET', limitPrice: '' };
 
 const extractExecutions = (payload: any, asOf?: string) => {
   const fills: {
@@ -15,6 +76,7 @@ const extractExecutions = (payload: any, asOf?: string) => {
     quantity: number;
     price: number;
     time?: string;
+    executionId?: string;
   }[] = [];
 
   const orderDetails =
@@ -54,7 +116,8 @@ const extractExecutions = (payload: any, asOf?: string) => {
           side: inst?.orderAction === 'SELL' ? 'SELL' : 'BUY',
           quantity: qty,
           price,
-          time: timeIso
+          time: timeIso,
+          ...(ex?.executionId !== undefined ? { executionId: String(ex.executionId) } : {})
         });
       }
     }
@@ -74,9 +137,11 @@ export class ETradeBroker implements Broker {
   private marketData: MarketDataProvider;
   private config: BotConfig;
   private hardFail: boolean;
+  private account: AccountProfile;
 
-  constructor(config: BotConfig, marketData: MarketDataProvider, client: ETradeClient) {
-    this.delegate = new StubBroker(config, marketData);
+  constructor(config: BotConfig, marketData: MarketDataProvider, client: ETradeClient, account?: AccountProfile) {
+    this.account = account ?? { id: DEFAULT_ACCOUNT_ID, label: 'Default' };
+    this.delegate = new StubBroker(config, marketData, this.account.id);
     this.client = client;
     this.env = (process.env.ETRADE_ENV as string) || 'sandbox';
     this.marketData = marketData;
@@ -99,7 +164,7 @@ export class ETradeBroker implements Broker {
         throw new Error(`accounts list parse error: ${text.slice(0, 200)}`);
       }
       const accounts: any[] = json?.AccountListResponse?.Accounts?.Account || [];
-      const override = process.env.ETRADE_ACCOUNT_ID_KEY;
+      const override = brokerAccountIdKey(this.account);
       const activeBrokerage = accounts.filter(
         (a) => a?.accountStatus === 'ACTIVE' && String(a?.institutionType || '').toUpperCase().includes('BROKERAGE')
       );
@@ -107,6 +172,10 @@ export class ETradeBroker implements Broker {
         this.accountIdKey = override;
         return override;
       }
+      // A named account must never fall through to whichever brokerage account happens to be listed.
+      if (this.account.id !== DEFAULT_ACCOUNT_ID) {
+        throw new Error(`account ${this.account.id}: accountIdKey ${override ?? '(unset)'} is not an active brokerage account`);
+      }
       // Prefer self-directed / non-managed accounts
       const pick = activeBrokerage.find(
         (a) =>
@@ -280,11 +349,10 @@ export class ETradeBroker implements Broker {
         Order: [
           {
             allOrNone: 'false',
-            priceType: 'MARKET',
+            ...priceTerms(order),
             orderTerm: 'GOOD_FOR_DAY',
             marketSession: 'REGULAR',
             stopPrice: '',
-            limitPrice: '',
             Instrument: [
               {
                 Product: { securityType: 'EQ', symbol: order.symbol },
@@ -354,11 +422,10 @@ export class ETradeBroker implements Broker {
               Order: [
                 {
                   allOrNone: 'false',
-                  priceType: 'MARKET',
+                  ...priceTerms(order),
                   orderTerm: 'GOOD_FOR_DAY',
                   marketSession: 'REGULAR',
                   stopPrice: '',
-                  limitPrice: '',
                   Instrument: [
                     {
                       Product: { securityType: 'EQ', symbol: order.symbol },
@@ -384,7 +451,8 @@ export class ETradeBroker implements Broker {
             parsed?.PlaceOrderResponse?.OrderIds?.[0]?.orderId ??
             parsed?.PlaceOrderResponse?.orderIds?.[0]?.orderId ??
             `live-${order.symbol}-${Date.now()}`;
-          return { ...preview, orderId, raw: parsed };
+          // The stub preview may be fractional; the lifecycle tracks fills against the whole shares actually sent.
+          return { ...preview, quantity: qty, orderId, raw: parsed };
         };
 
         try {
@@ -417,6 +485,7 @@ export class ETradeBroker implements Broker {
           for (const ex of execs) {
             fills.push({
               orderId: String(id),
+              ...(ex.executionId ? { executionId: ex.executionId } : {}),
               symbol: ex.symbol,
               side: ex.side,
               quantity: ex.quantity,
@@ -449,7 +518,46 @@ export class ETradeBroker implements Broker {
   }
 
   async cancelOrder(orderId: string): Promise<void> {
-    // Best effort; fallback to no-op
-    return this.delegate.cancelOrder(orderId);
+    if (process.env.USE_ETRADE_ORDERS !== 'true') return this.delegate.cancelOrder(orderId);
+    const accountKey = await this.getAccountIdKey();
+    if (!accountKey) throw new Error('No accountIdKey for order cancel');
+    const resp = await this.client.signedFetch(CANCEL_ORDER_URL(this.env, accountKey), 'PUT', {
+      body: JSON.stringify({ CancelOrderRequest: { orderId: Number(orderId) } }),
+      contentType: 'application/json'
+    });
+    const text = await resp.text();
+    if (!resp.ok) throw new Error(`cancel order failed ${resp.status}: ${text.slice(0, 400)}`);
+  }
+
+  async getOpenOrders(_asOf: string): Promise<BrokerOpenOrder[]> {
+    const accountKey = await this.getAccountIdKey();
+    if (!accountKey) return [];
+    try {
+      const resp = await this.client.signedFetch(OPEN_ORDERS_URL(this.env, accountKey), 'GET');
+      if (resp.status === 204) return [];
+      const text = await resp.text();
+      if (!resp.ok) throw new Error(`open orders ${resp.status}: ${text.slice(0, 400)}`);
+      return extractOpenOrders(text ? JSON.parse(text) : {});
+    } catch (err) {
+      console.warn(`E*TRADE open orders error: ${(err as Error).message}`);
+      if (this.hardFail) throw err;
+      return [];
+    }
+  }
+
+  async getOrderStatus(orderId: string, _asOf: string): Promise<BrokerOrderStatus | undefined> {
+    if (process.env.USE_ETRADE_ORDERS !== 'true') return undefined;
+    const accountKey = await this.getAccountIdKey();
+    if (!accountKey) return undefined;
+    try {
+      const resp = await this.client.signedFetch(ORDER_STATUS_URL(this.env, accountKey, orderId), 'GET');
+      const text = await resp.text();
+      if (!resp.ok) throw new Error(`order status ${resp.status}: ${text.slice(0, 400)}`);
+      return extractOrderStatus(JSON.parse(text), orderId);
+    } catch (err) {
+      console.warn(`E*TRADE order status error: ${(err as Error).message}`);
+      if (this.hardFail) throw err;
+      return undefined;
+    }
   }
 }
@@ -0,0 +1,380 @@
+import {
+  BotConfig,
+  BrokerOpenOrder,
+  BrokerOrderStatus,
+  LedgerEvent,
+  LedgerEventType,
+  PortfolioState,
+  TradeOrder
+} from '../core/types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { Broker } from './broker.types';
+import { StubBroker } from './broker.stub';
+import { DEFAULT_ACCOUNT_ID, accountRunId, eventsForAccount } from '../core/accounts';
+import { asOfCutoffMs } from '../core/time';
+import { RECONCILIATION_RUN_ID, appendEvent, getEvents, makeEvent } from '../ledger/ledger';
+import { cashFlowEventFor } from '../ledger/cashFlows';
+import { TrackedOrder, isOpenOrder, replayOrders } from '../execution/orderLifecycle';
+
+const DAY_MS = 86_400_000;
+const EPS = 1e-6;
+const CASH_EPS = 0.01;
+// New shares per old share for the splits and reverse splits we recognise.
+const SPLIT_RATIOS = [2, 3, 4, 5, 10, 3 / 2, 1 / 2, 1 / 3, 1 / 4, 1 / 5, 1 / 10, 2 / 3];
+
+export type ReconciliationBreakKind =
+  | 'MISSING_FILL'
+  | 'MANUAL_TRADE'
+  | 'CORPORATE_ACTION'
+  | 'DIVIDEND'
+  | 'CASH_FLOW'
+  | 'ORDER_STATE';
+
+// A ledger event that would bring the ledger in line with the broker.
+export interface LedgerAdjustment {
+  runId: string;
+  type: LedgerEventType;
+  details: Record<string, unknown>;
+}
+
+export interface ReconciliationBreak {
+  kind: ReconciliationBreakKind;
+  symbol?: string;
+  orderId?: string;
+  ledgerQuantity?: number;
+  brokerQuantity?: number;
+  // Broker minus ledger shares this break accounts for.
+  quantity?: number;
+  cashUSD?: number;
+  valueUSD: number;
+  message: string;
+  // Empty when the fix belongs at the broker (e.g. an order the bot never placed).
+  adjustments: LedgerAdjustment[];
+}
+
+export interface ReconciliationReport {
+  asOf: string;
+  accountId: string;
+  ledger: { cash: number; holdings: Record<string, number>; openOrders: string[] };
+  broker: { cash: number; holdings: Record<string, number>; openOrders?: string[] };
+  breaks: ReconciliationBreak[];
+  breakUSD: number;
+  toleranceUSD: number;
+  withinTolerance: boolean;
+}
+
+export interface ReconcileInput {
+  asOf: string;
+  accountId?: string;
+  // The book rebuilt from the ledger (StubBroker.getPortfolioState).
+  ledger: PortfolioState;
+  broker: PortfolioState;
+  prices: Record<string, number>;
+  // The account's orders replayed from the ledger.
+  orders: TrackedOrder[];
+  // Undefined when the broker cannot list working orders.
+  brokerOpenOrders?: BrokerOpenOrder[];
+  orderStatuses?: Record<string, BrokerOrderStatus>;
+  config: BotConfig;
+}
+
+const quantities = (state: PortfolioState) =>
+  Object.fromEntries(state.holdings.filter((h) => h.quantity > EPS).map((h) => [h.symbol, h.quantity]));
+
+const costBasis = (state: PortfolioState, symbol: string) => {
+  const holding = state.holdings.find((h) => h.symbol === symbol);
+  return holding ? holding.quantity * holding.avgPrice : 0;
+};
+
+// A split or ticker change moves shares but not what was paid for them.
+const sameBasis = (a: number, b: number) => a > 0 && Math.abs(a - b) <= 0.01 * a;
+
+const remaining = (tracked: TrackedOrder) =>
+  Math.max(0, tracked.quantity - tracked.fills.reduce((acc, f) => acc + f.quantity, 0));
+
+const fillAdjustment = (
+  runId: string,
+  orderId: string,
+  symbol: string,
+  side: TradeOrder['side'],
+  quantity: number,
+  price: number,
+  timestamp: string
+): LedgerAdjustment => ({
+  runId,
+  type: 'FILL_RECORDED',
+  details: { fill: { orderId, symbol, side, quantity, price, notional: quantity * price, timestamp } }
+});
+
+const cashEffect = (adjustment: LedgerAdjustment) => {
+  const fill = adjustment.details.fill as { side: TradeOrder['side']; notional: number } | undefined;
+  if (fill) return fill.side === 'BUY' ? -fill.notional : fill.notional;
+  const amount = Number(adjustment.details.amount ?? 0);
+  if (adjustment.type === 'CASH_WITHDRAWN') return -amount;
+  if (adjustment.type === 'CASH_DEPOSITED' || adjustment.type === 'DIVIDEND_RECEIVED') return amount;
+  return 0;
+};
+
+/**
+ * Diffs the broker's holdings, cash and working orders against the ledger's view and classifies
+ * each break. Position breaks are tried, in order, as a split or ticker change (basis unchanged),
+ * fills of recent unfilled orders, reinvested dividends, and finally manual trades. Cash left over
+ * after the proposed adjustments is a dividend when small, otherwise an unrecorded deposit or withdrawal.
+ */
+export const reconcilePortfolios = (input: ReconcileInput): ReconciliationReport => {
+  const { asOf, ledger, broker, prices, orders, config } = input;
+  const accountId = input.accountId ?? DEFAULT_ACCOUNT_ID;
+  const settings = config.reconciliation ?? {};
+  const lookbackMs = (settings.missingFillLookbackDays ?? 7) * DAY_MS;
+  const dividendMaxPct = settings.dividendMaxPct ?? 0.02;
+  const asOfIso = new Date(asOfCutoffMs(asOf)).toISOString();
+  const adjustmentRunId = accountRunId(RECONCILIATION_RUN_ID, accountId);
+
+  const ledgerQty = quantities(ledger);
+  const brokerQty = quantities(broker);
+  const priceOf = (symbol: string) =>
+    prices[symbol] > 0 ? prices[symbol] : broker.holdings.find((h) => h.symbol === symbol)?.avgPrice ?? 0;
+  const breaks: ReconciliationBreak[] = [];
+  const handled = new Set<string>();
+
+  const symbols = Array.from(new Set([...Object.keys(ledgerQty), ...Object.keys(brokerQty)])).sort();
+  for (const symbol of symbols) {
+    const held = ledgerQty[symbol] ?? 0;
+    const reported = brokerQty[symbol] ?? 0;
+    if (!held || !reported || Math.abs(reported - held) <= EPS) continue;
+    const ratio = SPLIT_RATIOS.find((r) => Math.abs(reported / held - r) <= 1e-4 * r);
+    if (!ratio || !sameBasis(costBasis(ledger, symbol), costBasis(broker, symbol))) continue;
+    handled.add(symbol);
+    breaks.push({
+      kind: 'CORPORATE_ACTION',
+      symbol,
+      ledgerQuantity: held,
+      brokerQuantity: reported,
+      quantity: reported - held,
+      valueUSD: Math.abs(reported - held) * priceOf(symbol),
+      message: `${symbol} shares changed ${held} -> ${reported} with the same basis: ${ratio}:1 split`,
+      adjustments: [
+        { runId: adjustmentRunId, type: 'CORPORATE_ACTION_RECORDED', details: { symbol, ratio, effectiveAt: asOfIso } }
+      ]
+    });
+  }
+  for (const symbol of symbols.filter((s) => ledgerQty[s] && !brokerQty[s])) {
+    const renamed = symbols.find(
+      (s) => !ledgerQty[s] && brokerQty[s] && !handled.has(s) && sameBasis(costBasis(ledger, symbol), costBasis(broker, s))
+    );
+    if (!renamed) continue;
+    handled.add(symbol).add(renamed);
+    const ratio = brokerQty[renamed] / ledgerQty[symbol];
+    breaks.push({
+      kind: 'CORPORATE_ACTION',
+      symbol,
+      ledgerQuantity: ledgerQty[symbol],
+      brokerQuantity: brokerQty[renamed],
+      valueUSD: brokerQty[renamed] * priceOf(renamed),
+      message: `${symbol} now held as ${renamed} with the same basis: ticker change`,
+      adjustments: [
+        {
+          runId: adjustmentRunId,
+          type: 'CORPORATE_ACTION_RECORDED',
+          details: { symbol, newSymbol: renamed, ratio, effectiveAt: asOfIso }
+        }
+      ]
+    });
+  }
+
+  for (const symbol of symbols.filter((s) => !handled.has(s))) {
+    const held = ledgerQty[symbol] ?? 0;
+    const reported = brokerQty[symbol] ?? 0;
+    let diff = reported - held;
+    if (Math.abs(diff) <= EPS) continue;
+    const side: TradeOrder['side'] = diff > 0 ? 'BUY' : 'SELL';
+    const sign = diff > 0 ? 1 : -1;
+    const price = priceOf(symbol);
+
+    const unfilled = orders
+      .filter(
+        (o) =>
+          o.orderId &&
+          o.order.symbol === symbol &&
+          o.order.side === side &&
+          remaining(o) > EPS &&
+          Date.parse(asOfIso) - Date.parse(o.placedAt ?? asOfIso) <= lookbackMs
+      )
+      .sort((a, b) => (b.placedAt ?? '').localeCompare(a.placedAt ?? ''));
+    for (const tracked of unfilled) {
+      if (Math.abs(diff) <= EPS) break;
+      const qty = Math.min(Math.abs(diff), remaining(tracked));
+      const fillPrice = tracked.order.limitPrice ?? price;
+      breaks.push({
+        kind: 'MISSING_FILL',
+        symbol,
+        orderId: tracked.orderId,
+        ledgerQuantity: held,
+        brokerQuantity: reported,
+        quantity: sign * qty,
+        valueUSD: qty * price,
+        message: `${side} ${tracked.orderId} (${tracked.runId}) filled ${qty} ${symbol} at the broker but not in the ledger`,
+        adjustments: [fillAdjustment(tracked.runId, tracked.orderId as string, symbol, side, qty, fillPrice, asOfIso)]
+      });
+      diff -= sign * qty;
+    }
+    if (Math.abs(diff) <= EPS) continue;
+
+    const value = Math.abs(diff) * price;
+    if (diff > 0 && held > 0 && value <= dividendMaxPct * held * price) {
+      breaks.push({
+        kind: 'DIVIDEND',
+        symbol,
+        ledgerQuantity: held,
+        brokerQuantity: reported,
+        quantity: diff,
+        valueUSD: value,
+        message: `${diff} extra ${symbol} looks like a reinvested dividend`,
+        adjustments: [
+          cashFlowEventFor({ type: 'DIVIDEND', amount: value, effectiveAt: asOfIso, symbol, note: 'reinvested' }, accountId),
+          fillAdjustment(adjustmentRunId, `drip:${symbol}:${asOfIso.slice(0, 10)}`, symbol, 'BUY', diff, price, asOfIso)
+        ]
+      });
+      continue;
+    }
+    breaks.push({
+      kind: 'MANUAL_TRADE',
+      symbol,
+      ledgerQuantity: held,
+      brokerQuantity: reported,
+      quantity: diff,
+      valueUSD: value,
+      message: `${side} ${Math.abs(diff)} ${symbol} at the broker matches no bot order`,
+      adjustments: [
+        fillAdjustment(adjustmentRunId, `manual:${symbol}:${asOfIso.slice(0, 10)}`, symbol, side, Math.abs(diff), price, asOfIso)
+      ]
+    });
+  }
+
+  const explainedCash = breaks.reduce((acc, b) => acc + b.adjustments.reduce((sum, a) => sum + cashEffect(a), 0), 0);
+  const residual = broker.cash - (ledger.cash + explainedCash);
+  if (Math.abs(residual) > CASH_EPS) {
+    const holdingsValue = Object.entries(brokerQty).reduce((acc, [s, q]) => acc + q * priceOf(s), 0);
+    const dividend = residual > 0 && residual <= dividendMaxPct * holdingsValue;
+    const type = dividend ? 'DIVIDEND' : residual > 0 ? 'DEPOSIT' : 'WITHDRAWAL';
+    breaks.push({
+      kind: dividend ? 'DIVIDEND' : 'CASH_FLOW',
+      cashUSD: residual,
+      valueUSD: Math.abs(residual),
+      message: dividend
+        ? `Broker cash is ${residual.toFixed(2)} above the ledger: likely an unrecorded dividend`
+        : `Broker cash differs from the ledger by ${residual.toFixed(2)}: unrecorded ${type.toLowerCase()}`,
+      adjustments: [
+        cashFlowEventFor({ type, amount: Math.abs(residual), effectiveAt: asOfIso, note: 'reconciliation' }, accountId)
+      ]
+    });
+  }
+
+  const ledgerOpen = orders.filter(isOpenOrder);
+  const knownIds = new Set(orders.map((o) => o.orderId));
+  for (const tracked of ledgerOpen) {
+    const status = input.orderStatuses?.[tracked.orderId as string];
+    if (!status || !['CANCELLED', 'EXPIRED', 'REJECTED'].includes(status.status)) continue;
+    breaks.push({
+      kind: 'ORDER_STATE',
+      symbol: tracked.order.symbol,
+      orderId: tracked.orderId,
+      valueUSD: 0,
+      message: `Ledger has ${tracked.orderId} working; broker reports ${status.status}`,
+      adjustments: [
+        {
+          runId: tracked.runId,
+          type: `ORDER_${status.status}` as LedgerEventType,
+          details: { orderId: tracked.orderId, from: tracked.state, to: status.status, reason: 'RECONCILIATION' }
+        }
+      ]
+    });
+  }
+  for (const open of input.brokerOpenOrders ?? []) {
+    if (knownIds.has(open.orderId)) continue;
+    const qty = Math.max(0, open.quantity - (open.filledQuantity ?? 0));
+    breaks.push({
+      kind: 'MANUAL_TRADE',
+      symbol: open.symbol,
+      orderId: open.orderId,
+      valueUSD: qty * priceOf(open.symbol),
+      message: `Broker order ${open.orderId} (${open.side} ${qty} ${open.symbol}) was not placed by the bot`,
+      adjustments: []
+    });
+  }
+
+  const breakUSD = breaks.reduce((acc, b) => acc + b.valueUSD, 0);
+  const toleranceUSD = Math.max(settings.toleranceUSD ?? 25, (settings.tolerancePct ?? 0.001) * broker.equity);
+  return {
+    asOf,
+    accountId,
+    ledger: { cash: ledger.cash, holdings: ledgerQty, openOrders: ledgerOpen.map((o) => o.orderId as string) },
+    broker: {
+      cash: broker.cash,
+      holdings: brokerQty,
+      ...(input.brokerOpenOrders ? { openOrders: input.brokerOpenOrders.map((o) => o.orderId) } : {})
+    },
+    breaks,
+    breakUSD,
+    toleranceUSD,
+    withinTolerance: breakUSD <= toleranceUSD
+  };
+};
+
+/** Gathers both views of the account, reconciles them and logs RECONCILIATION_COMPLETED. */
+export const reconcileAccount = async (
+  broker: Broker,
+  config: BotConfig,
+  marketData: MarketDataProvider,
+  options: { asOf: string; accountId?: string }
+): Promise<ReconciliationReport> => {
+  const accountId = options.accountId ?? DEFAULT_ACCOUNT_ID;
+  const ledgerState = await new StubBroker(config, marketData, accountId).getPortfolioState(options.asOf);
+  const brokerState = await broker.getPortfolioState(options.asOf);
+  const orders = replayOrders(eventsForAccount(getEvents(), accountId));
+
+  const prices: Record<string, number> = {};
+  for (const symbol of new Set([...ledgerState.holdings, ...brokerState.holdings].map((h) => h.symbol))) {
+    prices[symbol] = await marketData.getQuote(symbol, options.asOf).then((q) => q.price).catch(() => 0);
+  }
+  const brokerOpenOrders = broker.getOpenOrders ? await broker.getOpenOrders(options.asOf) : undefined;
+  const orderStatuses: Record<string, BrokerOrderStatus> = {};
+  if (broker.getOrderStatus) {
+    for (const tracked of orders.filter(isOpenOrder)) {
+      const status = await broker.getOrderStatus(tracked.orderId as string, options.asOf);
+      if (status) orderStatuses[status.orderId] = status;
+    }
+  }
+
+  const report = reconcilePortfolios({
+    asOf: options.asOf,
+    accountId,
+    ledger: ledgerState,
+    broker: brokerState,
+    prices,
+    orders,
+    brokerOpenOrders,
+    orderStatuses,
+    config
+  });
+  appendEvent(
+    makeEvent(accountRunId(RECONCILIATION_RUN_ID, accountId), 'RECONCILIATION_COMPLETED', {
+      asOf: options.asOf,
+      breaks: report.breaks.map((b) => ({ kind: b.kind, symbol: b.symbol, orderId: b.orderId, valueUSD: b.valueUSD })),
+      breakUSD: report.breakUSD,
+      toleranceUSD: report.toleranceUSD,
+      withinTolerance: report.withinTolerance
+    })
+  );
+  return report;
+};
+
+/** Appends every break's adjustments to the ledger, tagged with the reconciliation that proposed them. */
+export const applyReconciliation = (report: ReconciliationReport): LedgerEvent[] =>
+  report.breaks.flatMap((b) =>
+    b.adjustments.flatMap((adj) => {
+      const event = makeEvent(adj.runId, adj.type, { ...adj.details, reconciliation: { asOf: report.asOf, kind: b.kind } });
+      // An adjustment fill applied by an earlier --apply is not recorded again.
+      return appendEvent(event) ? [event] : [];
+    })
+  );
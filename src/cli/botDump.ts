@@ -3,6 +3,8 @@ import path from 'path';
 import fs from 'fs';
 import { parseAsOfDateTime } from '../core/time';
 import { loadConfig, loadUniverse, ensureDir } from '../core/utils';
+import { accountRunId, resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
 import { getMarketDataProvider } from '../data/marketData';
 import { getBroker } from '../broker/broker';
 import { generateBaseArtifacts } from './contextBuilder';
@@ -15,34 +17,54 @@ program.option('--asof <dateTime>', 'as-of timestamp (YYYY-MM-DD or YYYY-MM-DDTH
   'Comma-separated FRED series IDs',
   'SP500,CPIAUCSL,UNRATE,DGS10'
 );
-program.option('--mode <mode>', 'paper | live', 'paper');
+program
+  .option('--mode <mode>', 'paper | live', 'paper')
+  .option('--account <id>', 'account to run for (src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
 
-const run = async () => {
-  const opts = program.parse(process.argv).opts();
-  const { asOf, runId } = parseAsOfDateTime(opts.asof);
-  const seriesList: string[] = String(opts.series || '')
-    .split(',')
-    .map((s: string) => s.trim())
-    .filter(Boolean);
+export interface DumpOptions {
+  asof?: string;
+  mode?: string;
+  series?: string[];
+  accountId?: string;
+}
+
+export const runDump = async (options: DumpOptions = {}) => {
+  const { asOf, runId: baseRunId } = parseAsOfDateTime(options.asof);
+  const account = resolveAccount(options.accountId);
+  const runId = accountRunId(baseRunId, account.id);
+  const seriesList = options.series ?? [];
   const auth = preflightAuth();
   if (auth.warning) {
     console.warn(auth.warning);
   }
 
   const configPath = path.resolve(process.cwd(), 'src/config/default.json');
-  const config = loadConfig(configPath);
+  const config = loadConfig(configPath, account.id);
   const universe = loadUniverse(path.resolve(process.cwd(), config.universeFile));
-  const marketData = getMarketDataProvider(opts.mode as any);
-  const broker = getBroker(config, marketData, opts.mode as any);
+  const marketData = getMarketDataProvider(options.mode as any);
+  const broker = getBroker(config, marketData, options.mode as any, account.id);
 
   const runDir = path.resolve(process.cwd(), 'runs', runId);
   if (!fs.existsSync(runDir)) ensureDir(runDir);
 
-  await generateBaseArtifacts(asOf, runId, config, universe, marketData, { series: seriesList, mode: opts.mode || 'paper' }, broker);
+  await generateBaseArtifacts(asOf, runId, config, universe, marketData, { series: seriesList, mode: options.mode || 'paper' }, broker);
   console.log(`Dump completed for ${runId}. Artifacts in runs/${runId} and context/${runId}.json`);
 };
 
-run().catch((err) => {
-  console.error('bot:dump failed', err);
-  process.exitCode = 1;
-});
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const seriesList: string[] = String(opts.series || '')
+    .split(',')
+    .map((s: string) => s.trim())
+    .filter(Boolean);
+  await runDump({ asof: opts.asof, mode: opts.mode, series: seriesList, accountId: opts.account });
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:dump failed', err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,53 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import { eventsForAccount, resolveAccount } from '../core/accounts';
+import { getEvents } from '../ledger/ledger';
+import { cashFlowsFromEvents, parseCashFlowType, recordCashFlow } from '../ledger/cashFlows';
+
+const program = new Command();
+
+program
+  .option('--type <type>', 'deposit | withdrawal | dividend')
+  .option('--amount <usd>', 'amount in USD (positive)')
+  .option('--date <dateTime>', 'effective date (YYYY-MM-DD or YYYY-MM-DDTHH:mm, UTC); defaults to now')
+  .option('--symbol <symbol>', 'paying symbol, for dividends')
+  .option('--note <text>', 'free-form note stored on the event')
+  .option('--account <id>', 'account the cash moved in or out of (see src/config/accounts.json)')
+  .option('--list', 'print the account\'s recorded cash flows instead of recording one');
+
+const toIso = (raw?: string) => {
+  if (!raw) return new Date().toISOString();
+  const iso = raw.includes('T') ? (raw.endsWith('Z') ? raw : `${raw}Z`) : `${raw}T00:00:00Z`;
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid --date: ${raw}`);
+  return date.toISOString();
+};
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  const account = resolveAccount(opts.account);
+
+  if (opts.list) {
+    const flows = cashFlowsFromEvents(eventsForAccount(getEvents(), account.id));
+    if (!flows.length) console.log(`No cash flows recorded for ${account.id}`);
+    for (const f of flows) {
+      console.log([f.effectiveAt, f.type, f.amount.toFixed(2), f.symbol ?? '', f.note ?? ''].join('\t').trimEnd());
+    }
+    return;
+  }
+
+  if (!opts.type || opts.amount === undefined) throw new Error('--type and --amount are required (or pass --list)');
+  const type = parseCashFlowType(opts.type);
+  const event = recordCashFlow(
+    { type, amount: Number(opts.amount), effectiveAt: toIso(opts.date), symbol: opts.symbol, note: opts.note },
+    account.id
+  );
+  console.log(`Recorded ${event.type} of ${Number(opts.amount).toFixed(2)} for ${account.id} effective ${event.details?.effectiveAt}`);
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:cash failed', err);
+    process.exitCode = 1;
+  });
+}
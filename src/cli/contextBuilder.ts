@@ -11,9 +11,11 @@ import {
   SymbolFeature
 } from '../core/types';
 import { ensureDir, loadUniverse, writeJSONFile, loadConfig } from '../core/utils';
-import { MarketDataProvider, PriceBar } from '../data/marketData.types';
-import { getMarketDataProvider } from '../data/marketData';
+import { BarInterval, MarketDataProvider, PriceBar } from '../data/marketData.types';
+import { CachingMarketDataProvider, getMarketDataProvider, marketDataProviderName } from '../data/marketData';
 import { getBroker } from '../broker/broker';
+import { resolveAccount, splitRunId } from '../core/accounts';
+import { truncateToFit } from '../core/contextTruncation';
 import { ETradeBroker } from '../broker/etrade/etradeBroker';
 import { ETradeClient } from '../integrations/etradeClient';
 import { getStatus } from '../broker/etrade/authService';
@@ -22,6 +24,7 @@ import { computeNav } from '../core/capital';
 import { writeRunArtifact } from '../ledger/storage';
 import { getFredClient } from '../macro';
 import { getFinnhubClient } from '../data/finnhubClient';
+import { getRunDir } from '../core/workspace';
 
 const safeLoadJson = <T>(filePath: string | undefined, fallback: T): T => {
   if (!filePath) return fallback;
@@ -99,6 +102,49 @@ const movingAverage = (bars: PriceBar[], window: number): number | undefined =>
   return tail.reduce((a, b) => a + b.close, 0) / tail.length;
 };
 
+const hasOhlc = (b: PriceBar) => b.high !== undefined && b.low !== undefined;
+
+const averageTrueRange = (bars: PriceBar[], window: number): number | undefined => {
+  const sorted = sortedBars(bars);
+  const ranges: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const b = sorted[i];
+    if (!hasOhlc(b)) continue;
+    const prevClose = sorted[i - 1].close;
+    ranges.push(Math.max(b.high! - b.low!, Math.abs(b.high! - prevClose), Math.abs(b.low! - prevClose)));
+  }
+  const tail = ranges.slice(-window);
+  if (!tail.length) return undefined;
+  return tail.reduce((a, b) => a + b, 0) / tail.length;
+};
+
+const averageDollarVolume = (bars: PriceBar[], window: number): number | undefined => {
+  const tail = sortedBars(bars)
+    .filter((b) => b.volume !== undefined)
+    .slice(-window);
+  if (!tail.length) return undefined;
+  return tail.reduce((a, b) => a + b.close * (b.volume as number), 0) / tail.length;
+};
+
+const LARGE_GAP_PCT = 0.01;
+
+// Open vs prior close over the last `window` bars.
+const gapStats = (bars: PriceBar[], window: number): { absAvg: number; downMax: number; count: number } | undefined => {
+  const sorted = sortedBars(bars);
+  const gaps: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].open === undefined) continue;
+    gaps.push(pctChange(sorted[i - 1].close, sorted[i].open as number));
+  }
+  const tail = gaps.slice(-window);
+  if (!tail.length) return undefined;
+  return {
+    absAvg: tail.reduce((a, g) => a + Math.abs(g), 0) / tail.length,
+    downMax: Math.abs(Math.min(0, ...tail)),
+    count: tail.filter((g) => Math.abs(g) >= LARGE_GAP_PCT).length
+  };
+};
+
 const maxDrawdown = (bars: PriceBar[]): number | undefined => {
   if (!bars.length) return undefined;
   const sorted = sortedBars(bars);
@@ -295,7 +341,8 @@ export const buildFeatures = (
   const ret60Set: number[] = [];
   const firstWithHistory = universe.find((s) => (history[s] || []).length > 1);
   const medianGap = firstWithHistory ? medianGapDays(history[firstWithHistory]) : undefined;
-  const isWeekly = medianGap !== undefined && medianGap >= 5;
+  const declaredInterval = firstWithHistory ? history[firstWithHistory].at(-1)?.interval : undefined;
+  const isWeekly = declaredInterval ? declaredInterval === '1w' : medianGap !== undefined && medianGap >= 5;
   if (isWeekly) {
     flags.push({
       code: 'WEEKLY_BARS_DETECTED',
@@ -304,7 +351,8 @@ export const buildFeatures = (
       action: 'warn'
     });
   }
-  const barInterval: '1d' | '1w' = isWeekly ? '1w' : '1d';
+  const barInterval: BarInterval = declaredInterval ?? (isWeekly ? '1w' : '1d');
+  const missingOhlcv: string[] = [];
   const win5 = isWeekly ? 1 : 5; // 1 bar ~ 1w
   const win20 = isWeekly ? 4 : 20; // ~1 month
   const win60 = isWeekly ? 12 : 60; // ~3 months
@@ -327,6 +375,9 @@ export const buildFeatures = (
     const ma50 = movingAverage(bars, ma50Bars);
     const ma200 = movingAverage(bars, ma200Bars);
     const price = quotes[symbol] ?? 0;
+    const atr14 = averageTrueRange(bars, 14);
+    const gaps = gapStats(bars, win20);
+    if (bars.length && atr14 === undefined) missingOhlcv.push(symbol);
     const feature: SymbolFeature = {
       symbol,
       price,
@@ -343,7 +394,13 @@ export const buildFeatures = (
       ma50,
       ma200,
       historySamples: samples,
-      historyUniqueCloses: uniqueCloses
+      historyUniqueCloses: uniqueCloses,
+      atr14,
+      atr14Pct: atr14 !== undefined && price > 0 ? atr14 / price : undefined,
+      avgDollarVolume20d: averageDollarVolume(bars, win20),
+      gapAbsAvg20d: gaps?.absAvg,
+      gapDownMax20d: gaps?.downMax,
+      gapCount20d: gaps?.count
     };
     features.push(feature);
     if (vol20 !== undefined) volSet.push(vol20);
@@ -378,6 +435,15 @@ export const buildFeatures = (
       });
     }
   }
+  if (missingOhlcv.length) {
+    flags.push({
+      code: 'OHLCV_UNAVAILABLE',
+      severity: 'info',
+      message: 'History has closes only; ATR/liquidity/gap features omitted',
+      symbols: missingOhlcv,
+      action: 'warn'
+    });
+  }
   for (const f of features) {
     f.return60dPctile = ret60Set.length >= 2 ? percentile(f.return60d, ret60Set) : null as any;
     f.vol20dPctile = volSet.length >= 2 ? percentile(f.realizedVol20d, volSet) : null as any;
@@ -676,22 +742,10 @@ const deterministicMemo = (regimes: RegimeContext, flags: DataQualityFlag[], asO
 };
 
 const enforceSize = (packet: Omit<LLMContextPacket, 'contextMeta'>): { ctx: LLMContextPacket; meta: ContextMeta } => {
-  const meta: ContextMeta = { maxBytes: MAX_CONTEXT_BYTES, sizeBytes: 0, truncated: false, dropped: [] };
-  let working: any = { ...packet };
-  const measure = () => JSON.stringify(working).length;
-  let size = measure();
-  if (size > MAX_CONTEXT_BYTES && working.news) {
-    delete working.news;
-    meta.dropped?.push?.('news');
-    size = measure();
-  }
-  if (size > MAX_CONTEXT_BYTES && working.features && working.features.length > 10) {
-    working.features = working.features.slice(0, 10);
-    meta.dropped?.push?.('features_tail');
-    size = measure();
-  }
-  meta.sizeBytes = size;
-  meta.truncated = size > MAX_CONTEXT_BYTES;
+  const measure = (candidate: unknown) => JSON.stringify(candidate).length;
+  const { packet: working, dropped } = truncateToFit(packet, (candidate) => measure(candidate) <= MAX_CONTEXT_BYTES);
+  const size = measure(working);
+  const meta: ContextMeta = { maxBytes: MAX_CONTEXT_BYTES, sizeBytes: size, truncated: size > MAX_CONTEXT_BYTES, dropped };
   const ctx: LLMContextPacket = { ...working, contextMeta: meta };
   return { ctx, meta };
 };
@@ -705,8 +759,10 @@ export const generateBaseArtifacts = async (
   options: ContextOptions = {},
   brokerOverride?: ReturnType<typeof getBroker>
 ) => {
-  const broker = brokerOverride ?? getBroker(config, marketData);
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  // The run id names the account whose portfolio this bundle snapshots.
+  const { accountId } = splitRunId(runId);
+  const broker = brokerOverride ?? getBroker(config, marketData, undefined, accountId);
+  const runDir = getRunDir(runId);
   const inputsPath = path.join(runDir, 'inputs.json');
 
   let portfolio;
@@ -716,18 +772,8 @@ export const generateBaseArtifacts = async (
   const poolPolicy = { corePct: config.capital?.corePct ?? 0.7, reservePct: config.capital?.reservePct ?? 0.3 };
   const rounding = { mode: 'cents', method: 'round' };
   const providerTags = {
-    marketDataProvider:
-      marketData instanceof ETradeMarketDataProvider
-        ? 'etrade'
-        : marketData instanceof StubMarketDataProvider
-        ? 'stub'
-        : 'unknown',
-    quoteProvider:
-      marketData instanceof ETradeMarketDataProvider
-        ? 'etrade'
-        : marketData instanceof StubMarketDataProvider
-        ? 'stub'
-        : 'unknown',
+    marketDataProvider: marketDataProviderName(marketData),
+    quoteProvider: marketDataProviderName(marketData),
     brokerProvider: broker instanceof ETradeBroker ? 'etrade' : 'mock',
     macroProvider: process.env.FRED_API_KEY ? 'fred' : 'mock',
     newsProvider: process.env.FINNHUB_API_KEY ? 'finnhub' : 'none'
@@ -766,7 +812,8 @@ export const generateBaseArtifacts = async (
           env: (process.env.ETRADE_ENV as any) || 'prod',
           callbackUrl: process.env.ETRADE_CALLBACK_URL,
           tokenStorePath: process.env.ETRADE_TOKEN_STORE || process.env.TOKEN_STORE_PATH
-        })
+        }),
+        resolveAccount(accountId)
       );
     }
     providerTimestamps.brokerFetchedAt = new Date().toISOString();
@@ -776,6 +823,7 @@ export const generateBaseArtifacts = async (
       await Promise.all(universe.map(async (u) => [u, (await marketData.getQuote(u, asOf)).price]))
     );
     const lookback = options.lookbackDays ?? HISTORY_LOOKBACK_DAYS;
+    if (marketData instanceof CachingMarketDataProvider) marketData.drainSourceLog();
     const historyEntries = await Promise.all(
       universe.map(async (u) => [u, await marketData.getHistory(u, asOf, lookback)] as const)
     );
@@ -920,12 +968,36 @@ export const generateBaseArtifacts = async (
   writeRunArtifact(runId, 'optionPositions.json', optionPositionsArtifact);
 
   // Data source audit artifact (round 0)
+  const sourceWarnings: string[] = [];
+  let priceCache: Record<string, unknown> = { enabled: false };
+  if (marketData instanceof CachingMarketDataProvider) {
+    const records = marketData.drainSourceLog();
+    for (const r of records) {
+      if (r.missingSessions.length) {
+        sourceWarnings.push(`${r.symbol}: ${r.missingSessions.length} session(s) missing from cache${r.offline ? ' (offline)' : ''}`);
+      }
+      if (r.error) sourceWarnings.push(`${r.symbol}: backfill failed: ${r.error}`);
+    }
+    priceCache = {
+      enabled: true,
+      offline: marketData.isOffline(),
+      source: marketData.source,
+      totals: {
+        fromCache: records.reduce((acc, r) => acc + r.fromCache, 0),
+        fromProvider: records.reduce((acc, r) => acc + r.fromProvider, 0),
+        synthetic: records.reduce((acc, r) => acc + r.synthetic, 0),
+        missingSessions: records.reduce((acc, r) => acc + r.missingSessions.length, 0)
+      },
+      symbols: records
+    };
+  }
   const dataSources = {
     asOf,
     runId,
     providers: providerTags,
     timestamps: providerTimestamps,
-    warnings: []
+    priceCache,
+    warnings: sourceWarnings
   };
   writeRunArtifact(runId, 'data_sources.json', dataSources);
 
@@ -1066,7 +1138,9 @@ export const generateBaseArtifacts = async (
   const rawContains = { macro: fredSeriesTrimmed.length > 0, news: news.length > 0 };
   const { ctx, meta } = enforceSize(packetBase);
   meta.stage = 'ROUND_4';
-  const ctxHash = require('crypto').createHash('sha256').update(JSON.stringify(ctx)).digest('hex');
+  // Covers the packet without its own metadata, so ledger:verify can recompute it from llm_context.json.
+  const { contextMeta: _contextMeta, ...round4Payload } = ctx;
+  const ctxHash = require('crypto').createHash('sha256').update(JSON.stringify(round4Payload)).digest('hex');
   meta.lineage = { round4Hash: ctxHash };
   meta.sources = {
     marketDataProvider: (process.env.MARKET_DATA_PROVIDER || 'stub').toLowerCase(),
@@ -1107,11 +1181,12 @@ export const ensureBaseArtifacts = async (
   seriesList?: string[],
   mode: string = 'paper'
 ): Promise<RunInputs> => {
-  const cfg: BotConfig = loadConfig(configPath);
+  const { accountId } = splitRunId(runId);
+  const cfg: BotConfig = loadConfig(configPath, accountId);
   const universe = loadUniverse(path.resolve(process.cwd(), cfg.universeFile));
   const marketData = getMarketDataProvider(mode as any);
-  const broker = getBroker(cfg, marketData, mode as any);
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const broker = getBroker(cfg, marketData, mode as any, accountId);
+  const runDir = getRunDir(runId);
   const inputsPath = path.join(runDir, 'inputs.json');
   if (fs.existsSync(inputsPath)) {
     return JSON.parse(fs.readFileSync(inputsPath, 'utf-8')) as RunInputs;
@@ -1123,7 +1198,7 @@ export const ensureBaseArtifacts = async (
 // Round-specific builders that consume existing artifacts
 
 export const buildRound1FromInputs = async (runId: string) => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   const inputs: RunInputs = JSON.parse(fs.readFileSync(path.join(runDir, 'inputs.json'), 'utf-8'));
   const round1Flags: DataQualityFlag[] = [];
   const features = buildFeatures(inputs.universe, inputs.quotes, inputs.history || {}, round1Flags);
@@ -1132,7 +1207,7 @@ export const buildRound1FromInputs = async (runId: string) => {
 };
 
 export const buildRound2FromFeatures = async (runId: string) => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   const inputs: RunInputs = JSON.parse(fs.readFileSync(path.join(runDir, 'inputs.json'), 'utf-8'));
   const features: SymbolFeature[] = JSON.parse(fs.readFileSync(path.join(runDir, 'features.json'), 'utf-8'));
   const round1Flags: DataQualityFlag[] = JSON.parse(fs.readFileSync(path.join(runDir, 'round1_flags.json'), 'utf-8'));
@@ -1157,7 +1232,7 @@ export const buildRound2FromFeatures = async (runId: string) => {
 };
 
 export const buildRound3FromRegimes = async (runId: string) => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   const inputs: RunInputs = JSON.parse(fs.readFileSync(path.join(runDir, 'inputs.json'), 'utf-8'));
   const regimes: RegimeContext = JSON.parse(fs.readFileSync(path.join(runDir, 'regimes.json'), 'utf-8'));
   const round3Flags: DataQualityFlag[] = [];
@@ -1208,7 +1283,7 @@ export const buildRound3FromRegimes = async (runId: string) => {
 };
 
 export const buildRound4Context = async (runId: string) => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   const inputs: RunInputs = JSON.parse(fs.readFileSync(path.join(runDir, 'inputs.json'), 'utf-8'));
   const features: SymbolFeature[] = JSON.parse(fs.readFileSync(path.join(runDir, 'features.json'), 'utf-8'));
   const regimes: RegimeContext = JSON.parse(fs.readFileSync(path.join(runDir, 'regimes.json'), 'utf-8'));
@@ -1267,5 +1342,3 @@ export const buildRound4Context = async (runId: string) => {
   writeJSONFile(path.join(runDir, 'context_meta.json'), meta);
   writeContextPacket(runId, ctx);
 };
-import { ETradeMarketDataProvider } from '../data/marketData.etrade';
-import { StubMarketDataProvider } from '../data/marketData.stub';
@@ -0,0 +1,48 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import path from 'path';
+import { loadConfig } from '../core/utils';
+import { resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { SchedulerDaemon } from '../scheduler/daemon';
+
+const program = new Command();
+
+program
+  .option('--mode <mode>', 'paper | live (defaults to scheduler.mode)')
+  .option('--strategy <strategy>', 'llm | deterministic | random (defaults to scheduler.strategy)')
+  .option('--once', 'evaluate the schedule once (fire anything due) and exit', false)
+  .option('--account <id>', 'account to run for (src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const account = resolveAccount(opts.account);
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
+  const daemon = new SchedulerDaemon({ config, accountId: account.id, mode: opts.mode, strategy: opts.strategy });
+  if (opts.once) {
+    const result = await daemon.tick();
+    console.log(
+      result.next
+        ? `Nothing due. Next run ${result.next.runId} (session ${result.next.session}) dumps at ${result.next.dumpAt}.`
+        : `Tick result: ${result.action}${result.slot ? ` (${result.slot.runId})` : ''}`
+    );
+    return;
+  }
+  const shutdown = (signal: string) => {
+    daemon.stop(signal);
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  console.log(`Scheduler daemon started (cadence ${config.cadence}, rebalanceDay ${config.rebalanceDay}).`);
+  await daemon.start();
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:daemon failed', err);
+    process.exitCode = 1;
+  });
+}
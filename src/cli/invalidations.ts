@@ -0,0 +1,63 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import path from 'path';
+import { parseAsOfDateTime } from '../core/time';
+import { loadConfig } from '../core/utils';
+import { accountRunId, resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { getMarketDataProvider } from '../data/marketData';
+import { getBroker } from '../broker/broker';
+import { MONITOR_RUN_ID } from '../ledger/ledger';
+import { runInvalidationMonitor } from '../risk/invalidationMonitor';
+
+const program = new Command();
+
+program
+  .option('--asof <dateTime>', 'as-of timestamp (YYYY-MM-DD or YYYY-MM-DDTHH:mm, UTC)')
+  .option('--mode <mode>', 'paper | live', 'paper')
+  .option('--json', 'print the full check result as JSON', false)
+  .option('--account <id>', 'account to run for (src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const { asOf } = parseAsOfDateTime(opts.asof);
+  const account = resolveAccount(opts.account);
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
+  const marketData = getMarketDataProvider(opts.mode);
+  const broker = getBroker(config, marketData, opts.mode, account.id);
+  const portfolio = await broker.getPortfolioState(asOf);
+  const result = await runInvalidationMonitor({
+    runId: accountRunId(MONITOR_RUN_ID, account.id),
+    asOf,
+    holdings: portfolio.holdings || [],
+    marketData
+  });
+  if (opts.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  if (!result.checks.length) {
+    console.log(`No open positions with a recorded invalidation as of ${asOf}.`);
+    return;
+  }
+  for (const check of result.checks) {
+    const status = check.breached ? 'BREACHED' : 'ok';
+    console.log(`${check.symbol.padEnd(6)} ${status.padEnd(8)} ${check.invalidation}`);
+    check.triggered.forEach((t) => console.log(`         ${t.type} level ${t.level} observed ${t.observed}`));
+    check.skipped.forEach((s) => console.log(`         skipped ${s}`));
+  }
+  if (result.breaches.length) {
+    console.log(
+      `${result.breaches.length} breach(es) recorded; the next bot run proposes full-exit SELLs through risk/approval.`
+    );
+  }
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:invalidations failed', err);
+    process.exitCode = 1;
+  });
+}
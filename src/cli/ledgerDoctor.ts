@@ -0,0 +1,50 @@
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { ensureDir } from '../core/utils';
+import { getLedgerFile, readRawLedgerEvents } from '../ledger/storage';
+import { diagnoseLedger, quarantineDuplicateFills } from '../ledger/ledgerDoctor';
+
+const program = new Command();
+
+program
+  .option('--fix', 'append an EVENT_QUARANTINED entry for every duplicate fill')
+  .option('--json', 'print the full report as JSON');
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  const report = diagnoseLedger(readRawLedgerEvents());
+  ensureDir(path.resolve(process.cwd(), 'reports'));
+  const reportPath = path.resolve(process.cwd(), 'reports/ledger_doctor.json');
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  if (opts.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Ledger ${getLedgerFile()}: ${report.events} events, ${report.fills} fills, ${report.quarantined} already quarantined`);
+    for (const dup of report.duplicateFills) {
+      console.log(`  duplicate fill ${dup.fillId} (${dup.fill.side} ${dup.fill.quantity} ${dup.fill.symbol}) in ${dup.runId}: ${dup.eventId} repeats ${dup.duplicateOf}`);
+    }
+    if (report.repeatedEventIds.length) {
+      console.log(`  ${report.repeatedEventIds.length} event id(s) written more than once; reads count each once`);
+    }
+  }
+
+  if (!report.duplicateFills.length) {
+    console.log('No duplicate fills.');
+  } else if (opts.fix) {
+    const events = quarantineDuplicateFills(report);
+    console.log(`Quarantined ${events.length} duplicate fill(s); the original lines stay in the ledger.`);
+  } else {
+    console.log('Rerun with --fix to quarantine them.');
+    process.exitCode = 1;
+  }
+  console.log(`Report written to ${reportPath}`);
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('ledger:doctor failed', err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,42 @@
+import { Command } from 'commander';
+import path from 'path';
+import { getLedgerFile, ledgerStoreKindFor, openLedgerStore } from '../ledger/storage';
+import { migrateLedger } from '../ledger/ledgerMigrate';
+
+const program = new Command();
+
+program
+  .option('--from <file>', 'ledger to copy (defaults to the current ledger)')
+  .option('--to <file>', 'empty ledger to create; .sqlite/.db is SQLite, anything else JSONL (defaults to the other kind beside --from)')
+  .option('--json', 'print the result as JSON');
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  const from = path.resolve(opts.from ?? getLedgerFile());
+  const fromKind = ledgerStoreKindFor(from);
+  const to = path.resolve(
+    opts.to ?? path.join(path.dirname(from), `${path.basename(from, path.extname(from))}.${fromKind === 'sqlite' ? 'jsonl' : 'sqlite'}`)
+  );
+  const result = migrateLedger(openLedgerStore(fromKind, from), openLedgerStore(ledgerStoreKindFor(to), to));
+
+  if (opts.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`Copied ${result.records} record(s) from ${result.from.kind} ${result.from.location} to ${result.to.kind} ${result.to.location}`);
+    for (const issue of result.verification.issues) {
+      console.log(`  ${issue.kind.padEnd(17)} ${issue.message}`);
+    }
+    // LEDGER_FILE picks the store by extension; the default location only needs LEDGER_STORE.
+    const defaultFile = path.resolve(process.cwd(), 'ledger', result.to.kind === 'sqlite' ? 'events.sqlite' : 'events.jsonl');
+    const use = result.to.location === defaultFile ? `LEDGER_STORE=${result.to.kind}` : `LEDGER_FILE=${result.to.location}`;
+    console.log(`Set ${use} to use it; ${result.from.location} is unchanged.`);
+  }
+  if (result.verification.issues.length) process.exitCode = 1;
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('ledger:migrate failed', err);
+    process.exitCode = 1;
+  });
+}
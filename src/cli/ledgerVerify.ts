@@ -0,0 +1,32 @@
+import { Command } from 'commander';
+import { verifyLedger } from '../ledger/ledgerVerify';
+
+const program = new Command();
+
+program.option('--json', 'print the full verification as JSON');
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  const result = verifyLedger();
+
+  if (opts.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(
+      `Ledger ${result.ledgerFile}: ${result.chainedEvents} chained event(s) through seq ${result.lastSeq}, ${result.legacyEvents} written before chaining`
+    );
+    console.log(`Artifacts: ${result.artifactsChecked} file(s) across ${result.runsChecked} run(s)`);
+    for (const issue of result.issues) {
+      console.log(`  ${issue.kind.padEnd(17)} ${issue.message}`);
+    }
+    console.log(result.ok ? 'Ledger verified.' : `${result.issues.length} integrity issue(s) found.`);
+  }
+  if (!result.ok) process.exitCode = 1;
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('ledger:verify failed', err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,55 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { ensureDir, loadConfig } from '../core/utils';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { backtestEvaluator, parseOptimizerSpec, runWalkForward, writeWalkForwardReport } from '../backtest/walkForward';
+
+const program = new Command();
+
+program
+  .requiredOption('--spec <file>', 'optimizer spec JSON (see src/config/optimize.example.json)')
+  .option('--out <dir>', 'output directory (default backtests/optimize/<spec name>)')
+  .option('--set <key=value>', 'override a base config key before candidates apply theirs (repeatable)', collectConfigOverride, []);
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const specPath = path.resolve(process.cwd(), opts.spec);
+  const spec = parseOptimizerSpec(JSON.parse(fs.readFileSync(specPath, 'utf-8')), path.relative(process.cwd(), specPath));
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'));
+  const outDir = path.resolve(process.cwd(), opts.out || path.join('backtests', 'optimize', path.basename(specPath, '.json')));
+  const workDir = path.join(outDir, 'work');
+  ensureDir(outDir);
+
+  try {
+    const result = await runWalkForward(spec, config, backtestEvaluator(spec, workDir));
+    const leaderboardPath = writeWalkForwardReport(outDir, result);
+    const fmt = (n: number) => (Number.isFinite(n) ? n.toFixed(4) : 'n/a');
+    console.log(`${result.candidates.length} candidate(s) over ${result.windows.length} window(s); ${result.rejected.length} rejected`);
+    for (const entry of result.leaderboard.slice(0, 5)) {
+      console.log(
+        `  #${entry.rank} ${entry.id} oos ${fmt(entry.outOfSampleObjective)} (is ${fmt(entry.inSampleObjective)}, sd ${fmt(
+          entry.outOfSampleStd
+        )}) ${JSON.stringify(entry.parameters)}`
+      );
+    }
+    const { meanRankCorrelation, selectedOutOfSampleReturn, selectionChanges } = result.stability;
+    console.log(
+      `Walk-forward picks returned ${fmt(selectedOutOfSampleReturn)} out of sample; rank correlation ${fmt(
+        meanRankCorrelation ?? NaN
+      )}, ${selectionChanges} selection change(s)`
+    );
+    console.log(`Leaderboard written to ${leaderboardPath}`);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:optimize failed', err);
+    process.exitCode = 1;
+  });
+}
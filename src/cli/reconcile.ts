@@ -0,0 +1,62 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { parseAsOfDateTime } from '../core/time';
+import { ensureDir, loadConfig } from '../core/utils';
+import { DEFAULT_ACCOUNT_ID, resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { getMarketDataProvider } from '../data/marketData';
+import { getBroker } from '../broker/broker';
+import { applyReconciliation, reconcileAccount } from '../broker/reconciliation';
+
+const program = new Command();
+
+program
+  .option('--asof <dateTime>', 'as-of timestamp (YYYY-MM-DD or YYYY-MM-DDTHH:mm, UTC); defaults to now')
+  .option('--mode <mode>', 'paper | live', 'live')
+  .option('--account <id>', 'account to reconcile (see src/config/accounts.json)')
+  .option('--apply', 'append the proposed ledger adjustments for every break')
+  .option('--json', 'print the full report as JSON')
+  .option('--set <key=value>', 'override a config key, e.g. reconciliation.toleranceUSD=50 (repeatable)', collectConfigOverride, []);
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const { asOf } = parseAsOfDateTime(opts.asof);
+  const account = resolveAccount(opts.account);
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
+  const marketData = getMarketDataProvider(opts.mode);
+  const broker = getBroker(config, marketData, opts.mode, account.id);
+
+  const report = await reconcileAccount(broker, config, marketData, { asOf, accountId: account.id });
+  ensureDir(path.resolve(process.cwd(), 'reports'));
+  const suffix = account.id === DEFAULT_ACCOUNT_ID ? '' : `_${account.id}`;
+  const reportPath = path.resolve(process.cwd(), `reports/reconciliation${suffix}.json`);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  if (opts.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Reconciliation ${account.id} as of ${asOf}: ${report.breaks.length} break(s), ${report.breakUSD.toFixed(2)} USD`);
+    for (const b of report.breaks) {
+      console.log(`  ${b.kind.padEnd(16)} ${b.valueUSD.toFixed(2).padStart(10)}  ${b.message}`);
+    }
+    console.log(`Tolerance ${report.toleranceUSD.toFixed(2)}: ${report.withinTolerance ? 'OK to trade' : 'trading blocked'}`);
+  }
+
+  if (opts.apply) {
+    const events = applyReconciliation(report);
+    console.log(`Appended ${events.length} ledger adjustment(s); rerun to confirm the breaks are gone.`);
+  } else if (!report.withinTolerance) {
+    process.exitCode = 1;
+  }
+  console.log(`Report written to ${reportPath}`);
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:reconcile failed', err);
+    process.exitCode = 1;
+  });
+}
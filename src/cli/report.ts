@@ -1,26 +1,32 @@
 import { Command } from 'commander';
 import path from 'path';
 import { loadConfig, ensureDir } from '../core/utils';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { resolveAccount } from '../core/accounts';
 import { getMarketDataProvider } from '../data/marketData';
 import { buildEquityCurve } from '../analytics/performance';
-import { computeSummaryMetrics } from '../analytics/metrics';
+import { computeStrategyComparison, computeSummaryMetrics } from '../analytics/metrics';
 import fs from 'fs';
 
 const program = new Command();
 
 program
   .option('--from <date>', 'from date inclusive')
-  .option('--to <date>', 'to date inclusive');
+  .option('--to <date>', 'to date inclusive')
+  .option('--account <id>', 'account to report on (see src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
 
 const runReport = async () => {
   const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
   const from = opts.from as string | undefined;
   const to = opts.to as string | undefined;
   const configPath = path.resolve(process.cwd(), 'src/config/default.json');
-  const config = loadConfig(configPath);
+  const account = resolveAccount(opts.account);
+  const config = loadConfig(configPath, account.id);
   const marketData = getMarketDataProvider();
 
-  const curve = await buildEquityCurve(config, marketData);
+  const curve = await buildEquityCurve(config, marketData, account.id);
   const filtered = curve.filter((p) => {
     const afterFrom = from ? p.date >= from : true;
     const beforeTo = to ? p.date <= to : true;
@@ -28,7 +34,7 @@ const runReport = async () => {
   });
 
   ensureDir(path.resolve(process.cwd(), 'reports'));
-  const csvLines = ['date,equity,drawdown,exposure,benchmarkSPY,deterministicEquity,randomEquity'];
+  const csvLines = ['date,equity,drawdown,exposure,benchmarkSPY,llmEquity,deterministicEquity,randomEquity,externalFlow'];
   for (const p of filtered) {
     csvLines.push(
       [
@@ -37,19 +43,24 @@ const runReport = async () => {
         p.drawdown.toFixed(4),
         p.exposure.toFixed(4),
         p.benchmarkSPY.toFixed(2),
-        (p.deterministicEquity ?? p.equity).toFixed(2),
-        (p.randomEquity ?? p.equity).toFixed(2)
+        // Blank until the strategy's shadow book has a run.
+        p.llmEquity?.toFixed(2) ?? '',
+        p.deterministicEquity?.toFixed(2) ?? '',
+        p.randomEquity?.toFixed(2) ?? '',
+        (p.externalFlow ?? 0).toFixed(2)
       ].join(',')
     );
   }
   const csvPath = path.resolve(process.cwd(), 'reports/performance.csv');
   const summaryPath = path.resolve(process.cwd(), 'reports/summary.json');
+  const strategiesPath = path.resolve(process.cwd(), 'reports/strategies.json');
   fs.writeFileSync(csvPath, csvLines.join('\n'));
 
   const metrics = computeSummaryMetrics(filtered, config.startingCapitalUSD);
   fs.writeFileSync(summaryPath, JSON.stringify(metrics, null, 2));
+  fs.writeFileSync(strategiesPath, JSON.stringify(computeStrategyComparison(filtered, config.startingCapitalUSD), null, 2));
 
-  console.log(`Reports written to ${csvPath} and ${summaryPath}`);
+  console.log(`Reports written to ${csvPath}, ${summaryPath} and ${strategiesPath}`);
 };
 
 runReport().catch((err) => {
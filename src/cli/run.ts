@@ -3,25 +3,34 @@ import { Command } from 'commander';
 import path from 'path';
 import fs from 'fs';
 import { parseAsOfDateTime } from '../core/time';
-import { loadConfig, loadUniverse, ensureDir, readJSONFile } from '../core/utils';
-import { getMarketDataProvider } from '../data/marketData';
+import { holidayName, isRebalanceSession, rebalanceSlot } from '../core/calendar';
+import { loadUniverse, ensureDir, readJSONFile } from '../core/utils';
+import { accountRunId, accountStateKey, resolveAccount, splitRunId } from '../core/accounts';
+import { collectConfigOverride, diffConfigs, resolveConfig, ResolvedConfig, setConfigOverrides } from '../core/config';
+import { getMarketDataProvider, marketDataProviderName } from '../data/marketData';
 import { getBroker, ETradeBroker, StubBroker } from '../broker/broker';
+import { reconcileAccount } from '../broker/reconciliation';
 import { generateLLMProposal } from '../strategy/llmProposer';
+import { summarizeLLMCalls } from '../strategy/llmClients';
 import { runDeterministicBaseline } from '../strategy/deterministicBaseline';
 import { runRandomBaseline } from '../strategy/randomBaseline';
 import { appendEvent, getRunStatus, makeEvent } from '../ledger/ledger';
 import { writeRunArtifact } from '../ledger/storage';
 import { evaluateRisk } from '../risk/riskEngine';
 import { currentDrawdown } from '../analytics/performance';
-import { executeOrders } from '../execution/executionEngine';
-import { BotConfig, ProposalResult, TradeOrder } from '../core/types';
+import { runShadowStrategies } from '../analytics/shadowPortfolios';
+import { executeOrders, holdOrdersForApproval } from '../execution/executionEngine';
+import { BotConfig, ProposalResult, StrategyName, TradeOrder } from '../core/types';
 import { generateBaseArtifacts } from './contextBuilder';
-import { anchorInvalidations } from '../risk/invalidationAnchor';
+import { anchorInvalidations, parseInvalidationRule } from '../risk/invalidationAnchor';
+import { runInvalidationMonitor } from '../risk/invalidationMonitor';
 import { applyDecisionPolicyGate } from '../risk/decisionPolicyGate';
 import { assertRound5Input } from '../risk/round5Guards';
 import { preflightAuth } from '../broker/etrade/authService';
 import { planWholeShareExecution } from '../execution/wholeSharePlanner';
 import { rebalancePortfolio } from '../execution/rebalanceEngine';
+import { planTaxAwareRebalance } from '../execution/taxAwareRebalance';
+import { getPortfolioAt } from '../ledger/portfolioProjection';
 import { detectDislocation } from '../dislocation/dislocationDetector';
 import { buildDislocationBuys } from '../execution/dislocationPlanner';
 import { runSleeveLifecycle } from '../dislocation/sleeveLifecycle';
@@ -43,8 +52,9 @@ import { arbitrateSleeves } from '../sleeves/sleeveArbitration';
 import { selectOptionsUnderlying } from '../sleeves/optionsUnderlying';
 import { planInsuranceSleeve, saveInsuranceState } from '../sleeves/insuranceSleeve';
 import { planGrowthSleeve } from '../sleeves/growthSleeve';
-import { ETradeMarketDataProvider } from '../data/marketData.etrade';
-import { StubMarketDataProvider } from '../data/marketData.stub';
+import { MarketDataProvider } from '../data/marketData.types';
+import { runBacktest } from '../backtest/backtestEngine';
+import { getRunDir, getRunsDir } from '../core/workspace';
 
 const program = new Command();
 
@@ -54,7 +64,14 @@ program
   .option('--strategy <strategy>', 'llm | deterministic | random')
   .option('--dry-run', 'simulate without placing orders', false)
   .option('--auto-exec', 'override approval gate and execute immediately', false)
-  .option('--force', 'override idempotency', false);
+  .option('--force', 'override idempotency', false)
+  .option('--from <date>', 'backtest start date (YYYY-MM-DD, mode=backtest)')
+  .option('--to <date>', 'backtest end date inclusive (YYYY-MM-DD, mode=backtest)')
+  .option('--data-dir <dir>', 'directory of <SYMBOL>.csv/.json daily closes to replay (mode=backtest)')
+  .option('--out <dir>', 'backtest workspace directory (default backtests/<from>_<to>)')
+  .option('--capital <usd>', 'override startingCapitalUSD for the backtest')
+  .option('--account <id>', 'account to run for (src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
 
 export interface RunOptions {
   asof?: string;
@@ -64,10 +81,17 @@ export interface RunOptions {
   force?: boolean;
   autoExec?: boolean;
   runId?: string;
+  // Account to run for (see src/config/accounts.json); defaults to the account named by runId, else 'default'.
+  accountId?: string;
+  // Injected by the backtest engine so every replayed week shares one config, provider and broker.
+  config?: BotConfig;
+  marketData?: MarketDataProvider;
+  broker?: ReturnType<typeof getBroker>;
+  skipConsolidatedReport?: boolean;
 }
 
 const loadPreviousRegimes = (currentRunId: string): any | undefined => {
-  const runsDir = path.resolve(process.cwd(), 'runs');
+  const runsDir = getRunsDir();
   if (!fs.existsSync(runsDir)) return undefined;
   const entries = fs
     .readdirSync(runsDir, { withFileTypes: true })
@@ -88,10 +112,37 @@ const loadPreviousRegimes = (currentRunId: string): any | undefined => {
   return undefined;
 };
 
+// Most recent earlier run of the same account that recorded its resolved config.
+const loadPreviousRunConfig = (currentRunId: string): { runId: string; config: BotConfig } | undefined => {
+  const runsDir = getRunsDir();
+  if (!fs.existsSync(runsDir)) return undefined;
+  const entries = fs
+    .readdirSync(runsDir, { withFileTypes: true })
+    .filter(
+      (d) =>
+        d.isDirectory() && d.name < currentRunId && splitRunId(d.name).accountId === splitRunId(currentRunId).accountId
+    )
+    .map((d) => d.name)
+    .sort()
+    .reverse();
+  for (const name of entries) {
+    const p = path.join(runsDir, name, 'config_resolved.json');
+    if (!fs.existsSync(p)) continue;
+    try {
+      const resolved = JSON.parse(fs.readFileSync(p, 'utf-8')) as ResolvedConfig;
+      if (resolved?.config) return { runId: name, config: resolved.config };
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+};
+
 export const runBot = async (options: RunOptions) => {
-  const { asof, mode, strategy, dryRun, force, autoExec, runId: providedRunId } = options;
+  const { asof, mode, strategy, dryRun, force, autoExec, runId: providedRunId, skipConsolidatedReport } = options;
   const { asOf, runId: computedRunId } = parseAsOfDateTime(asof);
-  const runId = providedRunId || computedRunId;
+  const account = resolveAccount(options.accountId ?? (providedRunId ? splitRunId(providedRunId).accountId : undefined));
+  const runId = accountRunId(providedRunId || computedRunId, account.id);
   const runMode = (mode || 'paper') as string;
   const strategyOpt = strategy as string | undefined;
   const dry = Boolean(dryRun);
@@ -112,27 +163,34 @@ export const runBot = async (options: RunOptions) => {
   }
 
   const configPath = path.resolve(process.cwd(), 'src/config/default.json');
-  const config: BotConfig = loadConfig(configPath);
+  const resolvedConfig: ResolvedConfig = options.config
+    ? { config: options.config, sources: ['injected by caller'] }
+    : resolveConfig(configPath, { accountId: account.id });
+  const config: BotConfig = resolvedConfig.config;
   const rebalanceDay = config.rebalanceDay?.toUpperCase?.() ?? 'WEDNESDAY';
   if (config.cadence === 'weekly' && !forceRun) {
-    const day = new Date(asOf).getUTCDay(); // 0 Sunday ... 6 Saturday
-    const dayName = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'][day];
-    if (dayName !== rebalanceDay) {
+    const day = asOf.slice(0, 10);
+    if (!isRebalanceSession(day, rebalanceDay)) {
+      const { nextSession } = rebalanceSlot(day, rebalanceDay);
+      const holiday = holidayName(day);
       console.error(
-        `Cadence is weekly. asof ${asOf} is ${dayName}, not ${rebalanceDay}. Use --force to override or adjust rebalanceDay.`
+        `Cadence is weekly. asof ${asOf} is not the ${rebalanceDay} rebalance session${
+          holiday ? ` (market closed: ${holiday})` : ''
+        }; next session is ${nextSession}. Use --force to override or adjust rebalanceDay.`
       );
       return;
     }
   }
 
   const universe = loadUniverse(path.resolve(process.cwd(), config.universeFile));
-  const marketData = getMarketDataProvider(runMode as any);
-  const broker = getBroker(config, marketData, runMode as any);
+  const marketData = options.marketData ?? getMarketDataProvider(runMode as any);
+  const broker = options.broker ?? getBroker(config, marketData, runMode as any, account.id);
   const brokerProvider = (process.env.BROKER_PROVIDER || 'stub').toLowerCase();
+  const marketDataLabel = marketDataProviderName(marketData);
   const resolvedProviders = {
-    marketData: marketData instanceof ETradeMarketDataProvider ? 'etrade' : marketData instanceof StubMarketDataProvider ? 'stub' : 'unknown',
+    marketData: marketDataLabel,
     broker: broker instanceof ETradeBroker ? 'etrade' : broker instanceof StubBroker ? 'stub' : 'unknown',
-    quotes: marketData instanceof ETradeMarketDataProvider ? 'etrade' : marketData instanceof StubMarketDataProvider ? 'stub' : 'unknown',
+    quotes: marketDataLabel,
     macro: process.env.FRED_API_KEY ? 'fred' : 'mock',
     news: process.env.FINNHUB_API_KEY ? 'finnhub' : 'none'
   };
@@ -140,7 +198,7 @@ export const runBot = async (options: RunOptions) => {
     `DATA_SOURCES: marketDataProvider=${resolvedProviders.marketData} brokerProvider=${resolvedProviders.broker} quotes=${resolvedProviders.quotes} macro=${resolvedProviders.macro} news=${resolvedProviders.news}`
   );
 
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   if (!forceRun && fs.existsSync(runDir) && status !== 'UNKNOWN') {
     console.log(`Run directory ${runDir} already exists. Use --force to override.`);
     return;
@@ -161,9 +219,33 @@ export const runBot = async (options: RunOptions) => {
   const { inputs } = await generateBaseArtifacts(asOf, runId, config, universe, marketData, { mode: runMode }, broker);
 
   appendEvent(makeEvent(runId, 'RUN_STARTED', { mode: runMode, dryRun: dry, asOf }));
+  writeRunArtifact(runId, 'config_resolved.json', resolvedConfig);
+  const previousConfig = loadPreviousRunConfig(runId);
+  const configChanges = previousConfig ? diffConfigs(previousConfig.config, config) : [];
+  writeRunArtifact(runId, 'config_diff.json', { previousRunId: previousConfig?.runId ?? null, changes: configChanges });
+  if (configChanges.length) {
+    console.log(
+      `CONFIG: ${configChanges.length} change(s) since run ${previousConfig?.runId}: ${configChanges
+        .slice(0, 5)
+        .map((c) => c.path)
+        .join(', ')}${configChanges.length > 5 ? ', ...' : ''}`
+    );
+  }
   writeRunArtifact(runId, 'inputs.json', inputs);
   appendEvent(makeEvent(runId, 'INPUTS_WRITTEN', { symbols: universe.length }));
 
+  // A real broker's book must agree with the ledger before the bot trades on it; the stub is the ledger.
+  if (config.reconciliation?.enabled !== false && !(broker instanceof StubBroker)) {
+    const reconciliation = await reconcileAccount(broker, config, marketData, { asOf, accountId: account.id });
+    writeRunArtifact(runId, 'reconciliation.json', reconciliation);
+    if (!reconciliation.withinTolerance) {
+      const reason = `Reconciliation breaks ${reconciliation.breakUSD.toFixed(2)} exceed tolerance ${reconciliation.toleranceUSD.toFixed(2)}`;
+      appendEvent(makeEvent(runId, 'RUN_FAILED', { reason, stage: 'RECONCILIATION', breaks: reconciliation.breaks.length }));
+      console.error(`${reason}; review reconciliation.json and resolve with npm run bot:reconcile -- --apply`);
+      return;
+    }
+  }
+
   // Capital partition (core/reserve)
   const navResult = computeNav(inputs.portfolio.holdings || [], inputs.portfolio.cash || 0, inputs.quotes || {});
   const budgets = computeBudgets(navResult.nav, config);
@@ -203,7 +285,7 @@ export const runBot = async (options: RunOptions) => {
 
   // Sleeve positions (base vs dislocation) tracking and reconciliation
   const sleeveEnv = process.env.ETRADE_ENV || 'default';
-  const sleeveAccountKey = process.env.ETRADE_ACCOUNT_ID_KEY || undefined;
+  const sleeveAccountKey = accountStateKey(account);
   const existingSleeve = loadSleevePositions(sleeveEnv, sleeveAccountKey);
   const reconciledSleeve = reconcileSleevePositions(inputs.portfolio.holdings || [], existingSleeve);
   const sleevePositions = reconciledSleeve.positions;
@@ -214,10 +296,16 @@ export const runBot = async (options: RunOptions) => {
   writeRunArtifact(runId, 'sleeve_positions_snapshot.json', snapshotSleevePositions(sleevePositions));
 
   let proposal: ProposalResult | null = null;
+  // Proposals already made this run, so the shadow portfolios don't ask twice.
+  const knownProposals: Partial<Record<StrategyName, ProposalResult | null>> = {};
   const chosenStrategy: string = strategyOpt || (config.useLLM ? 'llm' : 'deterministic');
 
   if (chosenStrategy === 'llm') {
     const llmResult = await generateLLMProposal(asOf, universe, config, inputs.portfolio, marketData);
+    if (llmResult.calls.length) {
+      writeRunArtifact(runId, 'llm_usage.json', { summary: summarizeLLMCalls(llmResult.calls), calls: llmResult.calls });
+    }
+    knownProposals.llm = llmResult.success ? llmResult.result : null;
     if (llmResult.success) {
       proposal = llmResult.result;
     } else {
@@ -252,10 +340,11 @@ export const runBot = async (options: RunOptions) => {
   }
 
   writeRunArtifact(runId, 'proposal.json', proposal);
+  const selectedProposal: ProposalResult = JSON.parse(JSON.stringify(proposal));
   appendEvent(makeEvent(runId, 'PROPOSAL_CREATED', { strategy: proposal.strategy, orderCount: proposal.intent.orders.length }));
 
   // Load LLM context (round 4) for exposure-cap aware planning
-  const ctxPath = path.resolve(process.cwd(), 'runs', runId, 'llm_context.json');
+  const ctxPath = path.join(getRunDir(runId), 'llm_context.json');
   llmContext = fs.existsSync(ctxPath) ? (JSON.parse(fs.readFileSync(ctxPath, 'utf-8')) as any) : undefined;
 
   // Whole-share execution planner (closest fit + proxies, with exposure cap awareness)
@@ -280,15 +369,17 @@ export const runBot = async (options: RunOptions) => {
   );
   const equityConf = (llmContext as any)?.regimes?.equityRegime?.confidence ?? 0.5;
   const transitionRisk = (llmContext as any)?.regimes?.equityRegime?.transitionRisk ?? 'low';
-  let exposureCap = 1.0;
+  // Regime and data-quality cap; shadow portfolios plan against it with their own proposals.
+  let marketExposureCap = 1.0;
+  if (equityConf < 0.35) marketExposureCap = Math.min(marketExposureCap, 0.35);
+  else if (equityConf < 0.6) marketExposureCap = Math.min(marketExposureCap, 0.6);
+  if (hasMacroLag) marketExposureCap = Math.min(marketExposureCap, 0.7);
+  if (hasCoarsePercentiles) marketExposureCap = Math.min(marketExposureCap, 0.7);
+  if (transitionRisk === 'high') marketExposureCap = Math.min(marketExposureCap, 0.35);
+  else if (transitionRisk === 'elevated') marketExposureCap = Math.min(marketExposureCap, 0.6);
+  let exposureCap = marketExposureCap;
   const netExposureTarget = proposal.intent.orders[0]?.portfolioLevel?.netExposureTarget;
   if (netExposureTarget !== undefined) exposureCap = Math.min(exposureCap, netExposureTarget);
-  if (equityConf < 0.35) exposureCap = Math.min(exposureCap, 0.35);
-  else if (equityConf < 0.6) exposureCap = Math.min(exposureCap, 0.6);
-  if (hasMacroLag) exposureCap = Math.min(exposureCap, 0.7);
-  if (hasCoarsePercentiles) exposureCap = Math.min(exposureCap, 0.7);
-  if (transitionRisk === 'high') exposureCap = Math.min(exposureCap, 0.35);
-  else if (transitionRisk === 'elevated') exposureCap = Math.min(exposureCap, 0.6);
   const baseExposureCap = exposureCap;
   const capBudget = Math.min(deployBudgetUsd, (inputs?.portfolio?.equity ?? rawBudget) * exposureCap);
   const buyBudgetUSD = Math.max(0, Math.min(deployBudgetUsd, rawBudget - minCashUSD, capBudget));
@@ -428,19 +519,21 @@ export const runBot = async (options: RunOptions) => {
     const originalSymbol = originalByExecuted.get(o.symbol) || (o as any).originalSymbol || o.symbol;
     const baseOriginal = originalBySymbol.get(originalSymbol) || originalBySymbol.get(o.symbol);
     const basePL = baseOriginal?.portfolioLevel;
+    const invalidation = adjustedInvalidation(baseOriginal?.invalidation, originalSymbol, o.symbol);
     return {
       symbol: o.symbol,
       side: baseOriginal?.side || o.side,
       orderType: 'MARKET',
       notionalUSD: o.estNotionalUSD,
       thesis: baseOriginal?.thesis || '',
-      invalidation: adjustedInvalidation(baseOriginal?.invalidation, originalSymbol, o.symbol),
+      invalidation,
+      invalidationRule: parseInvalidationRule(invalidation, quotes[o.symbol]),
       confidence: baseOriginal?.confidence ?? 0.5,
       portfolioLevel: basePL ? { ...basePL } : { targetHoldDays: 30, netExposureTarget: 1 }
     } as TradeOrder;
   });
 
-  const drawdown = await currentDrawdown(config, marketData);
+  const drawdown = await currentDrawdown(config, marketData, account.id);
   const proxySymbolsUsed = (planner.substitutions || [])
     .filter((s) => s.reason === 'PROXY_SUBSTITUTION')
     .map((s) => s.executedSymbol);
@@ -513,8 +606,62 @@ export const runBot = async (options: RunOptions) => {
     riskOffExit,
     exposureGroups
   });
+  // Tax view over the rebalance: lot picks, short-term deferrals and loss harvesting.
+  const taxBook = config.tax?.taxAwareRebalance ? getPortfolioAt(asOf, config, account.id).book : undefined;
+  if (taxBook && config.rebalance?.enabled) {
+    const taxPlan = planTaxAwareRebalance({
+      asOf,
+      orders: rebalance.combinedOrders,
+      lots: taxBook.lots,
+      realized: taxBook.realized,
+      prices: priceMap,
+      cash: inputs.portfolio.cash ?? 0,
+      config,
+      exposureGroups,
+      families: taxBook.families
+    });
+    writeRunArtifact(runId, 'tax_rebalance.json', taxPlan);
+    rebalance.combinedOrders = taxPlan.orders;
+    rebalance.sellOrders = taxPlan.orders.filter((o) => o.side === 'SELL');
+    rebalance.buyOrders = taxPlan.orders.filter((o) => o.side === 'BUY');
+    rebalance.flags.push(...taxPlan.flags);
+    if (rebalance.status !== 'UNEXECUTABLE') rebalance.status = taxPlan.orders.length ? 'OK' : rebalance.status === 'OK' ? 'SKIPPED_NO_CHANGES' : rebalance.status;
+  }
   writeRunArtifact(runId, 'rebalance.json', rebalance);
 
+  // Shadow portfolios: every strategy traded hypothetically at this run's prices, for outcome scoring.
+  if (config.baselinesEnabled) {
+    try {
+      const shadows = await runShadowStrategies({
+        runId,
+        asOf,
+        universe,
+        config,
+        marketData,
+        accountId: account.id,
+        selected: selectedProposal,
+        known: knownProposals,
+        planning: {
+          prices: quotes,
+          proxiesMap,
+          proxyParentMap,
+          exposureGroups,
+          regimes: llmContext?.regimes,
+          priorRegimes,
+          deployPct: coreDeployPct,
+          marketExposureCap
+        }
+      });
+      writeRunArtifact(
+        runId,
+        'shadow_portfolios.json',
+        shadows.map(({ proposal: _proposal, ...shadow }) => shadow)
+      );
+    } catch (err) {
+      console.warn(`Shadow portfolios skipped: ${(err as Error).message}`);
+    }
+  }
+
   if (rebalance.status === 'SKIPPED_NO_DRIFT' || rebalance.status === 'SKIPPED_NO_CHANGES') {
     proposal.intent.orders = [];
     console.log('Rebalance skipped due to drift thresholds.');
@@ -645,7 +792,9 @@ export const runBot = async (options: RunOptions) => {
       corePoolUsd: corePoolUsd,
       deployBudgetUsd,
       remainingDeployBudgetUsd,
-      spentByBaseRebalanceBuysUsd
+      spentByBaseRebalanceBuysUsd,
+      asOf,
+      taxLots: taxBook?.lots
     });
     if (canonicalPlan.orders.length) {
       proposal.intent.orders = [...proposal.intent.orders, ...canonicalPlan.orders];
@@ -670,6 +819,7 @@ export const runBot = async (options: RunOptions) => {
         o.thesis ||
         (o.side === 'SELL' ? 'Rebalance trim to target weight.' : 'Rebalance add to target weight.'),
       invalidation: base?.invalidation || o.invalidation || '',
+      invalidationRule: o.side === 'BUY' ? base?.invalidationRule ?? o.invalidationRule : undefined,
       confidence: o.confidence ?? base?.confidence ?? 0.5,
       portfolioLevel: base?.portfolioLevel ?? o.portfolioLevel ?? { targetHoldDays: 0, netExposureTarget: 1 }
     };
@@ -678,6 +828,24 @@ export const runBot = async (options: RunOptions) => {
   // Combine rebalance orders with dislocation incremental buys
   proposal.intent.orders = [...rebalanceOrdersEnriched, ...dislocationExtraOrders];
 
+  // Invalidation monitor: breached positions exit in full, replacing any rebalance order on the symbol.
+  const invalidationMonitor = await runInvalidationMonitor({
+    runId,
+    asOf,
+    holdings: inputs.portfolio.holdings || [],
+    marketData,
+    quotes: priceMap
+  });
+  writeRunArtifact(runId, 'invalidation_checks.json', invalidationMonitor);
+  if (invalidationMonitor.sellOrders.length) {
+    const exiting = new Set(invalidationMonitor.sellOrders.map((o) => o.symbol));
+    proposal.intent.orders = [
+      ...proposal.intent.orders.filter((o) => !exiting.has(o.symbol)),
+      ...invalidationMonitor.sellOrders
+    ];
+    proposal.intent.universe = Array.from(new Set([...(proposal.intent.universe || []), ...exiting]));
+  }
+
   // Sleeve arbitration (for future options sleeves)
   const sleeves = arbitrateSleeves({
     regimes: llmContext?.regimes,
@@ -711,7 +879,7 @@ export const runBot = async (options: RunOptions) => {
     optionPositions: optionPositionsArtifact.positions || [],
     optionMarks: optionMarksArtifact.marks || [],
     env: process.env.ETRADE_ENV,
-    accountKey: process.env.ETRADE_ACCOUNT_ID_KEY
+    accountKey: sleeveAccountKey
   });
   writeRunArtifact(runId, 'insurance_plan.json', insurancePlan);
   const growthPlan = await planGrowthSleeve({
@@ -726,7 +894,7 @@ export const runBot = async (options: RunOptions) => {
     optionPositions: optionPositionsArtifact.positions || [],
     optionMarks: optionMarksArtifact.marks || [],
     env: process.env.ETRADE_ENV,
-    accountKey: process.env.ETRADE_ACCOUNT_ID_KEY
+    accountKey: sleeveAccountKey
   });
   writeRunArtifact(runId, 'growth_plan.json', growthPlan);
 
@@ -918,7 +1086,14 @@ export const runBot = async (options: RunOptions) => {
     if (meta) {
       assertRound5Input(llmContext, meta);
     }
-    const gateResult = applyDecisionPolicyGate(proposal.intent, llmContext, inputs.portfolio, config, dislocation);
+    const gateResult = applyDecisionPolicyGate(
+      proposal.intent,
+      llmContext,
+      inputs.portfolio,
+      config,
+      dislocation,
+      proposal.ensemble?.flags
+    );
     const existingFlags =
       (fs.existsSync(path.join(runDir, 'round5_flags.json'))
         ? JSON.parse(fs.readFileSync(path.join(runDir, 'round5_flags.json'), 'utf-8'))
@@ -1004,7 +1179,7 @@ export const runBot = async (options: RunOptions) => {
     narrativesGenerated = true;
   };
   const generateConsolidatedOnce = () => {
-    if (consolidatedGenerated) return;
+    if (consolidatedGenerated || skipConsolidatedReport) return;
     try {
       const res = spawnSync('ts-node', ['scripts/generateConsolidatedReport.ts', runId], { stdio: 'inherit' });
       if (res.status !== 0) {
@@ -1085,20 +1260,11 @@ export const runBot = async (options: RunOptions) => {
   const requireApproval = config.requireApproval && !auto;
 
   if (requireApproval && !dry) {
-    appendEvent(makeEvent(runId, 'RUN_PENDING_APPROVAL', { orders: riskReport.approvedOrders.length }));
-    console.log(`Run ${runId} pending approval. Review via UI before execution.`);
-    // Write sentinel fills/flags
-    await executeOrders(runId, asOf, riskReport.approvedOrders, broker, config, {
-      pendingApproval: true,
+    await holdOrdersForApproval(runId, asOf, riskReport.approvedOrders, broker, config, {
       mode: runMode as any,
       brokerProvider
     });
-    const existingFlags =
-      (fs.existsSync(path.join(runDir, 'round5_flags.json'))
-        ? JSON.parse(fs.readFileSync(path.join(runDir, 'round5_flags.json'), 'utf-8'))
-        : []) || [];
-    existingFlags.push({ code: 'EXECUTION_SKIPPED_PENDING_APPROVAL', severity: 'info', message: 'Awaiting approval' });
-    writeRunArtifact(runId, 'round5_flags.json', existingFlags);
+    console.log(`Run ${runId} pending approval. Review via UI before execution.`);
     generateNarrativesOnce();
     generateConsolidatedOnce();
     return;
@@ -1115,7 +1281,8 @@ export const runBot = async (options: RunOptions) => {
   const execution = await executeOrders(runId, asOf, riskReport.approvedOrders, broker, config, {
     dryRun: dry,
     mode: runMode as any,
-    brokerProvider
+    brokerProvider,
+    marketData
   });
   appendEvent(makeEvent(runId, 'RUN_COMPLETED', { fills: execution.fills.length }));
   console.log(`Run ${runId} completed with ${execution.fills.length} fills.`);
@@ -1125,8 +1292,25 @@ export const runBot = async (options: RunOptions) => {
 
 const run = async () => {
   const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  if (opts.mode === 'backtest' && (opts.from || opts.to)) {
+    if (!opts.from || !opts.to || !opts.dataDir) {
+      throw new Error('Backtest mode requires --from, --to and --data-dir.');
+    }
+    const result = await runBacktest({
+      from: opts.from,
+      to: opts.to,
+      dataDir: opts.dataDir,
+      strategy: opts.strategy,
+      outDir: opts.out,
+      startingCapitalUSD: opts.capital ? Number(opts.capital) : undefined
+    });
+    console.log(`Backtest wrote ${result.equityCurvePath} and ${result.metricsPath}`);
+    return;
+  }
   await runBot({
     asof: opts.asof,
+    accountId: opts.account,
     mode: opts.mode,
     strategy: opts.strategy,
     dryRun: opts.dryRun,
@@ -1138,7 +1322,7 @@ const run = async () => {
 if (require.main === module) {
   run().catch((err) => {
     const { runId } = parseAsOfDateTime();
-    appendEvent(makeEvent(runId, 'RUN_FAILED', { error: (err as Error).message }));
+    appendEvent(makeEvent(accountRunId(runId, program.opts().account), 'RUN_FAILED', { error: (err as Error).message }));
     console.error(err);
     process.exitCode = 1;
   });
@@ -1,28 +1,19 @@
-import { formatISODate } from '../core/time';
+import path from 'path';
+import { loadConfig } from '../core/utils';
+import { planSlotsBetween } from '../scheduler/daemon';
 
 const printSchedule = () => {
-  const today = formatISODate(new Date());
-  console.log('Example cron (UTC) to dump then trade weekly on Friday 23:55/23:57:');
-  console.log('# m h dom mon dow cmd');
-  console.log('55 23 * * FRI cd $(pwd) && npm run bot:dump -- --asof $(date -u +%Y-%m-%dT23:55)');
-  console.log('57 23 * * FRI cd $(pwd) && npm run bot:trade -- --asof $(date -u +%Y-%m-%dT23:55) --strategy llm --mode paper');
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'));
+  const now = new Date();
+  const slots = planSlotsBetween(now, new Date(now.getTime() + 28 * 86400000), config).filter(
+    (slot) => slot.tradeAt >= now.toISOString()
+  );
+  console.log(`Cadence ${config.cadence}, rebalanceDay ${config.rebalanceDay}. Upcoming slots (UTC, NYSE sessions only):`);
+  slots.slice(0, 10).forEach((slot) => {
+    console.log(`  ${slot.session}  dump ${slot.dumpAt}  trade ${slot.tradeAt}  runId ${slot.runId}`);
+  });
   console.log('');
-  console.log('macOS launchd example (weekly Friday 23:55 UTC):');
-  console.log(`<plist version="1.0">
-<dict>
-  <key>Label</key><string>com.local.tradingbot.dump</string>
-  <key>ProgramArguments</key>
-  <array>
-    <string>/bin/bash</string>
-    <string>-lc</string>
-    <string>cd ${process.cwd()} && npm run bot:dump -- --asof $(date -u +%Y-%m-%dT23:55)</string>
-  </array>
-  <key>StartCalendarInterval</key>
-  <dict><key>Weekday</key><integer>6</integer><key>Hour</key><integer>23</integer><key>Minute</key><integer>55</integer></dict>
-</dict>
-</plist>`);
-  console.log('');
-  console.log(`Today is ${today}. Adjust --asof if you test manually.`);
+  console.log('Run `npm run bot:daemon` to fire these in-process (retries, holiday skips, ledger heartbeats).');
 };
 
 printSchedule();
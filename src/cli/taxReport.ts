@@ -0,0 +1,84 @@
+import 'dotenv/config';
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { parseAsOfDateTime } from '../core/time';
+import { ensureDir, loadConfig } from '../core/utils';
+import { DEFAULT_ACCOUNT_ID, resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
+import { getMarketDataProvider } from '../data/marketData';
+import { getPortfolioAt } from '../ledger/portfolioProjection';
+import { realizedGainsReport, unrealizedLots } from '../analytics/taxLots';
+
+const program = new Command();
+
+program
+  .option('--year <year>', 'tax year to report realized gains for (defaults to the as-of year)')
+  .option('--asof <dateTime>', 'as-of timestamp for open lots (YYYY-MM-DD or YYYY-MM-DDTHH:mm, UTC)')
+  .option('--mode <mode>', 'paper | live (market data used to mark open lots)', 'paper')
+  .option('--account <id>', 'account to report on (see src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. tax.lotMethod=HIFO (repeatable)', collectConfigOverride, []);
+
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  const { asOf } = parseAsOfDateTime(opts.asof);
+  const year = Number(opts.year ?? asOf.slice(0, 4));
+  const account = resolveAccount(opts.account);
+  const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
+  const marketData = getMarketDataProvider(opts.mode);
+
+  const { book } = getPortfolioAt(asOf, config, account.id);
+  const report = realizedGainsReport(book.realized, year);
+
+  const prices: Record<string, number> = {};
+  for (const symbol of new Set(book.lots.map((l) => l.symbol))) {
+    prices[symbol] = await marketData.getQuote(symbol, asOf).then((q) => q.price).catch(() => 0);
+  }
+  const openLots = unrealizedLots(book.lots, prices, asOf);
+
+  ensureDir(path.resolve(process.cwd(), 'reports'));
+  const suffix = account.id === DEFAULT_ACCOUNT_ID ? `${year}` : `${year}_${account.id}`;
+  const csvPath = path.resolve(process.cwd(), `reports/realized_gains_${suffix}.csv`);
+  const jsonPath = path.resolve(process.cwd(), `reports/tax_report_${suffix}.json`);
+  const csvLines = ['symbol,lotId,quantity,openedAt,closedAt,term,proceeds,costBasis,gain,washSaleDisallowed,washSaleReplacements'];
+  for (const r of report.rows) {
+    csvLines.push(
+      [
+        r.symbol,
+        r.lotId,
+        r.quantity.toFixed(6),
+        r.openedAt,
+        r.closedAt,
+        r.term,
+        r.proceeds.toFixed(2),
+        r.costBasis.toFixed(2),
+        r.gain.toFixed(2),
+        (r.washSaleDisallowed ?? 0).toFixed(2),
+        (r.washSaleReplacements ?? []).join(' ')
+      ].join(',')
+    );
+  }
+  fs.writeFileSync(csvPath, csvLines.join('\n'));
+  fs.writeFileSync(
+    jsonPath,
+    JSON.stringify({ account: account.id, asOf, lotMethod: config.tax?.lotMethod ?? 'FIFO', ...report, openLots }, null, 2)
+  );
+
+  const fmt = (n: number) => n.toFixed(2);
+  console.log(`Realized ${year} (${account.id}, ${config.tax?.lotMethod ?? 'FIFO'}):`);
+  console.log(`  short-term ${fmt(report.shortTerm.gain)}  long-term ${fmt(report.longTerm.gain)}  total ${fmt(report.total.gain)}`);
+  if (report.washSales) {
+    console.log(`  ${report.washSales} wash sale(s); ${fmt(report.total.washSaleDisallowed)} of losses disallowed and added to replacement lots`);
+  }
+  const unrealized = openLots.reduce((acc, l) => acc + (l.unrealizedGain ?? 0), 0);
+  console.log(`Open lots: ${openLots.length}, unrealized ${fmt(unrealized)} as of ${asOf}`);
+  console.log(`Reports written to ${csvPath} and ${jsonPath}`);
+};
+
+if (require.main === module) {
+  run().catch((err) => {
+    console.error('bot:tax-report failed', err);
+    process.exitCode = 1;
+  });
+}
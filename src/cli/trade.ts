@@ -6,6 +6,8 @@ import { runBot } from './run';
 import { preflightAuth } from '../broker/etrade/authService';
 import { generateBaseArtifacts } from './contextBuilder';
 import { loadConfig, loadUniverse } from '../core/utils';
+import { accountRunId, resolveAccount } from '../core/accounts';
+import { collectConfigOverride, setConfigOverrides } from '../core/config';
 import { getMarketDataProvider } from '../data/marketData';
 import { getBroker } from '../broker/broker';
 
@@ -17,11 +19,24 @@ program
   .option('--strategy <strategy>', 'llm | deterministic | random')
   .option('--dry-run', 'simulate without placing orders', false)
   .option('--auto-exec', 'override approval gate and execute immediately', false)
-  .option('--force', 'override idempotency', false);
+  .option('--force', 'override idempotency', false)
+  .option('--account <id>', 'account to run for (src/config/accounts.json)')
+  .option('--set <key=value>', 'override a config key, e.g. dislocation.enabled=false (repeatable)', collectConfigOverride, []);
 
-const run = async () => {
-  const opts = program.parse(process.argv).opts();
-  const { asOf, runId } = parseAsOfDateTime(opts.asof);
+export interface TradeOptions {
+  asof?: string;
+  mode?: string;
+  strategy?: string;
+  dryRun?: boolean;
+  force?: boolean;
+  autoExec?: boolean;
+  accountId?: string;
+}
+
+export const runTrade = async (opts: TradeOptions) => {
+  const { asOf, runId: baseRunId } = parseAsOfDateTime(opts.asof);
+  const account = resolveAccount(opts.accountId);
+  const runId = accountRunId(baseRunId, account.id);
   const auth = preflightAuth(opts.mode);
   if (!auth.allow) {
     throw new Error(auth.warning || 'Auth not active');
@@ -31,14 +46,15 @@ const run = async () => {
   const runDir = path.resolve(process.cwd(), 'runs', runId);
   const llmContextPath = path.join(runDir, 'llm_context.json');
   if (!fs.existsSync(llmContextPath)) {
-    const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'));
+    const config = loadConfig(path.resolve(process.cwd(), 'src/config/default.json'), account.id);
     const universe = loadUniverse(path.resolve(process.cwd(), config.universeFile));
-    const md = getMarketDataProvider(opts.mode);
-    const broker = getBroker(config, md, opts.mode);
+    const md = getMarketDataProvider(opts.mode as any);
+    const broker = getBroker(config, md, opts.mode as any, account.id);
     await generateBaseArtifacts(asOf, runId, config, universe, md, {}, broker);
   }
   await runBot({
     asof: asOf,
+    accountId: account.id,
     mode: opts.mode,
     strategy: opts.strategy,
     dryRun: opts.dryRun,
@@ -47,6 +63,12 @@ const run = async () => {
   });
 };
 
+const run = async () => {
+  const opts = program.parse(process.argv).opts();
+  setConfigOverrides(opts.set);
+  await runTrade({ ...opts, accountId: opts.account });
+};
+
 if (require.main === module) {
   run().catch((err) => {
     console.error('bot:trade failed', err);
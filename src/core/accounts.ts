@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { LedgerEvent } from './types';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+export const ACCOUNTS_FILE = 'src/config/accounts.json';
+
+// Runs for a non-default account carry it as a suffix (`2025-12-17T20-30@ira`), so run ids stay
+// unique across accounts, sort chronologically and keep mapping 1:1 onto runs/<runId>/.
+const RUN_ACCOUNT_SEPARATOR = '@';
+
+export interface AccountProfile {
+  id: string;
+  label: string;
+  // E*TRADE accountIdKey this account trades; the default account falls back to ETRADE_ACCOUNT_ID_KEY.
+  brokerAccountIdKey?: string;
+}
+
+const accountsSchema = z
+  .array(
+    z
+      .object({
+        id: z.string().regex(/^[A-Za-z0-9_-]+$/, 'account ids may only use letters, digits, "_" and "-"'),
+        label: z.string().min(1).optional(),
+        brokerAccountIdKey: z.string().min(1).optional()
+      })
+      .strict()
+  )
+  .refine((list) => new Set(list.map((a) => a.id)).size === list.length, { message: 'account ids must be unique' });
+
+const defaultAccount: AccountProfile = { id: DEFAULT_ACCOUNT_ID, label: 'Default' };
+
+/** Registered accounts; the default account is always present, even without an accounts file. */
+export const loadAccounts = (filePath = path.resolve(process.cwd(), ACCOUNTS_FILE)): AccountProfile[] => {
+  if (!fs.existsSync(filePath)) return [defaultAccount];
+  const result = accountsSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '<root>'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid accounts file ${filePath}: ${issues}`);
+  }
+  const accounts = result.data.map((a) => ({ ...a, label: a.label ?? a.id }));
+  return accounts.some((a) => a.id === DEFAULT_ACCOUNT_ID) ? accounts : [defaultAccount, ...accounts];
+};
+
+export const resolveAccount = (accountId?: string, accounts: AccountProfile[] = loadAccounts()): AccountProfile => {
+  const id = accountId || DEFAULT_ACCOUNT_ID;
+  const account = accounts.find((a) => a.id === id);
+  if (!account) {
+    throw new Error(`Unknown account "${id}". Registered accounts: ${accounts.map((a) => a.id).join(', ')}`);
+  }
+  return account;
+};
+
+export const splitRunId = (runId: string): { baseRunId: string; accountId: string } => {
+  const idx = runId.lastIndexOf(RUN_ACCOUNT_SEPARATOR);
+  if (idx <= 0) return { baseRunId: runId, accountId: DEFAULT_ACCOUNT_ID };
+  return { baseRunId: runId.slice(0, idx), accountId: runId.slice(idx + 1) };
+};
+
+/** Qualifies a run id with its account; the default account keeps bare ids so existing runs are unchanged. */
+export const accountRunId = (runId: string, accountId: string = DEFAULT_ACCOUNT_ID): string => {
+  const { baseRunId, accountId: existing } = splitRunId(runId);
+  if (existing !== DEFAULT_ACCOUNT_ID && existing !== accountId) {
+    throw new Error(`Run ${runId} belongs to account ${existing}, not ${accountId}`);
+  }
+  return accountId === DEFAULT_ACCOUNT_ID ? baseRunId : `${baseRunId}${RUN_ACCOUNT_SEPARATOR}${accountId}`;
+};
+
+export const eventAccountId = (evt: LedgerEvent): string => evt.accountId ?? splitRunId(evt.runId).accountId;
+
+export const eventsForAccount = (events: LedgerEvent[], accountId: string = DEFAULT_ACCOUNT_ID): LedgerEvent[] =>
+  events.filter((evt) => eventAccountId(evt) === accountId);
+
+export const brokerAccountIdKey = (account: AccountProfile): string | undefined =>
+  account.brokerAccountIdKey ?? (account.id === DEFAULT_ACCOUNT_ID ? process.env.ETRADE_ACCOUNT_ID_KEY || undefined : undefined);
+
+// Suffix for per-account sleeve state files (sleeve_positions.<env>.<key>.json and friends).
+export const accountStateKey = (account: AccountProfile): string | undefined =>
+  brokerAccountIdKey(account) ?? (account.id === DEFAULT_ACCOUNT_ID ? undefined : account.id);
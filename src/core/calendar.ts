@@ -0,0 +1,201 @@
+// NYSE trading calendar. Dates are exchange-local calendar days (YYYY-MM-DD); session times are
+// resolved to UTC through America/New_York so DST is handled by the platform tz database.
+
+export const EXCHANGE_TZ = 'America/New_York';
+
+const REGULAR_OPEN = '09:30';
+const REGULAR_CLOSE = '16:00';
+const EARLY_CLOSE = '13:00';
+
+export const SESSIONS_PER_WEEK = 5;
+
+// Unscheduled full-day closures (weather, national days of mourning).
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning (George H. W. Bush)',
+  '2025-01-09': 'National Day of Mourning (Jimmy Carter)'
+};
+
+const WEEKDAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+export interface TradingSession {
+  date: string;
+  openUTC: string;
+  closeUTC: string;
+  earlyClose: boolean;
+}
+
+const ymd = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const toUTCDate = (day: string): Date => new Date(`${day.slice(0, 10)}T00:00:00Z`);
+
+export const shiftDay = (day: string, days: number): string => {
+  const d = toUTCDate(day);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const dayOfWeek = (day: string): number => toUTCDate(day).getUTCDay();
+
+const isWeekend = (day: string) => {
+  const dow = dayOfWeek(day);
+  return dow === 0 || dow === 6;
+};
+
+// nth (1-based) weekday of a month; n = -1 picks the last one.
+const nthWeekday = (year: number, month: number, weekday: number, n: number): string => {
+  if (n > 0) {
+    const firstDow = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return ymd(year, month, 1 + ((weekday - firstDow + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const back = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return ymd(year, month, lastDay.getUTCDate() - back);
+};
+
+// Anonymous Gregorian algorithm.
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return ymd(year, month, day);
+};
+
+// Saturday holidays are observed on Friday, Sunday holidays on Monday.
+const observed = (day: string): string => {
+  const dow = dayOfWeek(day);
+  if (dow === 6) return shiftDay(day, -1);
+  if (dow === 0) return shiftDay(day, 1);
+  return day;
+};
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+export const nyseHolidays = (year: number): Map<string, string> => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+  const out = new Map<string, string>();
+  // New Year's Day on a Saturday is not moved back into the prior year.
+  const newYear = ymd(year, 1, 1);
+  if (dayOfWeek(newYear) !== 6) out.set(observed(newYear), "New Year's Day");
+  out.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  out.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  out.set(shiftDay(easterSunday(year), -2), 'Good Friday');
+  out.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) out.set(observed(ymd(year, 6, 19)), 'Juneteenth');
+  out.set(observed(ymd(year, 7, 4)), 'Independence Day');
+  out.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  out.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  out.set(observed(ymd(year, 12, 25)), 'Christmas Day');
+  Object.entries(SPECIAL_CLOSURES)
+    .filter(([day]) => day.startsWith(`${year}-`))
+    .forEach(([day, name]) => out.set(day, name));
+  holidayCache.set(year, out);
+  return out;
+};
+
+export const holidayName = (day: string): string | undefined =>
+  nyseHolidays(Number(day.slice(0, 4))).get(day.slice(0, 10));
+
+export const isTradingDay = (day: string): boolean => !isWeekend(day) && !holidayName(day);
+
+// 13:00 ET closes: the day before Independence Day, the day after Thanksgiving and Christmas Eve.
+export const isEarlyClose = (day: string): boolean => {
+  const d = day.slice(0, 10);
+  if (!isTradingDay(d)) return false;
+  const year = Number(d.slice(0, 4));
+  if (d === ymd(year, 7, 3) && !isWeekend(ymd(year, 7, 4))) return true;
+  if (d === shiftDay(nthWeekday(year, 11, 4, 4), 1)) return true;
+  return d === ymd(year, 12, 24);
+};
+
+// Exchange-local calendar day of an instant.
+export const exchangeDay = (d: Date): string => d.toLocaleString('sv-SE', { timeZone: EXCHANGE_TZ }).slice(0, 10);
+
+// UTC instant of an exchange-local wall time, correcting the naive guess by the zone offset.
+export const exchangeTimeToUTC = (day: string, hhmm: string): Date => {
+  const guess = new Date(`${day.slice(0, 10)}T${hhmm}:00Z`);
+  const local = new Date(`${guess.toLocaleString('sv-SE', { timeZone: EXCHANGE_TZ }).replace(' ', 'T')}Z`);
+  return new Date(guess.getTime() + (guess.getTime() - local.getTime()));
+};
+
+export const getTradingSession = (day: string): TradingSession | undefined => {
+  const d = day.slice(0, 10);
+  if (!isTradingDay(d)) return undefined;
+  const earlyClose = isEarlyClose(d);
+  return {
+    date: d,
+    openUTC: exchangeTimeToUTC(d, REGULAR_OPEN).toISOString(),
+    closeUTC: exchangeTimeToUTC(d, earlyClose ? EARLY_CLOSE : REGULAR_CLOSE).toISOString(),
+    earlyClose
+  };
+};
+
+export const nextTradingDay = (day: string): string => {
+  let d = shiftDay(day, 1);
+  while (!isTradingDay(d)) d = shiftDay(d, 1);
+  return d;
+};
+
+export const previousTradingDay = (day: string): string => {
+  let d = shiftDay(day, -1);
+  while (!isTradingDay(d)) d = shiftDay(d, -1);
+  return d;
+};
+
+// Sessions in (from, to]; negative when to precedes from.
+export const tradingDaysBetween = (from: string, to: string): number => {
+  const a = from.slice(0, 10);
+  const b = to.slice(0, 10);
+  if (a === b) return 0;
+  const [lo, hi] = a < b ? [a, b] : [b, a];
+  let count = 0;
+  for (let d = shiftDay(lo, 1); d <= hi; d = shiftDay(d, 1)) {
+    if (isTradingDay(d)) count += 1;
+  }
+  return a < b ? count : -count;
+};
+
+const rollForward = (day: string): string => (isTradingDay(day) ? day : nextTradingDay(day));
+
+/**
+ * The rebalance slot in effect on `day`: the latest configured weekday whose session (rolled
+ * forward past holidays) has started by `day`, plus the session the following slot lands on.
+ */
+export const rebalanceSlot = (
+  day: string,
+  rebalanceDay: string
+): { nominal: string; session: string; nextSession: string } => {
+  const d = day.slice(0, 10);
+  const target = Math.max(0, WEEKDAYS.indexOf((rebalanceDay || 'WEDNESDAY').toUpperCase()));
+  let nominal = shiftDay(d, -((dayOfWeek(d) - target + 7) % 7));
+  if (rollForward(nominal) > d) nominal = shiftDay(nominal, -7);
+  return { nominal, session: rollForward(nominal), nextSession: rollForward(shiftDay(nominal, 7)) };
+};
+
+export const isRebalanceSession = (day: string, rebalanceDay: string): boolean =>
+  rebalanceSlot(day, rebalanceDay).session === day.slice(0, 10);
+
+// Rebalance sessions in [from, to], one per week, each rolled to the next open session.
+export const listRebalanceSessions = (from: string, to: string, rebalanceDay: string): string[] => {
+  const sessions: string[] = [];
+  let { nominal } = rebalanceSlot(from, rebalanceDay);
+  for (; nominal <= to.slice(0, 10); nominal = shiftDay(nominal, 7)) {
+    const session = rollForward(nominal);
+    if (session >= from.slice(0, 10) && session <= to.slice(0, 10)) sessions.push(session);
+  }
+  return sessions;
+};
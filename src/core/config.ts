@@ -0,0 +1,552 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { BotConfig } from './types';
+
+const WEEKDAYS = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY'] as const;
+const PROMPT_VARIANTS = ['base', 'risk-first', 'contrarian'] as const;
+
+const pct = z.number().min(0).max(1);
+const usd = z.number().min(0);
+const count = z.number().int().min(0);
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'expected HH:mm (exchange time)');
+
+const weightedSymbolsSchema = z
+  .array(z.object({ symbol: z.string().min(1), weight: pct }).strict())
+  .refine((list) => !list.length || Math.abs(list.reduce((acc, t) => acc + t.weight, 0) - 1) < 1e-6, {
+    message: 'weights must sum to 1'
+  });
+
+const rebalanceSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    portfolioDriftThreshold: pct.default(0.05),
+    positionDriftThreshold: pct.default(0.05),
+    minTradeNotionalUSD: usd.default(25),
+    alwaysRebalanceOnRegimeChange: z.boolean().default(true),
+    regimeChangeKeys: z
+      .array(z.string().min(1))
+      .default(['equityRegime.label', 'equityRegime.confidence', 'volRegime.label', 'ratesRegime.label']),
+    fullExitRemovedSymbols: z.boolean().default(true),
+    rebalanceDustSharesThreshold: z.number().min(0).default(0)
+  })
+  .strict();
+
+const dislocationTierSchema = z
+  .object({
+    tier: count,
+    name: z.string().optional(),
+    peakDrawdownGte: pct,
+    overlayExtraExposurePct: pct
+  })
+  .strict();
+
+const dislocationSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    anchorSymbol: z.string().min(1).default('SPY'),
+    barInterval: z.enum(['1m', '5m', '15m', '30m', '1h', '1d', '1w']).default('1w'),
+    fastWindowWeeks: z.number().int().min(1).default(1),
+    slowWindowWeeks: z.number().int().min(1).default(4),
+    peakLookbackWeeks: z.number().int().min(1).default(26),
+    minActiveTier: count.default(2),
+    tiers: z
+      .array(dislocationTierSchema)
+      .min(1)
+      .refine((tiers) => tiers.every((t, i) => i === 0 || t.peakDrawdownGte > tiers[i - 1].peakDrawdownGte), {
+        message: 'tiers must be ordered by strictly increasing peakDrawdownGte'
+      })
+      .default([
+        { tier: 0, name: 'inactive', peakDrawdownGte: 0, overlayExtraExposurePct: 0 },
+        { tier: 1, name: 'mild', peakDrawdownGte: 0.1, overlayExtraExposurePct: 0.15 },
+        { tier: 2, name: 'dislocation', peakDrawdownGte: 0.2, overlayExtraExposurePct: 0.3 },
+        { tier: 3, name: 'capitulation', peakDrawdownGte: 0.3, overlayExtraExposurePct: 0.4 }
+      ]),
+    fastDrawdownEscalation: z
+      .object({
+        enabled: z.boolean().default(true),
+        tier2FastDrawdownGte: pct.default(0.12),
+        tier3FastDrawdownGte: pct.default(0.18)
+      })
+      .strict()
+      .default({}),
+    slowDrawdownEscalation: z
+      .object({
+        enabled: z.boolean().default(true),
+        tier2SlowDrawdownGte: pct.default(0.15),
+        tier3SlowDrawdownGte: pct.default(0.25)
+      })
+      .strict()
+      .default({}),
+    confirmBreadth: z.boolean().optional(),
+    breadthUniverseSymbols: z.array(z.string().min(1)).optional(),
+    breadthMinDownCount: count.optional(),
+    triggerFastDrawdownPct: pct.optional(),
+    triggerSlowDrawdownPct: pct.optional(),
+    opportunisticExtraExposurePct: pct.optional(),
+    tierHysteresisPct: pct.default(0.02),
+    minWeeksBetweenTierChanges: count.default(1),
+    overlayExtraExposurePct: pct.optional(),
+    overlayTargets: weightedSymbolsSchema.default([
+      { symbol: 'SPYM', weight: 0.7 },
+      { symbol: 'QQQM', weight: 0.3 }
+    ]),
+    overlayExposureKeys: z.array(z.string().min(1)).default(['US_LARGE_CAP', 'NASDAQ_100']),
+    proxyOnlyOverlay: z.boolean().default(true),
+    overlayAllowedSymbols: z.array(z.string().min(1)).default(['SPYM', 'QQQM']),
+    overlayFundingPolicy: z.enum(['cash_only', 'allow_trim_base']).default('cash_only'),
+    overlayMinBudgetUSD: usd.default(200),
+    overlayMinBudgetPolicy: z.enum(['gate', 'warn']).default('gate'),
+    overlayMinOneShareRule: z.boolean().default(true),
+    maxTotalExposureCapPct: pct.default(0.7),
+    deploymentTargets: weightedSymbolsSchema.default([]),
+    durationWeeks: count.optional(),
+    durationWeeksAdd: count.default(3),
+    durationWeeksHold: count.default(10),
+    cooldownWeeks: count.default(2),
+    exitCondition: z.literal('time_or_recovery').optional(),
+    recoveryPctFromLow: pct.optional(),
+    pacing: z
+      .object({
+        tierMaxDeployPctOfOverlayPerWeek: z.record(z.string().regex(/^\d+$/, 'expected a tier number'), pct).default({
+          '1': 0.5,
+          '2': 0.75,
+          '3': 1
+        })
+      })
+      .strict()
+      .default({}),
+    sleeveTag: z.string().min(1).default('dislocation'),
+    reintegrationMode: z.literal('passive').default('passive'),
+    freezeBaseRebalanceDuringAddHold: z.boolean().default(true),
+    earlyExit: z
+      .object({
+        enabled: z.boolean().default(true),
+        riskOffConfidenceThreshold: pct.default(0.7),
+        requiresRiskOffLabel: z.boolean().default(true),
+        deepDrawdownFailsafePct: pct.default(0.3)
+      })
+      .strict()
+      .default({})
+  })
+  .strict();
+
+const schedulerSchema = z
+  .object({
+    dumpTime: hhmm.default('15:30'),
+    tradeTime: hhmm.default('15:35'),
+    mode: z.enum(['paper', 'live']).default('paper'),
+    strategy: z.enum(['llm', 'deterministic', 'random']).default('llm'),
+    maxAttempts: z.number().int().min(1).default(3),
+    retryBackoffSec: z.number().min(0).default(60),
+    missedGraceMinutes: z.number().min(0).default(20),
+    heartbeatSec: z.number().positive().default(300),
+    pollSec: z.number().positive().default(30)
+  })
+  .strict()
+  .refine((s) => s.dumpTime <= s.tradeTime, { message: 'dumpTime must not be after tradeTime' });
+
+const executionSchema = z
+  .object({
+    orderTimeoutMinutes: z.number().min(0).default(30),
+    limitRepriceBps: z.number().min(0).default(25),
+    maxReplaces: count.default(2),
+    limitPolicy: z.enum(['market', 'mid_offset', 'marketable_cap', 'peg']).default('market'),
+    limitSymbols: z.array(z.string().min(1)).default([]),
+    midOffsetBps: z.number().min(0).default(2),
+    marketableCapBps: z.number().min(0).default(10),
+    pegSteps: z.number().int().min(1).default(3)
+  })
+  .strict();
+
+const taxSchema = z
+  .object({
+    lotMethod: z.enum(['FIFO', 'HIFO', 'SPECIFIC_ID']).default('FIFO'),
+    washSaleWindowDays: count.default(30),
+    substantiallyIdentical: z.array(z.array(z.string().min(1)).min(1)).default([]),
+    taxAwareRebalance: z.boolean().default(false),
+    shortTermDeferDays: count.default(30),
+    harvestLosses: z.boolean().default(true),
+    harvestMinLossPct: pct.default(0.05),
+    harvestMinLossUSD: z.number().min(0).default(100)
+  })
+  .strict();
+
+const llmProviderSchema = z
+  .object({
+    kind: z.enum(['openai', 'anthropic', 'ollama']),
+    baseUrl: z.string().url(),
+    model: z.string().min(1),
+    apiKeyEnv: z.string().default(''),
+    temperature: z.number().min(0).max(2).default(0),
+    maxTokens: z.number().int().positive().default(1500),
+    jsonMode: z.boolean().default(true),
+    inputCostPerMTok: usd.default(0),
+    outputCostPerMTok: usd.default(0)
+  })
+  .strict();
+
+const llmSchema = z
+  .object({
+    provider: z.string().min(1).default('openai'),
+    providers: z.record(llmProviderSchema).default({
+      openai: {
+        kind: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        model: 'gpt-4o-mini',
+        apiKeyEnv: 'OPENAI_API_KEY',
+        inputCostPerMTok: 0.15,
+        outputCostPerMTok: 0.6
+      },
+      anthropic: {
+        kind: 'anthropic',
+        baseUrl: 'https://api.anthropic.com/v1',
+        model: 'claude-3-5-haiku-latest',
+        apiKeyEnv: 'ANTHROPIC_API_KEY',
+        inputCostPerMTok: 0.8,
+        outputCostPerMTok: 4
+      },
+      local: { kind: 'ollama', baseUrl: 'http://127.0.0.1:11434', model: 'llama3.1:8b' }
+    }),
+    timeoutMs: z.number().int().positive().default(60000),
+    maxRetries: count.default(2),
+    retryBackoffMs: count.default(1000),
+    ensemble: z
+      .object({
+        samples: z.number().int().min(1).default(1),
+        members: z
+          .array(
+            z
+              .object({
+                provider: z.string().min(1).optional(),
+                temperature: z.number().min(0).max(2).optional(),
+                promptVariant: z.enum(PROMPT_VARIANTS).optional()
+              })
+              .strict()
+          )
+          .default([]),
+        minValidSamples: z.number().int().min(1).default(2),
+        maxDisagreement: pct.default(0.35)
+      })
+      .strict()
+      .default({})
+  })
+  .strict()
+  .refine((l) => Boolean(l.providers[l.provider]), { message: 'provider must name an entry in providers', path: ['provider'] })
+  .refine((l) => l.ensemble.members.every((m) => !m.provider || l.providers[m.provider]), {
+    message: 'ensemble members must name entries in providers',
+    path: ['ensemble', 'members']
+  });
+
+const reconciliationSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    toleranceUSD: usd.default(25),
+    tolerancePct: pct.default(0.001),
+    missingFillLookbackDays: count.default(7),
+    dividendMaxPct: pct.default(0.02)
+  })
+  .strict();
+
+const approvalSchema = z
+  .object({
+    revalidate: z.boolean().default(true),
+    maxPriceDriftPct: pct.default(0.03),
+    maxProposalAgeHours: z.number().min(0).default(48)
+  })
+  .strict();
+
+const ledgerSchema = z
+  .object({
+    snapshotEveryEvents: count.default(500)
+  })
+  .strict();
+
+const optionSleeveSchema = (defaults: { spendPct: number; minMoneyness: number; maxMoneyness: number }) =>
+  z
+    .object({
+      spendPct: pct.default(defaults.spendPct),
+      minMonths: z.number().int().min(1).default(3),
+      maxMonths: z.number().int().min(1).default(6),
+      minMoneyness: z.number().positive().default(defaults.minMoneyness),
+      maxMoneyness: z.number().positive().default(defaults.maxMoneyness),
+      limitPriceBufferPct: pct.default(0.05),
+      closeWithinDays: count.default(21),
+      allowExpire: z.boolean().default(false)
+    })
+    .strict()
+    .refine((s) => s.minMonths <= s.maxMonths, { message: 'minMonths must not exceed maxMonths' })
+    .refine((s) => s.minMoneyness <= s.maxMoneyness, { message: 'minMoneyness must not exceed maxMoneyness' });
+
+// Keyed by BotConfig so a field added to the interface without a schema entry (or vice versa) fails to compile.
+const botConfigShape = {
+  startingCapitalUSD: usd.default(250),
+  maxPositions: z.number().int().min(1).default(4),
+  rebalanceDay: z.string().toUpperCase().pipe(z.enum(WEEKDAYS)).default('WEDNESDAY'),
+  maxTradesPerRun: z.number().int().min(1).default(4),
+  maxPositionPct: pct.default(0.35),
+  maxWeeklyDrawdownPct: pct.default(0.1),
+  minCashPct: pct.default(0),
+  maxNotionalTradedPctPerRun: pct.default(1),
+  minHoldHours: z.number().min(0).default(0),
+  rebalance: rebalanceSchema.default({}),
+  dislocation: dislocationSchema.default({}),
+  cadence: z.enum(['weekly', 'hourly']).default('weekly'),
+  scheduler: schedulerSchema.default({}),
+  execution: executionSchema.default({}),
+  tax: taxSchema.default({}),
+  reconciliation: reconciliationSchema.default({}),
+  approval: approvalSchema.default({}),
+  ledger: ledgerSchema.default({}),
+  policyGateMode: z.enum(['scale', 'block']).default('scale'),
+  round0MacroLagPolicy: z.enum(['flags_warn', 'summary_only']).default('flags_warn'),
+  macroLagWarnDays: count.default(45),
+  macroLagErrorDays: count.default(120),
+  minExecutableNotionalUSD: usd.default(1),
+  fractionalSharesSupported: z.boolean().default(true),
+  allowExecutionProxies: z.boolean().default(true),
+  capital: z
+    .object({
+      corePct: pct.default(0.7),
+      reservePct: pct.default(0.3),
+      deployConfThreshold: pct.optional()
+    })
+    .strict()
+    .refine((c) => c.corePct + c.reservePct <= 1 + 1e-9, { message: 'corePct + reservePct must not exceed 1' })
+    .default({}),
+  proxiesFile: z.string().default('src/config/proxies.json'),
+  proxySelectionMode: z.literal('first_executable').default('first_executable'),
+  maxProxyTrackingErrorAbs: z.number().min(0).default(0.1),
+  enableExposureGrouping: z.boolean().default(true),
+  exposureGroupsFile: z.string().default('src/config/exposure_groups.json'),
+  canonicalizeExposureGroups: z.boolean().default(true),
+  canonicalizeOnlyInPhase: z.array(z.string().min(1)).default(['REINTEGRATE']),
+  canonicalizeMaxNotionalPctPerRun: pct.default(0.1),
+  canonicalizeMinDriftToAct: pct.default(0.05),
+  canonicalizeOnlyIfAffordable: z.boolean().default(true),
+  universeFile: z.string().default('src/config/universe.json'),
+  baselinesEnabled: z.boolean().default(true),
+  slippageBps: z.number().min(0).default(5),
+  commissionPerTradeUSD: usd.default(0),
+  useLLM: z.boolean().default(true),
+  llm: llmSchema.default({}),
+  prompt: z
+    .object({
+      templatesDir: z.string().default('src/config/prompts'),
+      template: z.string().regex(/^[\w-]+\.v\d+$/, 'expected <name>.v<N>').default('proposal.v1'),
+      tokenBudget: z.number().int().positive().default(12000)
+    })
+    .strict()
+    .default({}),
+  requireApproval: z.boolean().default(true),
+  optionsUnderlyings: z.array(z.string().min(1)).default(['IWM', 'DIA', 'SPY', 'QQQ']),
+  hedgeProxyPolicy: z
+    .object({
+      hedgePreferred: z.array(z.string().min(1)).default(['IWM', 'DIA', 'SPY', 'QQQ']),
+      growthPreferred: z.array(z.string().min(1)).default(['QQQ', 'SPY', 'IWM'])
+    })
+    .strict()
+    .default({}),
+  insuranceReserveMode: z.enum(['light', 'full']).optional(),
+  insurance: optionSleeveSchema({ spendPct: 0.85, minMoneyness: 0.95, maxMoneyness: 1 }).default({}),
+  growth: optionSleeveSchema({ spendPct: 0.2, minMoneyness: 1.03, maxMoneyness: 1.1 }).default({}),
+  uiPort: z.number().int().min(1).max(65535).default(8787),
+  uiBind: z.string().min(1).default('127.0.0.1')
+} satisfies Record<keyof BotConfig, z.ZodTypeAny>;
+
+export const botConfigSchema = z
+  .object(botConfigShape)
+  .strict()
+  .refine((c) => c.macroLagWarnDays <= c.macroLagErrorDays, {
+    message: 'macroLagWarnDays must not exceed macroLagErrorDays',
+    path: ['macroLagWarnDays']
+  });
+
+const formatIssues = (error: z.ZodError) => error.issues.map((i) => `${i.path.join('.') || '<root>'}: ${i.message}`);
+
+/** Validates raw config JSON and fills in defaults for anything omitted. */
+export const parseBotConfig = (raw: unknown, source = 'config'): BotConfig => {
+  const result = botConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid bot config (${source}):\n${formatIssues(result.error).map((m) => `  - ${m}`).join('\n')}`);
+  }
+  const config: BotConfig = result.data;
+  return config;
+};
+
+/**
+ * Validates a hand-built config without filling defaults, so harnesses that deliberately leave
+ * knobs unset (the sim scripts) keep exactly the behaviour they were written against.
+ */
+export const checkBotConfig = (config: BotConfig, source: string) => {
+  parseBotConfig(config, source);
+};
+
+export const CONFIG_ENV_VAR = 'BOT_ENV';
+export const CONFIG_OVERRIDE_PREFIX = 'BOT_CONFIG__';
+
+export interface ConfigOverride {
+  path: string[];
+  value: unknown;
+  source: string;
+}
+
+export interface ResolveConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  set?: string[];
+  accountId?: string;
+}
+
+export interface ResolvedConfig {
+  accountId?: string;
+  config: BotConfig;
+  // In precedence order, lowest first.
+  sources: string[];
+}
+
+// Process-wide `--set` overrides; CLIs register them once so every loadConfig in the run agrees.
+let cliOverrides: string[] = [];
+
+export const setConfigOverrides = (sets: string[] = []) => {
+  cliOverrides = [...sets];
+};
+
+/** Commander collector for a repeatable `--set key=value` option. */
+export const collectConfigOverride = (value: string, previous: string[] = []) => [...previous, value];
+
+// JSON when it parses (numbers, booleans, arrays), otherwise the raw string.
+const parseOverrideValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+export const parseSetOverride = (expr: string): ConfigOverride => {
+  const eq = expr.indexOf('=');
+  const key = eq > 0 ? expr.slice(0, eq).trim() : '';
+  if (!key) throw new Error(`Invalid --set "${expr}": expected key=value (e.g. dislocation.enabled=false)`);
+  return { path: key.split('.'), value: parseOverrideValue(expr.slice(eq + 1)), source: `--set ${key}` };
+};
+
+export const envConfigOverrides = (env: NodeJS.ProcessEnv = process.env): ConfigOverride[] =>
+  Object.keys(env)
+    .filter((name) => name.startsWith(CONFIG_OVERRIDE_PREFIX) && env[name] !== undefined)
+    .sort()
+    .map((name) => ({
+      path: name.slice(CONFIG_OVERRIDE_PREFIX.length).split('__'),
+      value: parseOverrideValue(env[name] as string),
+      source: `env ${name}`
+    }));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Objects merge key by key; arrays and scalars from the patch replace the base.
+const deepMerge = (base: unknown, patch: unknown): unknown => {
+  if (!isPlainObject(base) || !isPlainObject(patch)) return patch;
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) out[key] = deepMerge(base[key], value);
+  return out;
+};
+
+const applyOverride = (target: Record<string, unknown>, override: ConfigOverride) => {
+  if (override.path.some((k) => !k)) throw new Error(`Invalid config override path from ${override.source}`);
+  let node: any = target;
+  override.path.forEach((key, idx) => {
+    const last = idx === override.path.length - 1;
+    const slot = Array.isArray(node) && /^\d+$/.test(key) ? Number(key) : key;
+    if (last) {
+      node[slot] = override.value;
+      return;
+    }
+    if (typeof node[slot] !== 'object' || node[slot] === null) node[slot] = {};
+    node = node[slot];
+  });
+};
+
+const readLayer = (filePath: string): Record<string, unknown> => {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!isPlainObject(parsed)) throw new Error(`Config file ${filePath} must contain a JSON object`);
+  return parsed;
+};
+
+/**
+ * Builds the effective config from, lowest precedence first: the base file, the environment file
+ * named by BOT_ENV (`<BOT_ENV>.json` next to the base file), the account file
+ * (`accounts/<accountId>.json` next to the base file, optional), BOT_CONFIG__a__b env vars, and
+ * `--set a.b=value` overrides. The merged result is validated once, so a typo in any layer fails.
+ */
+export const resolveConfig = (configPath: string, options: ResolveConfigOptions = {}): ResolvedConfig => {
+  const env = options.env ?? process.env;
+  const rel = (p: string) => path.relative(process.cwd(), p) || p;
+  const sources = [rel(configPath)];
+  let merged = readLayer(configPath);
+
+  const envName = env[CONFIG_ENV_VAR];
+  if (envName) {
+    const envFile = path.join(path.dirname(configPath), `${envName}.json`);
+    if (!fs.existsSync(envFile)) throw new Error(`${CONFIG_ENV_VAR}=${envName} but ${rel(envFile)} does not exist`);
+    merged = deepMerge(merged, readLayer(envFile)) as Record<string, unknown>;
+    sources.push(rel(envFile));
+  }
+
+  const accountFile = options.accountId ? path.join(path.dirname(configPath), 'accounts', `${options.accountId}.json`) : undefined;
+  if (accountFile && fs.existsSync(accountFile)) {
+    merged = deepMerge(merged, readLayer(accountFile)) as Record<string, unknown>;
+    sources.push(rel(accountFile));
+  }
+
+  const overrides = [...envConfigOverrides(env), ...(options.set ?? cliOverrides).map(parseSetOverride)];
+  for (const override of overrides) {
+    applyOverride(merged, override);
+    sources.push(override.source);
+  }
+
+  const config = parseBotConfig(merged, sources.join(' + '));
+  return options.accountId ? { accountId: options.accountId, config, sources } : { config, sources };
+};
+
+/** A copy of `base` with dotted-path overrides (`dislocation.tiers.1.peakDrawdownGte`) applied, validated again. */
+export const applyConfigOverrides = (base: BotConfig, values: Record<string, unknown>, source = 'overrides'): BotConfig => {
+  const merged = JSON.parse(JSON.stringify(base)) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(values)) applyOverride(merged, { path: key.split('.'), value, source: `${source} ${key}` });
+  return parseBotConfig(merged, source);
+};
+
+export interface ConfigChange {
+  path: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+const flatten = (value: unknown, prefix: string, out: Map<string, unknown>) => {
+  if (Array.isArray(value) || isPlainObject(value)) {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+    if (!entries.length) out.set(prefix, value);
+    for (const [key, v] of entries) flatten(v, prefix ? `${prefix}.${key}` : key, out);
+    return;
+  }
+  out.set(prefix, value);
+};
+
+/** Leaf-level differences between two configs, sorted by dotted path. */
+export const diffConfigs = (previous: unknown, current: unknown): ConfigChange[] => {
+  const before = new Map<string, unknown>();
+  const after = new Map<string, unknown>();
+  flatten(previous, '', before);
+  flatten(current, '', after);
+  const keys = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  const changes: ConfigChange[] = [];
+  for (const key of keys) {
+    const a = before.get(key);
+    const b = after.get(key);
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+    const change: ConfigChange = { path: key };
+    if (before.has(key)) change.previous = a;
+    if (after.has(key)) change.current = b;
+    changes.push(change);
+  }
+  return changes;
+};
@@ -0,0 +1,35 @@
+import { LLMContextPacket } from './types';
+
+type Truncatable = Partial<Pick<LLMContextPacket, 'news' | 'features'>>;
+
+interface TruncationStep {
+  name: string;
+  // Undefined when the step has nothing to drop.
+  apply: <T extends Truncatable>(packet: T) => T | undefined;
+}
+
+/** What goes first when the Round 4 packet, or a prompt rendered from it, is over its size budget. */
+export const CONTEXT_TRUNCATION_STEPS: TruncationStep[] = [
+  { name: 'news', apply: (packet) => (packet.news ? { ...packet, news: undefined } : undefined) },
+  {
+    name: 'features_tail',
+    apply: (packet) => (packet.features && packet.features.length > 10 ? { ...packet, features: packet.features.slice(0, 10) } : undefined)
+  }
+];
+
+/** Applies the truncation steps in order until `fits` holds; `fits` is false when they run out first. */
+export const truncateToFit = <T extends Truncatable>(
+  packet: T,
+  fits: (candidate: T) => boolean
+): { packet: T; dropped: string[]; fits: boolean } => {
+  let working = packet;
+  const dropped: string[] = [];
+  for (const step of CONTEXT_TRUNCATION_STEPS) {
+    if (fits(working)) break;
+    const next = step.apply(working);
+    if (!next) continue;
+    working = next;
+    dropped.push(step.name);
+  }
+  return { packet: working, dropped, fits: fits(working) };
+};
@@ -1,3 +1,6 @@
+import { isRebalanceSession, rebalanceSlot } from './calendar';
+import { splitRunId } from './accounts';
+
 export const formatISODate = (date: Date): string => date.toISOString().slice(0, 10);
 
 export const parseAsOf = (asOf?: string): string => {
@@ -28,7 +31,11 @@ export const parseAsOfDateTime = (asOf?: string): { asOf: string; runId: string
   return { asOf: isoMinute, runId };
 };
 
-export const runIdToAsOf = (runId: string): string => {
+// Ledger events and cash flows count up to this instant; a date-only as-of covers the whole UTC day.
+export const asOfCutoffMs = (asOf: string): number => new Date(asOf.includes('T') ? asOf : `${asOf}T23:59:59Z`).getTime();
+
+export const runIdToAsOf = (qualifiedRunId: string): string => {
+  const { baseRunId: runId } = splitRunId(qualifiedRunId);
   // Convert runId with dashed time back to ISO minute string for data/risk calculations.
   if (runId.includes('T') && runId.match(/T\d{2}-\d{2}/)) {
     return runId.replace(/T(\d{2})-(\d{2})/, 'T$1:$2');
@@ -41,27 +48,17 @@ const tzDate = (date: Date, tz: string): Date => {
   return new Date(`${iso}Z`);
 };
 
-const weekdayToIndex = (day: string): number => {
-  const map: Record<string, number> = {
-    SUNDAY: 0,
-    MONDAY: 1,
-    TUESDAY: 2,
-    WEDNESDAY: 3,
-    THURSDAY: 4,
-    FRIDAY: 5,
-    SATURDAY: 6
-  };
-  return map[day.toUpperCase()] ?? 0;
-};
+const localDay = (now: Date, tz: string): string => tzDate(now, tz).toISOString().slice(0, 10);
 
-export const isRebalanceDay = (now: Date, rebalanceDay: string, tz = 'America/Los_Angeles'): boolean => {
-  const local = tzDate(now, tz);
-  return local.getUTCDay() === weekdayToIndex(rebalanceDay);
-};
+// Rebalance day checks follow the exchange calendar: a configured weekday that falls on a market
+// holiday rolls forward to the next trading session.
+export const isRebalanceDay = (now: Date, rebalanceDay: string, tz = 'America/Los_Angeles'): boolean =>
+  isRebalanceSession(localDay(now, tz), rebalanceDay);
 
 export const getRebalanceKey = (now: Date, rebalanceDay: string, tz = 'America/Los_Angeles'): string => {
-  const local = tzDate(now, tz);
-  const dayIdx = weekdayToIndex(rebalanceDay);
+  // Keyed by the nominal weekday, so a rolled session keeps the week it was scheduled in.
+  const { nominal } = rebalanceSlot(localDay(now, tz), rebalanceDay);
+  const local = new Date(`${nominal}T00:00:00Z`);
   // ISO week-year
   const year = local.getUTCFullYear();
   const oneJan = new Date(Date.UTC(year, 0, 1));
@@ -70,15 +67,13 @@ export const getRebalanceKey = (now: Date, rebalanceDay: string, tz = 'America/L
 };
 
 export const getCurrentRebalanceWindow = (now: Date, rebalanceDay: string, tz = 'America/Los_Angeles') => {
-  const local = tzDate(now, tz);
-  const dayIdx = weekdayToIndex(rebalanceDay);
-  const diffToPrev = (local.getUTCDay() - dayIdx + 7) % 7;
-  const start = new Date(local);
-  start.setUTCDate(local.getUTCDate() - diffToPrev);
-  start.setUTCHours(0, 0, 0, 0);
-  const end = new Date(start);
-  end.setUTCDate(start.getUTCDate() + 7);
-  return { startISO: start.toISOString(), endISO: end.toISOString(), key: getRebalanceKey(now, rebalanceDay, tz) };
+  const { session, nextSession } = rebalanceSlot(localDay(now, tz), rebalanceDay);
+  return {
+    startISO: `${session}T00:00:00.000Z`,
+    endISO: `${nextSession}T00:00:00.000Z`,
+    session,
+    key: getRebalanceKey(now, rebalanceDay, tz)
+  };
 };
 
 export const previousDate = (asOf: string, days: number): string => {
@@ -1,21 +1,49 @@
-export { PriceBar } from '../data/marketData.types';
+import { BarInterval, PriceBar } from '../data/marketData.types';
+export { BarInterval, PriceBar };
 
 export type TradeSide = 'BUY' | 'SELL';
 export type OrderType = 'MARKET' | 'LIMIT';
+// How LIMIT prices are set for ETF orders (see execution/limitPricing.ts); 'market' sends plain MARKET orders.
+export type LimitPricingPolicy = 'market' | 'mid_offset' | 'marketable_cap' | 'peg';
 
 export interface PortfolioLevelSettings {
   targetHoldDays: number;
   netExposureTarget: number; // 0..1
 }
 
+export interface InvalidationCondition {
+  // CLOSE_BELOW_LEVEL: level is a price; DRAWDOWN_FROM_ENTRY: level is a fraction (0.07 = 7%).
+  type: 'CLOSE_BELOW_LEVEL' | 'DRAWDOWN_FROM_ENTRY';
+  level: number;
+  reference?: string;
+  barInterval?: BarInterval;
+}
+
+export interface InvalidationRule {
+  conditions: InvalidationCondition[];
+  // Price the levels were anchored against when the order was proposed.
+  referencePrice?: number;
+  entry?: { orderId: string; runId: string; price: number; quantity: number; timestamp: string };
+}
+
 export interface TradeOrder {
   symbol: string;
   side: TradeSide;
   orderType: OrderType;
   notionalUSD: number;
+  // Required for LIMIT orders; moved to the current quote when a stale limit is cancelled and replaced.
+  limitPrice?: number;
+  limitPolicy?: LimitPricingPolicy;
+  // Peg step this limit was priced at (0 = mid).
+  limitStep?: number;
+  // Quote when execution started; realized slippage is measured against it.
+  arrivalPrice?: number;
+  // SELLs only: lots to relieve first; tax.lotMethod orders any remainder.
+  lotIds?: string[];
   thesis: string;
   invalidation: string;
   invalidationOriginal?: string;
+  invalidationRule?: InvalidationRule;
   confidence: number;
   portfolioLevel: PortfolioLevelSettings;
   sleeve?: 'base' | 'dislocation';
@@ -29,6 +57,32 @@ export interface TradeIntent {
 }
 
 export type StrategyName = 'llm' | 'deterministic' | 'random';
+
+// openai: any OpenAI-compatible chat completions server (incl. llama.cpp); ollama: its native /api/chat.
+export type LLMProviderKind = 'openai' | 'anthropic' | 'ollama';
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  baseUrl: string;
+  model: string;
+  // Env var holding the API key; empty for local servers.
+  apiKeyEnv?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the API for JSON output when the caller wants JSON and the API supports it.
+  jsonMode?: boolean;
+  // USD per million tokens, for the run's cost accounting.
+  inputCostPerMTok?: number;
+  outputCostPerMTok?: number;
+}
+export type LLMPromptVariant = 'base' | 'risk-first' | 'contrarian';
+
+export interface LLMEnsembleMember {
+  provider?: string;
+  temperature?: number;
+  promptVariant?: LLMPromptVariant;
+}
+
 export type Mode = 'paper' | 'live' | 'backtest';
 
 export type DataQualitySeverity = 'info' | 'warn' | 'error';
@@ -121,6 +175,72 @@ export interface BotConfig {
     };
   };
   cadence: 'weekly' | 'hourly';
+  scheduler?: {
+    // Exchange-local (America/New_York) HH:mm; shifted earlier by the same amount on early-close sessions.
+    dumpTime?: string;
+    tradeTime?: string;
+    mode?: 'paper' | 'live';
+    strategy?: string;
+    maxAttempts?: number;
+    retryBackoffSec?: number;
+    missedGraceMinutes?: number;
+    heartbeatSec?: number;
+    pollSec?: number;
+  };
+  execution?: {
+    // Orders still open this long after placement are cancelled (partial fills are kept).
+    orderTimeoutMinutes?: number;
+    // An open LIMIT order is cancelled and replaced at the current quote once the quote drifts this far past its limit.
+    limitRepriceBps?: number;
+    maxReplaces?: number;
+    limitPolicy?: LimitPricingPolicy;
+    // Symbols sent as LIMIT orders (thin proxies such as SPYM or VTWO); empty means every symbol.
+    limitSymbols?: string[];
+    // mid_offset: BUY at mid + offset, SELL at mid - offset.
+    midOffsetBps?: number;
+    // marketable_cap: take the touch, but never pay more than arrival + cap (or sell below arrival - cap).
+    marketableCapBps?: number;
+    // peg: start at mid and walk to the touch over this many attempts.
+    pegSteps?: number;
+  };
+  tax?: {
+    lotMethod?: LotReliefMethod;
+    // Loss sales with a substantially identical buy this many days either side are wash sales.
+    washSaleWindowDays?: number;
+    // Explicit wash-sale families (e.g. one per tracked index); empty derives them from proxies and exposure groups.
+    substantiallyIdentical?: string[][];
+    // Rebalance sells pick lots (losses, then long-term, then short-term gains) and may harvest losses.
+    taxAwareRebalance?: boolean;
+    // Short-term gain lots this close to turning long-term are not sold by rebalancing.
+    shortTermDeferDays?: number;
+    harvestLosses?: boolean;
+    // A symbol's loss lots are harvested once the loss reaches this fraction of basis and this many USD.
+    harvestMinLossPct?: number;
+    harvestMinLossUSD?: number;
+  };
+  reconciliation?: {
+    // Pre-run check of a real broker's holdings, cash and open orders against the ledger view.
+    enabled?: boolean;
+    // Trading is blocked when breaks exceed max(toleranceUSD, tolerancePct of broker equity).
+    toleranceUSD?: number;
+    tolerancePct?: number;
+    // How far back a placed-but-unfilled order may explain a position break as a missing fill.
+    missingFillLookbackDays?: number;
+    // Unexplained cash (or reinvested shares) up to this fraction of holdings value reads as a dividend.
+    dividendMaxPct?: number;
+  };
+  approval?: {
+    // Approving a pending run re-quotes, re-sizes and re-checks its orders before they are sent.
+    revalidate?: boolean;
+    // Execution is refused when any order's price moved more than this fraction since the proposal.
+    maxPriceDriftPct?: number;
+    // ...or when the proposal is older than this many hours at approval time.
+    maxProposalAgeHours?: number;
+  };
+  ledger?: {
+    // Portfolio projections checkpoint an account's book every this many ledger events (0 never does).
+    snapshotEveryEvents?: number;
+  };
   policyGateMode?: 'scale' | 'block';
   round0MacroLagPolicy?: 'flags_warn' | 'summary_only';
   macroLagWarnDays?: number;
@@ -148,6 +268,32 @@ export interface BotConfig {
   slippageBps: number;
   commissionPerTradeUSD: number;
   useLLM: boolean;
+  llm?: {
+    // Key into `providers`; LLM_PROVIDER overrides it.
+    provider?: string;
+    providers?: Record<string, LLMProviderConfig>;
+    timeoutMs?: number;
+    // Retries after a timeout, network error, 429 or 5xx, with backoff doubling from retryBackoffMs.
+    maxRetries?: number;
+    retryBackoffMs?: number;
+    // samples > 1 asks for that many proposals and trades their consensus.
+    ensemble?: {
+      samples?: number;
+      // Cycled across the samples; empty means the configured provider with the base prompt.
+      members?: LLMEnsembleMember[];
+      // Fewer valid samples than this fails the proposal like a single invalid one.
+      minValidSamples?: number;
+      // Disagreement above this raises ENSEMBLE_DISAGREEMENT for the policy gate.
+      maxDisagreement?: number;
+    };
+  };
+  prompt?: {
+    // Directory of <name>.v<N>.md templates; `template` names the one the proposer renders.
+    templatesDir?: string;
+    template?: string;
+    // Estimated tokens (~4 chars each) the rendered prompt may use before context is truncated.
+    tokenBudget?: number;
+  };
   requireApproval: boolean;
   optionsUnderlyings?: string[];
   hedgeProxyPolicy?: {
@@ -182,7 +328,7 @@ export interface BotConfig {
 export interface SymbolFeature {
   symbol: string;
   price: number;
-  barInterval?: '1d' | '1w';
+  barInterval?: BarInterval;
   return5d?: number;
   return20d?: number;
   return60d?: number;
@@ -200,6 +346,13 @@ export interface SymbolFeature {
   ma200?: number;
   historySamples?: number;
   historyUniqueCloses?: number;
+  // OHLCV-derived; undefined when the provider only returns closes.
+  atr14?: number;
+  atr14Pct?: number;
+  avgDollarVolume20d?: number;
+  gapAbsAvg20d?: number;
+  gapDownMax20d?: number;
+  gapCount20d?: number;
 }
 
 export interface MacroSeriesPoint {
@@ -267,9 +420,56 @@ export interface RiskReport {
   policyApplied?: Record<string, unknown>;
 }
 
+export interface ProposalSample {
+  index: number;
+  provider: string;
+  model?: string;
+  promptVariant: LLMPromptVariant;
+  promptHash?: string;
+  temperature?: number;
+  valid: boolean;
+  errors?: string[];
+  intent?: TradeIntent;
+}
+
+export interface EnsembleMetrics {
+  samples: number;
+  validSamples: number;
+  // Mean pairwise half-L1 distance between the valid samples' signed weight vectors: 0 identical, 1 disjoint.
+  disagreement: number;
+  // Share of valid samples trading each consensus symbol on the consensus side.
+  symbolAgreement: Record<string, number>;
+  // Symbols some samples buy and others sell.
+  sideConflicts: string[];
+}
+
+export interface ProposalEnsemble {
+  samples: ProposalSample[];
+  metrics: EnsembleMetrics;
+  flags: DataQualityFlag[];
+}
+
+export interface PromptRecord {
+  template: string;
+  templateVersion: string;
+  templateHash: string;
+  promptVariant: LLMPromptVariant;
+  // sha256 of the rendered prompt.
+  promptHash: string;
+  // Round 4 lineage hash of the llm_context.json it was rendered from.
+  contextHash?: string;
+  estimatedTokens: number;
+  tokenBudget: number;
+  dropped: string[];
+  overBudget: boolean;
+}
+
 export interface ProposalResult {
   strategy: StrategyName;
   intent: TradeIntent;
+  ensemble?: ProposalEnsemble;
+  // One per distinct rendered prompt (ensemble variants render their own).
+  prompts?: PromptRecord[];
 }
 
 export type LedgerEventType =
@@ -280,20 +480,62 @@ export type LedgerEventType =
   | 'RUN_PENDING_APPROVAL'
   | 'RUN_APPROVED'
   | 'APPROVAL_OVERRIDE_USED'
+  | 'APPROVAL_REVALIDATED'
   | 'RUN_REJECTED'
   | 'ORDER_PREVIEWED'
   | 'ORDER_PLACED'
+  | 'ORDER_PARTIALLY_FILLED'
+  | 'ORDER_FILLED'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_REJECTED'
+  | 'ORDER_EXPIRED'
   | 'FILL_RECORDED'
   | 'RUN_COMPLETED'
   | 'RUN_FAILED'
-  | 'EXECUTION_SENT_TO_BROKER';
+  // New artifact hashes after a run's files were rewritten by design (e.g. a fill sync after completion).
+  | 'RUN_ARTIFACTS_UPDATED'
+  | 'EXECUTION_SENT_TO_BROKER'
+  | 'DAEMON_STARTED'
+  | 'DAEMON_HEARTBEAT'
+  | 'DAEMON_STOPPED'
+  | 'SCHEDULE_STAGE_STARTED'
+  | 'SCHEDULE_STAGE_COMPLETED'
+  | 'SCHEDULE_STAGE_FAILED'
+  | 'SCHEDULE_SKIPPED'
+  | 'SCHEDULE_MISSED'
+  | 'INVALIDATION_BREACHED'
+  | 'CASH_DEPOSITED'
+  | 'CASH_WITHDRAWN'
+  | 'DIVIDEND_RECEIVED'
+  | 'CORPORATE_ACTION_RECORDED'
+  | 'RECONCILIATION_COMPLETED'
+  | 'EVENT_QUARANTINED';
 
 export interface LedgerEvent {
   id: string;
   runId: string;
+  // Set for non-default accounts (see core/accounts.ts); absent means the default account.
+  accountId?: string;
   timestamp: string;
   type: LedgerEventType;
   details?: Record<string, unknown>;
+  // Hash chain, set on append (see ledger/storage.ts); absent on events written before chaining.
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+}
+
+export type CashFlowType = 'DEPOSIT' | 'WITHDRAWAL' | 'DIVIDEND';
+
+// External money in/out of an account (deposits, withdrawals) or income it earned (dividends).
+export interface CashFlow {
+  type: CashFlowType;
+  amount: number;
+  // When the cash landed in the account; may be earlier than the ledger event that records it.
+  effectiveAt: string;
+  symbol?: string;
+  note?: string;
+  eventId?: string;
 }
 
 export interface Holding {
@@ -309,6 +551,41 @@ export interface PortfolioState {
   equity: number;
 }
 
+export type LotReliefMethod = 'FIFO' | 'HIFO' | 'SPECIFIC_ID';
+export type HoldingTerm = 'SHORT' | 'LONG';
+
+export interface TaxLot {
+  lotId: string;
+  symbol: string;
+  quantity: number;
+  // Basis of the remaining quantity, including any wash-sale adjustment.
+  costBasis: number;
+  openedAt: string;
+  // Earlier than openedAt when a washed loss's holding period was tacked on.
+  holdingStart: string;
+  orderId: string;
+  runId?: string;
+  washSaleAdjustment?: number;
+}
+
+export interface RealizedLot {
+  lotId: string;
+  symbol: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  // proceeds - costBasis; a washed loss is only recognized net of washSaleDisallowed.
+  gain: number;
+  openedAt: string;
+  holdingStart: string;
+  closedAt: string;
+  term: HoldingTerm;
+  sellOrderId: string;
+  runId?: string;
+  washSaleDisallowed?: number;
+  washSaleReplacements?: string[];
+}
+
 export interface SleevePositions {
   [symbol: string]: {
     baseQty: number;
@@ -333,6 +610,8 @@ export interface OrderPlacement extends OrderPreview {
 
 export interface Fill {
   orderId: string;
+  // The broker's id for this execution, when it reports one; see fillKey in ledger/ledger.ts.
+  executionId?: string;
   symbol: string;
   side: TradeSide;
   quantity: number;
@@ -341,10 +620,50 @@ export interface Fill {
   timestamp: string;
 }
 
+// Lifecycle of a single broker order; every transition is a ledger event (see execution/orderLifecycle.ts).
+export type OrderState = 'PREVIEWED' | 'PLACED' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+
+export interface BrokerOrderStatus {
+  orderId: string;
+  status: 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+  filledQuantity?: number;
+  message?: string;
+}
+
+// A working order as the broker reports it, whether or not the bot placed it.
+export interface BrokerOpenOrder {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  filledQuantity?: number;
+}
+
+export interface OrderSummary {
+  orderId?: string;
+  runId: string;
+  symbol: string;
+  side: TradeSide;
+  orderType: OrderType;
+  limitPrice?: number;
+  state: OrderState;
+  quantity: number;
+  filledQuantity: number;
+  avgFillPrice?: number;
+  arrivalPrice?: number;
+  // Positive = paid above (BUY) or sold below (SELL) the arrival price.
+  slippageBps?: number;
+  placedAt?: string;
+  replaces?: string;
+  replacedBy?: string;
+  reason?: string;
+}
+
 export interface ExecutionResult {
   previews: OrderPreview[];
   placements: OrderPlacement[];
   fills: Fill[];
+  orders: OrderSummary[];
 }
 
 export interface RunInputs {
@@ -372,8 +691,12 @@ export interface EquityPoint {
   exposure: number;
   drawdown: number;
   benchmarkSPY: number;
+  // Shadow books: each strategy's own proposals, planned and filled at the run's prices. Unset until it has one.
+  llmEquity?: number;
   deterministicEquity?: number;
   randomEquity?: number;
+  // Net deposits minus withdrawals effective since the previous point (since inception for the first).
+  externalFlow?: number;
 }
 
 export interface LLMContextPacket {
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { BotConfig } from './types';
+import { resolveConfig } from './config';
 
 export const ensureDir = (dir: string) => {
   if (!fs.existsSync(dir)) {
@@ -18,10 +19,9 @@ export const writeJSONFile = (filePath: string, data: unknown) => {
   fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
 };
 
-export const loadConfig = (configPath: string): BotConfig => {
-  const cfg = readJSONFile<BotConfig>(configPath);
-  return cfg;
-};
+// Layered (BOT_ENV file, account file, BOT_CONFIG__ env vars, --set) and schema-validated; see core/config.ts.
+export const loadConfig = (configPath: string, accountId?: string): BotConfig =>
+  resolveConfig(configPath, { accountId }).config;
 
 export const loadUniverse = (universePath: string): string[] => {
   return readJSONFile<string[]>(universePath);
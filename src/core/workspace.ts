@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+
+/** Where a pipeline keeps its state: the ledger, runs/<runId>/ artifacts and data_cache/. */
+export interface Workspace {
+  root: string;
+  ledgerFile: string;
+  runsDir: string;
+  cacheDir: string;
+  // Ledger timestamps; backtests pin them to the simulated week.
+  clock?: () => Date;
+}
+
+const scope = new AsyncLocalStorage<Workspace>();
+
+/** The standard layout (ledger/events.jsonl, runs/, data_cache/) under `root`. */
+export const workspaceAt = (root: string, clock?: () => Date): Workspace => ({
+  root: path.resolve(root),
+  ledgerFile: path.resolve(root, 'ledger', 'events.jsonl'),
+  runsDir: path.resolve(root, 'runs'),
+  cacheDir: path.resolve(root, 'data_cache'),
+  ...(clock ? { clock } : {})
+});
+
+/**
+ * Runs `fn` with every ledger, run-artifact and cache path inside `workspace`. The scope follows the
+ * async calls `fn` makes and nothing else, so a backtest can run beside the UI or daemon in one process.
+ */
+export const runInWorkspace = <T>(workspace: Workspace, fn: () => T): T => scope.run(workspace, fn);
+
+// Outside runInWorkspace the process's working directory is the workspace (LEDGER_FILE still picks the ledger).
+export const scopedWorkspace = (): Workspace | undefined => scope.getStore();
+
+export const getWorkspaceRoot = () => scope.getStore()?.root ?? process.cwd();
+
+export const getRunsDir = () => scope.getStore()?.runsDir ?? path.resolve(process.cwd(), 'runs');
+
+export const getRunDir = (runId: string) => path.join(getRunsDir(), runId);
+
+export const getCacheDir = () => scope.getStore()?.cacheDir ?? path.resolve(process.cwd(), 'data_cache');
@@ -0,0 +1,49 @@
+import { PriceBar } from './marketData.types';
+
+export const addDays = (day: string, days: number): string => {
+  const d = new Date(`${day.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime()) /
+      86400000
+  );
+
+// One bar from consecutive bars: first open, extreme high/low, summed volume, last close.
+export const aggregateBars = (bars: PriceBar[], interval: PriceBar['interval']): PriceBar => {
+  const last = bars[bars.length - 1];
+  const highs = bars.map((b) => b.high).filter((v): v is number => v !== undefined);
+  const lows = bars.map((b) => b.low).filter((v): v is number => v !== undefined);
+  const volumes = bars.map((b) => b.volume).filter((v): v is number => v !== undefined);
+  return {
+    date: last.date,
+    open: bars[0].open,
+    high: highs.length ? Math.max(...highs) : undefined,
+    low: lows.length ? Math.min(...lows) : undefined,
+    close: last.close,
+    volume: volumes.length ? volumes.reduce((a, b) => a + b, 0) : undefined,
+    interval
+  };
+};
+
+/**
+ * Weekly bars from sorted daily bars, in rolling 7-day buckets ending on asOf (the same
+ * spacing the stub provider samples at), limited to the lookback window.
+ */
+export const resampleWeekly = (daily: PriceBar[], asOf: string, lookbackDays: number): PriceBar[] => {
+  const end = asOf.slice(0, 10);
+  const start = addDays(end, -lookbackDays);
+  const window = daily.filter((b) => b.date >= start && b.date <= end);
+  const out: PriceBar[] = [];
+  let prevStep = '';
+  for (let i = lookbackDays; i >= 0; i -= 7) {
+    const step = addDays(end, -i);
+    const bucket = window.filter((b) => b.date > prevStep && b.date <= step);
+    prevStep = step;
+    if (bucket.length) out.push(aggregateBars(bucket, '1w'));
+  }
+  return out;
+};
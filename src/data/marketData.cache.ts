@@ -0,0 +1,210 @@
+import fs from 'fs';
+import path from 'path';
+import { ensureDir } from '../core/utils';
+import { isTradingDay } from '../core/calendar';
+import { BarInterval, MarketDataProvider, PriceBar, Quote } from './marketData.types';
+import { addDays, daysBetween, resampleWeekly } from './bars';
+import { getCacheDir } from '../core/workspace';
+
+export interface CachingOptions {
+  // Holds one store per source; defaults to data_cache/prices.
+  cacheDir?: string;
+  // Store to use; defaults to the wrapped provider's source. Offline runs name the source they replay.
+  source?: string;
+  // Serve only what the store holds; the wrapped provider is never called.
+  offline?: boolean;
+  // Defaults to the NYSE calendar, so holidays are never reported as missing sessions.
+  isTradingDay?: (day: string) => boolean;
+}
+
+export interface BarSourceRecord {
+  symbol: string;
+  interval: BarInterval;
+  asOf: string;
+  bars: number;
+  // Daily sessions backing the served bars, split by origin.
+  fromCache: number;
+  fromProvider: number;
+  // Served bars the provider generated; they are never written to the store.
+  synthetic: number;
+  backfilled: Array<{ from: string; to: string; bars: number }>;
+  missingSessions: string[];
+  offline: boolean;
+  error?: string;
+}
+
+const INTRADAY: BarInterval[] = ['1m', '5m', '15m', '30m', '1h'];
+
+const sessionsBetween = (from: string, to: string, isTradingDay: (day: string) => boolean): string[] => {
+  const out: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (isTradingDay(d)) out.push(d);
+  }
+  return out;
+};
+
+// Contiguous runs of missing sessions (adjacent in the calendar) become one backfill request each.
+const groupRanges = (sessions: string[], missing: Set<string>): Array<{ from: string; to: string }> => {
+  const ranges: Array<{ from: string; to: string }> = [];
+  let current: { from: string; to: string } | undefined;
+  for (const s of sessions) {
+    if (missing.has(s)) {
+      if (current) current.to = s;
+      else current = { from: s, to: s };
+    } else if (current) {
+      ranges.push(current);
+      current = undefined;
+    }
+  }
+  if (current) ranges.push(current);
+  return ranges;
+};
+
+/**
+ * Caching decorator around any MarketDataProvider. Daily bars live in one JSONL file per symbol
+ * under data_cache/prices/<source>/1d; requests are checked against the trading calendar and only the
+ * missing sessions are fetched from the wrapped provider, each run asked for at least the provider's
+ * minimum lookback. Weekly history is resampled from the cached dailies. The as-of session is always
+ * refetched (it may have been a partial bar), and bars the provider marks synthetic are served but never stored.
+ */
+export class CachingMarketDataProvider implements MarketDataProvider {
+  readonly inner: MarketDataProvider;
+  readonly source: string;
+  private cacheDir: string;
+  private offline: boolean;
+  private isTradingDay: (day: string) => boolean;
+  private sourceLog: BarSourceRecord[] = [];
+
+  constructor(inner: MarketDataProvider, options: CachingOptions = {}) {
+    this.inner = inner;
+    this.source = options.source ?? inner.source ?? 'default';
+    this.cacheDir = path.resolve(options.cacheDir ?? path.join(getCacheDir(), 'prices'), this.source);
+    this.offline = Boolean(options.offline);
+    this.isTradingDay = options.isTradingDay ?? isTradingDay;
+  }
+
+  isOffline() {
+    return this.offline;
+  }
+
+  // Returns and clears the per-symbol source records collected since the last call.
+  drainSourceLog(): BarSourceRecord[] {
+    const log = this.sourceLog;
+    this.sourceLog = [];
+    return log;
+  }
+
+  // False when nothing was ever stored for this source, so an offline run would serve no prices at all.
+  hasBars() {
+    const dir = path.join(this.cacheDir, '1d');
+    return fs.existsSync(dir) && fs.readdirSync(dir).some((name) => name.endsWith('.jsonl'));
+  }
+
+  private filePath(symbol: string) {
+    return path.join(this.cacheDir, '1d', `${symbol.toUpperCase()}.jsonl`);
+  }
+
+  readBars(symbol: string): PriceBar[] {
+    const p = this.filePath(symbol);
+    if (!fs.existsSync(p)) return [];
+    const byDate = new Map<string, PriceBar>();
+    for (const line of fs.readFileSync(p, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const bar = JSON.parse(line) as PriceBar;
+        if (bar?.date && Number.isFinite(bar.close)) byDate.set(bar.date, bar);
+      } catch {
+        continue;
+      }
+    }
+    return Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : 1));
+  }
+
+  private writeBars(symbol: string, bars: PriceBar[]) {
+    const p = this.filePath(symbol);
+    ensureDir(path.dirname(p));
+    fs.writeFileSync(p, bars.map((b) => JSON.stringify(b)).join('\n') + '\n');
+  }
+
+  async getQuote(symbol: string, asOf: string): Promise<Quote> {
+    if (!this.offline) return this.inner.getQuote(symbol, asOf);
+    const day = asOf.slice(0, 10);
+    const last = this.readBars(symbol)
+      .filter((b) => b.date <= day)
+      .at(-1);
+    return { symbol, price: last?.close ?? 0, asOf };
+  }
+
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval: BarInterval = '1w'): Promise<PriceBar[]> {
+    if (INTRADAY.includes(interval)) {
+      if (this.offline) return [];
+      return this.inner.getHistory(symbol, asOf, lookbackDays, interval);
+    }
+    const end = asOf.slice(0, 10);
+    const start = addDays(end, -lookbackDays);
+    const stored = new Map(this.readBars(symbol).map((b) => [b.date, b] as const));
+    const sessions = sessionsBetween(start, end, this.isTradingDay);
+    const missing = new Set(sessions.filter((s) => !stored.has(s) || (!this.offline && s === end)));
+    const record: BarSourceRecord = {
+      symbol,
+      interval,
+      asOf,
+      bars: 0,
+      fromCache: 0,
+      fromProvider: 0,
+      synthetic: 0,
+      backfilled: [],
+      missingSessions: [],
+      offline: this.offline
+    };
+    // What this request serves: the store plus everything fetched, synthetic bars included.
+    const available = new Map(stored);
+    const fetchedDates = new Set<string>();
+    let storeChanged = false;
+
+    if (missing.size && !this.offline) {
+      const minLookback = this.inner.minLookbackDays ?? 0;
+      for (const range of groupRanges(sessions, missing)) {
+        const rangeAsOf = range.to === end ? asOf : range.to;
+        try {
+          const lookback = Math.max(daysBetween(range.from, range.to), minLookback);
+          const fetched = await this.inner.getHistory(symbol, rangeAsOf, lookback, '1d');
+          let count = 0;
+          for (const bar of fetched) {
+            const day = bar.date.slice(0, 10);
+            if (day < range.from || day > range.to || !Number.isFinite(bar.close) || bar.close <= 0) continue;
+            const session: PriceBar = { ...bar, date: day, interval: '1d' };
+            available.set(day, session);
+            fetchedDates.add(day);
+            count += 1;
+            if (!bar.synthetic) {
+              stored.set(day, session);
+              storeChanged = true;
+            }
+          }
+          record.backfilled.push({ ...range, bars: count });
+        } catch (err) {
+          record.error = (err as Error).message;
+        }
+      }
+      if (storeChanged) {
+        this.writeBars(
+          symbol,
+          Array.from(stored.values()).sort((a, b) => (a.date < b.date ? -1 : 1))
+        );
+      }
+    }
+
+    const daily = Array.from(available.values())
+      .filter((b) => b.date >= start && b.date <= end)
+      .sort((a, b) => (a.date < b.date ? -1 : 1));
+    record.missingSessions = sessions.filter((s) => !available.has(s));
+    record.fromProvider = daily.filter((b) => fetchedDates.has(b.date)).length;
+    record.fromCache = daily.length - record.fromProvider;
+    record.synthetic = daily.filter((b) => b.synthetic).length;
+    const served = interval === '1w' ? resampleWeekly(daily, asOf, lookbackDays) : daily;
+    record.bars = served.length;
+    this.sourceLog.push(record);
+    return served;
+  }
+}
@@ -1,11 +1,19 @@
-import { MarketDataProvider, PriceBar, Quote } from './marketData.types';
+import { BarInterval, MarketDataProvider, PriceBar, Quote } from './marketData.types';
 import { ETradeClient } from '../integrations/etradeClient';
 import { StubMarketDataProvider } from './marketData.stub';
+import { exchangeDay } from '../core/calendar';
 
 const baseApi = (env: string) => (env === 'prod' ? 'https://api.etrade.com' : 'https://apisb.etrade.com');
 const isStubEnv = () => (process.env.MARKET_DATA_PROVIDER || 'stub').toLowerCase() === 'stub';
+const markSynthetic = (bars: PriceBar[]): PriceBar[] => bars.map((bar) => ({ ...bar, synthetic: true }));
+const positive = (v: unknown) => (Number.isFinite(Number(v)) && Number(v) > 0 ? Number(v) : undefined);
+
+// The scaled series must show at least five distinct closes; two weeks of sessions clears holiday weeks.
+const MIN_HISTORY_LOOKBACK_DAYS = 14;
 
 export class ETradeMarketDataProvider implements MarketDataProvider {
+  readonly source: string;
+  readonly minLookbackDays = MIN_HISTORY_LOOKBACK_DAYS;
   private client: ETradeClient;
   private env: string;
   private delegate: StubMarketDataProvider;
@@ -13,6 +21,7 @@ export class ETradeMarketDataProvider implements MarketDataProvider {
   constructor(client: ETradeClient, env: string) {
     this.client = client;
     this.env = env;
+    this.source = `etrade-${env}`;
     this.delegate = new StubMarketDataProvider();
   }
 
@@ -39,7 +48,9 @@ export class ETradeMarketDataProvider implements MarketDataProvider {
       ];
       const parsed = candidates.map((v) => Number(v) || 0).find((v) => v > 0) || 0;
       if (parsed > 0) {
-        return { symbol, price: parsed, asOf };
+        const bid = Number(all.bid) || 0;
+        const ask = Number(all.ask) || 0;
+        return bid > 0 && ask >= bid ? { symbol, price: parsed, asOf, bid, ask } : { symbol, price: parsed, asOf };
       }
       const rawAll = JSON.stringify(all)?.slice(0, 400);
       throw new Error(`Quote missing price; All=${rawAll}`);
@@ -50,8 +61,10 @@ export class ETradeMarketDataProvider implements MarketDataProvider {
     }
   }
 
-  async getHistory(symbol: string, asOf: string, lookbackDays: number): Promise<PriceBar[]> {
-    if (isStubEnv()) return this.delegate.getHistory(symbol, asOf, lookbackDays);
+  // There is no history endpoint: bars are the stub's series scaled to the live quote, so they are synthetic,
+  // except a daily bar for today's session, which is the quote itself.
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval: BarInterval = '1w'): Promise<PriceBar[]> {
+    if (isStubEnv()) return markSynthetic(await this.delegate.getHistory(symbol, asOf, lookbackDays, interval));
     try {
       const url = `${baseApi(this.env)}/v1/market/quote/${encodeURIComponent(symbol)}.json`;
       const resp = await this.client.signedFetch(url, 'GET', { params: { detailFlag: 'ALL' } });
@@ -60,16 +73,44 @@ export class ETradeMarketDataProvider implements MarketDataProvider {
       const last = json?.QuoteResponse?.QuoteData?.[0]?.All;
       const lastPrice = Number(last?.lastTrade ?? last?.lastPrice ?? 0);
       if (!Number.isFinite(lastPrice) || lastPrice <= 0) throw new Error('missing lastPrice');
-      const stubSeries = await this.delegate.getHistory(symbol, asOf, lookbackDays);
+      const stubSeries = await this.delegate.getHistory(symbol, asOf, lookbackDays, interval);
       const lastStub = stubSeries.at(-1)?.close ?? lastPrice;
       const scale = lastStub ? lastPrice / lastStub : 1;
-      const adjusted = stubSeries.map((bar) => ({ ...bar, close: Math.max(0.01, bar.close * scale) }));
+      const scalePx = (v?: number) => (v === undefined ? undefined : Math.max(0.01, v * scale));
+      const adjusted: PriceBar[] = stubSeries.map((bar) => ({
+        ...bar,
+        open: scalePx(bar.open),
+        high: scalePx(bar.high),
+        low: scalePx(bar.low),
+        close: Math.max(0.01, bar.close * scale),
+        synthetic: true
+      }));
+      // The quote carries the real session OHLV; use it for the latest bar when present.
+      const tail = adjusted.at(-1);
+      if (tail) {
+        tail.open = positive(last?.open) ?? tail.open;
+        tail.high = positive(last?.high) ?? tail.high;
+        tail.low = positive(last?.low) ?? tail.low;
+        tail.volume = positive(last?.totalVolume) ?? tail.volume;
+      }
+      const today = exchangeDay(new Date());
+      if (tail && interval === '1d' && tail.date === today && asOf.slice(0, 10) === today) {
+        adjusted[adjusted.length - 1] = {
+          date: tail.date,
+          close: lastPrice,
+          open: positive(last?.open),
+          high: positive(last?.high),
+          low: positive(last?.low),
+          volume: positive(last?.totalVolume),
+          interval: '1d'
+        };
+      }
       const uniqueCloses = new Set(adjusted.map((b) => Number(b.close.toFixed(4)))).size;
       if (uniqueCloses < 5) throw new Error('synthetic history too flat');
       return adjusted;
     } catch (err) {
       console.warn(`E*TRADE history fallback to stub for ${symbol}: ${(err as Error).message}`);
-      return this.delegate.getHistory(symbol, asOf, lookbackDays);
+      return markSynthetic(await this.delegate.getHistory(symbol, asOf, lookbackDays, interval));
     }
   }
 }
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { BarInterval, MarketDataProvider, PriceBar, Quote } from './marketData.types';
+import { addDays, resampleWeekly } from './bars';
+
+export interface ReplayOptions {
+  // '1w' samples the daily file weekly (same spacing as the stub provider); '1d' returns every bar.
+  barInterval?: '1d' | '1w';
+}
+
+const parseCsv = (raw: string): PriceBar[] => {
+  const lines = raw.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (!lines.length) return [];
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const dateIdx = header.indexOf('date');
+  const closeIdx = header.indexOf('close');
+  if (dateIdx === -1 || closeIdx === -1) {
+    throw new Error(`CSV header must include date and close columns (got: ${lines[0]})`);
+  }
+  const optional = (cols: string[], name: string) => {
+    const idx = header.indexOf(name);
+    if (idx === -1 || cols[idx] === undefined || cols[idx].trim() === '') return undefined;
+    const v = Number(cols[idx]);
+    return Number.isFinite(v) ? v : undefined;
+  };
+  return lines.slice(1).map((line) => {
+    const cols = line.split(',');
+    return {
+      date: cols[dateIdx].trim().slice(0, 10),
+      close: Number(cols[closeIdx]),
+      open: optional(cols, 'open'),
+      high: optional(cols, 'high'),
+      low: optional(cols, 'low'),
+      volume: optional(cols, 'volume')
+    };
+  });
+};
+
+const parseJson = (raw: string): PriceBar[] => {
+  const parsed = JSON.parse(raw);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.bars;
+  if (!Array.isArray(rows)) throw new Error('JSON price file must be an array of { date, close } bars');
+  const num = (v: unknown) => (v === undefined || v === null || !Number.isFinite(Number(v)) ? undefined : Number(v));
+  return rows.map((r: any) => ({
+    date: String(r.date).slice(0, 10),
+    close: Number(r.close),
+    open: num(r.open),
+    high: num(r.high),
+    low: num(r.low),
+    volume: num(r.volume)
+  }));
+};
+
+/**
+ * Replays daily bars from a local directory (<SYMBOL>.csv with date,close and optional
+ * open,high,low,volume columns, or <SYMBOL>.json holding [{ date, close, ... }]). Quotes and history never look past asOf, so the
+ * same provider can drive every week of a backtest without lookahead.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly source = 'replay';
+  private dataDir: string;
+  private barInterval: '1d' | '1w';
+  private cache: Record<string, PriceBar[]> = {};
+
+  constructor(dataDir: string, options: ReplayOptions = {}) {
+    this.dataDir = path.resolve(dataDir);
+    this.barInterval = options.barInterval ?? '1w';
+    if (!fs.existsSync(this.dataDir)) {
+      throw new Error(`Replay data directory not found: ${this.dataDir}`);
+    }
+  }
+
+  private load(symbol: string): PriceBar[] {
+    const key = symbol.toUpperCase();
+    if (this.cache[key]) return this.cache[key];
+    const csvPath = path.join(this.dataDir, `${key}.csv`);
+    const jsonPath = path.join(this.dataDir, `${key}.json`);
+    let bars: PriceBar[] = [];
+    if (fs.existsSync(csvPath)) {
+      bars = parseCsv(fs.readFileSync(csvPath, 'utf-8'));
+    } else if (fs.existsSync(jsonPath)) {
+      bars = parseJson(fs.readFileSync(jsonPath, 'utf-8'));
+    }
+    const byDate = new Map<string, PriceBar>();
+    for (const b of bars) {
+      if (!b.date || !Number.isFinite(b.close) || b.close <= 0) continue;
+      byDate.set(b.date, { ...b, interval: '1d' });
+    }
+    const sorted = Array.from(byDate.values()).sort((a, b) => (a.date < b.date ? -1 : 1));
+    this.cache[key] = sorted;
+    return sorted;
+  }
+
+  private barOnOrBefore(bars: PriceBar[], day: string): PriceBar | undefined {
+    let lo = 0;
+    let hi = bars.length - 1;
+    let found: PriceBar | undefined;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (bars[mid].date <= day) {
+        found = bars[mid];
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  async getQuote(symbol: string, asOf: string): Promise<Quote> {
+    const bar = this.barOnOrBefore(this.load(symbol), asOf.slice(0, 10));
+    // Missing data surfaces as price 0 (same convention as the E*TRADE provider) so Round 0 flags it.
+    return { symbol, price: bar?.close ?? 0, asOf };
+  }
+
+  // Files hold daily bars, so intraday requests degrade to daily.
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval?: BarInterval): Promise<PriceBar[]> {
+    const bars = this.load(symbol);
+    if ((interval ?? this.barInterval) === '1w') {
+      return resampleWeekly(bars, asOf, lookbackDays);
+    }
+    const end = asOf.slice(0, 10);
+    const start = addDays(end, -lookbackDays);
+    return bars.filter((b) => b.date >= start && b.date <= end);
+  }
+}
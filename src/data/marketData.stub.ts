@@ -1,5 +1,6 @@
-import { MarketDataProvider, PriceBar, Quote } from './marketData.types';
+import { BarInterval, MarketDataProvider, PriceBar, Quote } from './marketData.types';
 import { hashString, mulberry32 } from '../core/utils';
+import { getTradingSession, isTradingDay, previousTradingDay } from '../core/calendar';
 
 // Static price anchors for universe + proxies to make stub runs more realistic/repeatable.
 const priceOverrides: Record<string, number> = {
@@ -51,18 +52,66 @@ const priceForDate = (symbol: string, asOf: string): number => {
   return Math.max(1, base * (1 + drift(symbol) + noise));
 };
 
+// Synthetic OHLV around the deterministic close; open gaps off the prior bar's close.
+const ohlcvForBar = (symbol: string, key: string, close: number, prevClose: number | undefined): PriceBar => {
+  const rng = mulberry32(hashString(`${symbol}-${key}-ohlcv`));
+  const open = (prevClose ?? close) * (1 + (rng() - 0.5) * 0.006);
+  const high = Math.max(open, close) * (1 + rng() * 0.006);
+  const low = Math.min(open, close) * (1 - rng() * 0.006);
+  const baseVolume = 2e5 + mulberry32(hashString(`${symbol}-volume`))() * 5e6;
+  const volume = Math.round(baseVolume * (0.7 + rng() * 0.6));
+  return { date: key, open, high, low, close, volume };
+};
+
+const INTRADAY_MINUTES: Partial<Record<BarInterval, number>> = { '1m': 1, '5m': 5, '15m': 15, '30m': 30, '1h': 60 };
+
+// Bar keys follow the exchange calendar: weekly samples snap back to the last session on or before
+// each 7-day step, daily/intraday bars exist only for trading sessions (early closes included).
+const barKeys = (asOf: string, lookbackDays: number, interval: BarInterval): string[] => {
+  const keys: string[] = [];
+  if (interval === '1w') {
+    for (let i = lookbackDays; i >= 0; i -= 7) {
+      const date = new Date(asOf);
+      date.setDate(date.getDate() - i);
+      const day = date.toISOString().slice(0, 10);
+      keys.push(isTradingDay(day) ? day : previousTradingDay(day));
+    }
+    return keys;
+  }
+  const end = new Date(asOf);
+  for (let i = lookbackDays; i >= 0; i--) {
+    const date = new Date(end);
+    date.setUTCDate(date.getUTCDate() - i);
+    const session = getTradingSession(date.toISOString().slice(0, 10));
+    if (!session) continue;
+    const step = INTRADAY_MINUTES[interval];
+    if (!step) {
+      keys.push(session.date);
+      continue;
+    }
+    const close = new Date(session.closeUTC).getTime();
+    for (let t = new Date(session.openUTC).getTime(); t < close; t += step * 60000) {
+      if (t > end.getTime()) break;
+      keys.push(new Date(t).toISOString().slice(0, 16));
+    }
+  }
+  return keys;
+};
+
 export class StubMarketDataProvider implements MarketDataProvider {
+  readonly source = 'stub';
+
   async getQuote(symbol: string, asOf: string): Promise<Quote> {
     return { symbol, price: priceForDate(symbol, asOf), asOf };
   }
 
-  async getHistory(symbol: string, asOf: string, lookbackDays: number): Promise<PriceBar[]> {
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval: BarInterval = '1w'): Promise<PriceBar[]> {
     const bars: PriceBar[] = [];
-    for (let i = lookbackDays; i >= 0; i -= 7) {
-      const date = new Date(asOf);
-      date.setDate(date.getDate() - i);
-      const day = date.toISOString().slice(0, 10);
-      bars.push({ date: day, close: priceForDate(symbol, day) });
+    let prevClose: number | undefined;
+    for (const key of barKeys(asOf, lookbackDays, interval)) {
+      const close = priceForDate(symbol, key);
+      bars.push({ ...ohlcvForBar(symbol, key, close, prevClose), interval });
+      prevClose = close;
     }
     return bars;
   }
@@ -1,21 +1,51 @@
 import { MarketDataProvider } from './marketData.types';
 import { defaultMarketData, StubMarketDataProvider } from './marketData.stub';
+import { ReplayMarketDataProvider } from './marketData.replay';
+import { CachingMarketDataProvider } from './marketData.cache';
 import { ETradeMarketDataProvider } from './marketData.etrade';
 import { ETradeClient } from '../integrations/etradeClient';
 import { getStatus } from '../broker/etrade/authService';
 import { Mode } from '../core/types';
 import { resolveTokenStorePath } from '../integrations/etradeTokenStore';
 
+// Provider family behind any caching wrapper, for data_sources / DATA_SOURCES logging.
+export const marketDataProviderName = (md: MarketDataProvider): string => {
+  const base = md instanceof CachingMarketDataProvider ? md.inner : md;
+  if (base instanceof ETradeMarketDataProvider) return 'etrade';
+  if (base instanceof StubMarketDataProvider) return 'stub';
+  if (base instanceof ReplayMarketDataProvider) return 'replay';
+  return 'unknown';
+};
+
+// MARKET_DATA_CACHE=true|false overrides the default (cache only the live E*TRADE provider).
+const withCache = (provider: MarketDataProvider, defaultOn: boolean): MarketDataProvider => {
+  const flag = (process.env.MARKET_DATA_CACHE || '').toLowerCase();
+  const enabled = flag ? flag === 'true' : defaultOn;
+  return enabled ? new CachingMarketDataProvider(provider) : provider;
+};
+
 export const getMarketDataProvider = (mode: Mode = 'paper'): MarketDataProvider => {
   // Default to real E*TRADE provider outside of tests/backtest unless explicitly overridden.
   const providerEnv = (process.env.MARKET_DATA_PROVIDER || '').toLowerCase();
   const provider = providerEnv || (process.env.NODE_ENV === 'test' || mode === 'backtest' ? 'stub' : 'etrade');
+  if (mode === 'backtest' && process.env.BACKTEST_DATA_DIR) {
+    return new ReplayMarketDataProvider(process.env.BACKTEST_DATA_DIR);
+  }
+  const env = (process.env.ETRADE_ENV as 'sandbox' | 'prod') || 'sandbox';
+  if (process.env.MARKET_DATA_OFFLINE === 'true') {
+    // Replays the store the configured provider would have filled.
+    const source = provider === 'etrade' ? `etrade-${env}` : provider;
+    const offline = new CachingMarketDataProvider(defaultMarketData, { offline: true, source });
+    if (!offline.hasBars()) {
+      console.warn(`MARKET_DATA_OFFLINE=true but the ${source} price cache is empty; every quote will be 0 and history empty.`);
+    }
+    return offline;
+  }
   if (mode === 'backtest' || process.env.NODE_ENV === 'test') {
-    return defaultMarketData;
+    return withCache(defaultMarketData, false);
   }
 
   const useLiveInPaper = process.env.USE_LIVE_DATA_IN_PAPER === 'true';
-  const env = (process.env.ETRADE_ENV as 'sandbox' | 'prod') || 'sandbox';
   const sandboxLive = env === 'sandbox' && process.env.USE_SANDBOX_MARKET_DATA === 'true';
   const shouldUseLive =
     provider === 'etrade' && (mode === 'live' || (mode === 'paper' && useLiveInPaper)) && (env === 'prod' || sandboxLive);
@@ -24,7 +54,7 @@ export const getMarketDataProvider = (mode: Mode = 'paper'): MarketDataProvider
     if (mode === 'paper' || mode === 'live') {
       console.warn('MARKET_DATA_PROVIDER=stub in live/paper; returning stub (healthchecks should fail closed).');
     }
-    return defaultMarketData;
+    return withCache(defaultMarketData, false);
   }
 
   if (shouldUseLive) {
@@ -44,12 +74,12 @@ export const getMarketDataProvider = (mode: Mode = 'paper'): MarketDataProvider
       callbackUrl: process.env.ETRADE_CALLBACK_URL,
       tokenStorePath: resolveTokenStorePath()
     });
-    return new ETradeMarketDataProvider(client, client.getAuthStatus().env);
+    return withCache(new ETradeMarketDataProvider(client, client.getAuthStatus().env), true);
   }
 
   // Fallback: provider requested etrade but conditions not met (e.g., paper without useLive flag)
   console.warn('Falling back to stub market data (live provider not enabled for this mode/config).');
-  return defaultMarketData;
+  return withCache(defaultMarketData, false);
 };
 
-export { StubMarketDataProvider };
+export { StubMarketDataProvider, ReplayMarketDataProvider, CachingMarketDataProvider };
@@ -1,15 +1,32 @@
+export type BarInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '1d' | '1w';
+
 export interface PriceBar {
+  // YYYY-MM-DD for daily/weekly bars; YYYY-MM-DDTHH:mm (UTC) for intraday bars.
   date: string;
   close: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  interval?: BarInterval;
+  // Generated by the provider in place of real history (e.g. a stub series); served, never cached.
+  synthetic?: boolean;
 }
 
 export interface Quote {
   symbol: string;
   price: number;
   asOf: string;
+  // Top of book when the provider has it; limit pricing otherwise assumes slippageBps either side of price.
+  bid?: number;
+  ask?: number;
 }
 
 export interface MarketDataProvider {
+  // Names the source the bars come from; caches keep one store per source.
+  readonly source?: string;
+  // Shortest history request that returns real bars; callers asking for less should ask for this and slice.
+  readonly minLookbackDays?: number;
   getQuote(symbol: string, asOf: string): Promise<Quote>;
-  getHistory(symbol: string, asOf: string, lookbackDays: number): Promise<PriceBar[]>;
+  getHistory(symbol: string, asOf: string, lookbackDays: number, interval?: BarInterval): Promise<PriceBar[]>;
 }
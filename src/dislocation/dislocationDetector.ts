@@ -2,6 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import { BotConfig, PriceBar } from '../core/types';
 import { computeDislocationSeverity } from './dislocationSeverity';
+import { SESSIONS_PER_WEEK, tradingDaysBetween } from '../core/calendar';
+import { getCacheDir } from '../core/workspace';
 
 export interface DislocationResult {
   asOf: string;
@@ -40,27 +42,26 @@ interface DislocationState {
   cooldownUntilISO?: string;
 }
 
-const statePath = path.resolve(process.cwd(), 'data_cache', 'dislocation_state.json');
+const statePath = () => path.join(getCacheDir(), 'dislocation_state.json');
 
 const loadState = (): DislocationState => {
   try {
-    if (!fs.existsSync(statePath)) return {};
-    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+    if (!fs.existsSync(statePath())) return {};
+    return JSON.parse(fs.readFileSync(statePath(), 'utf-8'));
   } catch {
     return {};
   }
 };
 
 const saveState = (s: DislocationState) => {
-  fs.mkdirSync(path.dirname(statePath), { recursive: true });
-  fs.writeFileSync(statePath, JSON.stringify(s, null, 2));
+  fs.mkdirSync(path.dirname(statePath()), { recursive: true });
+  fs.writeFileSync(statePath(), JSON.stringify(s, null, 2));
 };
 
+// Trading weeks (five sessions each), so a holiday-shortened week does not count as a full one.
 const weeksBetween = (startISO: string, endISO: string): number => {
-  const a = new Date(startISO).getTime();
-  const b = new Date(endISO).getTime();
-  if (Number.isNaN(a) || Number.isNaN(b)) return 0;
-  return (b - a) / (1000 * 60 * 60 * 24 * 7);
+  if (Number.isNaN(new Date(startISO).getTime()) || Number.isNaN(new Date(endISO).getTime())) return 0;
+  return tradingDaysBetween(startISO, endISO) / SESSIONS_PER_WEEK;
 };
 
 const addWeeks = (iso: string, weeks: number): string => {
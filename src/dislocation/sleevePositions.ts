@@ -1,16 +1,17 @@
 import fs from 'fs';
 import path from 'path';
 import { Holding, SleevePositions } from '../core/types';
+import { getCacheDir } from '../core/workspace';
 
-const dataDir = path.resolve(process.cwd(), 'data_cache');
+const dataDir = () => getCacheDir();
 
 const positionsPath = (env?: string, accountKey?: string) => {
   const suffix = [env || 'default', accountKey || 'default'].filter(Boolean).join('.');
-  return path.join(dataDir, `sleeve_positions.${suffix}.json`);
+  return path.join(dataDir(), `sleeve_positions.${suffix}.json`);
 };
 
 const ensureDir = () => {
-  if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
+  if (!fs.existsSync(dataDir())) fs.mkdirSync(dataDir(), { recursive: true });
 };
 
 export const loadSleevePositions = (env?: string, accountKey?: string): SleevePositions => {
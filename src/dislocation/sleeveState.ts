@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { getCacheDir } from '../core/workspace';
 
 export type SleevePhase = 'INACTIVE' | 'ADD' | 'HOLD' | 'REINTEGRATE' | 'EXITED';
 
@@ -22,18 +23,18 @@ export interface DislocationSleeveState {
   lastTier?: number;
 }
 
-const statePath = path.resolve(process.cwd(), 'data_cache', 'dislocation_sleeve_state.json');
+const statePath = () => path.join(getCacheDir(), 'dislocation_sleeve_state.json');
 
 export const loadSleeveState = (): DislocationSleeveState => {
   try {
-    if (!fs.existsSync(statePath)) return { active: false, phase: 'INACTIVE' };
-    return JSON.parse(fs.readFileSync(statePath, 'utf-8')) as DislocationSleeveState;
+    if (!fs.existsSync(statePath())) return { active: false, phase: 'INACTIVE' };
+    return JSON.parse(fs.readFileSync(statePath(), 'utf-8')) as DislocationSleeveState;
   } catch {
     return { active: false, phase: 'INACTIVE' };
   }
 };
 
 export const saveSleeveState = (s: DislocationSleeveState) => {
-  fs.mkdirSync(path.dirname(statePath), { recursive: true });
-  fs.writeFileSync(statePath, JSON.stringify(s, null, 2));
+  fs.mkdirSync(path.dirname(statePath()), { recursive: true });
+  fs.writeFileSync(statePath(), JSON.stringify(s, null, 2));
 };
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { BotConfig, LLMContextPacket, PortfolioState, ProposalResult, RiskReport, RunInputs, TradeOrder } from '../core/types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { Broker } from '../broker/broker.types';
+import { readRunArtifact } from '../ledger/storage';
+import { currentDrawdown } from '../analytics/performance';
+import { evaluateRisk } from '../risk/riskEngine';
+import { applyDecisionPolicyGate, PolicyGateResult } from '../risk/decisionPolicyGate';
+import { planWholeShareExecution } from './wholeSharePlanner';
+
+export interface RevalidatedOrderDiff {
+  symbol: string;
+  side: TradeOrder['side'];
+  change: 'UNCHANGED' | 'RESIZED' | 'DROPPED';
+  originalPrice?: number;
+  originalShares: number;
+  originalNotionalUSD: number;
+  price?: number;
+  shares: number;
+  notionalUSD: number;
+  priceDriftPct?: number;
+  reason?: string;
+}
+
+export interface ApprovalRevalidation {
+  runId: string;
+  proposalAsOf: string;
+  revalidatedAt: string;
+  proposalAgeHours: number;
+  // False when execution must be refused (drift, staleness, risk block); the diff is still reported.
+  executable: boolean;
+  blockedReasons: string[];
+  // True when any order was resized or dropped, so the approver has to confirm the new orders.
+  changed: boolean;
+  // Identifies the revalidated order set the approver confirmed: symbol, side and whole shares, so a price tick
+  // between the review and the confirmation does not change it.
+  digest: string;
+  orders: TradeOrder[];
+  diff: RevalidatedOrderDiff[];
+  portfolio: { cash: number; equity: number };
+  risk: RiskReport;
+  policyFlags: PolicyGateResult['flags'];
+}
+
+export interface RevalidationInput {
+  runId: string;
+  proposalAsOf: string;
+  orders: TradeOrder[];
+  config: BotConfig;
+  marketData: MarketDataProvider;
+  broker: Broker;
+  accountId: string;
+  now?: Date;
+  // Overrides for tests; default to the run's artifacts and the account's equity curve.
+  originalPrices?: Record<string, number>;
+  universe?: string[];
+  llmContext?: LLMContextPacket | null;
+  dislocation?: { active?: boolean; metrics?: any } | null;
+  drawdown?: number;
+}
+
+const SHARE_EPSILON = 1e-6;
+
+const orderDigest = (diff: RevalidatedOrderDiff[]) =>
+  crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify(diff.filter((d) => d.change !== 'DROPPED').map((d) => [d.symbol, d.side, Math.floor(d.shares + SHARE_EPSILON)]))
+    )
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Re-prices a pending run's orders at approval time: fresh quotes and portfolio, sells kept at their share
+ * count (capped at the position), buys re-planned in whole shares within the cash now available, then the
+ * policy gate and risk engine again. Price drift or proposal age past `config.approval` blocks execution.
+ */
+export const revalidatePendingOrders = async (input: RevalidationInput): Promise<ApprovalRevalidation> => {
+  const { runId, proposalAsOf, config, marketData, broker, accountId } = input;
+  const now = input.now ?? new Date();
+  const nowIso = now.toISOString();
+  const thresholds = config.approval ?? {};
+  const maxDrift = thresholds.maxPriceDriftPct ?? 0.03;
+  const maxAgeHours = thresholds.maxProposalAgeHours ?? 48;
+  const blockedReasons: string[] = [];
+
+  const originalPrices = input.originalPrices ?? readRunArtifact<RunInputs>(runId, 'inputs.json')?.quotes ?? {};
+  const portfolio: PortfolioState = await broker.getPortfolioState(nowIso);
+  const prices: Record<string, number> = {};
+  for (const symbol of Array.from(new Set(input.orders.map((o) => o.symbol)))) {
+    try {
+      const quote = await marketData.getQuote(symbol, nowIso);
+      if (quote.price > 0) prices[symbol] = quote.price;
+    } catch {
+      // Reported below as a missing quote.
+    }
+  }
+
+  const proposalAgeHours = Math.max(0, (now.getTime() - Date.parse(proposalAsOf)) / 3600000);
+  if (proposalAgeHours > maxAgeHours) {
+    blockedReasons.push(`Proposal is ${proposalAgeHours.toFixed(1)}h old (max ${maxAgeHours}h)`);
+  }
+
+  const diff: RevalidatedOrderDiff[] = input.orders.map((o) => {
+    const price = prices[o.symbol];
+    const originalPrice = originalPrices[o.symbol] > 0 ? originalPrices[o.symbol] : price;
+    const originalShares = originalPrice ? o.notionalUSD / originalPrice : 0;
+    const priceDriftPct = price && originalPrice ? price / originalPrice - 1 : undefined;
+    return {
+      symbol: o.symbol,
+      side: o.side,
+      change: 'UNCHANGED',
+      originalPrice,
+      originalShares,
+      originalNotionalUSD: o.notionalUSD,
+      price,
+      shares: 0,
+      notionalUSD: 0,
+      priceDriftPct
+    };
+  });
+  for (const d of diff) {
+    if (!d.price) blockedReasons.push(`No current quote for ${d.symbol}`);
+    else if (d.priceDriftPct !== undefined && Math.abs(d.priceDriftPct) > maxDrift) {
+      blockedReasons.push(`${d.symbol} moved ${(d.priceDriftPct * 100).toFixed(2)}% since the proposal (max ${(maxDrift * 100).toFixed(2)}%)`);
+    }
+  }
+
+  // Sells: same share count at the new price, never more than is held now.
+  const held = new Map(portfolio.holdings.map((h) => [h.symbol, h.quantity]));
+  let sellProceeds = 0;
+  diff.forEach((d) => {
+    if (d.side !== 'SELL' || !d.price) return;
+    d.shares = Math.min(d.originalShares, held.get(d.symbol) ?? 0);
+    if (d.shares < d.originalShares - SHARE_EPSILON) d.reason = d.shares > 0 ? 'POSITION_SMALLER' : 'NO_POSITION';
+    d.notionalUSD = d.shares * d.price;
+    sellProceeds += d.notionalUSD;
+  });
+
+  // Buys: the original counts rounded down to whole shares (never more than was approved), within cash
+  // (plus sell proceeds) above the minimum.
+  const buys = diff.filter((d) => d.side === 'BUY' && d.price);
+  const minCashUSD = Math.max(0, (config.minCashPct ?? 0) * portfolio.equity);
+  const available = Math.max(0, portfolio.cash + sellProceeds - minCashUSD);
+  const targets = buys.map((d) => ({ symbol: d.symbol, notionalUSD: Math.floor(d.originalShares + SHARE_EPSILON) * (d.price as number) }));
+  if (targets.some((t) => t.notionalUSD > 0)) {
+    const wanted = targets.reduce((acc, t) => acc + t.notionalUSD, 0);
+    const plan = planWholeShareExecution({
+      targets,
+      prices,
+      buyBudgetUSD: Math.min(wanted, available),
+      minCashUSD: 0,
+      allowPartial: true,
+      minViablePositions: 1,
+      maxAbsWeightError: 1,
+      allowProxies: false
+    });
+    for (const d of buys) {
+      const planned = plan.orders.find((o) => o.symbol === d.symbol);
+      d.shares = planned?.quantity ?? 0;
+      d.notionalUSD = planned?.estNotionalUSD ?? 0;
+      if (d.shares < Math.floor(d.originalShares + SHARE_EPSILON)) d.reason = plan.status === 'UNEXECUTABLE' ? 'UNAFFORDABLE' : 'CASH_LIMITED';
+    }
+  }
+
+  let orders: TradeOrder[] = input.orders.flatMap((o, i) =>
+    diff[i].shares > SHARE_EPSILON ? [{ ...o, notionalUSD: diff[i].notionalUSD, arrivalPrice: undefined, limitPrice: undefined }] : []
+  );
+
+  const universe =
+    input.universe ?? readRunArtifact<ProposalResult>(runId, 'proposal.json')?.intent.universe ?? input.orders.map((o) => o.symbol);
+  const intent = { asOf: proposalAsOf, universe, orders };
+  let policyFlags: PolicyGateResult['flags'] = [];
+  const llmContext = input.llmContext !== undefined ? input.llmContext : readRunArtifact<LLMContextPacket>(runId, 'llm_context.json');
+  if (llmContext) {
+    const dislocation = input.dislocation !== undefined ? input.dislocation : readRunArtifact<any>(runId, 'dislocation.json');
+    const gate = applyDecisionPolicyGate(intent, llmContext, portfolio, config, dislocation ?? undefined);
+    policyFlags = gate.flags;
+    blockedReasons.push(...(gate.blockedReasons ?? []));
+    const gated = new Map(gate.orders.map((o) => [`${o.symbol}:${o.side}`, o]));
+    orders = orders.filter((o) => gated.has(`${o.symbol}:${o.side}`)).map((o) => ({ ...o, notionalUSD: gated.get(`${o.symbol}:${o.side}`)!.notionalUSD }));
+    intent.orders = orders;
+  }
+  const risk = evaluateRisk(intent, config, portfolio, {
+    drawdown: input.drawdown ?? (await currentDrawdown(config, marketData, accountId))
+  });
+  blockedReasons.push(...risk.blockedReasons);
+
+  // Orders the gate scaled or dropped show up as resized or dropped against the original.
+  diff.forEach((d) => {
+    const final = orders.find((o) => o.symbol === d.symbol && o.side === d.side);
+    d.notionalUSD = final?.notionalUSD ?? 0;
+    d.shares = final && d.price ? final.notionalUSD / d.price : 0;
+    if (!final) {
+      d.change = 'DROPPED';
+      d.reason = d.reason ?? (d.price ? 'POLICY_GATE' : 'NO_QUOTE');
+    } else if (Math.abs(d.shares - d.originalShares) > SHARE_EPSILON) {
+      d.change = 'RESIZED';
+    }
+  });
+
+  return {
+    runId,
+    proposalAsOf,
+    revalidatedAt: nowIso,
+    proposalAgeHours,
+    executable: blockedReasons.length === 0 && orders.length > 0,
+    blockedReasons: orders.length ? blockedReasons : [...blockedReasons, 'No orders left after revalidation'],
+    changed: diff.some((d) => d.change !== 'UNCHANGED'),
+    digest: orderDigest(diff),
+    orders,
+    diff,
+    portfolio: { cash: portfolio.cash, equity: portfolio.equity },
+    risk,
+    policyFlags
+  };
+};
@@ -1,5 +1,6 @@
-import { BotConfig, SleevePositions, TradeOrder } from '../core/types';
+import { BotConfig, SleevePositions, TaxLot, TradeOrder } from '../core/types';
 import { ExposureGroups, canonicalSymbolForExposure, symbolToExposureKey } from '../core/exposureGroups';
+import { selectSellLots } from './taxAwareRebalance';
 
 interface CanonicalizeInput {
   exposureGroups: ExposureGroups;
@@ -15,6 +16,9 @@ interface CanonicalizeInput {
   deployBudgetUsd?: number;
   remainingDeployBudgetUsd?: number;
   spentByBaseRebalanceBuysUsd?: number;
+  // With tax.taxAwareRebalance: swaps only sell loss and long-term lots.
+  asOf?: string;
+  taxLots?: TaxLot[];
 }
 
 export const planCanonicalization = ({
@@ -30,7 +34,9 @@ export const planCanonicalization = ({
   corePoolUsd,
   deployBudgetUsd,
   remainingDeployBudgetUsd,
-  spentByBaseRebalanceBuysUsd
+  spentByBaseRebalanceBuysUsd,
+  asOf,
+  taxLots
 }: CanonicalizeInput) => {
   const flags: Array<{ code: string; severity: 'info' | 'warn'; message: string; observed?: any }> = [];
   const orders: TradeOrder[] = [];
@@ -48,6 +54,13 @@ export const planCanonicalization = ({
   const onlyIfAffordable = config.canonicalizeOnlyIfAffordable ?? true;
   const protectedSet = new Set(protectedSymbols);
   let budgetUsedUsd = 0;
+  const taxAware = Boolean(config.tax?.taxAwareRebalance && taxLots && asOf);
+  // A swap is optional, so it never realizes a short-term gain.
+  const taxSelection = (symbol: string, qty: number, px: number) =>
+    selectSellLots(taxLots ?? [], symbol, qty, px, asOf ?? '', {
+      deferDays: config.tax?.shortTermDeferDays ?? 30,
+      allowShortTermGains: false
+    });
 
   const grouped: Record<string, { nonCanonical: Array<{ symbol: string; qty: number }>; canonicalQty: number }> = {};
   for (const h of holdings) {
@@ -89,6 +102,18 @@ export const planCanonicalization = ({
       } else {
         sellable = baseQty + (protectFromSells ? 0 : dislocQty);
       }
+      if (taxAware) {
+        const selection = taxSelection(n.symbol, sellable, pxSell);
+        if (selection.deferred.length) {
+          flags.push({
+            code: 'CANONICALIZATION_DEFERRED_TAX',
+            severity: 'info',
+            message: `Keeping ${n.symbol} lots with short-term gains out of the swap`,
+            observed: { exposure: key, symbol: n.symbol, sellableQty: sellable, taxSellableQty: selection.quantity, deferred: selection.deferred }
+          });
+        }
+        sellable = Math.min(sellable, selection.quantity);
+      }
       if (sellable <= 0) continue;
       const maxQtyByCap = Math.floor(remainingCap / pxSell);
       const qtyToSell = Math.min(sellable, maxQtyByCap);
@@ -119,6 +144,7 @@ export const planCanonicalization = ({
         side: 'SELL',
         orderType: 'MARKET',
         notionalUSD: adjustedSellNotional,
+        ...(taxAware ? { lotIds: taxSelection(n.symbol, qtyToSell, pxSell).picks.map((p) => p.lotId) } : {}),
         thesis: 'Canonicalization sell non-canonical member.',
         invalidation: '',
         confidence: 0.8,
@@ -1,8 +1,19 @@
-import { BotConfig, ExecutionResult, TradeOrder, OrderPreview, OrderPlacement, Fill, Mode } from '../core/types';
+import { BotConfig, ExecutionResult, TradeOrder, OrderPreview, OrderPlacement, Mode } from '../core/types';
 import { Broker } from '../broker/broker.types';
+import { MarketDataProvider } from '../data/marketData.types';
 import { appendEvent, makeEvent } from '../ledger/ledger';
-import { writeRunArtifact } from '../ledger/storage';
+import { readRunArtifact, writeRunArtifact } from '../ledger/storage';
 import { getRebalanceKey } from '../core/time';
+import {
+  TrackedOrder,
+  isOpenOrder,
+  manageOpenOrders,
+  placeTrackedOrder,
+  pollOrders,
+  previewTrackedOrder,
+  summarizeOrder
+} from './orderLifecycle';
+import { applyLimitPricing, buildExecutionReport } from './limitPricing';
 
 export interface ExecutionOptions {
   dryRun?: boolean;
@@ -11,15 +22,38 @@ export interface ExecutionOptions {
   brokerProvider?: string;
   pollFillsAttempts?: number;
   pollFillsDelayMs?: number;
+  // Prices LIMIT orders (execution.limitPolicy), records arrival prices and lets the lifecycle
+  // reprice stale limits; timeouts and expiry apply regardless.
+  marketData?: MarketDataProvider;
+  now?: Date;
 }
 
-export const executeOrders = async (
+/**
+ * Parks approved orders until a reviewer acts: sentinel fills/flags, the round 5 flag, then
+ * RUN_PENDING_APPROVAL last so the artifact hashes it checkpoints match what stays on disk.
+ */
+export const holdOrdersForApproval = async (
   runId: string,
   asOf: string,
   orders: TradeOrder[],
   broker: Broker,
   config: BotConfig,
   options: ExecutionOptions = {}
+): Promise<void> => {
+  await executeOrders(runId, asOf, orders, broker, config, { ...options, pendingApproval: true });
+  const round5Flags = readRunArtifact<any[]>(runId, 'round5_flags.json') || [];
+  round5Flags.push({ code: 'EXECUTION_SKIPPED_PENDING_APPROVAL', severity: 'info', message: 'Awaiting approval' });
+  writeRunArtifact(runId, 'round5_flags.json', round5Flags);
+  appendEvent(makeEvent(runId, 'RUN_PENDING_APPROVAL', { orders: orders.length }));
+};
+
+export const executeOrders = async (
+  runId: string,
+  asOf: string,
+  proposed: TradeOrder[],
+  broker: Broker,
+  config: BotConfig,
+  options: ExecutionOptions = {}
 ): Promise<ExecutionResult> => {
   const previews: OrderPreview[] = [];
   const placements: OrderPlacement[] = [];
@@ -27,26 +61,26 @@ export const executeOrders = async (
   const execFlags: any[] = [];
 
   if (options.pendingApproval) {
-    writeRunArtifact(runId, 'orders.json', orders);
+    writeRunArtifact(runId, 'orders.json', proposed);
     writeRunArtifact(runId, 'fills.json', [{ type: 'NO_FILL', reason: 'PENDING_APPROVAL' }]);
     writeRunArtifact(runId, 'execution_flags.json', [{ code: 'EXECUTION_SKIPPED_PENDING_APPROVAL' }]);
-    return { previews, placements, fills };
+    return { previews, placements, fills, orders: [] };
   }
 
   if (options.dryRun) {
-    writeRunArtifact(runId, 'orders.json', orders);
+    writeRunArtifact(runId, 'orders.json', proposed);
     writeRunArtifact(runId, 'fills.json', [{ type: 'NO_FILL', reason: 'DRY_RUN' }]);
     writeRunArtifact(runId, 'execution_flags.json', [{ code: 'EXECUTION_SKIPPED', reason: 'DRY_RUN' }]);
-    return { previews, placements, fills };
+    return { previews, placements, fills, orders: [] };
   }
+  const orders = options.marketData ? await applyLimitPricing(proposed, config, options.marketData, asOf) : proposed;
+  const tracked: TrackedOrder[] = [];
   for (const order of orders) {
-    const preview = await broker.previewOrder(order, asOf);
+    const { tracked: entry, preview } = await previewTrackedOrder(runId, order, broker, asOf);
     previews.push(preview);
-    appendEvent(makeEvent(runId, 'ORDER_PREVIEWED', { order, preview }));
+    tracked.push(entry);
     try {
-      const placement = await broker.placeOrder(order, asOf);
-      placements.push(placement);
-      appendEvent(makeEvent(runId, 'ORDER_PLACED', { order, placement }));
+      placements.push(await placeTrackedOrder(entry, broker, asOf));
     } catch (err) {
       execFlags.push({ code: 'EXECUTION_FAILED', message: (err as Error).message, symbol: order.symbol });
       fills.push({ type: 'NO_FILL', reason: 'BROKER_ERROR', message: (err as Error).message, symbol: order.symbol });
@@ -54,23 +88,38 @@ export const executeOrders = async (
   }
 
   if (placements.length) {
-    const orderIds = placements.map((p) => String(p.orderId));
     const attemptMax = options.pollFillsAttempts ?? (process.env.USE_ETRADE_ORDERS === 'true' && options.mode === 'live' ? 3 : 1);
     const delayMs = options.pollFillsDelayMs ?? 2000;
     for (let i = 0; i < attemptMax; i++) {
-      const fetchedFills = await broker.getFills(orderIds, asOf);
-      const nonZero = fetchedFills.filter((f) => f.quantity > 0);
-      for (const fill of fetchedFills) {
-        fills.push(fill);
-        appendEvent(makeEvent(runId, 'FILL_RECORDED', { fill }));
-      }
-      if (nonZero.length || i === attemptMax - 1) {
+      fills.push(...(await pollOrders(tracked, broker, asOf)));
+      if (!tracked.some(isOpenOrder) || i === attemptMax - 1) {
         break;
       }
       if (delayMs > 0) {
         await new Promise((resolve) => setTimeout(resolve, delayMs));
       }
     }
+    // Each round replaces stale or pegged limits once; pegSteps and maxReplaces bound the rounds.
+    let working = tracked;
+    while (working.some(isOpenOrder)) {
+      const managed = await manageOpenOrders(working, broker, config, { asOf, now: options.now, marketData: options.marketData });
+      execFlags.push(...managed.flags);
+      if (!managed.replacements.length) break;
+      for (const replacement of managed.replacements) {
+        tracked.push(replacement);
+        if (replacement.placement) placements.push(replacement.placement);
+      }
+      fills.push(...(await pollOrders(managed.replacements, broker, asOf)));
+      working = managed.replacements;
+    }
+    const stillOpen = tracked.filter(isOpenOrder);
+    if (stillOpen.length) {
+      execFlags.push({
+        code: 'ORDERS_STILL_OPEN',
+        message: `${stillOpen.length} order(s) still working; npm run bot:sync-fills -- --run ${runId} resumes them.`,
+        symbols: stillOpen.map((t) => t.order.symbol)
+      });
+    }
     // record execution event (paper or live)
     const rebalanceKey = getRebalanceKey(new Date(asOf), config.rebalanceDay || 'TUESDAY');
     appendEvent(
@@ -84,10 +133,31 @@ export const executeOrders = async (
     );
   }
 
-  writeRunArtifact(runId, 'orders.json', orders);
+  // Pin the entry fill onto each BUY's invalidation rule so the monitor can measure drawdown from it.
+  const recordedOrders = orders.map((order) => {
+    const fill = tracked
+      .filter((t) => t.origin === order)
+      .flatMap((t) => t.fills)
+      .find((f) => f.side === 'BUY');
+    if (!fill || !order.invalidationRule) return order;
+    return {
+      ...order,
+      invalidationRule: {
+        ...order.invalidationRule,
+        entry: { orderId: String(fill.orderId), runId, price: fill.price, quantity: fill.quantity, timestamp: fill.timestamp }
+      }
+    };
+  });
+
+  writeRunArtifact(runId, 'orders.json', recordedOrders);
   if (placements.length) writeRunArtifact(runId, 'placements.json', placements);
   writeRunArtifact(runId, 'fills.json', fills.length ? fills : [{ type: 'NO_FILL', reason: 'NO_EXECUTIONS' }]);
   if (execFlags.length) writeRunArtifact(runId, 'execution_flags.json', execFlags);
+  const orderStates = tracked.map(summarizeOrder);
+  if (orderStates.length) {
+    writeRunArtifact(runId, 'order_states.json', orderStates);
+    writeRunArtifact(runId, 'execution_report.json', buildExecutionReport(orderStates));
+  }
 
-  return { previews, placements, fills };
+  return { previews, placements, fills, orders: orderStates };
 };
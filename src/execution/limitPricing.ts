@@ -0,0 +1,130 @@
+import { BotConfig, LimitPricingPolicy, OrderSummary, TradeOrder, TradeSide } from '../core/types';
+import { MarketDataProvider, Quote } from '../data/marketData.types';
+
+export interface Touch {
+  bid: number;
+  ask: number;
+  mid: number;
+}
+
+type LimitSettings = NonNullable<BotConfig['execution']>;
+
+const roundCents = (px: number) => Math.round(px * 100) / 100;
+
+/**
+ * Top of book for a quote. Providers without bid/ask (cache, backtests) get a synthetic book
+ * `halfSpreadBps` either side of the last price — where the stub broker fills MARKET orders.
+ */
+export const quoteTouch = (quote: Quote, halfSpreadBps: number): Touch => {
+  if (quote.bid && quote.ask && quote.ask >= quote.bid) {
+    return { bid: quote.bid, ask: quote.ask, mid: (quote.bid + quote.ask) / 2 };
+  }
+  const half = (quote.price * halfSpreadBps) / 10_000;
+  return { bid: quote.price - half, ask: quote.price + half, mid: quote.price };
+};
+
+/**
+ * LIMIT price for one attempt. `step` only matters for peg, which starts at the mid and reaches
+ * the far touch (ask for BUY, bid for SELL) on its last step.
+ */
+export const limitPriceFor = (
+  side: TradeSide,
+  touch: Touch,
+  policy: Exclude<LimitPricingPolicy, 'market'>,
+  settings: LimitSettings,
+  arrivalPrice: number,
+  step = 0
+): number => {
+  const sign = side === 'BUY' ? 1 : -1;
+  const far = side === 'BUY' ? touch.ask : touch.bid;
+  if (policy === 'mid_offset') {
+    return roundCents(touch.mid * (1 + (sign * (settings.midOffsetBps ?? 2)) / 10_000));
+  }
+  if (policy === 'marketable_cap') {
+    const cap = arrivalPrice * (1 + (sign * (settings.marketableCapBps ?? 10)) / 10_000);
+    return roundCents(side === 'BUY' ? Math.min(far, cap) : Math.max(far, cap));
+  }
+  const steps = Math.max(1, settings.pegSteps ?? 3);
+  const progress = steps === 1 ? 1 : Math.min(1, step / (steps - 1));
+  return roundCents(touch.mid + (far - touch.mid) * progress);
+};
+
+export const limitPolicyFor = (symbol: string, config: BotConfig): LimitPricingPolicy => {
+  const policy = config.execution?.limitPolicy ?? 'market';
+  const symbols = config.execution?.limitSymbols ?? [];
+  return policy !== 'market' && (!symbols.length || symbols.includes(symbol)) ? policy : 'market';
+};
+
+/**
+ * Stamps each order with its arrival price and, for symbols covered by `execution.limitPolicy`,
+ * turns it into a LIMIT priced by that policy. Orders that already carry a limit are left alone.
+ */
+export const applyLimitPricing = async (
+  orders: TradeOrder[],
+  config: BotConfig,
+  marketData: MarketDataProvider,
+  asOf: string
+): Promise<TradeOrder[]> => {
+  const priced: TradeOrder[] = [];
+  for (const order of orders) {
+    const quote = await marketData.getQuote(order.symbol, asOf).catch(() => undefined);
+    if (!quote || !(quote.price > 0)) {
+      priced.push(order);
+      continue;
+    }
+    const policy = limitPolicyFor(order.symbol, config);
+    if (policy === 'market' || (order.orderType === 'LIMIT' && order.limitPrice)) {
+      priced.push({ ...order, arrivalPrice: order.arrivalPrice ?? quote.price });
+      continue;
+    }
+    const touch = quoteTouch(quote, config.slippageBps);
+    priced.push({
+      ...order,
+      orderType: 'LIMIT',
+      limitPrice: limitPriceFor(order.side, touch, policy, config.execution ?? {}, quote.price),
+      limitPolicy: policy,
+      limitStep: 0,
+      arrivalPrice: quote.price
+    });
+  }
+  return priced;
+};
+
+/** Realized slippage against arrival, per broker order and notional-weighted over the run. */
+export const buildExecutionReport = (orders: OrderSummary[]) => {
+  const rows = orders
+    .filter((o) => o.filledQuantity > 0 && o.avgFillPrice !== undefined && o.arrivalPrice)
+    .map((o) => {
+      const sign = o.side === 'BUY' ? 1 : -1;
+      const arrival = o.arrivalPrice as number;
+      const avgFill = o.avgFillPrice as number;
+      return {
+        orderId: o.orderId,
+        symbol: o.symbol,
+        side: o.side,
+        orderType: o.orderType,
+        limitPrice: o.limitPrice,
+        state: o.state,
+        filledQuantity: o.filledQuantity,
+        arrivalPrice: arrival,
+        avgFillPrice: avgFill,
+        filledNotional: o.filledQuantity * avgFill,
+        slippageBps: o.slippageBps ?? 0,
+        slippageUSD: sign * (avgFill - arrival) * o.filledQuantity
+      };
+    });
+  const filledNotional = rows.reduce((acc, r) => acc + r.filledNotional, 0);
+  const slippageUSD = rows.reduce((acc, r) => acc + r.slippageUSD, 0);
+  const arrivalNotional = rows.reduce((acc, r) => acc + r.arrivalPrice * r.filledQuantity, 0);
+  return {
+    orders: rows,
+    unfilled: orders.filter((o) => o.filledQuantity === 0).map((o) => ({ orderId: o.orderId, symbol: o.symbol, state: o.state, reason: o.reason })),
+    totals: {
+      filledNotional,
+      slippageUSD,
+      slippageBps: arrivalNotional > 0 ? (slippageUSD / arrivalNotional) * 10_000 : 0
+    }
+  };
+};
+
+export type ExecutionReport = ReturnType<typeof buildExecutionReport>;
@@ -0,0 +1,391 @@
+import {
+  BotConfig,
+  BrokerOrderStatus,
+  Fill,
+  LedgerEvent,
+  LedgerEventType,
+  OrderPlacement,
+  OrderPreview,
+  OrderState,
+  OrderSummary,
+  TradeOrder
+} from '../core/types';
+import { Broker } from '../broker/broker.types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { appendEvent, checkpointRunArtifacts, fillKey, getEventsForRun, ledgerNow, makeEvent } from '../ledger/ledger';
+import { writeRunArtifact } from '../ledger/storage';
+import { exchangeDay } from '../core/calendar';
+import { runIdToAsOf } from '../core/time';
+import { buildExecutionReport, limitPriceFor, quoteTouch } from './limitPricing';
+
+export interface TrackedOrder {
+  runId: string;
+  order: TradeOrder;
+  // The order as proposed; replacements of a stale limit keep pointing at it.
+  origin: TradeOrder;
+  state: OrderState;
+  orderId?: string;
+  placement?: OrderPlacement;
+  quantity: number;
+  fills: Fill[];
+  placedAt?: string;
+  replaces?: string;
+  replacedBy?: string;
+  replaceCount: number;
+  reason?: string;
+}
+
+export interface OrderSyncOptions {
+  asOf: string;
+  now?: Date;
+  // Needed to spot stale limit prices; without it open limits only time out.
+  marketData?: MarketDataProvider;
+}
+
+const ORDER_TRANSITIONS: Record<OrderState, OrderState[]> = {
+  PREVIEWED: ['PLACED', 'REJECTED'],
+  PLACED: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: [],
+  EXPIRED: []
+};
+
+const STATE_EVENTS: Record<OrderState, LedgerEventType> = {
+  PREVIEWED: 'ORDER_PREVIEWED',
+  PLACED: 'ORDER_PLACED',
+  PARTIALLY_FILLED: 'ORDER_PARTIALLY_FILLED',
+  FILLED: 'ORDER_FILLED',
+  CANCELLED: 'ORDER_CANCELLED',
+  REJECTED: 'ORDER_REJECTED',
+  EXPIRED: 'ORDER_EXPIRED'
+};
+
+const EVENT_STATES = new Map<LedgerEventType, OrderState>(
+  Object.entries(STATE_EVENTS).map(([state, type]) => [type, state as OrderState])
+);
+
+export const isOpenOrder = (tracked: TrackedOrder): boolean =>
+  tracked.state === 'PLACED' || tracked.state === 'PARTIALLY_FILLED';
+
+const filledQuantity = (tracked: TrackedOrder): number => tracked.fills.reduce((acc, f) => acc + f.quantity, 0);
+
+const remainingQuantity = (tracked: TrackedOrder): number => Math.max(0, tracked.quantity - filledQuantity(tracked));
+
+// Fractional stub quantities rarely sum back exactly.
+const isFullyFilled = (tracked: TrackedOrder): boolean =>
+  tracked.quantity > 0 && remainingQuantity(tracked) <= Math.max(1e-9, tracked.quantity * 1e-6);
+
+const sameFill = (a: Fill, b: Fill) => fillKey(a) === fillKey(b);
+
+export const transitionOrder = (tracked: TrackedOrder, to: OrderState, details: Record<string, unknown> = {}): LedgerEvent => {
+  if (!ORDER_TRANSITIONS[tracked.state].includes(to)) {
+    throw new Error(`Illegal order transition ${tracked.state} -> ${to} for ${tracked.orderId ?? tracked.order.symbol}`);
+  }
+  const from = tracked.state;
+  tracked.state = to;
+  if (typeof details.reason === 'string') tracked.reason = details.reason;
+  const event = makeEvent(tracked.runId, STATE_EVENTS[to], {
+    orderId: tracked.orderId,
+    symbol: tracked.order.symbol,
+    side: tracked.order.side,
+    from,
+    state: to,
+    filledQuantity: filledQuantity(tracked),
+    remainingQuantity: remainingQuantity(tracked),
+    ...details
+  });
+  appendEvent(event);
+  return event;
+};
+
+export const previewTrackedOrder = async (
+  runId: string,
+  order: TradeOrder,
+  broker: Broker,
+  asOf: string,
+  replacing?: TrackedOrder
+): Promise<{ tracked: TrackedOrder; preview: OrderPreview }> => {
+  const preview = await broker.previewOrder(order, asOf);
+  const tracked: TrackedOrder = {
+    runId,
+    order,
+    origin: replacing?.origin ?? order,
+    state: 'PREVIEWED',
+    quantity: preview.quantity,
+    fills: [],
+    replaces: replacing?.orderId,
+    replaceCount: replacing ? replacing.replaceCount + 1 : 0
+  };
+  appendEvent(
+    makeEvent(runId, 'ORDER_PREVIEWED', {
+      order,
+      preview,
+      state: 'PREVIEWED',
+      ...(tracked.replaces ? { replaces: tracked.replaces } : {})
+    })
+  );
+  return { tracked, preview };
+};
+
+/** Places a previewed order; a broker error is recorded as REJECTED and rethrown. */
+export const placeTrackedOrder = async (tracked: TrackedOrder, broker: Broker, asOf: string): Promise<OrderPlacement> => {
+  let placement: OrderPlacement;
+  try {
+    placement = await broker.placeOrder(tracked.order, asOf);
+  } catch (err) {
+    transitionOrder(tracked, 'REJECTED', { order: tracked.order, reason: (err as Error).message });
+    throw err;
+  }
+  tracked.orderId = String(placement.orderId);
+  tracked.placement = placement;
+  tracked.quantity = placement.quantity;
+  const event = transitionOrder(tracked, 'PLACED', {
+    order: tracked.order,
+    placement,
+    ...(tracked.replaces ? { replaces: tracked.replaces, replaceCount: tracked.replaceCount } : {})
+  });
+  tracked.placedAt = event.timestamp;
+  return placement;
+};
+
+const settleOrder = (tracked: TrackedOrder, newFills: number, status?: BrokerOrderStatus) => {
+  const filled = filledQuantity(tracked);
+  const brokerFilled =
+    status?.status === 'FILLED' && (status.filledQuantity === undefined ? filled > 0 : filled + 1e-9 >= status.filledQuantity);
+  if (isFullyFilled(tracked) || brokerFilled) {
+    transitionOrder(tracked, 'FILLED');
+  } else if (status?.status === 'CANCELLED') {
+    transitionOrder(tracked, 'CANCELLED', { reason: status.message || 'BROKER_CANCELLED' });
+  } else if (status?.status === 'EXPIRED') {
+    transitionOrder(tracked, 'EXPIRED', { reason: status.message || 'BROKER_EXPIRED' });
+  } else if (status?.status === 'REJECTED') {
+    transitionOrder(tracked, filled > 0 ? 'CANCELLED' : 'REJECTED', { reason: status.message || 'BROKER_REJECTED' });
+  } else if (newFills > 0) {
+    transitionOrder(tracked, 'PARTIALLY_FILLED');
+  }
+};
+
+/** Fetches fills (and status, when the broker reports it) for the open orders and advances their states. */
+export const pollOrders = async (orders: TrackedOrder[], broker: Broker, asOf: string): Promise<Fill[]> => {
+  const open = orders.filter(isOpenOrder);
+  if (!open.length) return [];
+  const fetched = await broker.getFills(open.map((t) => t.orderId as string), asOf);
+  const recorded: Fill[] = [];
+  for (const tracked of open) {
+    let newFills = 0;
+    for (const fill of fetched.filter((f) => String(f.orderId) === tracked.orderId)) {
+      // Brokers report zero-quantity placeholders for working orders and may repeat executions across polls.
+      if (!(fill.quantity > 0) || tracked.fills.some((f) => sameFill(f, fill))) continue;
+      if (!appendEvent(makeEvent(tracked.runId, 'FILL_RECORDED', { fill }))) continue;
+      tracked.fills.push(fill);
+      recorded.push(fill);
+      newFills += 1;
+    }
+    const status = broker.getOrderStatus ? await broker.getOrderStatus(tracked.orderId as string, asOf) : undefined;
+    settleOrder(tracked, newFills, status);
+  }
+  return recorded;
+};
+
+const cancelTrackedOrder = async (tracked: TrackedOrder, broker: Broker, reason: string) => {
+  await broker.cancelOrder(tracked.orderId as string);
+  transitionOrder(tracked, 'CANCELLED', { reason });
+};
+
+const replaceTrackedOrder = async (
+  tracked: TrackedOrder,
+  broker: Broker,
+  asOf: string,
+  reason: string,
+  changes: Partial<TradeOrder> & { limitPrice: number }
+): Promise<TrackedOrder> => {
+  const remaining = remainingQuantity(tracked);
+  await cancelTrackedOrder(tracked, broker, reason);
+  const { tracked: next } = await previewTrackedOrder(
+    tracked.runId,
+    { ...tracked.order, ...changes, notionalUSD: remaining * changes.limitPrice },
+    broker,
+    asOf,
+    tracked
+  );
+  await placeTrackedOrder(next, broker, asOf);
+  tracked.replacedBy = next.orderId;
+  return next;
+};
+
+/**
+ * Applies the working-order policy to whatever is still open: DAY orders from an earlier session
+ * are EXPIRED, orders past `execution.orderTimeoutMinutes` are cancelled, a pegged LIMIT moves one
+ * step closer to the touch (up to `execution.pegSteps`), and any other LIMIT whose quote has moved
+ * more than `execution.limitRepriceBps` past it is cancelled and replaced for the unfilled
+ * remainder (at most `execution.maxReplaces` times) — at its policy's price, or at the quote.
+ */
+export const manageOpenOrders = async (
+  orders: TrackedOrder[],
+  broker: Broker,
+  config: BotConfig,
+  options: OrderSyncOptions
+): Promise<{ replacements: TrackedOrder[]; flags: Record<string, unknown>[] }> => {
+  const now = options.now ?? ledgerNow();
+  const timeoutMs = (config.execution?.orderTimeoutMinutes ?? 30) * 60_000;
+  const repriceBps = config.execution?.limitRepriceBps ?? 25;
+  const maxReplaces = config.execution?.maxReplaces ?? 2;
+  const pegSteps = config.execution?.pegSteps ?? 3;
+  const replacements: TrackedOrder[] = [];
+  const flags: Record<string, unknown>[] = [];
+
+  for (const tracked of orders.filter(isOpenOrder)) {
+    const placedAt = new Date(tracked.placedAt ?? now);
+    try {
+      if (exchangeDay(placedAt) < exchangeDay(now)) {
+        transitionOrder(tracked, 'EXPIRED', { reason: 'DAY_ORDER_EXPIRED' });
+        continue;
+      }
+      if (now.getTime() - placedAt.getTime() >= timeoutMs) {
+        await cancelTrackedOrder(tracked, broker, 'TIMEOUT');
+        continue;
+      }
+      const { order } = tracked;
+      const limit = order.limitPrice;
+      if (order.orderType !== 'LIMIT' || !limit || !options.marketData) continue;
+      const step = order.limitStep ?? 0;
+      const pegging = order.limitPolicy === 'peg' && step + 1 < pegSteps;
+      if (!pegging && tracked.replaceCount >= maxReplaces) continue;
+      const quote = await options.marketData.getQuote(order.symbol, options.asOf);
+      if (!(quote.price > 0)) continue;
+      const arrival = order.arrivalPrice ?? quote.price;
+      const policyPrice = (nextStep: number) =>
+        order.limitPolicy && order.limitPolicy !== 'market'
+          ? limitPriceFor(order.side, quoteTouch(quote, config.slippageBps), order.limitPolicy, config.execution ?? {}, arrival, nextStep)
+          : Math.round(quote.price * 100) / 100;
+
+      if (pegging) {
+        const limitPrice = policyPrice(step + 1);
+        replacements.push(await replaceTrackedOrder(tracked, broker, options.asOf, 'PEG_STEP', { limitPrice, limitStep: step + 1 }));
+        continue;
+      }
+      const drift = order.side === 'BUY' ? (quote.price - limit) / limit : (limit - quote.price) / limit;
+      if (drift * 10_000 <= repriceBps) continue;
+      const limitPrice = policyPrice(step);
+      // A capped limit that cannot follow the quote any further just works until it times out.
+      if (limitPrice === limit) continue;
+      replacements.push(await replaceTrackedOrder(tracked, broker, options.asOf, 'STALE_LIMIT', { limitPrice }));
+    } catch (err) {
+      flags.push({ code: 'ORDER_MANAGEMENT_FAILED', message: (err as Error).message, symbol: tracked.order.symbol, orderId: tracked.orderId });
+    }
+  }
+  return { replacements, flags };
+};
+
+/** Rebuilds every placed order's state and fills from the ledger, so open orders survive restarts. */
+export const replayOrders = (events: LedgerEvent[]): TrackedOrder[] => {
+  const byId = new Map<string, TrackedOrder>();
+  for (const evt of events) {
+    const details = evt.details ?? {};
+    if (evt.type === 'ORDER_PLACED') {
+      const order = details.order as TradeOrder | undefined;
+      const placement = details.placement as OrderPlacement | undefined;
+      if (!order || placement?.orderId === undefined) continue;
+      const orderId = String(placement.orderId);
+      const replaces = details.replaces as string | undefined;
+      byId.set(orderId, {
+        runId: evt.runId,
+        order,
+        origin: order,
+        state: 'PLACED',
+        orderId,
+        placement,
+        quantity: Number(placement.quantity) || 0,
+        fills: [],
+        placedAt: evt.timestamp,
+        replaces,
+        replaceCount: Number(details.replaceCount ?? 0)
+      });
+      const previous = replaces ? byId.get(replaces) : undefined;
+      if (previous) previous.replacedBy = orderId;
+      continue;
+    }
+    const fill = evt.type === 'FILL_RECORDED' ? (details.fill as Fill | undefined) : undefined;
+    const orderId = fill ? fill.orderId : (details.orderId as string | undefined);
+    const tracked = orderId !== undefined ? byId.get(String(orderId)) : undefined;
+    if (!tracked) continue;
+    if (fill) {
+      if (fill.quantity > 0) tracked.fills.push(fill);
+      continue;
+    }
+    const state = EVENT_STATES.get(evt.type);
+    if (state) {
+      tracked.state = state;
+      if (typeof details.reason === 'string') tracked.reason = details.reason;
+    }
+  }
+  return Array.from(byId.values());
+};
+
+/** Polls and manages the open orders among `events` (typically one run's or one account's). */
+export const resumeOpenOrders = async (
+  events: LedgerEvent[],
+  broker: Broker,
+  config: BotConfig,
+  options: OrderSyncOptions
+): Promise<{ orders: TrackedOrder[]; fills: Fill[]; flags: Record<string, unknown>[] }> => {
+  const orders = replayOrders(events);
+  const open = orders.filter(isOpenOrder);
+  const fills = await pollOrders(open, broker, options.asOf);
+  const { replacements, flags } = await manageOpenOrders(open, broker, config, options);
+  fills.push(...(await pollOrders(replacements, broker, options.asOf)));
+  return { orders: [...orders, ...replacements], fills, flags };
+};
+
+/**
+ * Resumes one run's open orders and rewrites its placements, fills and order_states artifacts, then
+ * checkpoints the new artifact hashes (the run may have completed before the sync).
+ */
+export const syncRunOrders = async (
+  runId: string,
+  broker: Broker,
+  config: BotConfig,
+  options: Partial<OrderSyncOptions> = {}
+): Promise<{ orders: TrackedOrder[]; fills: Fill[]; flags: Record<string, unknown>[] }> => {
+  const result = await resumeOpenOrders(getEventsForRun(runId), broker, config, {
+    ...options,
+    asOf: options.asOf ?? runIdToAsOf(runId)
+  });
+  const placements = result.orders.flatMap((t) => (t.placement ? [t.placement] : []));
+  const fills = result.orders.flatMap((t) => t.fills);
+  if (placements.length) writeRunArtifact(runId, 'placements.json', placements);
+  writeRunArtifact(runId, 'fills.json', fills.length ? fills : [{ type: 'NO_FILL', reason: 'NO_EXECUTIONS' }]);
+  const orderStates = result.orders.map(summarizeOrder);
+  writeRunArtifact(runId, 'order_states.json', orderStates);
+  writeRunArtifact(runId, 'execution_report.json', buildExecutionReport(orderStates));
+  checkpointRunArtifacts(runId, 'ORDER_SYNC');
+  return result;
+};
+
+export const summarizeOrder = (tracked: TrackedOrder): OrderSummary => {
+  const filled = filledQuantity(tracked);
+  const notional = tracked.fills.reduce((acc, f) => acc + f.quantity * f.price, 0);
+  const avgFillPrice = filled > 0 ? notional / filled : undefined;
+  const arrivalPrice = tracked.order.arrivalPrice;
+  const sign = tracked.order.side === 'BUY' ? 1 : -1;
+  return {
+    orderId: tracked.orderId,
+    runId: tracked.runId,
+    symbol: tracked.order.symbol,
+    side: tracked.order.side,
+    orderType: tracked.order.orderType,
+    limitPrice: tracked.order.limitPrice,
+    state: tracked.state,
+    quantity: tracked.quantity,
+    filledQuantity: filled,
+    avgFillPrice,
+    arrivalPrice,
+    slippageBps: avgFillPrice !== undefined && arrivalPrice ? ((sign * (avgFillPrice - arrivalPrice)) / arrivalPrice) * 10_000 : undefined,
+    placedAt: tracked.placedAt,
+    replaces: tracked.replaces,
+    replacedBy: tracked.replacedBy,
+    reason: tracked.reason
+  };
+};
@@ -0,0 +1,257 @@
+import { BotConfig, HoldingTerm, RealizedLot, TaxLot, TradeOrder } from '../core/types';
+import { ExposureGroups, symbolToExposureKey } from '../core/exposureGroups';
+import { holdingTerm } from '../analytics/taxLots';
+
+const DAY_MS = 86_400_000;
+const EPS = 1e-9;
+
+type Flag = { code: string; severity: 'info' | 'warn'; message: string; observed?: any };
+
+export interface SellLotSelection {
+  quantity: number;
+  picks: Array<{ lotId: string; quantity: number; unrealizedGain: number; term: HoldingTerm }>;
+  // Short-term gain lots left alone; `quantity` is how much of the request they would have covered.
+  deferred: Array<{ lotId: string; quantity: number; unrealizedGain: number; longTermOn: string }>;
+}
+
+export interface TaxAwareRebalanceInput {
+  asOf: string;
+  orders: TradeOrder[];
+  lots: TaxLot[];
+  realized: RealizedLot[];
+  prices: Record<string, number>;
+  cash: number;
+  config: BotConfig;
+  exposureGroups?: ExposureGroups;
+  families: Map<string, string>;
+}
+
+export interface TaxAwareRebalanceResult {
+  orders: TradeOrder[];
+  selections: Record<string, SellLotSelection>;
+  harvests: Array<{ symbol: string; replacement: string; exposure: string; quantity: number; loss: number; lotIds: string[] }>;
+  flags: Flag[];
+}
+
+/** First calendar day (UTC) on which a sale of the lot is long-term. */
+export const longTermOn = (lot: TaxLot): string => {
+  const day = new Date(lot.holdingStart);
+  day.setUTCFullYear(day.getUTCFullYear() + 1);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+const unrealizedPerShare = (lot: TaxLot, price: number) => price - lot.costBasis / lot.quantity;
+
+/**
+ * Picks lots for selling `quantity` of `symbol`: losses first (deepest first), then long-term
+ * gains, then short-term gains (smallest gain first). Short-term gain lots within `deferDays` of
+ * turning long-term, or all of them without `allowShortTermGains`, are deferred instead.
+ */
+export const selectSellLots = (
+  lots: TaxLot[],
+  symbol: string,
+  quantity: number,
+  price: number,
+  asOf: string,
+  options: { deferDays: number; allowShortTermGains?: boolean }
+): SellLotSelection => {
+  const ranked = lots
+    .filter((l) => l.symbol === symbol && l.quantity > EPS)
+    .map((lot) => {
+      const perShare = unrealizedPerShare(lot, price);
+      const term = holdingTerm(lot.holdingStart, asOf);
+      return { lot, perShare, term, rank: perShare < 0 ? 0 : term === 'LONG' ? 1 : 2 };
+    })
+    .sort((a, b) => a.rank - b.rank || a.perShare - b.perShare);
+
+  const selection: SellLotSelection = { quantity: 0, picks: [], deferred: [] };
+  let remaining = quantity;
+  for (const { lot, perShare, term, rank } of ranked) {
+    if (remaining <= EPS) break;
+    const qty = Math.min(lot.quantity, remaining);
+    if (rank === 2) {
+      const turnsLong = longTermOn(lot);
+      const daysToLong = (Date.parse(turnsLong) - Date.parse(asOf.slice(0, 10))) / DAY_MS;
+      if (!options.allowShortTermGains || daysToLong <= options.deferDays) {
+        selection.deferred.push({ lotId: lot.lotId, quantity: qty, unrealizedGain: perShare * qty, longTermOn: turnsLong });
+        continue;
+      }
+    }
+    selection.picks.push({ lotId: lot.lotId, quantity: qty, unrealizedGain: perShare * qty, term });
+    selection.quantity += qty;
+    remaining -= qty;
+  }
+  return selection;
+};
+
+const familyOf = (families: Map<string, string>, symbol: string) => families.get(symbol) ?? symbol;
+
+const harvestLosses = (input: TaxAwareRebalanceInput, traded: Set<string>, result: TaxAwareRebalanceResult) => {
+  const { asOf, lots, prices, config, exposureGroups, families } = input;
+  const minLossPct = config.tax?.harvestMinLossPct ?? 0.05;
+  const minLossUSD = config.tax?.harvestMinLossUSD ?? 100;
+  const windowMs = (config.tax?.washSaleWindowDays ?? 30) * DAY_MS;
+  const symbols = Array.from(new Set(lots.map((l) => l.symbol))).filter((s) => !traded.has(s));
+
+  for (const symbol of symbols) {
+    const price = prices[symbol];
+    if (!(price > 0)) continue;
+    const lossLots = lots.filter((l) => {
+      if (l.symbol !== symbol) return false;
+      const perShare = unrealizedPerShare(l, price);
+      return perShare < 0 && -perShare / (l.costBasis / l.quantity) >= minLossPct;
+    });
+    const loss = lossLots.reduce((acc, l) => acc + unrealizedPerShare(l, price) * l.quantity, 0);
+    if (!lossLots.length || -loss < minLossUSD) continue;
+
+    const exposure = exposureGroups ? symbolToExposureKey(exposureGroups, symbol) : undefined;
+    if (!exposure || !exposureGroups) continue;
+    const recentBuy = lots.find(
+      (l) =>
+        !lossLots.includes(l) &&
+        familyOf(families, l.symbol) === familyOf(families, symbol) &&
+        Date.parse(asOf) - Date.parse(l.openedAt) <= windowMs
+    );
+    if (recentBuy) {
+      result.flags.push({
+        code: 'HARVEST_SKIPPED_WASH_SALE',
+        severity: 'info',
+        message: `Not harvesting ${symbol}: ${recentBuy.symbol} was bought within the wash-sale window`,
+        observed: { symbol, lotId: recentBuy.lotId, openedAt: recentBuy.openedAt }
+      });
+      continue;
+    }
+
+    const quantity = lossLots.reduce((acc, l) => acc + l.quantity, 0);
+    const proceeds = quantity * price;
+    const group = exposureGroups[exposure];
+    const candidates = Array.from(new Set([...(group.canonicalPreference ?? []), ...group.members])).filter(
+      (s) => s !== symbol && familyOf(families, s) !== familyOf(families, symbol) && prices[s] > 0
+    );
+    const replacement = candidates.find((s) => config.fractionalSharesSupported || Math.floor(proceeds / prices[s]) > 0);
+    if (!replacement) {
+      result.flags.push({
+        code: 'HARVEST_NO_ALTERNATE',
+        severity: 'info',
+        message: `No ${exposure} alternate outside ${symbol}'s wash-sale family to harvest into`,
+        observed: { symbol, exposure, loss }
+      });
+      continue;
+    }
+    const buyNotional = config.fractionalSharesSupported
+      ? proceeds
+      : Math.floor(proceeds / prices[replacement]) * prices[replacement];
+    const lotIds = lossLots.map((l) => l.lotId);
+    result.orders.push(
+      {
+        symbol,
+        side: 'SELL',
+        orderType: 'MARKET',
+        notionalUSD: proceeds,
+        lotIds,
+        thesis: `Tax-loss harvest: realize ${(-loss).toFixed(2)} loss, keep ${exposure} exposure via ${replacement}.`,
+        invalidation: '',
+        confidence: 1,
+        portfolioLevel: { targetHoldDays: 0, netExposureTarget: 1 }
+      },
+      {
+        symbol: replacement,
+        side: 'BUY',
+        orderType: 'MARKET',
+        notionalUSD: buyNotional,
+        thesis: `Tax-loss harvest replacement for ${symbol} (${exposure}).`,
+        invalidation: '',
+        confidence: 1,
+        portfolioLevel: { targetHoldDays: 0, netExposureTarget: 1 }
+      }
+    );
+    result.harvests.push({ symbol, replacement, exposure, quantity, loss, lotIds });
+    result.flags.push({
+      code: 'TAX_LOSS_HARVEST',
+      severity: 'info',
+      message: `Harvest ${(-loss).toFixed(2)} loss on ${symbol} into ${replacement}`,
+      observed: { symbol, replacement, exposure, quantity, loss, lotIds }
+    });
+  }
+};
+
+/**
+ * Tax view over rebalance orders (`tax.taxAwareRebalance`): SELLs name the lots to relieve and
+ * skip short-term gains close to turning long-term, BUYs are scaled to the cash the remaining
+ * SELLs raise, and loss lots are optionally harvested into an exposure-group alternate outside the
+ * wash-sale family. BUYs that would wash a recent loss are flagged.
+ */
+export const planTaxAwareRebalance = (input: TaxAwareRebalanceInput): TaxAwareRebalanceResult => {
+  const { asOf, lots, prices, config } = input;
+  const deferDays = config.tax?.shortTermDeferDays ?? 30;
+  const result: TaxAwareRebalanceResult = { orders: [], selections: {}, harvests: [], flags: [] };
+
+  const sells: TradeOrder[] = [];
+  for (const order of input.orders.filter((o) => o.side === 'SELL')) {
+    const price = prices[order.symbol];
+    if (!(price > 0)) {
+      sells.push(order);
+      continue;
+    }
+    const requested = order.notionalUSD / price;
+    const selection = selectSellLots(lots, order.symbol, requested, price, asOf, { deferDays, allowShortTermGains: true });
+    result.selections[order.symbol] = selection;
+    const deferredQty = selection.deferred.reduce((acc, d) => acc + d.quantity, 0);
+    // Later lots can cover what a deferred lot would have; only shares no lot accounts for at all
+    // (the book is behind the broker) are sold on top of the picks, without naming a lot.
+    const unassigned = Math.max(0, requested - selection.quantity - deferredQty);
+    const quantity = selection.quantity + unassigned;
+    if (requested - quantity > EPS) {
+      result.flags.push({
+        code: 'SELL_DEFERRED_SHORT_TERM',
+        severity: 'info',
+        message: `Deferred ${(requested - quantity).toFixed(4)} ${order.symbol} with short-term gains close to long-term`,
+        observed: { symbol: order.symbol, requestedQty: requested, sellQty: quantity, deferred: selection.deferred }
+      });
+    }
+    if (quantity <= EPS) continue;
+    sells.push({
+      ...order,
+      notionalUSD: quantity * price,
+      lotIds: selection.picks.length ? selection.picks.map((p) => p.lotId) : order.lotIds
+    });
+  }
+
+  const buys = input.orders.filter((o) => o.side === 'BUY');
+  const available = input.cash + sells.reduce((acc, o) => acc + o.notionalUSD, 0);
+  const wanted = buys.reduce((acc, o) => acc + o.notionalUSD, 0);
+  const scale = wanted > available && wanted > 0 ? Math.max(0, available) / wanted : 1;
+  if (scale < 1) {
+    result.flags.push({
+      code: 'BUYS_SCALED_FOR_DEFERRED_SELLS',
+      severity: 'info',
+      message: `Rebalance buys scaled to ${(scale * 100).toFixed(1)}% after deferring sells`,
+      observed: { availableUSD: available, requestedUSD: wanted }
+    });
+  }
+  result.orders.push(...sells, ...buys.map((o) => (scale < 1 ? { ...o, notionalUSD: o.notionalUSD * scale } : o)));
+
+  if (config.tax?.harvestLosses ?? true) {
+    harvestLosses(input, new Set(input.orders.map((o) => o.symbol)), result);
+  }
+
+  const windowMs = (config.tax?.washSaleWindowDays ?? 30) * DAY_MS;
+  for (const buy of result.orders.filter((o) => o.side === 'BUY')) {
+    const washed = input.realized.find(
+      (r) =>
+        r.gain < 0 &&
+        familyOf(input.families, r.symbol) === familyOf(input.families, buy.symbol) &&
+        Math.abs(Date.parse(asOf) - Date.parse(r.closedAt)) <= windowMs
+    );
+    if (washed) {
+      result.flags.push({
+        code: 'BUY_WASHES_RECENT_LOSS',
+        severity: 'warn',
+        message: `Buying ${buy.symbol} within the wash-sale window of a ${washed.symbol} loss`,
+        observed: { symbol: buy.symbol, lossSymbol: washed.symbol, closedAt: washed.closedAt, loss: washed.gain }
+      });
+    }
+  }
+  return result;
+};
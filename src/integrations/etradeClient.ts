@@ -250,7 +250,7 @@ export class ETradeClient {
 
   public async signedFetch(
     url: string,
-    method: 'GET' | 'POST' = 'GET',
+    method: 'GET' | 'POST' | 'PUT' = 'GET',
     opts?: { params?: Record<string, string>; body?: string; contentType?: string }
   ): Promise<Response> {
     const token = this.getAccessToken();
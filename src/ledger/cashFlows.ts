@@ -0,0 +1,79 @@
+import { CashFlow, CashFlowType, LedgerEvent, LedgerEventType } from '../core/types';
+import { DEFAULT_ACCOUNT_ID, accountRunId } from '../core/accounts';
+import { CASH_FLOW_RUN_ID, appendEvent, makeEvent } from './ledger';
+
+const EVENT_FOR_TYPE: Record<CashFlowType, LedgerEventType> = {
+  DEPOSIT: 'CASH_DEPOSITED',
+  WITHDRAWAL: 'CASH_WITHDRAWN',
+  DIVIDEND: 'DIVIDEND_RECEIVED'
+};
+const TYPE_FOR_EVENT = Object.fromEntries(Object.entries(EVENT_FOR_TYPE).map(([t, e]) => [e, t])) as Partial<
+  Record<LedgerEventType, CashFlowType>
+>;
+
+export const parseCashFlowType = (raw: string): CashFlowType => {
+  const upper = raw.trim().toUpperCase();
+  if (upper === 'DEPOSIT' || upper === 'WITHDRAWAL' || upper === 'DIVIDEND') return upper;
+  if (upper === 'WITHDRAW') return 'WITHDRAWAL';
+  throw new Error(`Unknown cash flow type: ${raw} (expected deposit, withdrawal or dividend)`);
+};
+
+/** Ledger event fields for a flow, validated; `recordCashFlow` appends them. */
+export const cashFlowEventFor = (
+  flow: Omit<CashFlow, 'eventId'>,
+  accountId: string = DEFAULT_ACCOUNT_ID
+): { runId: string; type: LedgerEventType; details: Record<string, unknown> } => {
+  if (!Number.isFinite(flow.amount) || flow.amount <= 0) {
+    throw new Error(`Cash flow amount must be a positive number, got ${flow.amount}`);
+  }
+  const effective = new Date(flow.effectiveAt);
+  if (Number.isNaN(effective.getTime())) throw new Error(`Invalid cash flow date: ${flow.effectiveAt}`);
+  return {
+    runId: accountRunId(CASH_FLOW_RUN_ID, accountId),
+    type: EVENT_FOR_TYPE[flow.type],
+    details: {
+      amount: flow.amount,
+      effectiveAt: effective.toISOString(),
+      ...(flow.symbol ? { symbol: flow.symbol.toUpperCase() } : {}),
+      ...(flow.note ? { note: flow.note } : {})
+    }
+  };
+};
+
+/** Appends a deposit, withdrawal or dividend for the account under its cash-flows system run. */
+export const recordCashFlow = (
+  flow: Omit<CashFlow, 'eventId'>,
+  accountId: string = DEFAULT_ACCOUNT_ID
+): LedgerEvent => {
+  const { runId, type, details } = cashFlowEventFor(flow, accountId);
+  const event = makeEvent(runId, type, details);
+  appendEvent(event);
+  return event;
+};
+
+/** Cash flow events as flows, oldest effective date first. */
+export const cashFlowsFromEvents = (events: LedgerEvent[]): CashFlow[] =>
+  events
+    .flatMap((evt) => {
+      const type = TYPE_FOR_EVENT[evt.type];
+      const amount = Number(evt.details?.amount);
+      if (!type || !Number.isFinite(amount)) return [];
+      const flow: CashFlow = {
+        type,
+        amount,
+        effectiveAt: (evt.details?.effectiveAt as string | undefined) ?? evt.timestamp,
+        eventId: evt.id
+      };
+      if (evt.details?.symbol) flow.symbol = evt.details.symbol as string;
+      if (evt.details?.note) flow.note = evt.details.note as string;
+      return [flow];
+    })
+    .sort((a, b) => Date.parse(a.effectiveAt) - Date.parse(b.effectiveAt));
+
+// Deposits add cash, withdrawals remove it; dividends add cash but are return, not an external flow.
+export const cashEffect = (flow: CashFlow) => (flow.type === 'WITHDRAWAL' ? -flow.amount : flow.amount);
+export const externalAmount = (flow: CashFlow) =>
+  flow.type === 'DEPOSIT' ? flow.amount : flow.type === 'WITHDRAWAL' ? -flow.amount : 0;
+
+export const flowsThrough = (flows: CashFlow[], cutoffMs: number) =>
+  flows.filter((f) => Date.parse(f.effectiveAt) <= cutoffMs);
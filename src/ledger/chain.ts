@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { LedgerEvent } from '../core/types';
+
+export interface LedgerHead {
+  seq: number;
+  hash: string;
+}
+
+// What the first event links to in an empty ledger.
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+// Each line as written; the newline that ends the last one does not start another.
+export const ledgerLines = (content: string): string[] => {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Covers every field but `hash`, in the order they were written.
+export const eventHash = (event: LedgerEvent): string => {
+  const { hash: _hash, ...body } = event;
+  return sha256(JSON.stringify(body));
+};
+
+// The first chained event links to the lines written before chaining existed, so those are covered too.
+export const legacyDigest = (lines: string[]): string =>
+  lines.length ? sha256(lines.map((line) => `${line}\n`).join('')) : GENESIS_HASH;
+
+/** `event` as the link after `tip`: any previous seq/prevHash/hash is replaced. */
+export const chainEvent = (event: LedgerEvent, tip: LedgerHead): LedgerEvent => {
+  const { seq: _seq, prevHash: _prevHash, hash: _hash, ...body } = event;
+  const linked: LedgerEvent = { ...body, seq: tip.seq + 1, prevHash: tip.hash };
+  return { ...linked, hash: eventHash(linked) };
+};
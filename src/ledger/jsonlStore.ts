@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import { LedgerEvent, LedgerEventType } from '../core/types';
+import { ensureDir } from '../core/utils';
+import { eventAccountId } from '../core/accounts';
+import { LedgerHead, ledgerLines, legacyDigest } from './chain';
+import {
+  LedgerQuery,
+  LedgerRunSummary,
+  LedgerStore,
+  matchesQuery,
+  parseEventLine,
+  quarantinedEventId,
+  timestampMs
+} from './store';
+
+interface Entry {
+  pos: number;
+  event: LedgerEvent;
+  ms?: number;
+  // False once quarantined; repeats of an id are never indexed.
+  live: boolean;
+}
+
+// Bytes before the indexed offset that must be unchanged for the index to be extended rather than rebuilt.
+const TAIL_CHECK_BYTES = 256;
+const NEWLINE = 0x0a;
+
+const readBytes = (file: string, start: number, end: number): Buffer => {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start);
+    fs.readSync(fd, buffer, 0, buffer.length, start);
+    return buffer;
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+const byPos = (a: Entry, b: Entry) => a.pos - b.pos;
+
+class JsonlIndex {
+  // Complete lines consumed so far, in bytes; a trailing line without its newline waits for the next read.
+  offset = 0;
+  size = 0;
+  mtimeMs = 0;
+  tail: Buffer = Buffer.alloc(0);
+  raw: LedgerEvent[] = [];
+  tip?: LedgerHead;
+  private lineCount = 0;
+  private all: Entry[] = [];
+  private byId = new Map<string, Entry>();
+  private quarantined = new Set<string>();
+  private byRun = new Map<string, Entry[]>();
+  private byAccount = new Map<string, Entry[]>();
+  private byType = new Map<LedgerEventType, Entry[]>();
+  // Entries with a parseable timestamp, ordered by it.
+  private byTime: Entry[] = [];
+  private runSummaries = new Map<string, LedgerRunSummary>();
+
+  constructor(readonly ino: number) {}
+
+  consume(chunk: Buffer) {
+    for (const line of ledgerLines(chunk.toString('utf-8'))) this.add(line);
+  }
+
+  private add(line: string) {
+    const pos = this.lineCount++;
+    const event = parseEventLine(line);
+    if (!event) return;
+    this.raw.push(event);
+    if (event.hash && typeof event.seq === 'number') this.tip = { seq: event.seq, hash: event.hash };
+    const target = quarantinedEventId(event);
+    if (target !== undefined) this.quarantine(target);
+    if (this.byId.has(event.id) || this.quarantined.has(event.id)) return;
+
+    const entry: Entry = { pos, event, ms: timestampMs(event.timestamp), live: true };
+    this.all.push(entry);
+    this.byId.set(event.id, entry);
+    const runEntries = this.byRun.get(event.runId) ?? [];
+    runEntries.push(entry);
+    this.byRun.set(event.runId, runEntries);
+    const accountId = eventAccountId(event);
+    const accountEntries = this.byAccount.get(accountId) ?? [];
+    accountEntries.push(entry);
+    this.byAccount.set(accountId, accountEntries);
+    const typeEntries = this.byType.get(event.type) ?? [];
+    typeEntries.push(entry);
+    this.byType.set(event.type, typeEntries);
+    if (entry.ms !== undefined) {
+      // Events mostly arrive in time order, so this is usually a push.
+      let i = this.byTime.length;
+      while (i > 0 && (this.byTime[i - 1].ms as number) > entry.ms) i -= 1;
+      this.byTime.splice(i, 0, entry);
+    }
+    this.summarize(event.runId);
+  }
+
+  private quarantine(eventId: string) {
+    this.quarantined.add(eventId);
+    const entry = this.byId.get(eventId);
+    if (!entry || !entry.live) return;
+    entry.live = false;
+    this.summarize(entry.event.runId);
+  }
+
+  private summarize(runId: string) {
+    const live = (this.byRun.get(runId) ?? []).filter((e) => e.live);
+    if (!live.length) {
+      this.runSummaries.delete(runId);
+      return;
+    }
+    let last = live[0];
+    for (const e of live) if ((e.ms ?? -Infinity) > (last.ms ?? -Infinity)) last = e;
+    this.runSummaries.set(runId, { runId, accountId: eventAccountId(live[0].event), lastTimestamp: last.event.timestamp });
+  }
+
+  query(query: LedgerQuery): LedgerEvent[] {
+    let candidates: Entry[];
+    if (query.runId !== undefined) {
+      candidates = this.byRun.get(query.runId) ?? [];
+    } else if (query.accountId !== undefined) {
+      candidates = this.byAccount.get(query.accountId) ?? [];
+    } else if (query.types) {
+      candidates = query.types.flatMap((t) => this.byType.get(t) ?? []).sort(byPos);
+    } else if (query.from !== undefined || query.to !== undefined) {
+      const from = query.from !== undefined ? Date.parse(query.from) : -Infinity;
+      const to = query.to !== undefined ? Date.parse(query.to) : Infinity;
+      candidates = this.byTime.filter((e) => (e.ms as number) >= from && (e.ms as number) <= to).sort(byPos);
+    } else {
+      candidates = this.all;
+    }
+    return candidates.filter((e) => e.live && matchesQuery(e.event, query)).map((e) => e.event);
+  }
+
+  runs(): LedgerRunSummary[] {
+    return Array.from(this.runSummaries.values());
+  }
+}
+
+/**
+ * The append-only `events.jsonl` file. Reads keep an index by event id, run, account, type and timestamp that is
+ * extended with whatever was appended since the last read (by any process), and rebuilt when the file
+ * was replaced or rewritten.
+ */
+export class JsonlLedgerStore implements LedgerStore {
+  readonly kind = 'jsonl' as const;
+  private index?: JsonlIndex;
+
+  constructor(readonly location: string) {}
+
+  private load(): JsonlIndex {
+    if (!fs.existsSync(this.location)) {
+      this.index = new JsonlIndex(-1);
+      return this.index;
+    }
+    const stat = fs.statSync(this.location);
+    let index = this.index;
+    if (index && index.ino === stat.ino && index.size === stat.size && index.mtimeMs === stat.mtimeMs) return index;
+    const extendsIndex =
+      index !== undefined &&
+      index.ino === stat.ino &&
+      stat.size >= index.offset &&
+      readBytes(this.location, index.offset - index.tail.length, index.offset).equals(index.tail);
+    if (!index || !extendsIndex) index = new JsonlIndex(stat.ino);
+    const chunk = readBytes(this.location, index.offset, stat.size);
+    const complete = chunk.lastIndexOf(NEWLINE) + 1;
+    index.consume(chunk.subarray(0, complete));
+    index.offset += complete;
+    index.tail = readBytes(this.location, Math.max(0, index.offset - TAIL_CHECK_BYTES), index.offset);
+    index.size = stat.size;
+    index.mtimeMs = stat.mtimeMs;
+    this.index = index;
+    return index;
+  }
+
+  appendLines(lines: string[]) {
+    if (!lines.length) return;
+    ensureDir(path.dirname(this.location));
+    const size = fs.existsSync(this.location) ? fs.statSync(this.location).size : 0;
+    // Never continue a line a crashed write left unterminated.
+    const separator = size && readBytes(this.location, size - 1, size)[0] !== NEWLINE ? '\n' : '';
+    fs.appendFileSync(this.location, `${separator}${lines.map((line) => `${line}\n`).join('')}`);
+  }
+
+  lines(): string[] {
+    return fs.existsSync(this.location) ? ledgerLines(fs.readFileSync(this.location, 'utf-8')) : [];
+  }
+
+  readRaw(): LedgerEvent[] {
+    return [...this.load().raw];
+  }
+
+  query(query: LedgerQuery): LedgerEvent[] {
+    return this.load().query(query);
+  }
+
+  runs(): LedgerRunSummary[] {
+    return this.load().runs();
+  }
+
+  chainTip(): LedgerHead {
+    return this.load().tip ?? { seq: 0, hash: legacyDigest(this.lines()) };
+  }
+
+  close() {
+    this.index = undefined;
+  }
+}
@@ -1,6 +1,9 @@
 import crypto from 'crypto';
-import { LedgerEvent, LedgerEventType } from '../core/types';
-import { appendLedgerEvent, readEventsForRun, readLedgerEvents } from './storage';
+import { Fill, LedgerEvent, LedgerEventType } from '../core/types';
+import { appendLedgerEvent, hashRunArtifacts, listLedgerRuns, readEventsForRun, readLedgerEvents } from './storage';
+import { getCurrentRebalanceWindow, getRebalanceKey } from '../core/time';
+import { DEFAULT_ACCOUNT_ID, eventAccountId, splitRunId } from '../core/accounts';
+import { scopedWorkspace } from '../core/workspace';
 
 const safeUuid = () => {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
@@ -9,25 +12,111 @@ const safeUuid = () => {
   return `evt-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
-export const makeEvent = (runId: string, type: LedgerEventType, details?: Record<string, unknown>): LedgerEvent => ({
-  id: safeUuid(),
-  runId,
-  timestamp: new Date().toISOString(),
-  type,
-  details
-});
+let eventClock: () => Date = () => new Date();
 
-export const appendEvent = (event: LedgerEvent) => {
+// Pins event timestamps process-wide (tests); pass undefined to restore wall-clock timestamps.
+// A workspace's own clock takes precedence inside runInWorkspace.
+export const setEventClock = (clock?: () => Date) => {
+  eventClock = clock ?? (() => new Date());
+};
+
+// Current time on the event clock, so timeouts measured against event timestamps agree in backtests.
+export const ledgerNow = (): Date => (scopedWorkspace()?.clock ?? eventClock)();
+
+export const makeEvent = (runId: string, type: LedgerEventType, details?: Record<string, unknown>): LedgerEvent => {
+  const { accountId } = splitRunId(runId);
+  return {
+    id: safeUuid(),
+    runId,
+    ...(accountId !== DEFAULT_ACCOUNT_ID ? { accountId } : {}),
+    timestamp: ledgerNow().toISOString(),
+    type,
+    details
+  };
+};
+
+/**
+ * Stable identity of a fill: broker order id plus execution id. Brokers that report no execution id
+ * get one from the execution's time, size and price, as repeated polls return them unchanged.
+ */
+export const fillKey = (fill: Fill): string =>
+  `${fill.orderId}:${fill.executionId ?? `${fill.timestamp}/${fill.quantity}@${fill.price}`}`;
+
+const recordedFill = (evt: LedgerEvent): Fill | undefined =>
+  evt.type === 'FILL_RECORDED' ? (evt.details as { fill?: Fill } | undefined)?.fill : undefined;
+
+// Status changes record the hashes of runs/<runId>/ so ledger:verify can tell when an artifact changed later.
+const ARTIFACT_CHECKPOINTS = new Set<LedgerEventType>([
+  'RUN_PENDING_APPROVAL',
+  'RUN_APPROVED',
+  'RUN_REJECTED',
+  'RUN_COMPLETED',
+  'RUN_FAILED',
+  'RUN_ARTIFACTS_UPDATED'
+]);
+
+/**
+ * Appends `event` and returns true. A FILL_RECORDED whose fill is already in the account's ledger is
+ * refused (false), so re-polling or re-syncing a broker order never records its executions twice.
+ */
+export const appendEvent = (event: LedgerEvent): boolean => {
+  const fill = recordedFill(event);
+  if (fill) {
+    const key = fillKey(fill);
+    const accountId = eventAccountId(event);
+    const duplicate = readLedgerEvents({ types: ['FILL_RECORDED'] }).some((e) => {
+      const existing = recordedFill(e);
+      return existing !== undefined && eventAccountId(e) === accountId && fillKey(existing) === key;
+    });
+    if (duplicate) return false;
+    event.details = { ...event.details, fillId: key };
+  }
+  if (ARTIFACT_CHECKPOINTS.has(event.type)) {
+    const artifacts = hashRunArtifacts(event.runId);
+    if (Object.keys(artifacts).length) event.details = { ...event.details, artifacts };
+  }
   appendLedgerEvent(event);
+  return true;
 };
 
+/**
+ * Records the current hashes of runs/<runId>/ after code rewrote its artifacts on purpose (a fill sync
+ * after completion), so ledger:verify checks against them. Nothing is appended when they match the
+ * latest recorded hashes.
+ */
+export const checkpointRunArtifacts = (runId: string, reason: string): boolean => {
+  const current = hashRunArtifacts(runId);
+  const recorded = readEventsForRun(runId)
+    .map((e) => e.details?.artifacts)
+    .filter(Boolean)
+    .at(-1);
+  if (!Object.keys(current).length || JSON.stringify(recorded) === JSON.stringify(current)) return false;
+  return appendEvent(makeEvent(runId, 'RUN_ARTIFACTS_UPDATED', { reason }));
+};
+
+// Scheduler daemon bookkeeping is logged under its own runId so it never alters a run's status.
+export const DAEMON_RUN_ID = 'daemon';
+// Standalone invalidation checks (outside a bot run) are logged the same way.
+export const MONITOR_RUN_ID = 'invalidation-monitor';
+// Deposits, withdrawals and dividends belong to the account, not to any bot run.
+export const CASH_FLOW_RUN_ID = 'cash-flows';
+// Broker reconciliation results and the ledger adjustments it applies outside any run (manual trades, corporate actions).
+export const RECONCILIATION_RUN_ID = 'reconciliation';
+// Ledger repairs (quarantined duplicates) made by ledger:doctor.
+export const LEDGER_DOCTOR_RUN_ID = 'ledger-doctor';
+const SYSTEM_RUN_IDS = new Set([DAEMON_RUN_ID, MONITOR_RUN_ID, CASH_FLOW_RUN_ID, RECONCILIATION_RUN_ID, LEDGER_DOCTOR_RUN_ID]);
+
+// Also true for an account's own system ids (`daemon@ira`).
+export const isSystemRunId = (runId: string) => SYSTEM_RUN_IDS.has(splitRunId(runId).baseRunId);
+
 export type RunStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED' | 'COMPLETED' | 'FAILED' | 'IN_PROGRESS' | 'UNKNOWN';
 
 export const getRunStatus = (runId: string): RunStatus => {
   const events = readEventsForRun(runId);
   if (!events.length) return 'UNKNOWN';
+  // A revalidation that refused or awaits confirmation leaves the run pending; artifact checkpoints keep the status.
   const last = events
-    .slice()
+    .filter((e) => e.type !== 'APPROVAL_REVALIDATED' && e.type !== 'RUN_ARTIFACTS_UPDATED')
     .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
     .at(-1);
   if (!last) return 'UNKNOWN';
@@ -49,21 +138,30 @@ export const getRunStatus = (runId: string): RunStatus => {
   }
 };
 
-export const getRecentRuns = (limit = 10): { runId: string; status: RunStatus }[] => {
-  const events = readLedgerEvents();
-  const seen = new Map<string, { status: RunStatus; ts: number }>();
-  for (const evt of events) {
-    const ts = new Date(evt.timestamp).getTime();
-    const status = getRunStatus(evt.runId);
-    const existing = seen.get(evt.runId);
-    if (!existing || ts > existing.ts) {
-      seen.set(evt.runId, { status, ts });
-    }
-  }
-  return Array.from(seen.entries())
-    .sort(([, a], [, b]) => b.ts - a.ts)
+// Pass an accountId to list only that account's runs. Only the runs returned have their events read.
+export const getRecentRuns = (limit = 10, accountId?: string): { runId: string; status: RunStatus }[] =>
+  listLedgerRuns()
+    .filter((run) => !isSystemRunId(run.runId) && (!accountId || run.accountId === accountId))
+    .map((run) => ({ runId: run.runId, ts: new Date(run.lastTimestamp).getTime() }))
+    .sort((a, b) => b.ts - a.ts)
     .slice(0, limit)
-    .map(([runId, info]) => ({ runId, status: info.status }));
+    .map(({ runId }) => ({ runId, status: getRunStatus(runId) }));
+
+// First EXECUTION_SENT_TO_BROKER event that already used the rebalance window containing `now`.
+export const findWindowExecution = (
+  events: LedgerEvent[],
+  now: Date,
+  rebalanceDay: string
+): LedgerEvent | undefined => {
+  const window = getCurrentRebalanceWindow(now, rebalanceDay);
+  return events.find((evt) => {
+    if (evt.type !== 'EXECUTION_SENT_TO_BROKER') return false;
+    const evtKey =
+      (evt.details?.rebalanceKey as string) || getRebalanceKey(new Date(evt.timestamp), rebalanceDay);
+    const tsIso = new Date(evt.timestamp).toISOString();
+    const inWindow = tsIso >= window.startISO && tsIso < window.endISO;
+    return evtKey === window.key || inWindow;
+  });
 };
 
 export const groupEventsByRun = (): Record<string, LedgerEvent[]> => {
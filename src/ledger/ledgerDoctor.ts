@@ -0,0 +1,70 @@
+import { Fill, LedgerEvent } from '../core/types';
+import { accountRunId, eventAccountId } from '../core/accounts';
+import { effectiveLedgerEvents } from './store';
+import { LEDGER_DOCTOR_RUN_ID, appendEvent, fillKey, makeEvent } from './ledger';
+
+export interface DuplicateFill {
+  eventId: string;
+  runId: string;
+  accountId: string;
+  fillId: string;
+  // The first event that recorded this fill; it stays in effect.
+  duplicateOf: string;
+  timestamp: string;
+  fill: Fill;
+}
+
+export interface LedgerDoctorReport {
+  events: number;
+  fills: number;
+  duplicateFills: DuplicateFill[];
+  // Ids written on more than one line; reads already count each once.
+  repeatedEventIds: string[];
+  quarantined: number;
+}
+
+/** Finds fills recorded more than once per account, in ledger order, skipping events already quarantined. */
+export const diagnoseLedger = (rawEvents: LedgerEvent[]): LedgerDoctorReport => {
+  const idCounts = new Map<string, number>();
+  for (const evt of rawEvents) idCounts.set(evt.id, (idCounts.get(evt.id) ?? 0) + 1);
+  const firstByKey = new Map<string, string>();
+  const duplicateFills: DuplicateFill[] = [];
+  let fills = 0;
+  for (const evt of effectiveLedgerEvents(rawEvents)) {
+    const fill = evt.type === 'FILL_RECORDED' ? (evt.details as { fill?: Fill } | undefined)?.fill : undefined;
+    if (!fill) continue;
+    fills += 1;
+    const accountId = eventAccountId(evt);
+    const fillId = fillKey(fill);
+    const key = `${accountId}|${fillId}`;
+    const first = firstByKey.get(key);
+    if (!first) {
+      firstByKey.set(key, evt.id);
+      continue;
+    }
+    duplicateFills.push({ eventId: evt.id, runId: evt.runId, accountId, fillId, duplicateOf: first, timestamp: evt.timestamp, fill });
+  }
+  return {
+    events: rawEvents.length,
+    fills,
+    duplicateFills,
+    repeatedEventIds: Array.from(idCounts.entries())
+      .filter(([, n]) => n > 1)
+      .map(([id]) => id),
+    quarantined: rawEvents.filter((e) => e.type === 'EVENT_QUARANTINED').length
+  };
+};
+
+/** Appends one EVENT_QUARANTINED per duplicate fill; the duplicates stay in the file but no longer count. */
+export const quarantineDuplicateFills = (report: LedgerDoctorReport): LedgerEvent[] =>
+  report.duplicateFills.map((dup) => {
+    const event = makeEvent(accountRunId(LEDGER_DOCTOR_RUN_ID, dup.accountId), 'EVENT_QUARANTINED', {
+      eventId: dup.eventId,
+      reason: 'DUPLICATE_FILL',
+      duplicateOf: dup.duplicateOf,
+      fillId: dup.fillId,
+      runId: dup.runId
+    });
+    appendEvent(event);
+    return event;
+  });
@@ -0,0 +1,39 @@
+import { writeJSONFile } from '../core/utils';
+import { LedgerStore, LedgerStoreKind } from './store';
+import { getLedgerHeadFile, readLedgerHead } from './storage';
+import { ChainVerification, verifyLedgerChain } from './ledgerVerify';
+
+export interface LedgerMigration {
+  from: { kind: LedgerStoreKind; location: string };
+  to: { kind: LedgerStoreKind; location: string };
+  records: number;
+  // The copy checked against the source's head; issues already in the source carry over unchanged.
+  verification: ChainVerification;
+}
+
+/**
+ * Copies every record of `source` into the empty `target` as stored, so hashes, links and repeats carry
+ * over unchanged, and copies the head file along. The source is left in place.
+ */
+export const migrateLedger = (source: LedgerStore, target: LedgerStore): LedgerMigration => {
+  if (source.location === target.location) throw new Error(`Source and target are the same ledger (${source.location})`);
+  const existing = target.lines().length;
+  if (existing) throw new Error(`${target.location} already holds ${existing} record(s); migrate into an empty ledger`);
+
+  const lines = source.lines();
+  target.appendLines(lines);
+  const copied = target.lines();
+  if (copied.length !== lines.length || copied.some((line, i) => line !== lines[i])) {
+    throw new Error(`${target.location} does not match ${source.location} after copying`);
+  }
+  const head = readLedgerHead(source.location);
+  if (head && getLedgerHeadFile(source.location) !== getLedgerHeadFile(target.location)) {
+    writeJSONFile(getLedgerHeadFile(target.location), head);
+  }
+  return {
+    from: { kind: source.kind, location: source.location },
+    to: { kind: target.kind, location: target.location },
+    records: copied.length,
+    verification: verifyLedgerChain(copied, head)
+  };
+};
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import { ContextMeta, LedgerEvent } from '../core/types';
+import { getRunsDir } from '../core/workspace';
+import { LedgerHead, eventHash, legacyDigest, sha256 } from './chain';
+import { getLedgerStore, hashRunArtifacts, readLedgerEvents, readLedgerHead, readRunArtifact } from './storage';
+
+export type LedgerIssueKind =
+  // Not JSON: edited by hand, or a torn write.
+  | 'UNPARSEABLE_LINE'
+  // No seq/hash after chaining started: inserted by hand.
+  | 'UNCHAINED_EVENT'
+  // Content no longer matches the event's hash: edited.
+  | 'HASH_MISMATCH'
+  // prevHash differs from the event before: an earlier event was edited and re-hashed.
+  | 'BROKEN_LINK'
+  // seq skips ahead: events removed.
+  | 'SEQUENCE_GAP'
+  // seq repeats or goes back: lines reordered or copied.
+  | 'OUT_OF_ORDER'
+  // The last appended event (ledger head file) is gone: the tail was cut off.
+  | 'TRUNCATED'
+  // The event at the recorded head has a different hash: the tail was rewritten.
+  | 'HEAD_MISMATCH'
+  | 'ARTIFACT_MISSING'
+  | 'ARTIFACT_MODIFIED'
+  // llm_context.json no longer matches its Round 4 lineage hash.
+  | 'LINEAGE_MISMATCH';
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind;
+  message: string;
+  line?: number;
+  seq?: number;
+  eventId?: string;
+  runId?: string;
+  file?: string;
+}
+
+export interface ChainVerification {
+  lines: number;
+  chainedEvents: number;
+  // Written before the hash chain; covered as a block through the first chained event's prevHash.
+  legacyEvents: number;
+  lastSeq: number;
+  issues: LedgerIssue[];
+}
+
+export interface LedgerVerification extends ChainVerification {
+  ok: boolean;
+  ledgerFile: string;
+  head?: LedgerHead;
+  runsChecked: number;
+  artifactsChecked: number;
+}
+
+/** Walks the ledger's records and checks every link of the hash chain, then the tail against `head`. */
+export const verifyLedgerChain = (lines: string[], head?: LedgerHead): ChainVerification => {
+  const issues: LedgerIssue[] = [];
+  const hashBySeq = new Map<number, string>();
+  let prev: LedgerHead | undefined;
+  let chainedEvents = 0;
+  let legacyEvents = 0;
+
+  lines.forEach((line, i) => {
+    const lineNo = i + 1;
+    let evt: LedgerEvent | undefined;
+    try {
+      evt = JSON.parse(line) as LedgerEvent;
+    } catch {
+      evt = undefined;
+    }
+    if (!evt || typeof evt !== 'object') {
+      issues.push({ kind: 'UNPARSEABLE_LINE', line: lineNo, message: `Line ${lineNo} is not a ledger event` });
+      return;
+    }
+    const at = { line: lineNo, eventId: evt.id, runId: evt.runId };
+    if (!evt.hash || typeof evt.seq !== 'number') {
+      if (prev) issues.push({ kind: 'UNCHAINED_EVENT', ...at, message: `Line ${lineNo} (${evt.type}) has no place in the hash chain` });
+      else legacyEvents += 1;
+      return;
+    }
+    chainedEvents += 1;
+    const where = `Event ${evt.seq} (line ${lineNo}, ${evt.type})`;
+    if (eventHash(evt) !== evt.hash) {
+      issues.push({ kind: 'HASH_MISMATCH', ...at, seq: evt.seq, message: `${where} was changed after it was written` });
+    }
+    const expectedSeq = (prev?.seq ?? 0) + 1;
+    if (evt.seq < expectedSeq) {
+      issues.push({ kind: 'OUT_OF_ORDER', ...at, seq: evt.seq, message: `${where} follows event ${expectedSeq - 1}` });
+    } else if (evt.seq > expectedSeq) {
+      const missing = evt.seq === expectedSeq + 1 ? `${expectedSeq} is` : `${expectedSeq}-${evt.seq - 1} are`;
+      issues.push({ kind: 'SEQUENCE_GAP', ...at, seq: evt.seq, message: `Events ${missing} missing before ${where}` });
+    } else if (evt.prevHash !== (prev?.hash ?? legacyDigest(lines.slice(0, i)))) {
+      issues.push({ kind: 'BROKEN_LINK', ...at, seq: evt.seq, message: `${where} does not link to the event before it` });
+    }
+    if (!hashBySeq.has(evt.seq)) hashBySeq.set(evt.seq, evt.hash);
+    prev = { seq: evt.seq, hash: evt.hash };
+  });
+
+  if (head) {
+    const atHead = hashBySeq.get(head.seq);
+    if (atHead === undefined) {
+      issues.push({ kind: 'TRUNCATED', seq: head.seq, message: `Event ${head.seq} was appended but the ledger ends at ${prev?.seq ?? 0}` });
+    } else if (atHead !== head.hash) {
+      issues.push({ kind: 'HEAD_MISMATCH', seq: head.seq, message: `Event ${head.seq} differs from the one appended` });
+    }
+  }
+  return { lines: lines.length, chainedEvents, legacyEvents, lastSeq: prev?.seq ?? 0, issues };
+};
+
+/**
+ * Compares each run's files with the hashes on its latest status event, and llm_context.json with the
+ * Round 4 lineage hash in context_meta.json.
+ */
+export const verifyRunArtifacts = (events: LedgerEvent[]) => {
+  const recordedByRun = new Map<string, Record<string, string>>();
+  for (const evt of events) {
+    const artifacts = evt.details?.artifacts as Record<string, string> | undefined;
+    if (artifacts && typeof artifacts === 'object') recordedByRun.set(evt.runId, artifacts);
+  }
+  const issues: LedgerIssue[] = [];
+  let artifactsChecked = 0;
+  for (const [runId, recorded] of Array.from(recordedByRun.entries())) {
+    const current = hashRunArtifacts(runId);
+    for (const [file, hash] of Object.entries(recorded)) {
+      artifactsChecked += 1;
+      if (!current[file]) {
+        issues.push({ kind: 'ARTIFACT_MISSING', runId, file, message: `runs/${runId}/${file} is missing` });
+      } else if (current[file] !== hash) {
+        issues.push({ kind: 'ARTIFACT_MODIFIED', runId, file, message: `runs/${runId}/${file} changed after it was recorded` });
+      }
+    }
+    try {
+      const meta = readRunArtifact<ContextMeta>(runId, 'context_meta.json');
+      const ctx = readRunArtifact<Record<string, unknown>>(runId, 'llm_context.json');
+      if (meta?.lineage?.round4Hash && ctx) {
+        const { contextMeta: _contextMeta, ...payload } = ctx;
+        if (sha256(JSON.stringify(payload)) !== meta.lineage.round4Hash) {
+          issues.push({ kind: 'LINEAGE_MISMATCH', runId, file: 'llm_context.json', message: `runs/${runId}/llm_context.json no longer matches its Round 4 hash` });
+        }
+      }
+    } catch {
+      // Unreadable JSON is already reported as a modified artifact.
+    }
+  }
+  return { runsChecked: recordedByRun.size, artifactsChecked, issues };
+};
+
+export const verifyLedger = (): LedgerVerification => {
+  const store = getLedgerStore();
+  const head = readLedgerHead(store.location);
+  const chain = verifyLedgerChain(store.lines(), head);
+  const artifacts = verifyRunArtifacts(readLedgerEvents());
+  const issues = [...chain.issues, ...artifacts.issues];
+  return {
+    ...chain,
+    ok: issues.length === 0,
+    ledgerFile: store.location,
+    head,
+    runsChecked: artifacts.runsChecked,
+    artifactsChecked: artifacts.artifactsChecked,
+    issues
+  };
+};
+
+let lastVerification: { key: string; result: LedgerVerification } | undefined;
+
+const statKey = (file: string) => {
+  if (!fs.existsSync(file)) return '-';
+  const stat = fs.statSync(file);
+  return `${stat.mtimeMs}:${stat.size}`;
+};
+
+// Everything verifyLedger() reads, by stat rather than content: the chain tip, the ledger and head files,
+// and the mtime and size of every file under runs/.
+const verificationKey = () => {
+  const store = getLedgerStore();
+  const runsDir = getRunsDir();
+  const runFiles = fs.existsSync(runsDir)
+    ? fs
+        .readdirSync(runsDir)
+        .sort()
+        .flatMap((runId) => {
+          const runDir = path.join(runsDir, runId);
+          if (!fs.statSync(runDir).isDirectory()) return [];
+          return fs
+            .readdirSync(runDir)
+            .sort()
+            .map((name) => `${runId}/${name}@${statKey(path.join(runDir, name))}`);
+        })
+    : [];
+  const head = readLedgerHead(store.location);
+  return sha256(JSON.stringify([store.location, store.chainTip(), statKey(store.location), head, runFiles]));
+};
+
+/** The last verifyLedger() result, recomputed only once the ledger tip, the ledger file or a run's files change. */
+export const latestLedgerVerification = (): LedgerVerification => {
+  const key = verificationKey();
+  if (lastVerification?.key !== key) lastVerification = { key, result: verifyLedger() };
+  return lastVerification.result;
+};
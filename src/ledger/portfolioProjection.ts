@@ -0,0 +1,297 @@
+import fs from 'fs';
+import path from 'path';
+import { BotConfig, Fill, LedgerEvent, PortfolioState, RealizedLot, TaxLot, TradeOrder } from '../core/types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { DEFAULT_ACCOUNT_ID } from '../core/accounts';
+import { asOfCutoffMs } from '../core/time';
+import { readJSONFile, writeJSONFile } from '../core/utils';
+import {
+  CorporateAction,
+  LotBook,
+  LotBookOptions,
+  applyCorporateAction,
+  applyFillToLots,
+  createLotBook,
+  lotBookOptions,
+  lotPositions
+} from '../analytics/taxLots';
+import { cashEffect, cashFlowsFromEvents, flowsThrough } from './cashFlows';
+import { sha256 } from './chain';
+import { getLedgerSnapshotDir, readLedgerEvents } from './storage';
+
+export type SleeveName = NonNullable<TradeOrder['sleeve']>;
+export type SleeveQuantities = Record<SleeveName, number>;
+
+const EPS = 1e-9;
+const SNAPSHOT_VERSION = 1;
+
+/** Running state of a fold over an account's ledger events, in ledger order. */
+export interface PortfolioFold {
+  // Starting capital less fill notionals. Cash flows count by effective date, so projections add them.
+  tradeCash: number;
+  book: LotBook;
+  // Shares per symbol by the sleeve of the order that traded them; untagged orders are base.
+  sleeves: Record<string, SleeveQuantities>;
+  // From ORDER_PLACED: the lots a SELL names and the sleeve the order trades for.
+  orders: Record<string, { lotIds?: string[]; sleeve?: SleeveName }>;
+}
+
+export interface ProjectedPosition {
+  quantity: number;
+  costBasis: number;
+  since?: string;
+  sleeves: SleeveQuantities;
+}
+
+export interface PortfolioProjection {
+  accountId: string;
+  asOf: string;
+  cash: number;
+  book: LotBook;
+  positions: Record<string, ProjectedPosition>;
+  // Effective account events read, and how many of them came from a snapshot instead of a replay.
+  events: number;
+  fromSnapshot: number;
+}
+
+// The fold after the first `events` effective account events. Every one of them is at or before
+// `through`, so the snapshot holds for any later cutoff as long as those events are unchanged.
+interface PortfolioSnapshot {
+  version: number;
+  accountId: string;
+  events: number;
+  lastEventId: string;
+  through: string;
+  // Starting capital and lot book options the fold was built with.
+  configKey: string;
+  writtenAt: string;
+  tradeCash: number;
+  sleeves: PortfolioFold['sleeves'];
+  orders: PortfolioFold['orders'];
+  book: {
+    lots: TaxLot[];
+    realized: RealizedLot[];
+    positionSince: Record<string, string>;
+    lotSeq: Record<string, number>;
+    // [index into realized, loss shares not yet matched]
+    unmatchedLoss: Array<[number, number]>;
+    replacementLots: string[];
+  };
+}
+
+export const createPortfolioFold = (config: BotConfig, options: LotBookOptions = lotBookOptions(config)): PortfolioFold => ({
+  tradeCash: config.startingCapitalUSD,
+  book: createLotBook(options),
+  sleeves: {},
+  orders: {}
+});
+
+const tagSleeve = (fold: PortfolioFold, fill: Fill, sleeve: SleeveName) => {
+  if (!(fill.quantity > 0)) return;
+  const held = (fold.sleeves[fill.symbol] ??= { base: 0, dislocation: 0 });
+  if (fill.side === 'BUY') {
+    held[sleeve] += fill.quantity;
+    return;
+  }
+  // A sell comes out of its own sleeve first.
+  let remaining = fill.quantity;
+  for (const name of sleeve === 'base' ? (['base', 'dislocation'] as const) : (['dislocation', 'base'] as const)) {
+    const taken = Math.min(held[name], remaining);
+    held[name] -= taken;
+    remaining -= taken;
+  }
+  if (held.base <= EPS && held.dislocation <= EPS) delete fold.sleeves[fill.symbol];
+};
+
+const applySleeveAction = (fold: PortfolioFold, action: CorporateAction) => {
+  const held = fold.sleeves[action.symbol];
+  if (!held) return;
+  delete fold.sleeves[action.symbol];
+  const target = (fold.sleeves[action.newSymbol ?? action.symbol] ??= { base: 0, dislocation: 0 });
+  target.base += held.base * action.ratio;
+  target.dislocation += held.dislocation * action.ratio;
+};
+
+/** Folds one ledger event into the book: fills, order placements (lot picks, sleeve) and corporate actions. */
+export const foldPortfolioEvent = (fold: PortfolioFold, evt: LedgerEvent) => {
+  if (evt.type === 'CORPORATE_ACTION_RECORDED') {
+    const action = evt.details as unknown as CorporateAction;
+    applyCorporateAction(fold.book, action);
+    applySleeveAction(fold, action);
+    return;
+  }
+  if (evt.type === 'ORDER_PLACED') {
+    const order = evt.details?.order as TradeOrder | undefined;
+    const orderId = (evt.details?.placement as { orderId?: string | number } | undefined)?.orderId;
+    if (!order || orderId === undefined || (!order.lotIds?.length && !order.sleeve)) return;
+    fold.orders[String(orderId)] = {
+      ...(order.lotIds?.length ? { lotIds: order.lotIds } : {}),
+      ...(order.sleeve ? { sleeve: order.sleeve } : {})
+    };
+    return;
+  }
+  if (evt.type !== 'FILL_RECORDED') return;
+  const fill = evt.details?.fill as Fill | undefined;
+  if (!fill) return;
+  const order = fold.orders[String(fill.orderId)];
+  applyFillToLots(fold.book, fill, { runId: evt.runId, lotIds: order?.lotIds });
+  fold.tradeCash -= (fill.side === 'BUY' ? 1 : -1) * fill.notional;
+  tagSleeve(fold, fill, order?.sleeve ?? 'base');
+};
+
+/** Quantity, basis and holding start per symbol, with the shares each sleeve holds. */
+export const foldPositions = (fold: PortfolioFold): Record<string, ProjectedPosition> =>
+  Object.fromEntries(
+    Object.entries(lotPositions(fold.book)).map(([symbol, pos]) => [
+      symbol,
+      { ...pos, sleeves: { ...(fold.sleeves[symbol] ?? { base: pos.quantity, dislocation: 0 }) } }
+    ])
+  );
+
+const configKey = (config: BotConfig, options: LotBookOptions) =>
+  sha256(
+    JSON.stringify({
+      startingCapitalUSD: config.startingCapitalUSD,
+      method: options.method ?? 'FIFO',
+      washSaleWindowDays: options.washSaleWindowDays ?? 30,
+      families: Array.from(options.families?.entries() ?? []).sort(([a], [b]) => a.localeCompare(b))
+    })
+  );
+
+const snapshotFile = (accountId: string, events: number) =>
+  path.join(getLedgerSnapshotDir(accountId), `${String(events).padStart(9, '0')}.json`);
+
+const writeSnapshot = (fold: PortfolioFold, accountId: string, events: LedgerEvent[], count: number, throughMs: number, key: string) => {
+  const { book } = fold;
+  const snapshot: PortfolioSnapshot = {
+    version: SNAPSHOT_VERSION,
+    accountId,
+    events: count,
+    lastEventId: events[count - 1].id,
+    through: new Date(throughMs).toISOString(),
+    configKey: key,
+    writtenAt: new Date().toISOString(),
+    tradeCash: fold.tradeCash,
+    sleeves: fold.sleeves,
+    orders: fold.orders,
+    book: {
+      lots: book.lots,
+      realized: book.realized,
+      positionSince: book.positionSince,
+      lotSeq: book.lotSeq,
+      unmatchedLoss: Array.from(book.unmatchedLoss.entries())
+        .filter(([, open]) => open > EPS)
+        .map(([loss, open]): [number, number] => [book.realized.indexOf(loss), open]),
+      replacementLots: Array.from(book.replacementLots)
+    }
+  };
+  writeJSONFile(snapshotFile(accountId, count), snapshot);
+};
+
+// The latest snapshot that covers an unchanged prefix of `events` and is not past the cutoff.
+const readSnapshot = (accountId: string, events: LedgerEvent[], cutoffMs: number, key: string) => {
+  const dir = getLedgerSnapshotDir(accountId);
+  if (!fs.existsSync(dir)) return undefined;
+  const counts = fs
+    .readdirSync(dir)
+    .map((name) => /^(\d+)\.json$/.exec(name))
+    .filter((m): m is RegExpExecArray => Boolean(m))
+    .map((m) => Number(m[1]))
+    .filter((count) => count > 0 && count <= events.length)
+    .sort((a, b) => b - a);
+  for (const count of counts) {
+    try {
+      const snapshot = readJSONFile<PortfolioSnapshot>(snapshotFile(accountId, count));
+      if (
+        snapshot.version === SNAPSHOT_VERSION &&
+        snapshot.events === count &&
+        snapshot.configKey === key &&
+        snapshot.lastEventId === events[count - 1].id &&
+        Date.parse(snapshot.through) <= cutoffMs
+      ) {
+        return snapshot;
+      }
+    } catch {
+      // Half-written by another process; an earlier one will do.
+    }
+  }
+  return undefined;
+};
+
+const restoreFold = (snapshot: PortfolioSnapshot, options: LotBookOptions): PortfolioFold => {
+  const book = createLotBook(options);
+  book.lots = snapshot.book.lots;
+  book.realized = snapshot.book.realized;
+  book.positionSince = snapshot.book.positionSince;
+  book.lotSeq = snapshot.book.lotSeq;
+  book.unmatchedLoss = new Map(snapshot.book.unmatchedLoss.map(([index, open]) => [book.realized[index], open]));
+  book.replacementLots = new Set(snapshot.book.replacementLots);
+  return { tradeCash: snapshot.tradeCash, book, sleeves: snapshot.sleeves, orders: snapshot.orders };
+};
+
+/**
+ * The account's portfolio as of `asOf`: every effective ledger event recorded by then, folded in ledger
+ * order, and cash flows effective by then. The fold resumes from the latest usable snapshot and writes a
+ * new one every `ledger.snapshotEveryEvents` events while the replay is still an unbroken prefix of the
+ * ledger (no event skipped for being after the cutoff).
+ */
+export const getPortfolioAt = (asOf: string, config: BotConfig, accountId: string = DEFAULT_ACCOUNT_ID): PortfolioProjection => {
+  const cutoff = asOfCutoffMs(asOf);
+  // Not bounded by the cutoff: snapshot positions count the account's events recorded after it too.
+  const events = readLedgerEvents({ accountId });
+  const options = lotBookOptions(config);
+  const key = configKey(config, options);
+  const every = config.ledger?.snapshotEveryEvents ?? 0;
+  const snapshot = readSnapshot(accountId, events, cutoff, key);
+  const fold = snapshot ? restoreFold(snapshot, options) : createPortfolioFold(config, options);
+
+  let checkpoint = snapshot?.events ?? 0;
+  let throughMs = snapshot ? Date.parse(snapshot.through) : 0;
+  let unbroken = true;
+  for (let i = checkpoint; i < events.length; i++) {
+    const ts = Date.parse(events[i].timestamp);
+    if (ts > cutoff) {
+      unbroken = false;
+      continue;
+    }
+    // Unreadable timestamps are never visible, at any cutoff.
+    if (!Number.isNaN(ts)) {
+      foldPortfolioEvent(fold, events[i]);
+      throughMs = Math.max(throughMs, ts);
+    }
+    if (unbroken && every > 0 && i + 1 - checkpoint >= every) {
+      writeSnapshot(fold, accountId, events, i + 1, throughMs, key);
+      checkpoint = i + 1;
+    }
+  }
+
+  let cash = fold.tradeCash;
+  for (const flow of flowsThrough(cashFlowsFromEvents(events), cutoff)) cash += cashEffect(flow);
+  return {
+    accountId,
+    asOf,
+    cash,
+    book: fold.book,
+    positions: foldPositions(fold),
+    events: events.length,
+    fromSnapshot: snapshot?.events ?? 0
+  };
+};
+
+/** Marks a projection to market: holdings at cost with their holding start, equity at quotes as of the projection. */
+export const priceProjection = async (projection: PortfolioProjection, marketData: MarketDataProvider): Promise<PortfolioState> => {
+  const holdings = await Promise.all(
+    Object.entries(projection.positions).map(async ([symbol, pos]) => ({
+      symbol,
+      quantity: pos.quantity,
+      avgPrice: pos.costBasis / pos.quantity,
+      mark: (await marketData.getQuote(symbol, projection.asOf)).price,
+      holdSince: pos.since ? new Date(pos.since).toISOString() : undefined
+    }))
+  );
+  return {
+    cash: projection.cash,
+    holdings: holdings.map(({ mark: _mark, ...holding }) => holding),
+    equity: projection.cash + holdings.reduce((acc, h) => acc + h.quantity * h.mark, 0)
+  };
+};
@@ -0,0 +1,160 @@
+import path from 'path';
+import Database from 'better-sqlite3';
+import { LedgerEvent } from '../core/types';
+import { ensureDir } from '../core/utils';
+import { eventAccountId } from '../core/accounts';
+import { LedgerHead, legacyDigest } from './chain';
+import { LedgerQuery, LedgerRunSummary, LedgerStore, parseEventLine, quarantinedEventId, timestampMs } from './store';
+
+// `line` is the record as chained; the other columns are parsed out of it for the indexes. `live` is 0 for
+// repeats of an id, quarantined events and lines that do not parse.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  pos INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT,
+  run_id TEXT,
+  account_id TEXT,
+  type TEXT,
+  timestamp TEXT,
+  ts_ms INTEGER,
+  seq INTEGER,
+  hash TEXT,
+  quarantines TEXT,
+  live INTEGER NOT NULL,
+  line TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS events_id ON events (id);
+CREATE INDEX IF NOT EXISTS events_run ON events (run_id, live);
+CREATE INDEX IF NOT EXISTS events_account ON events (account_id, live);
+CREATE INDEX IF NOT EXISTS events_type ON events (type, live);
+CREATE INDEX IF NOT EXISTS events_ts ON events (ts_ms, live);
+CREATE INDEX IF NOT EXISTS events_quarantines ON events (quarantines);
+`;
+
+/** Ledger records in an embedded SQLite database (`LEDGER_STORE=sqlite`), indexed by id, run, account, type and time. */
+export class SqliteLedgerStore implements LedgerStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database;
+  private insertRecord: Database.Statement;
+  private idExists: Database.Statement;
+  private isQuarantined: Database.Statement;
+  private quarantine: Database.Statement;
+
+  constructor(readonly location: string) {
+    ensureDir(path.dirname(location));
+    this.db = new Database(location);
+    // The UI, daemon and CLIs may share the file.
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+    this.insertRecord = this.db.prepare(
+      `INSERT INTO events (id, run_id, account_id, type, timestamp, ts_ms, seq, hash, quarantines, live, line)
+       VALUES (@id, @runId, @accountId, @type, @timestamp, @tsMs, @seq, @hash, @quarantines, @live, @line)`
+    );
+    this.idExists = this.db.prepare('SELECT 1 FROM events WHERE id = ? LIMIT 1');
+    this.isQuarantined = this.db.prepare('SELECT 1 FROM events WHERE quarantines = ? LIMIT 1');
+    this.quarantine = this.db.prepare('UPDATE events SET live = 0 WHERE id = ?');
+  }
+
+  private insertLine(line: string) {
+    const evt = parseEventLine(line);
+    if (!evt) {
+      this.insertRecord.run({
+        id: null,
+        runId: null,
+        accountId: null,
+        type: null,
+        timestamp: null,
+        tsMs: null,
+        seq: null,
+        hash: null,
+        quarantines: null,
+        live: 0,
+        line
+      });
+      return;
+    }
+    const quarantines = quarantinedEventId(evt) ?? null;
+    const live = !this.idExists.get(evt.id) && !this.isQuarantined.get(evt.id);
+    this.insertRecord.run({
+      id: evt.id,
+      runId: evt.runId,
+      accountId: eventAccountId(evt),
+      type: evt.type,
+      timestamp: evt.timestamp,
+      tsMs: timestampMs(evt.timestamp) ?? null,
+      seq: typeof evt.seq === 'number' ? evt.seq : null,
+      hash: evt.hash ?? null,
+      quarantines,
+      live: live ? 1 : 0,
+      line
+    });
+    if (quarantines !== null) this.quarantine.run(quarantines);
+  }
+
+  appendLines(lines: string[]) {
+    this.db.transaction((batch: string[]) => batch.forEach((line) => this.insertLine(line)))(lines);
+  }
+
+  lines(): string[] {
+    return this.db
+      .prepare('SELECT line FROM events ORDER BY pos')
+      .pluck()
+      .all() as string[];
+  }
+
+  private events(sql: string, params: unknown[] = []): LedgerEvent[] {
+    return (this.db.prepare(sql).pluck().all(...params) as string[]).map((line) => JSON.parse(line) as LedgerEvent);
+  }
+
+  readRaw(): LedgerEvent[] {
+    return this.events('SELECT line FROM events WHERE id IS NOT NULL ORDER BY pos');
+  }
+
+  query(query: LedgerQuery): LedgerEvent[] {
+    const where = ['live = 1'];
+    const params: unknown[] = [];
+    if (query.runId !== undefined) {
+      where.push('run_id = ?');
+      params.push(query.runId);
+    }
+    if (query.accountId !== undefined) {
+      where.push('account_id = ?');
+      params.push(query.accountId);
+    }
+    if (query.types) {
+      where.push(`type IN (${query.types.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...query.types);
+    }
+    if (query.from !== undefined) {
+      where.push('ts_ms >= ?');
+      params.push(Date.parse(query.from));
+    }
+    if (query.to !== undefined) {
+      where.push('ts_ms <= ?');
+      params.push(Date.parse(query.to));
+    }
+    return this.events(`SELECT line FROM events WHERE ${where.join(' AND ')} ORDER BY pos`, params);
+  }
+
+  runs(): LedgerRunSummary[] {
+    return this.db
+      .prepare(
+        `SELECT run_id AS runId, account_id AS accountId,
+           (SELECT timestamp FROM events l WHERE l.run_id = e.run_id AND l.live = 1 ORDER BY l.ts_ms DESC, l.pos LIMIT 1) AS lastTimestamp
+         FROM events e WHERE live = 1 GROUP BY run_id ORDER BY MIN(pos)`
+      )
+      .all() as LedgerRunSummary[];
+  }
+
+  chainTip(): LedgerHead {
+    const tip = this.db.prepare('SELECT seq, hash FROM events WHERE hash IS NOT NULL ORDER BY pos DESC LIMIT 1').get() as
+      | LedgerHead
+      | undefined;
+    return tip ?? { seq: 0, hash: legacyDigest(this.lines()) };
+  }
+
+  close() {
+    this.db.close();
+  }
+}
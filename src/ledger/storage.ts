@@ -1,49 +1,138 @@
 import fs from 'fs';
 import path from 'path';
 import { ensureDir, writeJSONFile } from '../core/utils';
-import { LedgerEvent } from '../core/types';
+import { getRunDir, scopedWorkspace } from '../core/workspace';
+import { LedgerEvent, StrategyName } from '../core/types';
+import { LedgerHead, chainEvent, sha256 } from './chain';
+import { LedgerQuery, LedgerRunSummary, LedgerStore, LedgerStoreKind, parseEventLine } from './store';
+import { JsonlLedgerStore } from './jsonlStore';
+import { SqliteLedgerStore } from './sqliteStore';
 
-const configuredPath = process.env.LEDGER_FILE ? path.resolve(process.env.LEDGER_FILE) : undefined;
-const ledgerFile = configuredPath ?? path.join(path.resolve(process.cwd(), 'ledger'), 'events.jsonl');
-const ledgerDir = path.dirname(ledgerFile);
+// Sqlite when LEDGER_STORE says so, or when LEDGER_FILE names a database; otherwise events.jsonl.
+// A workspace's ledger file decides for itself.
+export const getLedgerStoreKind = (): LedgerStoreKind => {
+  const scoped = scopedWorkspace();
+  if (scoped) return ledgerStoreKindFor(scoped.ledgerFile);
+  const configured = process.env.LEDGER_STORE?.trim().toLowerCase();
+  if (configured === 'jsonl' || configured === 'sqlite') return configured;
+  if (configured) throw new Error(`Unknown LEDGER_STORE "${process.env.LEDGER_STORE}" (use jsonl or sqlite)`);
+  return process.env.LEDGER_FILE ? ledgerStoreKindFor(process.env.LEDGER_FILE) : 'jsonl';
+};
 
-export const getLedgerFile = () => ledgerFile;
+export const ledgerStoreKindFor = (file: string): LedgerStoreKind => (/\.(sqlite|sqlite3|db)$/i.test(file) ? 'sqlite' : 'jsonl');
 
-export const appendLedgerEvent = (event: LedgerEvent) => {
-  ensureDir(ledgerDir);
-  const line = JSON.stringify(event);
-  fs.appendFileSync(ledgerFile, `${line}\n`);
+// Resolved per call: a backtest's workspace has its own ledger, and tests point LEDGER_FILE elsewhere.
+export const getLedgerFile = () => {
+  const scoped = scopedWorkspace();
+  if (scoped) return scoped.ledgerFile;
+  return process.env.LEDGER_FILE
+    ? path.resolve(process.env.LEDGER_FILE)
+    : path.join(path.resolve(process.cwd(), 'ledger'), getLedgerStoreKind() === 'sqlite' ? 'events.sqlite' : 'events.jsonl');
+};
+
+const stores = new Map<string, LedgerStore>();
+
+// One store per file and process, so the JSONL index and SQLite connection are reused across calls.
+export const openLedgerStore = (kind: LedgerStoreKind, location: string): LedgerStore => {
+  const key = `${kind}:${path.resolve(location)}`;
+  const cached = stores.get(key);
+  // A database removed underneath an open connection (tests, a reset workspace) is reopened.
+  if (cached && (kind === 'jsonl' || fs.existsSync(cached.location))) return cached;
+  cached?.close();
+  const store = kind === 'sqlite' ? new SqliteLedgerStore(path.resolve(location)) : new JsonlLedgerStore(path.resolve(location));
+  stores.set(key, store);
+  return store;
+};
+
+export const getLedgerStore = (): LedgerStore => openLedgerStore(getLedgerStoreKind(), getLedgerFile());
+
+export const closeLedgerStores = () => {
+  for (const store of Array.from(stores.values())) store.close();
+  stores.clear();
+};
+
+const appendEventLine = (file: string, event: LedgerEvent) => {
+  ensureDir(path.dirname(file));
+  fs.appendFileSync(file, `${JSON.stringify(event)}\n`);
 };
 
-export const readLedgerEvents = (): LedgerEvent[] => {
-  if (!fs.existsSync(ledgerFile)) return [];
-  const content = fs.readFileSync(ledgerFile, 'utf-8');
+// Lines that do not parse are skipped here; ledger:verify reports them.
+const readEventsFile = (file: string): LedgerEvent[] => {
+  if (!fs.existsSync(file)) return [];
+  const content = fs.readFileSync(file, 'utf-8');
   const lines = content.trim().length ? content.trim().split('\n') : [];
-  return lines
-    .map((line) => {
-      try {
-        return JSON.parse(line) as LedgerEvent;
-      } catch (err) {
-        return undefined;
-      }
-    })
-    .filter((v): v is LedgerEvent => Boolean(v));
+  return lines.map(parseEventLine).filter((v): v is LedgerEvent => Boolean(v));
 };
 
-export const readEventsForRun = (runId: string): LedgerEvent[] => {
-  return readLedgerEvents().filter((e) => e.runId === runId);
+// Seq and hash of the last append, kept beside the ledger so a truncated tail is detectable.
+export const getLedgerHeadFile = (ledgerFile: string = getLedgerFile()) =>
+  path.join(path.dirname(ledgerFile), `${path.basename(ledgerFile, path.extname(ledgerFile))}.head.json`);
+
+// Portfolio projection checkpoints per account, beside the ledger they were folded from.
+export const getLedgerSnapshotDir = (accountId: string, ledgerFile: string = getLedgerFile()) =>
+  path.join(path.dirname(ledgerFile), `${path.basename(ledgerFile, path.extname(ledgerFile))}.snapshots`, accountId);
+
+/** Appends `event` as the next link of the hash chain; its `seq`, `prevHash` and `hash` are set in place. */
+export const appendLedgerEvent = (event: LedgerEvent) => {
+  const store = getLedgerStore();
+  const chained = chainEvent(event, store.chainTip());
+  Object.assign(event, { seq: chained.seq, prevHash: chained.prevHash, hash: chained.hash });
+  store.appendLines([JSON.stringify(chained)]);
+  writeJSONFile(getLedgerHeadFile(), { seq: chained.seq, hash: chained.hash });
 };
 
+export const readLedgerHead = (ledgerFile?: string): LedgerHead | undefined => {
+  const file = getLedgerHeadFile(ledgerFile);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as LedgerHead) : undefined;
+};
+
+// Every event as written, including repeats and quarantined events (ledger:doctor reads this).
+export const readRawLedgerEvents = (): LedgerEvent[] => getLedgerStore().readRaw();
+
+/** Effective events (see effectiveLedgerEvents) in append order; the query narrows them through the store's indexes. */
+export const readLedgerEvents = (query: LedgerQuery = {}): LedgerEvent[] => getLedgerStore().query(query);
+
+// Each run with the timestamp of its latest event, without reading the runs' events.
+export const listLedgerRuns = (): LedgerRunSummary[] => getLedgerStore().runs();
+
+export const SHADOW_STRATEGIES: StrategyName[] = ['llm', 'deterministic', 'random'];
+
+// Hypothetical fills per strategy, kept next to the live ledger and never mixed into it.
+export const getShadowLedgerFile = (strategy: StrategyName) =>
+  path.join(path.dirname(getLedgerFile()), 'shadow', `${strategy}.jsonl`);
+
+export const appendShadowEvent = (strategy: StrategyName, event: LedgerEvent) =>
+  appendEventLine(getShadowLedgerFile(strategy), event);
+
+export const readShadowEvents = (strategy: StrategyName): LedgerEvent[] => readEventsFile(getShadowLedgerFile(strategy));
+
+export const readEventsForRun = (runId: string): LedgerEvent[] => readLedgerEvents({ runId });
+
 export const writeRunArtifact = (runId: string, fileName: string, data: unknown) => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
+  const runDir = getRunDir(runId);
   ensureDir(runDir);
   const filePath = path.join(runDir, fileName);
   writeJSONFile(filePath, data);
 };
 
+// Rewritten as the UI steps through rounds, so not part of a run's recorded artifacts.
+const MUTABLE_RUN_FILES = new Set(['round_state.json']);
+
+/** sha256 of each file in runs/<runId>/, keyed by file name. */
+export const hashRunArtifacts = (runId: string): Record<string, string> => {
+  const runDir = getRunDir(runId);
+  if (!fs.existsSync(runDir)) return {};
+  const hashes: Record<string, string> = {};
+  for (const name of fs.readdirSync(runDir).sort()) {
+    const filePath = path.join(runDir, name);
+    if (MUTABLE_RUN_FILES.has(name) || !fs.statSync(filePath).isFile()) continue;
+    hashes[name] = sha256(fs.readFileSync(filePath));
+  }
+  return hashes;
+};
+
 export const readRunArtifact = <T>(runId: string, fileName: string): T | undefined => {
-  const runDir = path.resolve(process.cwd(), 'runs', runId);
-  const filePath = path.join(runDir, fileName);
+  const filePath = path.join(getRunDir(runId), fileName);
   if (!fs.existsSync(filePath)) return undefined;
   const raw = fs.readFileSync(filePath, 'utf-8');
   return JSON.parse(raw) as T;
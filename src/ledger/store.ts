@@ -0,0 +1,87 @@
+import { LedgerEvent, LedgerEventType } from '../core/types';
+import { eventAccountId } from '../core/accounts';
+import { LedgerHead } from './chain';
+
+export type LedgerStoreKind = 'jsonl' | 'sqlite';
+
+// All fields optional and combined with AND; `from`/`to` bound the event timestamp, inclusive.
+export interface LedgerQuery {
+  runId?: string;
+  // Events of one account (see eventAccountId).
+  accountId?: string;
+  types?: LedgerEventType[];
+  from?: string;
+  to?: string;
+}
+
+export interface LedgerRunSummary {
+  runId: string;
+  accountId: string;
+  lastTimestamp: string;
+}
+
+/**
+ * Where ledger records live. Records are the JSON lines the hash chain was computed over and are kept
+ * byte for byte; queries see the effective history (see effectiveLedgerEvents), in append order.
+ */
+export interface LedgerStore {
+  readonly kind: LedgerStoreKind;
+  readonly location: string;
+  appendLines(lines: string[]): void;
+  // Every record as stored, including lines that do not parse (ledger:verify, ledger:migrate).
+  lines(): string[];
+  // Every parsed event, including repeats and quarantined ones (ledger:doctor).
+  readRaw(): LedgerEvent[];
+  query(query: LedgerQuery): LedgerEvent[];
+  // One entry per run, in order of the run's first event.
+  runs(): LedgerRunSummary[];
+  // The last chained event, or what the next one links to when there is none.
+  chainTip(): LedgerHead;
+  close(): void;
+}
+
+export const parseEventLine = (line: string): LedgerEvent | undefined => {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === 'object' && typeof parsed.id === 'string' ? (parsed as LedgerEvent) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const quarantinedEventId = (evt: LedgerEvent): string | undefined => {
+  if (evt.type !== 'EVENT_QUARANTINED') return undefined;
+  const eventId = (evt.details as { eventId?: unknown } | undefined)?.eventId;
+  return eventId === undefined ? undefined : String(eventId);
+};
+
+export const timestampMs = (timestamp: string): number | undefined => {
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? undefined : ms;
+};
+
+export const matchesQuery = (evt: LedgerEvent, query: LedgerQuery): boolean => {
+  if (query.runId !== undefined && evt.runId !== query.runId) return false;
+  if (query.accountId !== undefined && eventAccountId(evt) !== query.accountId) return false;
+  if (query.types && !query.types.includes(evt.type)) return false;
+  if (query.from === undefined && query.to === undefined) return true;
+  const ms = timestampMs(evt.timestamp);
+  if (ms === undefined) return false;
+  if (query.from !== undefined && ms < Date.parse(query.from)) return false;
+  if (query.to !== undefined && ms > Date.parse(query.to)) return false;
+  return true;
+};
+
+/**
+ * The ledger as effective history: a line repeated with the same event id counts once, and events an
+ * EVENT_QUARANTINED entry points at are left out. The records themselves are never rewritten.
+ */
+export const effectiveLedgerEvents = (events: LedgerEvent[]): LedgerEvent[] => {
+  const quarantined = new Set(events.map(quarantinedEventId).filter((id): id is string => id !== undefined));
+  const seen = new Set<string>();
+  return events.filter((e) => {
+    if (seen.has(e.id) || quarantined.has(e.id)) return false;
+    seen.add(e.id);
+    return true;
+  });
+};
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { mdSection, bulletList, defaultFooter, safeLoadJson } from './templates';
 import { computeRound6Metrics } from '../retrospective/metrics';
+import { getWorkspaceRoot } from '../core/workspace';
 
 const write = (p: string, content: string) => {
   fs.mkdirSync(path.dirname(p), { recursive: true });
@@ -431,7 +432,7 @@ const summaryByRound = (runDir: string, round: number): string => {
   }
 };
 
-export const writeRoundSummaries = (runId: string, baseDir = process.cwd()) => {
+export const writeRoundSummaries = (runId: string, baseDir = getWorkspaceRoot()) => {
   const runDir = path.join(baseDir, 'runs', runId);
   [0, 1, 2, 3, 4, 5, 6].forEach((r) => {
     const content = summaryByRound(runDir, r);
@@ -456,7 +457,7 @@ export const writeRoundSummaries = (runId: string, baseDir = process.cwd()) => {
 };
 
 // Backward-compatible name used by run.ts imports; supports optional round selection
-export const generateRoundNarrative = (runId: string, round?: number, baseDir = process.cwd()) => {
+export const generateRoundNarrative = (runId: string, round?: number, baseDir = getWorkspaceRoot()) => {
   if (round === undefined) return writeRoundSummaries(runId, baseDir);
   const runDir = path.join(baseDir, 'runs', runId);
   const content = summaryByRound(runDir, round);
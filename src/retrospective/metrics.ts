@@ -1,14 +1,16 @@
 import fs from 'fs';
 import path from 'path';
+import { getWorkspaceRoot } from '../core/workspace';
 
 export interface Round6Metrics {
   turnoverNotionalUSD: number;
   trades: number;
   invalidationsBreached: boolean;
+  invalidationBreaches: Array<{ symbol: string; triggers: string[] }>;
   notes: string[];
 }
 
-export const computeRound6Metrics = (runId: string, baseDir = process.cwd()): Round6Metrics => {
+export const computeRound6Metrics = (runId: string, baseDir = getWorkspaceRoot()): Round6Metrics => {
   const runDir = path.join(baseDir, 'runs', runId);
   const ordersPath = path.join(runDir, 'orders.json');
   let turnover = 0;
@@ -24,16 +26,33 @@ export const computeRound6Metrics = (runId: string, baseDir = process.cwd()): Ro
       // ignore
     }
   }
+  // Written by the invalidation monitor during the run.
+  const checksPath = path.join(runDir, 'invalidation_checks.json');
+  const breaches: Round6Metrics['invalidationBreaches'] = [];
+  if (fs.existsSync(checksPath)) {
+    try {
+      const checks = JSON.parse(fs.readFileSync(checksPath, 'utf-8'));
+      for (const b of checks?.breaches || []) {
+        breaches.push({
+          symbol: b.symbol,
+          triggers: (b.triggered || []).map((t: any) => `${t.type} level=${t.level} observed=${t.observed}`)
+        });
+      }
+    } catch {
+      // ignore
+    }
+  }
   const metrics: Round6Metrics = {
     turnoverNotionalUSD: turnover,
     trades,
-    invalidationsBreached: false,
-    notes: []
+    invalidationsBreached: breaches.length > 0,
+    invalidationBreaches: breaches,
+    notes: breaches.map((b) => `Invalidation breached for ${b.symbol}: ${b.triggers.join(', ')}`)
   };
   return metrics;
 };
 
-export const writeRound6Metrics = (runId: string, baseDir = process.cwd()) => {
+export const writeRound6Metrics = (runId: string, baseDir = getWorkspaceRoot()) => {
   const runDir = path.join(baseDir, 'runs', runId);
   const metrics = computeRound6Metrics(runId, baseDir);
   fs.mkdirSync(runDir, { recursive: true });
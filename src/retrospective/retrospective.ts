@@ -2,8 +2,9 @@ import fs from 'fs';
 import path from 'path';
 import { computeRound6Metrics, writeRound6Metrics } from './metrics';
 import { mdSection, defaultFooter } from '../narratives/templates';
+import { getWorkspaceRoot } from '../core/workspace';
 
-export const writeRound6Retrospective = (runId: string, baseDir = process.cwd()) => {
+export const writeRound6Retrospective = (runId: string, baseDir = getWorkspaceRoot()) => {
   const runDir = path.join(baseDir, 'runs', runId);
   const metricsPath = path.join(runDir, 'round6_metrics.json');
   const metrics = fs.existsSync(metricsPath)
@@ -13,7 +14,9 @@ export const writeRound6Retrospective = (runId: string, baseDir = process.cwd())
   const lines = [
     `Trades: ${metrics.trades}`,
     `Turnover (USD): ${metrics.turnoverNotionalUSD.toFixed(2)}`,
-    `Invalidations breached: ${metrics.invalidationsBreached}`,
+    `Invalidations breached: ${metrics.invalidationsBreached}${
+      metrics.invalidationBreaches?.length ? ` (${metrics.invalidationBreaches.map((b) => b.symbol).join(', ')})` : ''
+    }`,
     metrics.notes.length ? 'Notes:\n' + metrics.notes.join('\n') : 'Notes: none'
   ].join('\n');
 
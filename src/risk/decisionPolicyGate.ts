@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
-import { BotConfig, LLMContextPacket, PortfolioState, TradeIntent, TradeOrder } from '../core/types';
+import { BotConfig, DataQualityFlag, LLMContextPacket, PortfolioState, TradeIntent, TradeOrder } from '../core/types';
+import { getRunDir } from '../core/workspace';
 
 export interface PolicyGateResult {
   orders: TradeOrder[];
@@ -10,7 +11,7 @@ export interface PolicyGateResult {
 }
 
 const loadRound0Summary = (runId: string): { macroLagDays?: Record<string, number> } => {
-  const p = path.resolve(process.cwd(), 'runs', runId, 'round0_summary.json');
+  const p = path.join(getRunDir(runId), 'round0_summary.json');
   if (!fs.existsSync(p)) return {};
   try {
     return JSON.parse(fs.readFileSync(p, 'utf-8'));
@@ -27,9 +28,16 @@ export const applyDecisionPolicyGate = (
   llmContext: LLMContextPacket,
   portfolio: PortfolioState,
   config: BotConfig,
-  dislocation?: { active?: boolean; metrics?: any }
+  dislocation?: { active?: boolean; metrics?: any },
+  // Flags raised while proposing, e.g. ENSEMBLE_DISAGREEMENT.
+  proposalFlags: DataQualityFlag[] = []
 ): PolicyGateResult => {
-  const flags: PolicyGateResult['flags'] = [];
+  const flags: PolicyGateResult['flags'] = proposalFlags.map((f) => ({
+    code: f.code,
+    severity: f.severity,
+    message: f.message,
+    ...(f.observed && typeof f.observed === 'object' && !Array.isArray(f.observed) ? { observed: f.observed } : {})
+  }));
   const blockedReasons: string[] = [];
   let orders = intent.orders.map((o) => ({ ...o }));
   const runId = intent.asOf.replace(/:/g, '-');
@@ -40,6 +48,7 @@ export const applyDecisionPolicyGate = (
   const hasCoarsePercentiles =
     llmContext.dataQuality?.round1?.some((f) => f.code === 'COARSE_PERCENTILES' || f.code === 'PERCENTILE_UNRELIABLE') ??
     false;
+  const hasProposalDisagreement = proposalFlags.some((f) => f.code === 'ENSEMBLE_DISAGREEMENT');
   const equityConf = llmContext.regimes?.equityRegime?.confidence ?? 0.5;
   const transitionRisk = llmContext.regimes?.equityRegime?.transitionRisk ?? 'low';
 
@@ -51,6 +60,7 @@ export const applyDecisionPolicyGate = (
   else if (equityConf < 0.6) exposureCap = Math.min(exposureCap, 0.6);
   if (hasMacroLag) exposureCap = Math.min(exposureCap, 0.7);
   if (hasCoarsePercentiles) exposureCap = Math.min(exposureCap, 0.7);
+  if (hasProposalDisagreement) exposureCap = Math.min(exposureCap, 0.7);
   if (transitionRisk === 'high') exposureCap = Math.min(exposureCap, 0.35);
   else if (transitionRisk === 'elevated') exposureCap = Math.min(exposureCap, 0.6);
 
@@ -75,6 +85,7 @@ export const applyDecisionPolicyGate = (
   if (equityConf < 0.35) confidenceCap = Math.min(confidenceCap, 0.55);
   if (hasMacroLag) confidenceCap = Math.min(confidenceCap, 0.7);
   if (hasCoarsePercentiles) confidenceCap = Math.min(confidenceCap, 0.7);
+  if (hasProposalDisagreement) confidenceCap = Math.min(confidenceCap, 0.7);
   if (transitionRisk === 'high') confidenceCap = Math.min(confidenceCap, 0.55);
 
   // Apply confidence cap and drop very low
@@ -106,7 +117,12 @@ export const applyDecisionPolicyGate = (
   const blockByPolicy =
     mode === 'block' &&
     exposureCap < 1 &&
-    (equityConf < 0.6 || hasMacroLag || hasCoarsePercentiles || transitionRisk === 'elevated' || transitionRisk === 'high');
+    (equityConf < 0.6 ||
+      hasMacroLag ||
+      hasCoarsePercentiles ||
+      hasProposalDisagreement ||
+      transitionRisk === 'elevated' ||
+      transitionRisk === 'high');
 
   if (blockByPolicy) {
     orders = [];
@@ -115,7 +131,7 @@ export const applyDecisionPolicyGate = (
       code: 'POLICY_BLOCKED_LOW_CONFIDENCE',
       severity: 'warn',
       message: 'Exposure capped; blocking run instead of scaling',
-      observed: { exposureCap, equityConf, hasMacroLag, hasCoarsePercentiles, transitionRisk }
+      observed: { exposureCap, equityConf, hasMacroLag, hasCoarsePercentiles, hasProposalDisagreement, transitionRisk }
     });
   } else if (currentBuy > maxSpend && currentBuy > 0) {
     const scale = maxSpend / currentBuy;
@@ -142,6 +158,7 @@ export const applyDecisionPolicyGate = (
     confidenceCap,
     hasMacroLag,
     hasCoarsePercentiles,
+    hasProposalDisagreement,
     transitionRisk,
     equityConf,
     baseExposureCap
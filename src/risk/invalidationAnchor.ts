@@ -1,10 +1,31 @@
-import { SymbolFeature, TradeOrder } from '../core/types';
+import { InvalidationCondition, InvalidationRule, SymbolFeature, TradeOrder } from '../core/types';
 
 export interface InvalidationResult {
   orders: TradeOrder[];
   flags: { code: string; severity: 'warn' | 'info'; message: string; symbols?: string[]; observed?: Record<string, unknown> }[];
 }
 
+// Structured form of the anchored text ("weekly close < MA200 (x) or drawdown > y% from entry").
+export const parseInvalidationRule = (text: string | undefined, referencePrice?: number): InvalidationRule | undefined => {
+  if (!text) return undefined;
+  const conditions: InvalidationCondition[] = [];
+  const level = text.match(/close\s*<\s*(MA\d+)\s*\(\s*([0-9.]+)\s*\)/i);
+  if (level && Number.isFinite(Number(level[2]))) {
+    conditions.push({
+      type: 'CLOSE_BELOW_LEVEL',
+      level: Number(level[2]),
+      reference: level[1].toUpperCase(),
+      barInterval: /weekly/i.test(text) ? '1w' : '1d'
+    });
+  }
+  const draw = text.match(/drawdown\s*>\s*([0-9.]+)\s*%/i);
+  if (draw && Number.isFinite(Number(draw[1]))) {
+    conditions.push({ type: 'DRAWDOWN_FROM_ENTRY', level: Number(draw[1]) / 100, reference: 'entry' });
+  }
+  if (!conditions.length) return undefined;
+  return { conditions, referencePrice };
+};
+
 export const anchorInvalidations = (orders: TradeOrder[], features: SymbolFeature[]): InvalidationResult => {
   const flags: InvalidationResult['flags'] = [];
   const featureMap = new Map<string, SymbolFeature>(features.map((f) => [f.symbol, f]));
@@ -28,9 +49,9 @@ export const anchorInvalidations = (orders: TradeOrder[], features: SymbolFeatur
         symbols: [o.symbol],
         observed: { original: o.invalidation }
       });
-      return { ...o, invalidation: invText };
+      return { ...o, invalidation: invText, invalidationRule: parseInvalidationRule(invText, feat.price) };
     }
-    return o;
+    return { ...o, invalidationRule: parseInvalidationRule(o.invalidation, feat.price) };
   });
   return { orders: updated, flags };
 };
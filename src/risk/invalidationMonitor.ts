@@ -0,0 +1,187 @@
+import { Fill, Holding, InvalidationCondition, InvalidationRule, LedgerEvent, TradeOrder } from '../core/types';
+import { MarketDataProvider } from '../data/marketData.types';
+import { appendEvent, getEvents, makeEvent } from '../ledger/ledger';
+import { parseInvalidationRule } from './invalidationAnchor';
+import { eventsForAccount, splitRunId } from '../core/accounts';
+
+export interface OpenInvalidation {
+  symbol: string;
+  quantity: number;
+  runId: string;
+  invalidation: string;
+  rule: InvalidationRule & { entry: NonNullable<InvalidationRule['entry']> };
+}
+
+export interface InvalidationCheck {
+  symbol: string;
+  quantity: number;
+  runId: string;
+  invalidation: string;
+  rule: OpenInvalidation['rule'];
+  price?: number;
+  breached: boolean;
+  triggered: Array<InvalidationCondition & { observed: number; observedAt?: string }>;
+  skipped: string[];
+}
+
+export interface InvalidationMonitorResult {
+  asOf: string;
+  checks: InvalidationCheck[];
+  breaches: InvalidationCheck[];
+  sellOrders: TradeOrder[];
+}
+
+export interface InvalidationMonitorOptions {
+  runId: string;
+  asOf: string;
+  holdings: Holding[];
+  marketData: MarketDataProvider;
+  quotes?: Record<string, number>;
+  events?: LedgerEvent[];
+}
+
+/**
+ * Rebuilds the invalidation rule behind each open position from the ledger: the latest BUY fill
+ * per held symbol, joined to the order it was placed for (ORDER_PLACED carries the order). Older
+ * orders without a structured rule fall back to parsing their invalidation text.
+ */
+export const collectOpenInvalidations = (events: LedgerEvent[], holdings: Holding[]): OpenInvalidation[] => {
+  const placed = new Map<string, { order: TradeOrder; runId: string }>();
+  const lastBuy = new Map<string, { fill: Fill; runId: string }>();
+  for (const evt of events) {
+    if (evt.type === 'ORDER_PLACED') {
+      const order = evt.details?.order as TradeOrder | undefined;
+      const orderId = (evt.details?.placement as { orderId?: string | number } | undefined)?.orderId;
+      if (order && orderId !== undefined) placed.set(String(orderId), { order, runId: evt.runId });
+    }
+    if (evt.type === 'FILL_RECORDED') {
+      const fill = evt.details?.fill as Fill | undefined;
+      if (!fill || fill.side !== 'BUY' || !(fill.quantity > 0)) continue;
+      const prior = lastBuy.get(fill.symbol);
+      if (!prior || prior.fill.timestamp <= fill.timestamp) lastBuy.set(fill.symbol, { fill, runId: evt.runId });
+    }
+  }
+
+  const open: OpenInvalidation[] = [];
+  for (const holding of holdings) {
+    if (!(holding.quantity > 0)) continue;
+    const buy = lastBuy.get(holding.symbol);
+    const source = buy ? placed.get(String(buy.fill.orderId)) : undefined;
+    if (!buy || !source) continue;
+    const rule = source.order.invalidationRule ?? parseInvalidationRule(source.order.invalidation);
+    if (!rule?.conditions.length) continue;
+    open.push({
+      symbol: holding.symbol,
+      quantity: holding.quantity,
+      runId: source.runId,
+      invalidation: source.order.invalidation,
+      rule: {
+        ...rule,
+        entry: rule.entry ?? {
+          orderId: String(buy.fill.orderId),
+          runId: buy.runId,
+          price: buy.fill.price,
+          quantity: buy.fill.quantity,
+          timestamp: buy.fill.timestamp
+        }
+      }
+    });
+  }
+  return open;
+};
+
+const evaluateOne = async (
+  position: OpenInvalidation,
+  asOf: string,
+  marketData: MarketDataProvider,
+  quotes: Record<string, number>
+): Promise<InvalidationCheck> => {
+  const check: InvalidationCheck = { ...position, breached: false, triggered: [], skipped: [] };
+  let price = quotes[position.symbol];
+  if (!(price > 0)) {
+    try {
+      price = (await marketData.getQuote(position.symbol, asOf)).price;
+    } catch {
+      price = 0;
+    }
+  }
+  check.price = price > 0 ? price : undefined;
+  const entryDay = position.rule.entry.timestamp.slice(0, 10);
+
+  for (const cond of position.rule.conditions) {
+    if (cond.type === 'DRAWDOWN_FROM_ENTRY') {
+      if (!check.price || !(position.rule.entry.price > 0)) {
+        check.skipped.push(`${cond.type}: no price`);
+        continue;
+      }
+      const drawdown = (position.rule.entry.price - check.price) / position.rule.entry.price;
+      if (drawdown > cond.level) check.triggered.push({ ...cond, observed: drawdown });
+      continue;
+    }
+    // Closes from before the entry say nothing about the position.
+    const bars = await marketData.getHistory(position.symbol, asOf, 21, cond.barInterval ?? '1w').catch(() => []);
+    const last = bars.filter((b) => b.date.slice(0, 10) >= entryDay).at(-1);
+    if (!last) {
+      check.skipped.push(`${cond.type}: no ${cond.barInterval ?? '1w'} close since entry`);
+      continue;
+    }
+    if (last.close < cond.level) check.triggered.push({ ...cond, observed: last.close, observedAt: last.date });
+  }
+  check.breached = check.triggered.length > 0;
+  return check;
+};
+
+const describeTrigger = (t: InvalidationCheck['triggered'][number]) =>
+  t.type === 'DRAWDOWN_FROM_ENTRY'
+    ? `drawdown ${(t.observed * 100).toFixed(1)}% > ${(t.level * 100).toFixed(1)}% from entry`
+    : `close ${t.observed.toFixed(2)} < ${t.reference ?? 'level'} ${t.level.toFixed(2)}`;
+
+export const invalidationExitOrder = (check: InvalidationCheck): TradeOrder => ({
+  symbol: check.symbol,
+  side: 'SELL',
+  orderType: 'MARKET',
+  notionalUSD: check.quantity * (check.price ?? check.rule.entry.price),
+  thesis: `Invalidation breached: ${check.triggered.map(describeTrigger).join('; ')}.`,
+  invalidation: '',
+  confidence: 1,
+  portfolioLevel: { targetHoldDays: 0, netExposureTarget: 1 }
+});
+
+/**
+ * Evaluates every open position's invalidation as of `asOf`. A new breach (first time for a given
+ * entry fill) is recorded as INVALIDATION_BREACHED; every breached position gets a full-exit SELL
+ * for the caller to route through risk and approval. Without explicit events, only the ledger of the
+ * runId's account is consulted.
+ */
+export const runInvalidationMonitor = async (options: InvalidationMonitorOptions): Promise<InvalidationMonitorResult> => {
+  const events = options.events ?? eventsForAccount(getEvents(), splitRunId(options.runId).accountId);
+  const quotes = options.quotes ?? {};
+  const checks: InvalidationCheck[] = [];
+  for (const position of collectOpenInvalidations(events, options.holdings)) {
+    checks.push(await evaluateOne(position, options.asOf, options.marketData, quotes));
+  }
+  const breaches = checks.filter((c) => c.breached);
+
+  const recorded = new Set(
+    events
+      .filter((e) => e.type === 'INVALIDATION_BREACHED')
+      .map((e) => `${e.details?.symbol}:${e.details?.entryOrderId}`)
+  );
+  for (const breach of breaches) {
+    if (recorded.has(`${breach.symbol}:${breach.rule.entry.orderId}`)) continue;
+    appendEvent(
+      makeEvent(options.runId, 'INVALIDATION_BREACHED', {
+        asOf: options.asOf,
+        symbol: breach.symbol,
+        quantity: breach.quantity,
+        price: breach.price,
+        entryOrderId: breach.rule.entry.orderId,
+        entryRunId: breach.rule.entry.runId,
+        invalidation: breach.invalidation,
+        triggered: breach.triggered
+      })
+    );
+  }
+
+  return { asOf: options.asOf, checks, breaches, sellOrders: breaches.map(invalidationExitOrder) };
+};
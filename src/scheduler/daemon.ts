@@ -0,0 +1,327 @@
+import { BotConfig, LedgerEvent } from '../core/types';
+import { parseAsOfDateTime } from '../core/time';
+import { exchangeDay, exchangeTimeToUTC, getTradingSession, isRebalanceSession, shiftDay } from '../core/calendar';
+import { runDump } from '../cli/botDump';
+import { runTrade } from '../cli/trade';
+import { accountRunId, DEFAULT_ACCOUNT_ID, eventsForAccount } from '../core/accounts';
+import { appendEvent, DAEMON_RUN_ID, findWindowExecution, getEvents, getRunStatus, makeEvent } from '../ledger/ledger';
+
+export type ScheduleStage = 'dump' | 'trade';
+
+export interface ScheduleSlot {
+  session: string;
+  // Shared by both stages, so the trade picks up the dump's run bundle.
+  asOf: string;
+  runId: string;
+  dumpAt: string;
+  tradeAt: string;
+}
+
+export type StageRunner = (stage: ScheduleStage, slot: ScheduleSlot, attempt: number) => Promise<void>;
+
+export interface DaemonOptions {
+  config: BotConfig;
+  // One daemon per account; it logs under `daemon@<accountId>` (plain `daemon` for the default account).
+  accountId?: string;
+  mode?: string;
+  strategy?: string;
+  runStage?: StageRunner;
+  now?: () => Date;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface TickResult {
+  action: 'idle' | 'ran' | 'failed';
+  slot?: ScheduleSlot;
+  next?: ScheduleSlot;
+}
+
+export interface DaemonStatus {
+  alive: boolean;
+  lastHeartbeatISO?: string;
+  next?: { runId: string; session: string; dumpAt: string; tradeAt: string };
+  lastMissed?: { runId: string; session: string; timestamp: string };
+}
+
+const REGULAR_CLOSE = '16:00';
+const HORIZON_DAYS = 14;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const minutesOf = (hhmm: string): number => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+// Configured wall time on a session; on early closes it keeps the same distance to the bell.
+const sessionTime = (day: string, hhmm: string, closeUTC: string, earlyClose: boolean): Date => {
+  const at = exchangeTimeToUTC(day, hhmm);
+  if (!earlyClose) return at;
+  const regularClose = exchangeTimeToUTC(day, REGULAR_CLOSE);
+  return new Date(new Date(closeUTC).getTime() - (regularClose.getTime() - at.getTime()));
+};
+
+const toSlot = (session: string, dumpAt: Date, tradeAt: Date, accountId: string): ScheduleSlot => {
+  const { asOf, runId } = parseAsOfDateTime(dumpAt.toISOString());
+  return { session, asOf, runId: accountRunId(runId, accountId), dumpAt: dumpAt.toISOString(), tradeAt: tradeAt.toISOString() };
+};
+
+/**
+ * Dump/trade slots for one exchange day. Weekly cadence yields the rebalance session only (rolled
+ * past holidays); hourly yields one slot per top of the hour inside the session. Non-trading days
+ * yield nothing.
+ */
+export const planSlotsForDay = (day: string, config: BotConfig, accountId = DEFAULT_ACCOUNT_ID): ScheduleSlot[] => {
+  const session = getTradingSession(day);
+  if (!session) return [];
+  const dumpTime = config.scheduler?.dumpTime || '15:30';
+  const tradeTime = config.scheduler?.tradeTime || '15:35';
+  if (config.cadence === 'hourly') {
+    const leadMs = Math.max(0, minutesOf(tradeTime) - minutesOf(dumpTime)) * 60000;
+    const open = new Date(session.openUTC).getTime();
+    const close = new Date(session.closeUTC).getTime();
+    const slots: ScheduleSlot[] = [];
+    for (let hour = 10; hour <= 16; hour++) {
+      const tradeAt = exchangeTimeToUTC(day, `${String(hour).padStart(2, '0')}:00`);
+      if (tradeAt.getTime() - leadMs < open || tradeAt.getTime() >= close) continue;
+      slots.push(toSlot(session.date, new Date(tradeAt.getTime() - leadMs), tradeAt, accountId));
+    }
+    return slots;
+  }
+  if (!isRebalanceSession(day, config.rebalanceDay || 'WEDNESDAY')) return [];
+  return [
+    toSlot(
+      session.date,
+      sessionTime(day, dumpTime, session.closeUTC, session.earlyClose),
+      sessionTime(day, tradeTime, session.closeUTC, session.earlyClose),
+      accountId
+    )
+  ];
+};
+
+export const planSlotsBetween = (from: Date, to: Date, config: BotConfig, accountId = DEFAULT_ACCOUNT_ID): ScheduleSlot[] => {
+  const slots: ScheduleSlot[] = [];
+  for (let day = exchangeDay(from); day <= exchangeDay(to); day = shiftDay(day, 1)) {
+    slots.push(...planSlotsForDay(day, config, accountId));
+  }
+  return slots;
+};
+
+// What the UI needs from the ledger: whether the daemon is alive and when it will fire next.
+export const readDaemonStatus = (
+  events: LedgerEvent[],
+  config: BotConfig,
+  now = new Date(),
+  accountId = DEFAULT_ACCOUNT_ID
+): DaemonStatus => {
+  const daemonRunId = accountRunId(DAEMON_RUN_ID, accountId);
+  const daemonEvents = events.filter((e) => e.runId === daemonRunId);
+  const heartbeat = daemonEvents.filter((e) => e.type === 'DAEMON_HEARTBEAT').at(-1);
+  const stopped = daemonEvents.filter((e) => e.type === 'DAEMON_STOPPED').at(-1);
+  const missed = daemonEvents.filter((e) => e.type === 'SCHEDULE_MISSED').at(-1);
+  const staleAfterMs = 3 * (config.scheduler?.heartbeatSec ?? 300) * 1000;
+  const alive = Boolean(
+    heartbeat &&
+      now.getTime() - new Date(heartbeat.timestamp).getTime() <= staleAfterMs &&
+      (!stopped || stopped.timestamp < heartbeat.timestamp)
+  );
+  return {
+    alive,
+    lastHeartbeatISO: heartbeat?.timestamp,
+    next: heartbeat?.details?.next as DaemonStatus['next'],
+    lastMissed: missed
+      ? { runId: String(missed.details?.runId), session: String(missed.details?.session), timestamp: missed.timestamp }
+      : undefined
+  };
+};
+
+/**
+ * In-process scheduler: runs bot:dump then bot:trade at the configured times on each scheduled
+ * session, retrying failed stages with exponential backoff. Slots already handled (by this or an
+ * earlier daemon, or a manual run) are not fired again, nor is a weekly slot whose rebalance window
+ * already has an EXECUTION_SENT_TO_BROKER event. Heartbeats carry the next due slot for the UI.
+ */
+export class SchedulerDaemon {
+  private config: BotConfig;
+  private accountId: string;
+  private daemonRunId: string;
+  private mode: string;
+  private strategy?: string;
+  private runStage: StageRunner;
+  private now: () => Date;
+  private sleep: (ms: number) => Promise<void>;
+  private handled = new Set<string>();
+  private coverageStart: Date;
+  private lastHeartbeat = 0;
+  private stopped = false;
+
+  constructor(options: DaemonOptions) {
+    this.config = options.config;
+    this.accountId = options.accountId || DEFAULT_ACCOUNT_ID;
+    this.daemonRunId = accountRunId(DAEMON_RUN_ID, this.accountId);
+    this.mode = options.mode || options.config.scheduler?.mode || 'paper';
+    this.strategy = options.strategy || options.config.scheduler?.strategy;
+    this.runStage = options.runStage ?? this.defaultRunStage;
+    this.now = options.now ?? (() => new Date());
+    this.sleep = options.sleep ?? defaultSleep;
+    this.coverageStart = this.now();
+    this.loadHandled(getEvents());
+  }
+
+  private get settings() {
+    const s = this.config.scheduler || {};
+    return {
+      maxAttempts: Math.max(1, s.maxAttempts ?? 3),
+      retryBackoffSec: s.retryBackoffSec ?? 60,
+      graceMs: (s.missedGraceMinutes ?? 20) * 60000,
+      heartbeatMs: (s.heartbeatSec ?? 300) * 1000,
+      pollMs: (s.pollSec ?? 30) * 1000
+    };
+  }
+
+  // Slots settled by a previous daemon process stay settled; schedule gaps since its last sign of
+  // life are reported as missed on the first tick.
+  private loadHandled(events: LedgerEvent[]) {
+    let lastSeen: string | undefined;
+    for (const evt of events) {
+      if (evt.runId !== this.daemonRunId) continue;
+      lastSeen = evt.timestamp;
+      const runId = evt.details?.runId as string | undefined;
+      if (!runId) continue;
+      if (evt.type === 'SCHEDULE_MISSED' || evt.type === 'SCHEDULE_SKIPPED') this.handled.add(runId);
+      if (evt.type === 'SCHEDULE_STAGE_COMPLETED' && evt.details?.stage === 'trade') this.handled.add(runId);
+      if (evt.type === 'SCHEDULE_STAGE_FAILED' && evt.details?.final) this.handled.add(runId);
+    }
+    if (lastSeen && lastSeen < this.coverageStart.toISOString()) this.coverageStart = new Date(lastSeen);
+  }
+
+  private record(type: LedgerEvent['type'], details: Record<string, unknown>) {
+    appendEvent(makeEvent(this.daemonRunId, type, details));
+  }
+
+  private defaultRunStage: StageRunner = async (stage, slot, attempt) => {
+    if (stage === 'dump') {
+      await runDump({ asof: slot.asOf, mode: this.mode, accountId: this.accountId });
+      return;
+    }
+    // Retries must get past runBot's idempotency guard for the failed run.
+    await runTrade({ asof: slot.asOf, mode: this.mode, strategy: this.strategy, force: attempt > 1, accountId: this.accountId });
+    if (getRunStatus(slot.runId) === 'FAILED') throw new Error(`Run ${slot.runId} failed`);
+  };
+
+  private async waitUntil(iso: string) {
+    const ms = new Date(iso).getTime() - this.now().getTime();
+    if (ms > 0) await this.sleep(ms);
+  }
+
+  private async runStageWithRetry(stage: ScheduleStage, slot: ScheduleSlot): Promise<boolean> {
+    const { maxAttempts, retryBackoffSec } = this.settings;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.record('SCHEDULE_STAGE_STARTED', { runId: slot.runId, session: slot.session, stage, attempt });
+      try {
+        await this.runStage(stage, slot, attempt);
+        this.record('SCHEDULE_STAGE_COMPLETED', { runId: slot.runId, session: slot.session, stage, attempt });
+        return true;
+      } catch (err) {
+        const final = attempt === maxAttempts;
+        const retryInSec = final ? undefined : retryBackoffSec * 2 ** (attempt - 1);
+        this.record('SCHEDULE_STAGE_FAILED', {
+          runId: slot.runId,
+          session: slot.session,
+          stage,
+          attempt,
+          final,
+          retryInSec,
+          error: (err as Error).message
+        });
+        if (retryInSec !== undefined) await this.sleep(retryInSec * 1000);
+      }
+    }
+    return false;
+  }
+
+  private heartbeat(now: Date, next?: ScheduleSlot) {
+    if (now.getTime() - this.lastHeartbeat < this.settings.heartbeatMs) return;
+    this.lastHeartbeat = now.getTime();
+    this.record('DAEMON_HEARTBEAT', {
+      mode: this.mode,
+      cadence: this.config.cadence,
+      next: next
+        ? { runId: next.runId, session: next.session, dumpAt: next.dumpAt, tradeAt: next.tradeAt }
+        : undefined
+    });
+  }
+
+  async tick(): Promise<TickResult> {
+    const now = this.now();
+    const { graceMs } = this.settings;
+    const horizon = new Date(now.getTime() + HORIZON_DAYS * 86400000);
+    const slots = planSlotsBetween(this.coverageStart, horizon, this.config, this.accountId).filter(
+      (slot) => !this.handled.has(slot.runId) && new Date(slot.tradeAt).getTime() + graceMs >= this.coverageStart.getTime()
+    );
+
+    for (const slot of slots) {
+      const tradeAt = new Date(slot.tradeAt).getTime();
+      if (now.getTime() > tradeAt + graceMs) {
+        this.handled.add(slot.runId);
+        if (getRunStatus(slot.runId) !== 'UNKNOWN') continue;
+        this.record('SCHEDULE_MISSED', { runId: slot.runId, session: slot.session, dumpAt: slot.dumpAt, tradeAt: slot.tradeAt });
+        continue;
+      }
+      if (now.getTime() < new Date(slot.dumpAt).getTime()) {
+        this.coverageStart = now;
+        this.heartbeat(now, slot);
+        return { action: 'idle', next: slot };
+      }
+
+      this.handled.add(slot.runId);
+      const status = getRunStatus(slot.runId);
+      const executed =
+        this.config.cadence === 'weekly'
+          ? findWindowExecution(
+              eventsForAccount(getEvents(), this.accountId),
+              new Date(slot.tradeAt),
+              this.config.rebalanceDay || 'WEDNESDAY'
+            )
+          : undefined;
+      if (status !== 'UNKNOWN' || executed) {
+        this.record('SCHEDULE_SKIPPED', {
+          runId: slot.runId,
+          session: slot.session,
+          reason: executed ? 'ALREADY_EXECUTED_THIS_WINDOW' : 'RUN_EXISTS',
+          alreadyExecutedRunId: executed?.runId,
+          status
+        });
+        continue;
+      }
+
+      this.heartbeat(now, slot);
+      const dumped = await this.runStageWithRetry('dump', slot);
+      if (!dumped) return { action: 'failed', slot };
+      await this.waitUntil(slot.tradeAt);
+      const traded = await this.runStageWithRetry('trade', slot);
+      return { action: traded ? 'ran' : 'failed', slot };
+    }
+
+    this.coverageStart = now;
+    this.heartbeat(now);
+    return { action: 'idle' };
+  }
+
+  async start() {
+    this.record('DAEMON_STARTED', { mode: this.mode, cadence: this.config.cadence, rebalanceDay: this.config.rebalanceDay });
+    while (!this.stopped) {
+      const result = await this.tick();
+      if (this.stopped) break;
+      const { pollMs } = this.settings;
+      const untilNext = result.next ? new Date(result.next.dumpAt).getTime() - this.now().getTime() : pollMs;
+      await this.sleep(Math.max(1000, Math.min(pollMs, untilNext)));
+    }
+  }
+
+  stop(reason = 'signal') {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.record('DAEMON_STOPPED', { reason });
+  }
+}
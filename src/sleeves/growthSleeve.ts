@@ -3,6 +3,7 @@ import path from 'path';
 import { BotConfig } from '../core/types';
 import { selectOptionsUnderlying } from './optionsUnderlying';
 import { OptionCandidate, buildBuyToOpenCall, buildSellToCloseCall } from './optionOrders';
+import { getCacheDir } from '../core/workspace';
 
 export interface OptionPositionSnapshot {
   underlying: string | null;
@@ -61,7 +62,7 @@ const defaultState: GrowthSleeveState = { status: 'INACTIVE' };
 
 const statePathForEnv = (env?: string, accountKey?: string) => {
   const fname = ['growth_state', env || 'default', accountKey || 'default'].join('.') + '.json';
-  return path.resolve(process.cwd(), 'data_cache', fname);
+  return path.join(getCacheDir(), fname);
 };
 
 export const loadGrowthState = (env?: string, accountKey?: string): GrowthSleeveState => {
@@ -3,6 +3,7 @@ import path from 'path';
 import { BotConfig } from '../core/types';
 import { selectOptionsUnderlying } from './optionsUnderlying';
 import { OptionCandidate, buildBuyToOpenPut, buildSellToClosePut } from './optionOrders';
+import { getCacheDir } from '../core/workspace';
 
 export type InsurancePhase = 'INACTIVE' | 'DEPLOYED' | 'UNWINDING';
 
@@ -61,7 +62,7 @@ const defaultState: InsuranceSleeveState = { status: 'INACTIVE' };
 
 const statePathForEnv = (env?: string, accountKey?: string) => {
   const fname = ['insurance_state', env || 'default', accountKey || 'default'].join('.') + '.json';
-  return path.resolve(process.cwd(), 'data_cache', fname);
+  return path.join(getCacheDir(), fname);
 };
 
 export const loadInsuranceState = (env?: string, accountKey?: string): InsuranceSleeveState => {
@@ -0,0 +1,334 @@
+import { BotConfig, LLMProviderConfig } from '../core/types';
+import { parseBotConfig } from '../core/config';
+
+export interface LLMCompleteOptions {
+  // Request JSON output where the provider supports it (callers still parse defensively).
+  json?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMClient {
+  complete(prompt: string, options?: LLMCompleteOptions): Promise<string>;
+  // Populated by clients that talk to a real provider; the run bundle records it.
+  calls?: LLMCallRecord[];
+}
+
+export interface LLMCallRecord {
+  provider: string;
+  model: string;
+  startedAt: string;
+  durationMs: number;
+  attempts: number;
+  ok: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  error?: string;
+}
+
+export interface LLMUsageSummary {
+  calls: number;
+  failedCalls: number;
+  attempts: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  byModel: Record<string, { calls: number; inputTokens: number; outputTokens: number; costUSD: number }>;
+}
+
+export interface LLMClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  retryBackoffMs: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface ProviderResponse {
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+class RetryableError extends Error {}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** Shared transport for the HTTP providers: timeout, retry with backoff and usage accounting. */
+export abstract class HttpLLMClient implements LLMClient {
+  readonly calls: LLMCallRecord[] = [];
+  protected readonly name: string;
+  protected readonly provider: LLMProviderConfig;
+  protected readonly apiKey: string;
+  private readonly options: LLMClientOptions;
+
+  constructor(name: string, provider: LLMProviderConfig, apiKey: string, options: LLMClientOptions) {
+    this.name = name;
+    this.provider = provider;
+    this.apiKey = apiKey;
+    this.options = options;
+  }
+
+  protected abstract request(prompt: string, options: LLMCompleteOptions): ProviderRequest;
+  protected abstract parse(json: any, options: LLMCompleteOptions): ProviderResponse;
+
+  async complete(prompt: string, options: LLMCompleteOptions = {}): Promise<string> {
+    const startedAt = new Date();
+    const sleep = this.options.sleep ?? defaultSleep;
+    const record = (attempts: number, usage?: ProviderResponse, error?: string) => {
+      const inputTokens = usage?.inputTokens ?? 0;
+      const outputTokens = usage?.outputTokens ?? 0;
+      this.calls.push({
+        provider: this.name,
+        model: this.provider.model,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        attempts,
+        ok: !error,
+        inputTokens,
+        outputTokens,
+        costUSD:
+          (inputTokens * (this.provider.inputCostPerMTok ?? 0) + outputTokens * (this.provider.outputCostPerMTok ?? 0)) / 1e6,
+        ...(error ? { error } : {})
+      });
+    };
+
+    let attempt = 0;
+    for (;;) {
+      attempt += 1;
+      try {
+        const result = await this.attempt(prompt, options);
+        record(attempt, result);
+        return result.content;
+      } catch (err) {
+        const message = (err as Error).message;
+        if (!(err instanceof RetryableError) || attempt > this.options.maxRetries) {
+          record(attempt, undefined, message);
+          throw new Error(`${this.name} (${this.provider.model}) failed after ${attempt} attempt(s): ${message}`);
+        }
+        await sleep(this.options.retryBackoffMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private async attempt(prompt: string, options: LLMCompleteOptions): Promise<ProviderResponse> {
+    const { url, headers, body } = this.request(prompt, options);
+    const controller = new AbortController();
+    // Armed until the body is read: a server can send headers and then stall mid-body.
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    const timedOut = () => new RetryableError(`timed out after ${this.options.timeoutMs}ms`);
+    try {
+      let resp: Response;
+      try {
+        resp = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (err) {
+        if (controller.signal.aborted) throw timedOut();
+        throw new RetryableError(`request failed: ${(err as Error).message}`);
+      }
+      if (!resp.ok) {
+        const text = await resp.text().catch(() => '');
+        if (controller.signal.aborted) throw timedOut();
+        const message = `HTTP ${resp.status}: ${text.slice(0, 500)}`;
+        if (resp.status === 429 || resp.status >= 500) throw new RetryableError(message);
+        throw new Error(message);
+      }
+      let json: unknown;
+      try {
+        json = await resp.json();
+      } catch (err) {
+        if (controller.signal.aborted) throw timedOut();
+        throw err;
+      }
+      const parsed = this.parse(json, options);
+      if (!parsed.content) throw new Error('empty completion');
+      return parsed;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  protected temperature(options: LLMCompleteOptions) {
+    return options.temperature ?? this.provider.temperature ?? 0;
+  }
+
+  protected maxTokens(options: LLMCompleteOptions) {
+    return options.maxTokens ?? this.provider.maxTokens ?? 1500;
+  }
+
+  protected wantsJson(options: LLMCompleteOptions) {
+    return Boolean(options.json) && this.provider.jsonMode !== false;
+  }
+}
+
+/** OpenAI chat completions, and anything serving the same API (llama.cpp server, vLLM, LM Studio). */
+export class OpenAICompatibleClient extends HttpLLMClient {
+  protected request(prompt: string, options: LLMCompleteOptions): ProviderRequest {
+    return {
+      url: `${trimSlash(this.provider.baseUrl)}/chat/completions`,
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: {
+        model: this.provider.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: this.temperature(options),
+        top_p: 1,
+        max_tokens: this.maxTokens(options),
+        ...(this.wantsJson(options) ? { response_format: { type: 'json_object' } } : {})
+      }
+    };
+  }
+
+  protected parse(json: any): ProviderResponse {
+    return {
+      content: json?.choices?.[0]?.message?.content ?? '',
+      inputTokens: Number(json?.usage?.prompt_tokens ?? 0),
+      outputTokens: Number(json?.usage?.completion_tokens ?? 0)
+    };
+  }
+}
+
+/** Anthropic messages API. It has no JSON mode, so JSON requests prefill the opening brace. */
+export class AnthropicClient extends HttpLLMClient {
+  protected request(prompt: string, options: LLMCompleteOptions): ProviderRequest {
+    const messages: Array<{ role: string; content: string }> = [{ role: 'user', content: prompt }];
+    if (this.wantsJson(options)) messages.push({ role: 'assistant', content: '{' });
+    return {
+      url: `${trimSlash(this.provider.baseUrl)}/messages`,
+      headers: { 'x-api-key': this.apiKey, 'anthropic-version': '2023-06-01' },
+      body: {
+        model: this.provider.model,
+        messages,
+        temperature: this.temperature(options),
+        max_tokens: this.maxTokens(options)
+      }
+    };
+  }
+
+  protected parse(json: any, options: LLMCompleteOptions): ProviderResponse {
+    const blocks: any[] = Array.isArray(json?.content) ? json.content : [];
+    const text = blocks
+      .filter((b) => b?.type === 'text')
+      .map((b) => b.text as string)
+      .join('');
+    return {
+      content: text && this.wantsJson(options) ? `{${text}` : text,
+      inputTokens: Number(json?.usage?.input_tokens ?? 0),
+      outputTokens: Number(json?.usage?.output_tokens ?? 0)
+    };
+  }
+}
+
+/** Ollama's native chat endpoint, for models served on this machine. */
+export class OllamaClient extends HttpLLMClient {
+  protected request(prompt: string, options: LLMCompleteOptions): ProviderRequest {
+    return {
+      url: `${trimSlash(this.provider.baseUrl)}/api/chat`,
+      headers: {},
+      body: {
+        model: this.provider.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: false,
+        options: { temperature: this.temperature(options), num_predict: this.maxTokens(options) },
+        ...(this.wantsJson(options) ? { format: 'json' } : {})
+      }
+    };
+  }
+
+  protected parse(json: any): ProviderResponse {
+    return {
+      content: json?.message?.content ?? '',
+      inputTokens: Number(json?.prompt_eval_count ?? 0),
+      outputTokens: Number(json?.eval_count ?? 0)
+    };
+  }
+}
+
+const CLIENT_FOR_KIND = {
+  openai: OpenAICompatibleClient,
+  anthropic: AnthropicClient,
+  ollama: OllamaClient
+} as const;
+
+type LLMSettings = NonNullable<BotConfig['llm']>;
+
+const defaultLLMSettings = (): LLMSettings => parseBotConfig({}, 'defaults').llm!;
+
+/**
+ * Builds the client for a named provider. Throws when the provider is unknown or its API key
+ * env var is unset; local providers (no `apiKeyEnv`) need no key.
+ */
+export const createLLMClient = (
+  name: string,
+  llm: LLMSettings = defaultLLMSettings(),
+  env: NodeJS.ProcessEnv = process.env,
+  sleep?: (ms: number) => Promise<void>
+): HttpLLMClient => {
+  const provider = llm.providers?.[name];
+  if (!provider) throw new Error(`Unknown LLM provider "${name}" (configured: ${Object.keys(llm.providers ?? {}).join(', ')})`);
+  let apiKey = '';
+  if (provider.apiKeyEnv) {
+    // LLM_API_KEY predates the registry and still stands in for the OpenAI key.
+    apiKey = env[provider.apiKeyEnv] || (provider.apiKeyEnv === 'OPENAI_API_KEY' ? env.LLM_API_KEY || '' : '');
+    if (!apiKey) throw new Error(`LLM provider "${name}" needs ${provider.apiKeyEnv}`);
+  }
+  const model = name === 'openai' && env.OPENAI_MODEL ? env.OPENAI_MODEL : provider.model;
+  return new CLIENT_FOR_KIND[provider.kind](name, { ...provider, model }, apiKey, {
+    timeoutMs: llm.timeoutMs ?? 60000,
+    maxRetries: llm.maxRetries ?? 2,
+    retryBackoffMs: llm.retryBackoffMs ?? 1000,
+    sleep
+  });
+};
+
+export const isRealLLMEnabled = (env: NodeJS.ProcessEnv = process.env) => env.USE_REAL_LLM?.toLowerCase() === 'true';
+
+/** Provider the bot uses by default: LLM_PROVIDER, else `llm.provider`. */
+export const defaultProviderName = (config?: Pick<BotConfig, 'llm'>, env: NodeJS.ProcessEnv = process.env) =>
+  env.LLM_PROVIDER || config?.llm?.provider || defaultLLMSettings().provider || 'openai';
+
+/**
+ * The configured real client when USE_REAL_LLM=true (LLM_PROVIDER overrides `llm.provider`),
+ * otherwise null so callers fall back to the stub. A missing key also yields null.
+ */
+export const getLLMClient = (config?: Pick<BotConfig, 'llm'>, env: NodeJS.ProcessEnv = process.env): LLMClient | null => {
+  if (!isRealLLMEnabled(env)) return null;
+  const llm = config?.llm ?? defaultLLMSettings();
+  const name = defaultProviderName(config, env);
+  try {
+    return createLLMClient(name, llm, env);
+  } catch (err) {
+    console.warn(`LLM client unavailable: ${(err as Error).message}`);
+    return null;
+  }
+};
+
+export const summarizeLLMCalls = (calls: LLMCallRecord[]): LLMUsageSummary => {
+  const summary: LLMUsageSummary = { calls: 0, failedCalls: 0, attempts: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, byModel: {} };
+  for (const call of calls) {
+    summary.calls += 1;
+    if (!call.ok) summary.failedCalls += 1;
+    summary.attempts += call.attempts;
+    summary.inputTokens += call.inputTokens;
+    summary.outputTokens += call.outputTokens;
+    summary.costUSD += call.costUSD;
+    const key = `${call.provider}/${call.model}`;
+    const entry = (summary.byModel[key] ??= { calls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0 });
+    entry.calls += 1;
+    entry.inputTokens += call.inputTokens;
+    entry.outputTokens += call.outputTokens;
+    entry.costUSD += call.costUSD;
+  }
+  return summary;
+};
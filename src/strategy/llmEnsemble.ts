@@ -0,0 +1,153 @@
+import { DataQualityFlag, EnsembleMetrics, PortfolioLevelSettings, ProposalSample, TradeIntent, TradeOrder } from '../core/types';
+
+export interface EnsembleConsensus {
+  intent: TradeIntent;
+  metrics: EnsembleMetrics;
+  flags: DataQualityFlag[];
+}
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Signed weight per symbol (BUY positive, SELL negative), summing repeated orders.
+const weightsOf = (intent: TradeIntent, equity: number): Map<string, number> => {
+  const weights = new Map<string, number>();
+  for (const o of intent.orders) {
+    const signed = (o.side === 'BUY' ? 1 : -1) * o.notionalUSD;
+    weights.set(o.symbol, (weights.get(o.symbol) ?? 0) + signed / equity);
+  }
+  return weights;
+};
+
+const sentencesOf = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const normalizeSentence = (s: string) => s.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+
+/**
+ * Sentences that appear in at least half of the supporting orders' theses (at least two), in first-seen
+ * order; the most confident thesis when nothing recurs.
+ */
+const recurringThesis = (orders: TradeOrder[]): string => {
+  const counts = new Map<string, { text: string; count: number }>();
+  for (const o of orders) {
+    const seen = new Set<string>();
+    for (const sentence of sentencesOf(o.thesis)) {
+      const key = normalizeSentence(sentence);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const entry = counts.get(key) ?? { text: sentence, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    }
+  }
+  const needed = Math.max(2, Math.ceil(orders.length / 2));
+  const recurring = Array.from(counts.values())
+    .filter((e) => e.count >= needed)
+    .map((e) => e.text);
+  const mostConfident = orders.slice().sort((a, b) => b.confidence - a.confidence)[0];
+  const thesis = recurring.length ? recurring.join(' ') : mostConfident.thesis;
+  return thesis.slice(0, 400);
+};
+
+const majority = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const consensusPortfolioLevel = (levels: PortfolioLevelSettings[]): PortfolioLevelSettings => ({
+  targetHoldDays: Math.max(1, Math.round(median(levels.map((l) => l.targetHoldDays)))),
+  netExposureTarget: median(levels.map((l) => l.netExposureTarget))
+});
+
+/**
+ * Merges valid samples into one intent. Each symbol trades at the median of the samples' signed weights
+ * (a sample that skips it counts as 0), so it survives only when most samples agree on its side. Confidence
+ * is the supporting samples' median confidence times the share of samples supporting it.
+ */
+export const buildEnsembleConsensus = (
+  samples: ProposalSample[],
+  equity: number,
+  options: { asOf: string; universe: string[]; maxDisagreement: number }
+): EnsembleConsensus => {
+  const valid = samples.filter((s): s is ProposalSample & { intent: TradeIntent } => s.valid && Boolean(s.intent));
+  const base = equity > 0 ? equity : 1;
+  const weights = valid.map((s) => weightsOf(s.intent, base));
+  const symbols = Array.from(new Set(weights.flatMap((w) => Array.from(w.keys()))));
+
+  const orders: TradeOrder[] = [];
+  const symbolAgreement: Record<string, number> = {};
+  const sideConflicts: string[] = [];
+  for (const symbol of symbols) {
+    const sampleWeights = weights.map((w) => w.get(symbol) ?? 0);
+    if (sampleWeights.some((w) => w > 0) && sampleWeights.some((w) => w < 0)) sideConflicts.push(symbol);
+    const weight = median(sampleWeights);
+    const notionalUSD = round(Math.abs(weight) * base, 2);
+    if (notionalUSD <= 0) continue;
+    const side: TradeOrder['side'] = weight > 0 ? 'BUY' : 'SELL';
+    const supporting = valid.flatMap((s, i) =>
+      Math.sign(sampleWeights[i]) === Math.sign(weight) ? s.intent.orders.filter((o) => o.symbol === symbol && o.side === side) : []
+    );
+    const agreement = valid.filter((_, i) => Math.sign(sampleWeights[i]) === Math.sign(weight)).length / valid.length;
+    symbolAgreement[symbol] = round(agreement, 4);
+    const mostConfident = supporting.slice().sort((a, b) => b.confidence - a.confidence)[0];
+    orders.push({
+      symbol,
+      side,
+      orderType: majority(supporting.map((o) => o.orderType)),
+      notionalUSD,
+      thesis: recurringThesis(supporting),
+      invalidation: mostConfident.invalidation,
+      confidence: round(median(supporting.map((o) => o.confidence)) * agreement, 4),
+      portfolioLevel: consensusPortfolioLevel(supporting.map((o) => o.portfolioLevel))
+    });
+  }
+
+  // Half the L1 distance between two weight vectors; averaged over every pair of valid samples.
+  let pairs = 0;
+  let distance = 0;
+  for (let i = 0; i < weights.length; i++) {
+    for (let j = i + 1; j < weights.length; j++) {
+      pairs += 1;
+      distance += symbols.reduce((acc, sym) => acc + Math.abs((weights[i].get(sym) ?? 0) - (weights[j].get(sym) ?? 0)), 0) / 2;
+    }
+  }
+  const metrics: EnsembleMetrics = {
+    samples: samples.length,
+    validSamples: valid.length,
+    disagreement: round(pairs ? Math.min(1, distance / pairs) : 0, 4),
+    symbolAgreement,
+    sideConflicts
+  };
+
+  const flags: DataQualityFlag[] = [];
+  if (metrics.disagreement > options.maxDisagreement || sideConflicts.length) {
+    flags.push({
+      code: 'ENSEMBLE_DISAGREEMENT',
+      severity: 'warn',
+      message: `Proposal samples disagree (disagreement ${metrics.disagreement.toFixed(2)}, limit ${options.maxDisagreement})`,
+      symbols: sideConflicts.length ? sideConflicts : undefined,
+      observed: { disagreement: metrics.disagreement, validSamples: metrics.validSamples, sideConflicts },
+      action: 'warn'
+    });
+  }
+
+  const levels = valid.map((s) => s.intent.portfolioLevel).filter((l): l is PortfolioLevelSettings => Boolean(l));
+  const intent: TradeIntent = {
+    asOf: options.asOf,
+    universe: options.universe,
+    orders,
+    ...(levels.length ? { portfolioLevel: consensusPortfolioLevel(levels) } : {})
+  };
+  return { intent, metrics, flags };
+};
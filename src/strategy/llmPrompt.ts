@@ -1,46 +1,167 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { BotConfig, LLMContextPacket, PortfolioState } from '../core/types';
+import { BotConfig, LLMContextPacket, LLMPromptVariant, PortfolioState, PromptRecord, SymbolFeature } from '../core/types';
+import { truncateToFit } from '../core/contextTruncation';
+import { getRunDir } from '../core/workspace';
 
-export const buildLLMPrompt = (
+// Extra instruction per ensemble prompt variant, so samples reason from different starting points.
+const PROMPT_VARIANT_TEXT: Record<LLMPromptVariant, string> = {
+  base: '',
+  'risk-first': 'Before sizing anything, name the main downside for each candidate and size positions for that case.',
+  contrarian: 'Ask whether the prevailing trend is already priced in; favor positions that still make sense if it reverses.'
+};
+
+// Rough count for budgeting; providers report the real one in llm_usage.json.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+const pctText = (value: number | undefined, digits = 1) => (value !== undefined ? `${(value * 100).toFixed(digits)}%` : 'n/a');
+const numText = (value: number | undefined, digits = 2) => (value !== undefined && Number.isFinite(value) ? value.toFixed(digits) : 'n/a');
+
+const featureLine = (f: SymbolFeature) =>
+  [
+    `${f.symbol}: px ${numText(f.price)}`,
+    `r5 ${pctText(f.return5d)}`,
+    `r20 ${pctText(f.return20d)}`,
+    `r60 ${pctText(f.return60d)} (${f.return60dPctileBucket ?? 'unknown'})`,
+    `vol20 ${pctText(f.realizedVol20d)} (${f.vol20dPctileBucket ?? 'unknown'})`,
+    `maxDD60 ${pctText(f.maxDrawdown60d)}`,
+    `trend ${f.trend ?? 'n/a'}`,
+    `>50dma ${f.above50dma ?? 'n/a'}`,
+    `>200dma ${f.above200dma ?? 'n/a'}`,
+    `atr ${pctText(f.atr14Pct)}`,
+    `adv $${f.avgDollarVolume20d !== undefined ? (f.avgDollarVolume20d / 1e6).toFixed(1) + 'M' : 'n/a'}`,
+    `gapDownMax ${pctText(f.gapDownMax20d)}`
+  ].join(', ');
+
+type PromptContext = Omit<Partial<LLMContextPacket>, 'contextMeta'>;
+
+const renderSections = (
+  asOf: string,
+  universe: string[],
+  config: BotConfig,
+  portfolio: PortfolioState,
+  ctx: PromptContext | undefined,
+  variant: LLMPromptVariant
+): Record<string, string> => {
+  const quotes = ctx?.quotes ?? {};
+  const holdings = portfolio.holdings.map((h) => {
+    const px = quotes[h.symbol];
+    const value = px !== undefined ? `, value ${(h.quantity * px).toFixed(2)}` : '';
+    return `- ${h.symbol}: ${h.quantity} @ ${h.avgPrice.toFixed(2)}${value}`;
+  });
+  return {
+    asOf,
+    universe: universe.join(', '),
+    portfolio: [`Cash ${portfolio.cash.toFixed(2)}, equity ${portfolio.equity.toFixed(2)}`, ...holdings].join('\n'),
+    constraints: [
+      `max positions ${config.maxPositions}, max trades per run ${config.maxTradesPerRun}`,
+      `min cash ${pctText(config.minCashPct)}, max position ${pctText(config.maxPositionPct)}, turnover cap ${pctText(
+        config.maxNotionalTradedPctPerRun
+      )}`,
+      `min hold hours ${config.minHoldHours}, drawdown stop ${pctText(config.maxWeeklyDrawdownPct)}, cadence ${config.cadence}`
+    ].join('\n'),
+    executionCapabilities: ctx?.executionCapabilities
+      ? `Fractional shares ${ctx.executionCapabilities.fractionalShares ? 'yes' : 'no'}, min executable notional $${ctx.executionCapabilities.minExecutableNotionalUSD}`
+      : '',
+    eligibility: Object.entries(ctx?.eligibility ?? {})
+      .map(([symbol, e]) =>
+        e.tradable ? `- ${symbol}: tradable, max $${e.maxNotional.toFixed(2)}` : `- ${symbol}: not tradable (${e.reason ?? 'no reason given'})`
+      )
+      .join('\n'),
+    regimes: ctx?.regimes ? JSON.stringify(ctx.regimes) : '',
+    macroPolicy: ctx?.macroPolicy ? JSON.stringify(ctx.macroPolicy) : '',
+    macro: (ctx?.macro ?? [])
+      .map((series) => {
+        const last = series.points[series.points.length - 1];
+        return last ? `- ${series.id}${series.title ? ` (${series.title})` : ''}: ${last.value} as of ${last.date}` : '';
+      })
+      .filter(Boolean)
+      .join('\n'),
+    marketMemo: ctx?.marketMemo ? JSON.stringify(ctx.marketMemo) : '',
+    features: (ctx?.features ?? []).map(featureLine).join('\n'),
+    quotes: Object.entries(quotes)
+      .map(([symbol, px]) => `${symbol} ${numText(px)}`)
+      .join(', '),
+    news: (ctx?.news ?? []).map((n) => `- ${[n.datetime, n.source].filter(Boolean).join(' ')}: ${n.headline}`).join('\n'),
+    dataQuality: ctx
+      ? Object.entries(ctx.dataQuality ?? {})
+          .flatMap(([round, flags]) => flags.map((f) => `- [${round}] ${f.severity.toUpperCase()} ${f.code}: ${f.message}`))
+          .join('\n')
+      : 'Context missing; focus on portfolio + constraints.',
+    variant: PROMPT_VARIANT_TEXT[variant]
+  };
+};
+
+// Relative template dirs are relative to the repo, not the working directory, so a run started elsewhere finds them.
+const REPO_ROOT = path.resolve(__dirname, '..', '..');
+
+export const resolveTemplatesDir = (config: BotConfig) => path.resolve(REPO_ROOT, config.prompt?.templatesDir ?? 'src/config/prompts');
+
+export const loadPromptTemplate = (config: BotConfig): { name: string; version: string; text: string; hash: string } => {
+  const name = config.prompt?.template ?? 'proposal.v1';
+  const file = path.join(resolveTemplatesDir(config), `${name}.md`);
+  if (!fs.existsSync(file)) throw new Error(`Prompt template not found: ${file}`);
+  const text = fs.readFileSync(file, 'utf-8');
+  return { name, version: name.slice(name.lastIndexOf('.') + 1), text, hash: sha256(text) };
+};
+
+const fillTemplate = (template: string, sections: Record<string, string>) =>
+  template
+    .replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+      if (!(key in sections)) throw new Error(`Prompt template uses unknown section {{${key}}}`);
+      // The variant line is simply absent for the base prompt; other empty sections say so.
+      return sections[key] || (key === 'variant' ? '' : 'None.');
+    })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Renders the configured template over the run's llm_context.json. When the prompt is over
+ * `prompt.tokenBudget`, context is dropped in the same order the Round 4 packet uses.
+ */
+export const renderLLMPrompt = (
   asOf: string,
   universe: string[],
   config: BotConfig,
-  portfolio: PortfolioState
-): string => {
+  portfolio: PortfolioState,
+  variant: LLMPromptVariant = 'base'
+): { prompt: string; record: PromptRecord } => {
+  const template = loadPromptTemplate(config);
   const runId = asOf.replace(/:/g, '-');
-  const ctxPath = path.resolve(process.cwd(), 'runs', runId, 'llm_context.json');
-  let ctxSnippet = 'Context missing; focus on portfolio + constraints.';
-  if (fs.existsSync(ctxPath)) {
-    const raw = JSON.parse(fs.readFileSync(ctxPath, 'utf-8')) as LLMContextPacket;
-    const featureLines =
-      raw.features
-        ?.slice(0, 8)
-        ?.map(
-          (f) =>
-            `${f.symbol}: px ${f.price?.toFixed?.(2) ?? 'n/a'}, r60 ${
-              f.return60d !== undefined ? (f.return60d * 100).toFixed(1) : 'n/a'
-            }%, vol20 ${f.realizedVol20d !== undefined ? (f.realizedVol20d * 100).toFixed(1) : 'n/a'}%, trend ${f.trend ?? 'n/a'}`
-        )
-        .join('; ') ?? '';
-    const regimeLine = raw.regimes
-      ? `Regime -> growth ${raw.regimes.growth}, inflation ${raw.regimes.inflation}, policy ${raw.regimes.policy}, risk ${raw.regimes.risk}`
-      : '';
-    const macroLine = raw.macroPolicy ? `Macro policy: ${JSON.stringify(raw.macroPolicy).slice(0, 300)}` : '';
-    ctxSnippet = [featureLines, regimeLine, macroLine].filter(Boolean).join('\n');
-  }
-  const constraintLine = `Constraints: max positions ${config.maxPositions}, min cash ${(config.minCashPct * 100).toFixed(
-    1
-  )}%, max position ${(config.maxPositionPct * 100).toFixed(1)}%, turnover cap ${(config.maxNotionalTradedPctPerRun * 100).toFixed(
-    1
-  )}%, min hold hours ${config.minHoldHours}, drawdown stop ${(config.maxWeeklyDrawdownPct * 100).toFixed(1)}%`;
-  return [
-    'You are a disciplined ETF allocator.',
-    `Date: ${asOf}`,
-    `Universe: ${universe.join(', ')}`,
-    `Capital: ${portfolio.cash.toFixed(2)} cash, equity ${portfolio.equity.toFixed(2)}`,
-    constraintLine,
-    ctxSnippet,
-    'Respond ONLY with JSON matching the trade intent schema. Schema: {"asOf": string, "universe": string[], "orders":[{"symbol": string (must be in universe), "side":"BUY"|"SELL", "orderType":"MARKET"|"LIMIT", "notionalUSD": number>0, "thesis": string<=400, "invalidation": string<=200, "confidence": number 0..1, "portfolioLevel":{"targetHoldDays":int,"netExposureTarget":0..1}}]}'
-  ].join('\n');
+  const ctxPath = path.join(getRunDir(runId), 'llm_context.json');
+  const packet = fs.existsSync(ctxPath) ? (JSON.parse(fs.readFileSync(ctxPath, 'utf-8')) as LLMContextPacket) : undefined;
+  const tokenBudget = config.prompt?.tokenBudget ?? 12000;
+  const render = (ctx: PromptContext | undefined) =>
+    fillTemplate(template.text, renderSections(asOf, universe, config, portfolio, ctx, variant));
+
+  const fitted = packet
+    ? truncateToFit<PromptContext>(packet, (candidate) => estimateTokens(render(candidate)) <= tokenBudget)
+    : { packet: undefined, dropped: [] as string[] };
+  const prompt = render(fitted.packet);
+  const dropped = fitted.dropped;
+  const estimatedTokens = estimateTokens(prompt);
+  const record: PromptRecord = {
+    template: template.name,
+    templateVersion: template.version,
+    templateHash: template.hash,
+    promptVariant: variant,
+    promptHash: sha256(prompt),
+    ...(packet?.contextMeta?.lineage?.round4Hash ? { contextHash: packet.contextMeta.lineage.round4Hash } : {}),
+    estimatedTokens,
+    tokenBudget,
+    dropped,
+    overBudget: estimatedTokens > tokenBudget
+  };
+  return { prompt, record };
 };
+
+export const buildLLMPrompt = (
+  asOf: string,
+  universe: string[],
+  config: BotConfig,
+  portfolio: PortfolioState,
+  variant: LLMPromptVariant = 'base'
+): string => renderLLMPrompt(asOf, universe, config, portfolio, variant).prompt;
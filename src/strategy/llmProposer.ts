@@ -1,14 +1,13 @@
-import { BotConfig, PortfolioState, ProposalResult, TradeIntent, TradeOrder } from '../core/types';
+import { BotConfig, LLMEnsembleMember, PortfolioState, PromptRecord, ProposalResult, ProposalSample, TradeIntent, TradeOrder } from '../core/types';
 import { MarketDataProvider } from '../data/marketData.types';
-import { buildLLMPrompt } from './llmPrompt';
+import { renderLLMPrompt } from './llmPrompt';
 import { mulberry32 } from '../core/utils';
 import { seedFromDate } from '../core/time';
 import { validateTradeIntent } from '../core/schema';
-import { getLLMClient } from './openaiClient';
+import { LLMCallRecord, LLMClient, createLLMClient, defaultProviderName, getLLMClient, isRealLLMEnabled } from './llmClients';
+import { buildEnsembleConsensus } from './llmEnsemble';
 
-export interface LLMClient {
-  complete(prompt: string): Promise<string>;
-}
+export type { LLMClient } from './llmClients';
 
 export class StubLLMClient implements LLMClient {
   private asOf: string;
@@ -68,6 +67,101 @@ const cleanLLMJson = (raw: string): string => {
   return trimmed;
 };
 
+type ProposalOutcome =
+  | { success: true; result: ProposalResult; calls: LLMCallRecord[] }
+  | { success: false; errors: string[]; raw?: unknown; calls: LLMCallRecord[] };
+
+const requestIntent = async (
+  client: LLMClient,
+  prompt: string,
+  universe: string[],
+  temperature?: number
+): Promise<{ success: true; intent: TradeIntent } | { success: false; errors: string[]; raw?: unknown }> => {
+  try {
+    const response = await client.complete(prompt, { json: true, ...(temperature !== undefined ? { temperature } : {}) });
+    const parsed = JSON.parse(cleanLLMJson(response));
+    const validation = validateTradeIntent(parsed, universe);
+    if (validation.success) return { success: true, intent: validation.value };
+    return { success: false, errors: validation.errors, raw: parsed };
+  } catch (err) {
+    return { success: false, errors: [(err as Error).message] };
+  }
+};
+
+const generateEnsembleProposal = async (
+  asOf: string,
+  universe: string[],
+  config: BotConfig,
+  portfolio: PortfolioState,
+  marketData: MarketDataProvider,
+  client?: LLMClient
+): Promise<ProposalOutcome> => {
+  const ensemble = config.llm?.ensemble ?? {};
+  const sampleCount = ensemble.samples ?? 1;
+  const members: LLMEnsembleMember[] = ensemble.members?.length ? ensemble.members : [{}];
+  const real = !client && isRealLLMEnabled();
+  const stub = new StubLLMClient(asOf, universe, config, portfolio, marketData);
+  const clients = new Map<string, LLMClient | Error>();
+  const clientFor = (provider: string): LLMClient | Error => {
+    if (client) return client;
+    if (!real) return stub;
+    if (!clients.has(provider)) {
+      try {
+        clients.set(provider, createLLMClient(provider, config.llm));
+      } catch (err) {
+        clients.set(provider, err as Error);
+      }
+    }
+    return clients.get(provider)!;
+  };
+
+  const samples: ProposalSample[] = [];
+  const prompts: PromptRecord[] = [];
+  for (let index = 0; index < sampleCount; index++) {
+    const member = members[index % members.length];
+    const provider = member.provider ?? (real || client ? defaultProviderName(config) : 'stub');
+    const promptVariant = member.promptVariant ?? 'base';
+    const sample: ProposalSample = { index, provider, promptVariant, valid: false };
+    if (member.temperature !== undefined) sample.temperature = member.temperature;
+    const sampleClient = clientFor(provider);
+    if (sampleClient instanceof Error) {
+      samples.push({ ...sample, errors: [sampleClient.message] });
+      continue;
+    }
+    let prompt: string;
+    try {
+      const rendered = renderLLMPrompt(asOf, universe, config, portfolio, promptVariant);
+      prompt = rendered.prompt;
+      sample.promptHash = rendered.record.promptHash;
+      if (!prompts.some((p) => p.promptHash === rendered.record.promptHash)) prompts.push(rendered.record);
+    } catch (err) {
+      samples.push({ ...sample, errors: [(err as Error).message] });
+      continue;
+    }
+    const outcome = await requestIntent(sampleClient, prompt, universe, member.temperature);
+    const model = sampleClient.calls?.[sampleClient.calls.length - 1]?.model;
+    if (model) sample.model = model;
+    samples.push(outcome.success ? { ...sample, valid: true, intent: outcome.intent } : { ...sample, errors: outcome.errors });
+  }
+
+  const calls = [client, ...clients.values()].flatMap((c) => (c && !(c instanceof Error) ? c.calls ?? [] : []));
+  const consensus = buildEnsembleConsensus(samples, portfolio.equity, {
+    asOf,
+    universe,
+    maxDisagreement: ensemble.maxDisagreement ?? 0.35
+  });
+  const minValid = Math.min(ensemble.minValidSamples ?? 2, sampleCount);
+  const proposalEnsemble = { samples, metrics: consensus.metrics, flags: consensus.flags };
+  if (consensus.metrics.validSamples < minValid) {
+    const errors = [
+      `only ${consensus.metrics.validSamples} of ${sampleCount} proposal samples were valid (need ${minValid})`,
+      ...samples.flatMap((s) => (s.errors ?? []).map((e) => `sample ${s.index}: ${e}`))
+    ];
+    return { success: false, errors, raw: proposalEnsemble, calls };
+  }
+  return { success: true, result: { strategy: 'llm', intent: consensus.intent, ensemble: proposalEnsemble, prompts }, calls };
+};
+
 export const generateLLMProposal = async (
   asOf: string,
   universe: string[],
@@ -75,20 +169,19 @@ export const generateLLMProposal = async (
   portfolio: PortfolioState,
   marketData: MarketDataProvider,
   client?: LLMClient
-): Promise<{ success: true; result: ProposalResult } | { success: false; errors: string[]; raw?: unknown }> => {
-  const prompt = buildLLMPrompt(asOf, universe, config, portfolio);
-  const realClient = getLLMClient();
-  const llmClient = client ?? realClient ?? new StubLLMClient(asOf, universe, config, portfolio, marketData);
+): Promise<ProposalOutcome> => {
+  if ((config.llm?.ensemble?.samples ?? 1) > 1) {
+    return generateEnsembleProposal(asOf, universe, config, portfolio, marketData, client);
+  }
+  let rendered: ReturnType<typeof renderLLMPrompt>;
   try {
-    const response = await llmClient.complete(prompt);
-    const cleaned = cleanLLMJson(response);
-    const parsed = JSON.parse(cleaned);
-    const validation = validateTradeIntent(parsed, universe);
-    if (validation.success) {
-      return { success: true, result: { strategy: 'llm', intent: validation.value } };
-    }
-    return { success: false, errors: validation.errors, raw: parsed };
+    rendered = renderLLMPrompt(asOf, universe, config, portfolio);
   } catch (err) {
-    return { success: false, errors: [(err as Error).message] };
+    return { success: false, errors: [(err as Error).message], calls: [] };
   }
+  const llmClient: LLMClient = client ?? getLLMClient(config) ?? new StubLLMClient(asOf, universe, config, portfolio, marketData);
+  const outcome = await requestIntent(llmClient, rendered.prompt, universe);
+  const calls = llmClient.calls?.slice() ?? [];
+  if (outcome.success) return { success: true, result: { strategy: 'llm', intent: outcome.intent, prompts: [rendered.record] }, calls };
+  return { ...outcome, calls };
 };
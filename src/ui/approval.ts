@@ -1,6 +1,7 @@
 import { BotConfig, LedgerEvent } from '../core/types';
-import { RunStatus, getRunStatus, getEvents } from '../ledger/ledger';
-import { getCurrentRebalanceWindow, getRebalanceKey, isRebalanceDay } from '../core/time';
+import { RunStatus, getRunStatus, getEvents, findWindowExecution } from '../ledger/ledger';
+import { getCurrentRebalanceWindow, isRebalanceDay } from '../core/time';
+import { eventsForAccount, splitRunId } from '../core/accounts';
 
 export interface ApprovalEligibility {
   eligible: boolean;
@@ -8,6 +9,8 @@ export interface ApprovalEligibility {
   alreadyExecutedRunId?: string;
   rebalanceKey: string;
   isRebalanceDay: boolean;
+  // Trading session the current window's rebalance lands on (rolled past market holidays).
+  rebalanceSession: string;
   window: { startISO: string; endISO: string };
 }
 
@@ -18,7 +21,7 @@ interface EligibilityOptions {
 }
 
 const reasonTexts: Record<string, string> = {
-  NOT_REBALANCE_DAY: 'Today is not the configured rebalance day.',
+  NOT_REBALANCE_DAY: 'Today is not the rebalance session (configured day, rolled to the next trading session on market holidays).',
   ALREADY_EXECUTED_THIS_WINDOW: 'A proposal already executed in this rebalance window.',
   RUN_ALREADY_EXECUTED: 'This run already executed.',
   UNKNOWN: 'Ineligible for unknown reason.'
@@ -34,7 +37,8 @@ export const computeApprovalEligibility = (
   opts: EligibilityOptions = {}
 ): ApprovalEligibility => {
   const now = opts.now ?? new Date();
-  const events = opts.events ?? getEvents();
+  // A rebalance window is used up per account, so only this run's account counts.
+  const events = opts.events ?? eventsForAccount(getEvents(), splitRunId(runId).accountId);
   const status = opts.runStatus ?? getRunStatus(runId);
   const rebalanceDay = cfg.rebalanceDay || 'WEDNESDAY';
   const window = getCurrentRebalanceWindow(now, rebalanceDay);
@@ -47,19 +51,8 @@ export const computeApprovalEligibility = (
     reasons.push('RUN_ALREADY_EXECUTED');
   }
 
-  let alreadyExecutedRunId: string | undefined;
-  const executed = events.find((evt) => {
-    if (evt.type !== 'EXECUTION_SENT_TO_BROKER') return false;
-    const evtKey =
-      (evt.details?.rebalanceKey as string) || getRebalanceKey(new Date(evt.timestamp), rebalanceDay);
-    const tsIso = new Date(evt.timestamp).toISOString();
-    const inWindow = tsIso >= window.startISO && tsIso < window.endISO;
-    if (evtKey === window.key || inWindow) {
-      alreadyExecutedRunId = evt.runId;
-      return true;
-    }
-    return false;
-  });
+  const executed = findWindowExecution(events, now, rebalanceDay);
+  const alreadyExecutedRunId = executed?.runId;
   if (executed && alreadyExecutedRunId !== runId) {
     reasons.push('ALREADY_EXECUTED_THIS_WINDOW');
   }
@@ -70,6 +63,7 @@ export const computeApprovalEligibility = (
     alreadyExecutedRunId,
     rebalanceKey: window.key,
     isRebalanceDay: isDay,
+    rebalanceSession: window.session,
     window: { startISO: window.startISO, endISO: window.endISO }
   };
 };
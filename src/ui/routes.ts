@@ -6,7 +6,12 @@ import { getMarketDataProvider } from '../data/marketData';
 import { buildEquityCurve } from '../analytics/performance';
 import { getRecentRuns, getRunStatus, getEvents, getEventsForRun, appendEvent, makeEvent } from '../ledger/ledger';
 import { readRunArtifact, writeRunArtifact } from '../ledger/storage';
+import { LedgerVerification, latestLedgerVerification } from '../ledger/ledgerVerify';
+import { getPortfolioAt } from '../ledger/portfolioProjection';
 import { executeOrders } from '../execution/executionEngine';
+import { ApprovalRevalidation, revalidatePendingOrders } from '../execution/approvalRevalidation';
+import { syncRunOrders } from '../execution/orderLifecycle';
+import { ExecutionReport } from '../execution/limitPricing';
 import { getBroker } from '../broker/broker';
 import { BotConfig, LLMContextPacket, TradeOrder } from '../core/types';
 import { getStatus as getAuthStatus, connectStart, connectFinish, renewIfPossible } from '../broker/etrade/authService';
@@ -19,9 +24,13 @@ import {
   buildRound4Context
 } from '../cli/contextBuilder';
 import { parseAsOfDateTime, runIdToAsOf, getRebalanceKey, isRebalanceDay, getCurrentRebalanceWindow } from '../core/time';
+import { rebalanceSlot } from '../core/calendar';
+import { readDaemonStatus } from '../scheduler/daemon';
 import { runBot } from '../cli/run';
 import { preflightAuth } from '../broker/etrade/authService';
 import { computeApprovalEligibility, describeReasons } from './approval';
+import { accountRunId, eventsForAccount, loadAccounts, resolveAccount, splitRunId } from '../core/accounts';
+import { cashFlowsFromEvents, parseCashFlowType, recordCashFlow } from '../ledger/cashFlows';
 
 const viewDir = path.resolve(__dirname, 'views');
 
@@ -38,6 +47,14 @@ const viewDir = path.resolve(__dirname, 'views');
 
 const formatNumber = (val: number) => val.toLocaleString(undefined, { maximumFractionDigits: 2 });
 
+// For free text typed into forms (cash flow notes) before it is echoed back into a page.
+const escapeHtml = (val: string) =>
+  val.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] as string);
+
+const pctCell = (val?: number) => (val === undefined ? '—' : `${(val * 100).toFixed(2)}%`);
+const usdCell = (val?: number) => (val === undefined ? '—' : `$${val.toFixed(2)}`);
+const sharesCell = (val: number) => (Number.isInteger(val) ? String(val) : val.toFixed(4));
+
 const bannerForStatus = () => {
   const status = getAuthStatus();
   let className = 'banner-red';
@@ -55,18 +72,50 @@ const bannerForStatus = () => {
   return `<div class="banner ${className}">${text}</div>`;
 };
 
-const nextRebalanceString = (cfg: BotConfig): string => {
-  if (cfg.cadence === 'hourly') return 'Hourly enabled (opt-in via --asof timestamp).';
+const renderRevalidation = (revalidation: ApprovalRevalidation, confirmForm: string) => {
+  const diffRows =
+    revalidation.diff
+      .map(
+        (d) =>
+          `<tr><td>${d.symbol}</td><td>${d.side}</td><td>${d.change}</td><td>${usdCell(d.originalPrice)}</td><td>${usdCell(
+            d.price
+          )}</td><td>${pctCell(d.priceDriftPct)}</td><td>${sharesCell(d.originalShares)}</td><td>${sharesCell(d.shares)}</td><td>${usdCell(
+            d.originalNotionalUSD
+          )}</td><td>${usdCell(d.notionalUSD)}</td><td>${d.reason ?? ''}</td></tr>`
+      )
+      .join('') || '<tr><td colspan="11">No orders</td></tr>';
+  const verdict = revalidation.executable
+    ? '<div class="banner banner-yellow">Orders changed since the proposal. Review the revalidated orders before executing.</div>'
+    : `<div class="banner banner-red">Execution refused:<ul>${revalidation.blockedReasons
+        .map((r) => `<li>${escapeHtml(r)}</li>`)
+        .join('')}</ul></div>`;
+  return renderTemplate('revalidation', {
+    runId: revalidation.runId,
+    proposalAsOf: revalidation.proposalAsOf,
+    revalidatedAt: revalidation.revalidatedAt,
+    ageHours: revalidation.proposalAgeHours.toFixed(1),
+    cash: formatNumber(revalidation.portfolio.cash),
+    equity: formatNumber(revalidation.portfolio.equity),
+    verdict,
+    diffRows,
+    confirmForm,
+    banner: bannerForStatus()
+  });
+};
+
+const nextRebalanceString = (cfg: BotConfig, accountId: string): string => {
+  const daemon = readDaemonStatus(getEvents(), cfg, new Date(), accountId);
+  const missed = daemon.lastMissed ? ` Last missed: ${daemon.lastMissed.runId} (session ${daemon.lastMissed.session}).` : '';
+  if (daemon.alive && daemon.next) {
+    return `${daemon.next.session} — daemon dumps at ${daemon.next.dumpAt}, trades at ${daemon.next.tradeAt}.${missed}`;
+  }
+  if (cfg.cadence === 'hourly') return `Hourly enabled (opt-in via --asof timestamp).${missed}`;
   const target = cfg.rebalanceDay?.toUpperCase?.() ?? 'FRIDAY';
-  const days = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
-  const today = new Date();
-  const idx = days.indexOf(target);
-  const todayIdx = today.getUTCDay();
-  if (idx === -1) return `Next: ${target}`;
-  let delta = idx - todayIdx;
-  if (delta <= 0) delta += 7;
-  const next = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + delta));
-  return `${next.toISOString().slice(0, 10)} (${target})`;
+  const today = new Date().toISOString().slice(0, 10);
+  const slot = rebalanceSlot(today, target);
+  const next = slot.session === today ? today : slot.nextSession;
+  const daemonNote = daemon.lastHeartbeatISO ? ` Daemon not running (last heartbeat ${daemon.lastHeartbeatISO}).` : '';
+  return `${next} (${target}, next trading session)${daemonNote}${missed}`;
 };
 
 const normalizeMode = (m?: string): 'paper' | 'live' | 'backtest' => {
@@ -93,17 +142,25 @@ const writeRoundState = (runId: string, round: number) => {
   fs.writeFileSync(statePath, JSON.stringify({ lastCompletedRound: round }, null, 2));
 };
 
+const ledgerIntegrityBadge = (result: LedgerVerification) =>
+  result.ok
+    ? `<div class="banner banner-green">Ledger verified: ${result.chainedEvents} chained events, ${result.artifactsChecked} artifacts</div>`
+    : `<div class="banner banner-red">Ledger integrity: ${result.issues.length} issue(s) found</div>`;
+
 export const registerRoutes = (app: express.Application, csrfToken: string) => {
   const configPath = path.resolve(process.cwd(), 'src/config/default.json');
-  const config: BotConfig = loadConfig(configPath);
-  const universe = loadUniverse(path.resolve(process.cwd(), config.universeFile));
   const encryptionEnabled = Boolean(process.env.TOKEN_STORE_ENCRYPTION_KEY);
+  // Runs carry their account in the runId, so run routes pick the account's config from req.params.date.
+  const configForRun = (runId: string): BotConfig => loadConfig(configPath, splitRunId(runId).accountId);
 
-  app.get('/', async (_req, res) => {
+  app.get('/', async (req, res) => {
+    const accounts = loadAccounts();
+    const account = resolveAccount(req.query.account as string | undefined, accounts);
+    const config = loadConfig(configPath, account.id);
     const marketData = getMarketDataProvider();
-    const curve = await buildEquityCurve(config, marketData);
+    const curve = await buildEquityCurve(config, marketData, account.id);
     const latest = curve[curve.length - 1];
-    const runs = getRecentRuns(20);
+    const runs = getRecentRuns(20, account.id);
     // Prefer most recent run's inputs for current equity snapshot (live portfolio if available)
     let latestEquity = latest ? latest.equity : undefined;
     if (runs.length) {
@@ -116,7 +173,16 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     const rows = runs
       .map((r) => `<tr><td><a href="/runs/${r.runId}">${r.runId}</a></td><td>${r.status}</td></tr>`)
       .join('');
-    const nextReb = nextRebalanceString(config);
+    const nextReb = nextRebalanceString(config, account.id);
+    const accountTabs = accounts
+      .map((a) =>
+        a.id === account.id ? `<strong>${a.label}</strong>` : `<a href="/?account=${encodeURIComponent(a.id)}">${a.label}</a>`
+      )
+      .join(' | ');
+    const pending = getRecentRuns(50, account.id).filter((r) => r.status === 'PENDING_APPROVAL');
+    const approvalQueue = pending
+      .map((r) => `<li><a href="/runs/${r.runId}">${r.runId}</a></li>`)
+      .join('');
     let regimeSnippet = 'n/a';
     let macroSnippet = 'n/a';
     if (runs.length) {
@@ -129,12 +195,38 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
         macroSnippet = JSON.stringify(ctx.macroPolicy);
       }
     }
+    const cashFlows = cashFlowsFromEvents(eventsForAccount(getEvents(), account.id))
+      .slice(-10)
+      .reverse()
+      .map(
+        (f) =>
+          `<tr><td>${f.effectiveAt.slice(0, 10)}</td><td>${f.type}</td><td>${formatNumber(f.amount)}</td><td>${escapeHtml(f.symbol ?? '')}</td><td>${escapeHtml(f.note ?? '')}</td></tr>`
+      )
+      .join('');
+    const requestedAsOf = String(req.query.portfolioAsOf ?? '');
+    const portfolioAsOf = /^\d{4}-\d{2}-\d{2}$/.test(requestedAsOf) ? requestedAsOf : new Date().toISOString().slice(0, 10);
+    const portfolio = getPortfolioAt(portfolioAsOf, config, account.id);
+    const portfolioHoldings = Object.entries(portfolio.positions)
+      .map(
+        ([symbol, pos]) =>
+          `<tr><td>${escapeHtml(symbol)}</td><td>${formatNumber(pos.quantity)}</td><td>${formatNumber(pos.costBasis)}</td><td>${formatNumber(pos.sleeves.base)}</td><td>${formatNumber(pos.sleeves.dislocation)}</td><td>${pos.since?.slice(0, 10) ?? ''}</td></tr>`
+      )
+      .join('');
     const content = renderTemplate('dashboard', {
       equity: latestEquity !== undefined ? formatNumber(latestEquity) : latest ? formatNumber(latest.equity) : 'n/a',
       drawdown: latest ? (latest.drawdown * 100).toFixed(2) : '0',
       exposure: latest ? (latest.exposure * 100).toFixed(2) : '0',
       runs: rows || '<tr><td colspan="2">No runs yet</td></tr>',
+      accountId: account.id,
+      accountLabel: account.label,
+      accountTabs,
+      approvalQueue: approvalQueue || '<li>Nothing awaiting approval</li>',
       defaultAsOf: new Date().toISOString().slice(0, 16),
+      defaultFlowDate: new Date().toISOString().slice(0, 10),
+      cashFlows: cashFlows || '<tr><td colspan="5">No cash flows recorded</td></tr>',
+      portfolioAsOf,
+      portfolioCash: formatNumber(portfolio.cash),
+      portfolioHoldings: portfolioHoldings || '<tr><td colspan="6">No holdings</td></tr>',
       csrfToken,
       banner: bannerForStatus(),
       nextRebalance: nextReb,
@@ -142,7 +234,8 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
       approval: config.requireApproval ? 'Approval required before execution.' : 'Auto-exec enabled.',
       warnAuto: config.requireApproval ? '' : 'Auto-exec enabled; review risk before trusting.',
       regime: regimeSnippet,
-      macro: macroSnippet
+      macro: macroSnippet,
+      ledgerIntegrity: ledgerIntegrityBadge(latestLedgerVerification())
     });
     res.send(content);
   });
@@ -226,7 +319,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
             .join('\n')
         : 'n/a';
     const macroLagNote =
-      config.round0MacroLagPolicy === 'summary_only'
+      configForRun(runId).round0MacroLagPolicy === 'summary_only'
         ? 'Macro lag tracked in summary; confidence adjusted in Round 2.'
         : '';
     const content = renderTemplate('rounds', {
@@ -276,11 +369,11 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
   });
 
   const ensureRound0 = async (asOf: string, runId: string, mode: string) => {
-    const configPath = path.resolve(process.cwd(), 'src/config/default.json');
-    const cfg: BotConfig = loadConfig(configPath);
+    const accountId = splitRunId(runId).accountId;
+    const cfg: BotConfig = loadConfig(configPath, accountId);
     const universe = loadUniverse(path.resolve(process.cwd(), cfg.universeFile));
     const md = getMarketDataProvider(mode as any);
-    const broker = getBroker(cfg, md, mode as any);
+    const broker = getBroker(cfg, md, mode as any, accountId);
     await generateBaseArtifacts(asOf, runId, cfg, universe, md, { mode }, broker);
   };
 
@@ -385,6 +478,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     if ([round0Flags, round1Flags, round2Flags, round3Flags].some((f) => hasBlockingFlags(f))) {
       return res.status(400).send('Blocking flags present; fix inputs before running Round 5.');
     }
+    const config = configForRun(runId);
     try {
       await runBot({
         asof: asOfIso,
@@ -413,7 +507,8 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
   app.post('/actions/start-run', express.urlencoded({ extended: true }), async (req, res) => {
     if (req.body.csrfToken !== csrfToken) return res.status(403).send('Invalid CSRF token');
     try {
-      const { asOf, runId } = parseAsOfDateTime(req.body.asof);
+      const account = resolveAccount(req.body.account);
+      const runId = accountRunId(parseAsOfDateTime(req.body.asof).runId, account.id);
       const runDir = path.resolve(process.cwd(), 'runs', runId);
       if (!fs.existsSync(runDir)) {
         fs.mkdirSync(runDir, { recursive: true });
@@ -429,13 +524,15 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     if (req.body.csrfToken !== csrfToken) return res.status(403).send('Invalid CSRF token');
     const runId = req.params.date;
     const asOfIso = runIdToAsOf(runId);
+    const config = configForRun(runId);
     try {
       await runBot({
         asof: asOfIso,
         mode: 'paper',
         strategy: config.useLLM ? 'llm' : 'deterministic',
         force: true,
-        autoExec: !config.requireApproval
+        autoExec: !config.requireApproval,
+        accountId: splitRunId(runId).accountId
       });
       writeRoundState(runId, 5);
       return res.redirect(`/runs/${runId}`);
@@ -447,14 +544,19 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
   app.post('/actions/dump', express.urlencoded({ extended: true }), async (req, res) => {
     if (req.body.csrfToken !== csrfToken) return res.status(403).send('Invalid CSRF token');
     try {
-      const { asOf, runId } = parseAsOfDateTime(req.body.asof);
+      const account = resolveAccount(req.body.account);
+      const parsed = parseAsOfDateTime(req.body.asof);
+      const asOf = parsed.asOf;
+      const runId = accountRunId(parsed.runId, account.id);
       const mode = normalizeMode(req.body.mode);
       const auth = preflightAuth(mode);
       if (!auth.allow) {
         return res.status(400).send(auth.warning || 'Auth not active');
       }
+      const config = loadConfig(configPath, account.id);
+      const universe = loadUniverse(path.resolve(process.cwd(), config.universeFile));
       const marketData = getMarketDataProvider(mode);
-      const broker = getBroker(config, marketData, mode);
+      const broker = getBroker(config, marketData, mode, account.id);
       await generateBaseArtifacts(asOf, runId, config, universe, marketData, {}, broker);
       res.redirect(`/runs/${runId}`);
     } catch (err) {
@@ -465,15 +567,19 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
   app.post('/actions/propose', express.urlencoded({ extended: true }), async (req, res) => {
     if (req.body.csrfToken !== csrfToken) return res.status(403).send('Invalid CSRF token');
     try {
-      const { asOf, runId } = parseAsOfDateTime(req.body.asof);
+      const account = resolveAccount(req.body.account);
+      const parsed = parseAsOfDateTime(req.body.asof);
+      const runId = accountRunId(parsed.runId, account.id);
+      const config = loadConfig(configPath, account.id);
       const mode = normalizeMode(req.body.mode);
       const strategy = req.body.strategy || (config.useLLM ? 'llm' : 'deterministic');
       await runBot({
-        asof: asOf,
+        asof: parsed.asOf,
         mode,
         strategy,
         force: true,
-        autoExec: !config.requireApproval
+        autoExec: !config.requireApproval,
+        accountId: account.id
       });
       res.redirect(`/runs/${runId}`);
     } catch (err) {
@@ -481,6 +587,25 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     }
   });
 
+  app.post('/actions/cash-flow', express.urlencoded({ extended: true }), (req, res) => {
+    if (req.body.csrfToken !== csrfToken) return res.status(403).send('Invalid CSRF token');
+    try {
+      const account = resolveAccount(req.body.account);
+      recordCashFlow(
+        {
+          type: parseCashFlowType(String(req.body.type ?? '')),
+          amount: Number(req.body.amount),
+          effectiveAt: req.body.date ? `${req.body.date}T00:00:00Z` : new Date().toISOString(),
+          symbol: req.body.symbol || undefined,
+          note: req.body.note || undefined
+        },
+        account.id
+      );
+      res.redirect(`/?account=${encodeURIComponent(account.id)}`);
+    } catch (err) {
+      res.status(400).send(`Cash flow not recorded: ${(err as Error).message}`);
+    }
+  });
 
   app.get('/runs/:date', async (req, res) => {
     const runId = req.params.date;
@@ -493,6 +618,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     const orders = readRunArtifact<TradeOrder[]>(runId, 'orders.json') || [];
     const fills = readRunArtifact<Record<string, unknown>[]>(runId, 'fills.json') || [];
     const placements = readRunArtifact<Record<string, unknown>[]>(runId, 'placements.json') || [];
+    const executionReport = readRunArtifact<ExecutionReport>(runId, 'execution_report.json');
     const llmContext = readRunArtifact<Record<string, unknown>>(runId, 'llm_context.json');
     const meta = readRunArtifact<Record<string, unknown>>(runId, 'context_meta.json');
     const asOfIso = runIdToAsOf(runId);
@@ -559,6 +685,20 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
             .join('')
         : '<tr><td colspan="6">No orders</td></tr>';
 
+    const executionRows = executionReport?.orders.length
+      ? executionReport.orders
+          .map(
+            (r) =>
+              `<tr><td>${r.symbol}</td><td>${r.side}</td><td>${r.orderType}${r.limitPrice ? ` @ ${r.limitPrice.toFixed(2)}` : ''}</td><td>${r.filledQuantity.toFixed(
+                4
+              )}</td><td>${r.arrivalPrice.toFixed(2)}</td><td>${r.avgFillPrice.toFixed(2)}</td><td>${r.slippageBps.toFixed(1)}</td><td>$${r.slippageUSD.toFixed(2)}</td></tr>`
+          )
+          .join('') +
+        `<tr><td colspan="6"><strong>Total</strong> ($${executionReport.totals.filledNotional.toFixed(2)} filled)</td><td>${executionReport.totals.slippageBps.toFixed(
+          1
+        )}</td><td>$${executionReport.totals.slippageUSD.toFixed(2)}</td></tr>`
+      : '<tr><td colspan="8">No fills</td></tr>';
+
     const rebalanceRows =
       rebalance && (rebalance as any).combinedOrders && Array.isArray((rebalance as any).combinedOrders)
         ? (rebalance as any).combinedOrders
@@ -623,6 +763,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     ];
     const timeline = stages.map((s) => `<li>${s.ok ? '✅' : '⏳'} ${s.name}</li>`).join('');
 
+    const config = configForRun(runId);
     const eligibility = computeApprovalEligibility(runId, config);
     const eligibilityReasons = eligibility.reasons.length
       ? `<ul>${describeReasons(eligibility.reasons)
@@ -651,7 +792,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
         ? eligibility.eligible
           ? `<div class="card">
                <div><strong>Approval gating</strong></div>
-              <div>Rebalance day: ${config.rebalanceDay || 'WEDNESDAY'} | Window: ${eligibility.window.startISO} → ${eligibility.window.endISO}</div>
+              <div>Rebalance day: ${config.rebalanceDay || 'WEDNESDAY'} (session ${eligibility.rebalanceSession}) | Window: ${eligibility.window.startISO} → ${eligibility.window.endISO}</div>
                ${eligibilityReasons}
                <form method="POST" action="/runs/${runId}/approve">
                   <input type="hidden" name="csrfToken" value="${csrfToken}"/>
@@ -662,7 +803,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
              </div>`
           : `<div class="card">
                <div><strong>Approval gating</strong></div>
-              <div>Rebalance day: ${config.rebalanceDay || 'WEDNESDAY'} | Window: ${eligibility.window.startISO} → ${eligibility.window.endISO}</div>
+              <div>Rebalance day: ${config.rebalanceDay || 'WEDNESDAY'} (session ${eligibility.rebalanceSession}) | Window: ${eligibility.window.startISO} → ${eligibility.window.endISO}</div>
                ${eligibilityReasons}
                <form method="POST" action="/runs/${runId}/approve?override=1">
                   <input type="hidden" name="csrfToken" value="${csrfToken}"/>
@@ -688,6 +829,7 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
       events,
       approval: approveButtons,
       orderTable: orderRows,
+      executionRows,
       rebalanceRows,
       featureRows,
       riskSummary,
@@ -700,9 +842,14 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     res.send(content);
   });
 
+  app.get('/daemon/status', (req, res) => {
+    const account = resolveAccount(req.query.account as string | undefined);
+    res.json(readDaemonStatus(getEvents(), loadConfig(configPath, account.id), new Date(), account.id));
+  });
+
   app.get('/runs/:date/approval-eligibility', (req, res) => {
     const runId = req.params.date;
-    const eligibility = computeApprovalEligibility(runId, config);
+    const eligibility = computeApprovalEligibility(runId, configForRun(runId));
     res.json(eligibility);
   });
 
@@ -715,25 +862,53 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     if (status === 'COMPLETED' || status === 'REJECTED') {
       return res.redirect(`/runs/${runId}`);
     }
-    const orders = readRunArtifact<TradeOrder[]>(runId, 'orders.json') || [];
+    let orders = readRunArtifact<TradeOrder[]>(runId, 'orders.json') || [];
     const asOfIso = runIdToAsOf(runId);
     const mode = normalizeMode(req.body.mode || (req.query as any)?.mode || process.env.UI_DEFAULT_MODE);
     const marketData = getMarketDataProvider(mode as any);
-    const config: BotConfig = loadConfig(configPath);
-    const broker = getBroker(config, marketData, mode as any);
+    const config: BotConfig = configForRun(runId);
+    const accountId = splitRunId(runId).accountId;
+    const broker = getBroker(config, marketData, mode as any, accountId);
     const eligibility = computeApprovalEligibility(runId, config);
     const override = req.query.override === '1';
     const confirmed = (req.body.confirm || '').trim().toUpperCase() === 'APPROVE';
-    if (!eligibility.eligible) {
-      if (!override || !confirmed) {
-        return res
-          .status(409)
-          .send(
-            `Approval blocked: ${describeReasons(eligibility.reasons).join(
-              '; '
-            )}. Rebalance day is ${config.rebalanceDay || 'WEDNESDAY'}. To override, resubmit with confirm=APPROVE.`
-          );
+    if (!eligibility.eligible && (!override || !confirmed)) {
+      return res
+        .status(409)
+        .send(
+          `Approval blocked: ${describeReasons(eligibility.reasons).join(
+            '; '
+          )}. Rebalance day is ${config.rebalanceDay || 'WEDNESDAY'}. To override, resubmit with confirm=APPROVE.`
+        );
+    }
+    if (config.approval?.revalidate !== false) {
+      const revalidation = await revalidatePendingOrders({ runId, proposalAsOf: asOfIso, orders, config, marketData, broker, accountId });
+      writeRunArtifact(runId, 'revalidation.json', revalidation);
+      appendEvent(
+        makeEvent(runId, 'APPROVAL_REVALIDATED', {
+          executable: revalidation.executable,
+          changed: revalidation.changed,
+          digest: revalidation.digest,
+          blockedReasons: revalidation.blockedReasons
+        })
+      );
+      // Changed orders need a second approval of exactly this revalidated set.
+      const confirmedDigest = req.body.revalidationDigest === revalidation.digest;
+      if (!revalidation.executable || (revalidation.changed && !confirmedDigest)) {
+        const confirmForm = revalidation.executable
+          ? `<form method="POST" action="/runs/${runId}/approve${override ? '?override=1' : ''}">
+              <input type="hidden" name="csrfToken" value="${csrfToken}"/>
+              <input type="hidden" name="mode" value="${mode}"/>
+              <input type="hidden" name="confirm" value="${escapeHtml(req.body.confirm || '')}"/>
+              <input type="hidden" name="revalidationDigest" value="${revalidation.digest}"/>
+              <button type="submit">Execute revalidated orders</button>
+             </form>`
+          : '';
+        return res.status(revalidation.executable ? 200 : 409).send(renderRevalidation(revalidation, confirmForm));
       }
+      orders = revalidation.orders;
+    }
+    if (!eligibility.eligible) {
       appendEvent(
         makeEvent(runId, 'APPROVAL_OVERRIDE_USED', {
           rebalanceKey: eligibility.rebalanceKey,
@@ -746,32 +921,28 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
     await executeOrders(runId, asOfIso, orders, broker, config, {
       dryRun: false,
       mode,
-      brokerProvider: (process.env.BROKER_PROVIDER || 'stub').toLowerCase()
+      brokerProvider: (process.env.BROKER_PROVIDER || 'stub').toLowerCase(),
+      marketData
     });
     appendEvent(makeEvent(runId, 'RUN_COMPLETED', { fills: orders.length }));
     res.redirect(`/runs/${runId}`);
   });
 
-  // Trigger fill sync for a run
+  // Trigger fill sync for a run: resumes its open orders (fills, timeouts, stale limit replaces)
   app.post('/runs/:date/sync-fills', express.urlencoded({ extended: true }), async (req, res) => {
     if (req.body.csrfToken !== csrfToken) {
       return res.status(403).send('Invalid CSRF token');
     }
     const runId = req.params.date;
-    const asOfIso = runIdToAsOf(runId);
     try {
       const placements = readRunArtifact<any[]>(runId, 'placements.json') || [];
       if (!placements.length) {
         return res.status(400).send('No placements.json found for this run.');
       }
-      const orderIds = placements.map((p) => String(p.orderId));
+      const config = configForRun(runId);
       const marketData = getMarketDataProvider('live' as any);
-      const broker = getBroker(config, marketData, 'live' as any);
-      const fills = await broker.getFills(orderIds, asOfIso);
-      writeRunArtifact(runId, 'fills.json', fills);
-      for (const fill of fills) {
-        appendEvent(makeEvent(runId, 'FILL_RECORDED', { fill }));
-      }
+      const broker = getBroker(config, marketData, 'live' as any, splitRunId(runId).accountId);
+      await syncRunOrders(runId, broker, config, { marketData });
       res.redirect(`/runs/${runId}`);
     } catch (err) {
       res.status(500).send(`Fill sync failed: ${(err as Error).message}`);
@@ -793,8 +964,14 @@ export const registerRoutes = (app: express.Application, csrfToken: string) => {
       .reverse()
       .map((e) => `<tr><td>${e.timestamp}</td><td>${e.runId}</td><td>${e.type}</td></tr>`)
       .join('');
+    const verification = latestLedgerVerification();
+    const issues = verification.issues
+      .map((i) => `<tr><td>${i.kind}</td><td>${i.line ?? ''}</td><td>${escapeHtml(i.message)}</td></tr>`)
+      .join('');
     const content = renderTemplate('ledger', {
       events: events || '<tr><td colspan="3">No events</td></tr>',
+      integrity: ledgerIntegrityBadge(verification),
+      integrityIssues: issues || '<tr><td colspan="3">No issues</td></tr>',
       csrfToken,
       banner: bannerForStatus()
     });
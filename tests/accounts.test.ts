@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { accountRunId, accountStateKey, loadAccounts, resolveAccount, splitRunId } from '../src/core/accounts';
+import { resolveConfig } from '../src/core/config';
+import { runIdToAsOf } from '../src/core/time';
+import { BotConfig } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { appendEvent, getRecentRuns, makeEvent } from '../src/ledger/ledger';
+import { StubBroker } from '../src/broker/broker.stub';
+
+const defaultPath = path.resolve(__dirname, '../src/config/default.json');
+const defaultJson = JSON.parse(fs.readFileSync(defaultPath, 'utf-8'));
+
+const flatMarket: MarketDataProvider = {
+  getQuote: async (symbol, asOf) => ({ symbol, price: 100, asOf }),
+  getHistory: async () => []
+};
+
+describe('account run ids', () => {
+  it('suffixes non-default accounts and leaves default runs untouched', () => {
+    expect(accountRunId('2025-01-08T21-00', 'ira')).toBe('2025-01-08T21-00@ira');
+    expect(accountRunId('2025-01-08T21-00@ira', 'ira')).toBe('2025-01-08T21-00@ira');
+    expect(accountRunId('2025-01-08T21-00')).toBe('2025-01-08T21-00');
+    expect(() => accountRunId('2025-01-08T21-00@ira', 'taxable')).toThrow(/belongs to account ira/);
+    expect(splitRunId('2025-01-08T21-00@ira')).toEqual({ baseRunId: '2025-01-08T21-00', accountId: 'ira' });
+    expect(runIdToAsOf('2025-01-08T21-00@ira')).toBe(runIdToAsOf('2025-01-08T21-00'));
+  });
+
+  it('loads the registry with the default account always present', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'));
+    const file = path.join(dir, 'accounts.json');
+    fs.writeFileSync(file, JSON.stringify([{ id: 'ira', label: 'Roth IRA', brokerAccountIdKey: 'abc' }]));
+    const accounts = loadAccounts(file);
+    expect(accounts.map((a) => a.id)).toEqual(['default', 'ira']);
+    expect(accountStateKey(resolveAccount('ira', accounts))).toBe('abc');
+    expect(() => resolveAccount('brokerage', accounts)).toThrow(/Unknown account "brokerage"/);
+    fs.writeFileSync(file, JSON.stringify([{ id: 'bad id' }]));
+    expect(() => loadAccounts(file)).toThrow(/0.id/);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('layers accounts/<id>.json over the base config', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'account-config-'));
+    const base = path.join(dir, 'default.json');
+    fs.writeFileSync(base, JSON.stringify(defaultJson));
+    fs.mkdirSync(path.join(dir, 'accounts'));
+    fs.writeFileSync(path.join(dir, 'accounts', 'ira.json'), JSON.stringify({ universeFile: 'src/config/universe.ira.json', maxPositions: 2 }));
+    const ira = resolveConfig(base, { env: {}, set: [], accountId: 'ira' });
+    expect(ira.config.maxPositions).toBe(2);
+    expect(ira.config.universeFile).toBe('src/config/universe.ira.json');
+    expect(resolveConfig(base, { env: {}, set: [], accountId: 'taxable' }).config.maxPositions).toBe(defaultJson.maxPositions);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('per-account ledger views', () => {
+  const tmpLedger = path.join(os.tmpdir(), `accounts-ledger-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  const recordFill = (runId: string, symbol: string, quantity: number) =>
+    appendEvent(
+      makeEvent(runId, 'FILL_RECORDED', {
+        fill: { orderId: `${runId}-${symbol}`, symbol, side: 'BUY', quantity, price: 100, notional: quantity * 100, timestamp: '2025-01-08T21:00:00.000Z' }
+      })
+    );
+
+  it('tags events and lists runs per account', () => {
+    expect(makeEvent('2025-01-08T21-00@ira', 'RUN_STARTED').accountId).toBe('ira');
+    expect(makeEvent('2025-01-08T21-00', 'RUN_STARTED').accountId).toBeUndefined();
+
+    appendEvent(makeEvent('2025-01-08T21-00', 'RUN_PENDING_APPROVAL'));
+    appendEvent(makeEvent('2025-01-08T21-00@ira', 'RUN_PENDING_APPROVAL'));
+    appendEvent(makeEvent('daemon@ira', 'DAEMON_HEARTBEAT'));
+    expect(getRecentRuns(10, 'ira')).toEqual([{ runId: '2025-01-08T21-00@ira', status: 'PENDING_APPROVAL' }]);
+    expect(getRecentRuns(10, 'default').map((r) => r.runId)).toEqual(['2025-01-08T21-00']);
+  });
+
+  it('rebuilds each account book from its own fills', async () => {
+    recordFill('2025-01-08T21-00', 'SPY', 10);
+    recordFill('2025-01-08T21-00@ira', 'QQQ', 5);
+    const config = { ...defaultJson, startingCapitalUSD: 10000 } as BotConfig;
+    // makeEvent stamps the current time, so read the books as of now.
+    const asOf = new Date().toISOString();
+    const taxable = await new StubBroker(config, flatMarket).getPortfolioState(asOf);
+    const ira = await new StubBroker(config, flatMarket, 'ira').getPortfolioState(asOf);
+    expect(taxable.holdings.map((h) => h.symbol)).toEqual(['SPY']);
+    expect(taxable.cash).toBe(9000);
+    expect(ira.holdings.map((h) => h.symbol)).toEqual(['QQQ']);
+    expect(ira.cash).toBe(9500);
+  });
+});
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, PortfolioState, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { Broker } from '../src/broker/broker.types';
+import { revalidatePendingOrders } from '../src/execution/approvalRevalidation';
+import { appendEvent, getRunStatus, makeEvent } from '../src/ledger/ledger';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, minCashPct: 0, maxPositionPct: 1, maxNotionalTradedPctPerRun: 1 } as BotConfig;
+
+const order = (symbol: string, side: 'BUY' | 'SELL', notionalUSD: number): TradeOrder => ({
+  symbol,
+  side,
+  orderType: 'MARKET',
+  notionalUSD,
+  thesis: `${symbol} thesis`,
+  invalidation: `${symbol} invalidation`,
+  confidence: 0.8,
+  portfolioLevel: { targetHoldDays: 30, netExposureTarget: 1 }
+});
+
+const market = (prices: Record<string, number>): MarketDataProvider => ({
+  getQuote: async (symbol, asOf) => ({ symbol, price: prices[symbol] ?? 0, asOf }),
+  getHistory: async () => []
+});
+
+const broker = (portfolio: PortfolioState): Broker => ({
+  getPortfolioState: async () => portfolio,
+  previewOrder: async () => {
+    throw new Error('not used');
+  },
+  placeOrder: async () => {
+    throw new Error('not used');
+  },
+  getFills: async () => [],
+  cancelOrder: async () => undefined
+});
+
+// Proposed at SPY 100 / QQQ 50 / TLT 90: buy 3 SPY and 4 QQQ, sell 5 TLT.
+const orders = [order('SPY', 'BUY', 300), order('QQQ', 'BUY', 200), order('TLT', 'SELL', 450)];
+const originalPrices = { SPY: 100, QQQ: 50, TLT: 90 };
+const base = {
+  runId: '2025-01-08T15-00',
+  proposalAsOf: '2025-01-08T15:00:00.000Z',
+  orders,
+  config,
+  accountId: 'default',
+  originalPrices,
+  universe: ['SPY', 'QQQ', 'TLT'],
+  llmContext: null,
+  drawdown: 0
+};
+
+describe('approval revalidation', () => {
+  it('keeps the proposed orders when prices and the book have not moved', async () => {
+    const result = await revalidatePendingOrders({
+      ...base,
+      now: new Date('2025-01-08T18:00:00Z'),
+      marketData: market(originalPrices),
+      broker: broker({ cash: 1000, equity: 1900, holdings: [{ symbol: 'TLT', quantity: 10, avgPrice: 90 }] })
+    });
+    expect(result).toMatchObject({ executable: true, changed: false, blockedReasons: [], proposalAgeHours: 3 });
+    expect(result.diff.map((d) => [d.symbol, d.change, d.shares, d.notionalUSD])).toEqual([
+      ['SPY', 'UNCHANGED', 3, 300],
+      ['QQQ', 'UNCHANGED', 4, 200],
+      ['TLT', 'UNCHANGED', 5, 450]
+    ]);
+    expect(result.orders.map((o) => o.notionalUSD)).toEqual([300, 200, 450]);
+  });
+
+  it('re-sizes orders to the current book and prices and changes the digest', async () => {
+    const result = await revalidatePendingOrders({
+      ...base,
+      now: new Date('2025-01-09T15:00:00Z'),
+      marketData: market({ SPY: 102, QQQ: 49, TLT: 91 }),
+      // Cash was spent elsewhere and part of the TLT position is gone.
+      broker: broker({ cash: 100, equity: 373, holdings: [{ symbol: 'TLT', quantity: 3, avgPrice: 90 }] })
+    });
+    expect(result.executable).toBe(true);
+    expect(result.changed).toBe(true);
+    expect(result.diff.map((d) => [d.symbol, d.change, d.shares, d.reason])).toEqual([
+      ['SPY', 'RESIZED', 2, 'CASH_LIMITED'],
+      ['QQQ', 'RESIZED', 3, 'CASH_LIMITED'],
+      ['TLT', 'RESIZED', 3, 'POSITION_SMALLER']
+    ]);
+    expect(result.diff[0].priceDriftPct).toBeCloseTo(0.02, 10);
+    expect(result.orders.map((o) => [o.symbol, o.notionalUSD])).toEqual([
+      ['SPY', 204],
+      ['QQQ', 147],
+      ['TLT', 273]
+    ]);
+    const unchanged = await revalidatePendingOrders({
+      ...base,
+      now: new Date('2025-01-08T18:00:00Z'),
+      marketData: market(originalPrices),
+      broker: broker({ cash: 1000, equity: 1900, holdings: [{ symbol: 'TLT', quantity: 10, avgPrice: 90 }] })
+    });
+    expect(result.digest).not.toBe(unchanged.digest);
+
+    // A tick between review and confirmation re-prices the orders but keeps the share counts, and the digest.
+    const ticked = await revalidatePendingOrders({
+      ...base,
+      now: new Date('2025-01-09T15:05:00Z'),
+      marketData: market({ SPY: 102.03, QQQ: 48.98, TLT: 91.02 }),
+      broker: broker({ cash: 100, equity: 373, holdings: [{ symbol: 'TLT', quantity: 3, avgPrice: 90 }] })
+    });
+    expect(ticked.orders.map((o) => o.notionalUSD)).not.toEqual(result.orders.map((o) => o.notionalUSD));
+    expect(ticked.diff.map((d) => [d.symbol, d.change, d.shares])).toEqual(result.diff.map((d) => [d.symbol, d.change, d.shares]));
+    expect(ticked.digest).toBe(result.digest);
+  });
+
+  it('never rounds a scaled-down buy up past the approved notional', async () => {
+    // The gate cut SPY to $250 at $100: 2.5 shares, of which 2 are buyable.
+    const result = await revalidatePendingOrders({
+      ...base,
+      orders: [order('SPY', 'BUY', 250)],
+      universe: ['SPY'],
+      now: new Date('2025-01-08T18:00:00Z'),
+      marketData: market(originalPrices),
+      broker: broker({ cash: 1000, equity: 1000, holdings: [] })
+    });
+    expect(result.diff.map((d) => [d.change, d.shares, d.notionalUSD])).toEqual([['RESIZED', 2, 200]]);
+    expect(result.orders.map((o) => o.notionalUSD)).toEqual([200]);
+  });
+
+  it('refuses execution past the drift and staleness thresholds', async () => {
+    const result = await revalidatePendingOrders({
+      ...base,
+      now: new Date('2025-01-11T15:00:00Z'),
+      marketData: market({ SPY: 106, QQQ: 50 }),
+      broker: broker({ cash: 1000, equity: 1900, holdings: [{ symbol: 'TLT', quantity: 10, avgPrice: 90 }] })
+    });
+    expect(result.executable).toBe(false);
+    expect(result.blockedReasons).toEqual([
+      'Proposal is 72.0h old (max 48h)',
+      'SPY moved 6.00% since the proposal (max 3.00%)',
+      'No current quote for TLT'
+    ]);
+    expect(result.diff.find((d) => d.symbol === 'TLT')).toMatchObject({ change: 'DROPPED', reason: 'NO_QUOTE' });
+  });
+
+  it('leaves a revalidated run pending approval', () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'revalidation-'));
+    const previousLedger = process.env.LEDGER_FILE;
+    process.env.LEDGER_FILE = path.join(tmp, 'events.jsonl');
+    try {
+      appendEvent(makeEvent('r1', 'RUN_PENDING_APPROVAL', { orders: 3 }));
+      appendEvent(makeEvent('r1', 'APPROVAL_REVALIDATED', { executable: false }));
+      expect(getRunStatus('r1')).toBe('PENDING_APPROVAL');
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+      if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+      else process.env.LEDGER_FILE = previousLedger;
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runBacktest } from '../src/backtest/backtestEngine';
+import { ReplayMarketDataProvider } from '../src/data/marketData.replay';
+import { getLedgerFile } from '../src/ledger/storage';
+import { mulberry32 } from '../src/core/utils';
+
+const universe: Record<string, number> = {
+  SPY: 450,
+  QQQ: 380,
+  IWM: 190,
+  EFA: 72,
+  EEM: 40,
+  TLT: 95,
+  SHY: 82,
+  GLD: 185
+};
+
+const writeDailyCloses = (dir: string) => {
+  Object.entries(universe).forEach(([symbol, start], idx) => {
+    const rng = mulberry32(idx + 1);
+    const lines = ['date,close'];
+    let px = start;
+    const d = new Date('2023-01-02T00:00:00Z');
+    while (d.toISOString().slice(0, 10) <= '2024-03-29') {
+      if (d.getUTCDay() !== 0 && d.getUTCDay() !== 6) {
+        px *= 1 + (rng() - 0.48) * 0.02;
+        lines.push(`${d.toISOString().slice(0, 10)},${px.toFixed(2)}`);
+      }
+      d.setUTCDate(d.getUTCDate() + 1);
+    }
+    fs.writeFileSync(path.join(dir, `${symbol}.csv`), lines.join('\n'));
+  });
+};
+
+describe('replay market data provider', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    fs.writeFileSync(
+      path.join(dataDir, 'ABC.json'),
+      JSON.stringify([
+        { date: '2024-01-02', close: 10 },
+        { date: '2024-01-03', close: 11 },
+        { date: '2024-01-05', close: 12 }
+      ])
+    );
+  });
+
+  afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+  it('quotes the last close on or before asOf and never looks ahead', async () => {
+    const md = new ReplayMarketDataProvider(dataDir, { barInterval: '1d' });
+    expect((await md.getQuote('ABC', '2024-01-04T21:00')).price).toBe(11);
+    expect((await md.getQuote('ABC', '2024-01-01T21:00')).price).toBe(0);
+    expect((await md.getQuote('MISSING', '2024-01-04')).price).toBe(0);
+    const history = await md.getHistory('ABC', '2024-01-04T21:00', 30);
+    expect(history.map((b) => b.date)).toEqual(['2024-01-02', '2024-01-03']);
+  });
+
+  it('aggregates daily OHLCV rows into weekly bars', async () => {
+    fs.writeFileSync(
+      path.join(dataDir, 'XYZ.csv'),
+      ['date,open,high,low,close,volume', '2024-01-08,10,12,9,11,100', '2024-01-09,11,13,10,12,200', '2024-01-10,12,12.5,8,9,300'].join(
+        '\n'
+      )
+    );
+    const md = new ReplayMarketDataProvider(dataDir);
+    const weekly = await md.getHistory('XYZ', '2024-01-10', 7);
+    expect(weekly[weekly.length - 1]).toEqual({ date: '2024-01-10', open: 10, high: 13, low: 8, close: 9, volume: 600, interval: '1w' });
+  });
+});
+
+describe('backtest engine', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+    fs.mkdirSync(path.join(root, 'data'));
+    writeDailyCloses(path.join(root, 'data'));
+  });
+
+  afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('replays each rebalance week into an isolated ledger and writes curve + metrics', async () => {
+    const cwd = process.cwd();
+    const ledgerBefore = getLedgerFile();
+    const pending = runBacktest({
+      from: '2024-01-01',
+      to: '2024-01-31',
+      dataDir: path.join(root, 'data'),
+      outDir: path.join(root, 'out'),
+      startingCapitalUSD: 10000
+    });
+    // The workspace is scoped to the backtest: code running beside it still sees the process's ledger and cwd.
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(process.cwd()).toBe(cwd);
+    expect(getLedgerFile()).toBe(ledgerBefore);
+    const result = await pending;
+
+    expect(process.cwd()).toBe(cwd);
+    expect(getLedgerFile()).toBe(ledgerBefore);
+    expect(result.weeks.map((w) => w.asOf)).toEqual([
+      '2024-01-03T21:00',
+      '2024-01-10T21:00',
+      '2024-01-17T21:00',
+      '2024-01-24T21:00',
+      '2024-01-31T21:00'
+    ]);
+    expect(result.equityCurve).toHaveLength(5);
+    expect(fs.existsSync(result.equityCurvePath)).toBe(true);
+    expect(fs.existsSync(result.metricsPath)).toBe(true);
+    expect(fs.existsSync(path.join(root, 'out', 'runs', '2024-01-03T21-00', 'execution_plan.json'))).toBe(true);
+
+    const events = fs
+      .readFileSync(path.join(root, 'out', 'ledger', 'events.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l));
+    const fills = events.filter((e) => e.type === 'FILL_RECORDED');
+    expect(fills.length).toBeGreaterThan(0);
+    // Ledger timestamps follow the simulated clock, not wall time.
+    expect(events.every((e) => e.timestamp.startsWith('2024-01'))).toBe(true);
+    expect(result.metrics.finalEquity).toBeCloseTo(result.equityCurve[4].equity, 6);
+  }, 120000);
+});
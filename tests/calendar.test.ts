@@ -0,0 +1,81 @@
+import {
+  getTradingSession,
+  holidayName,
+  isTradingDay,
+  listRebalanceSessions,
+  nextTradingDay,
+  nyseHolidays,
+  previousTradingDay,
+  rebalanceSlot,
+  tradingDaysBetween
+} from '../src/core/calendar';
+import { getCurrentRebalanceWindow, getRebalanceKey, isRebalanceDay } from '../src/core/time';
+
+describe('NYSE calendar', () => {
+  it('computes the full-day holidays for a year, with weekend observance', () => {
+    expect(Array.from(nyseHolidays(2026).keys()).sort()).toEqual([
+      '2026-01-01',
+      '2026-01-19',
+      '2026-02-16',
+      '2026-04-03',
+      '2026-05-25',
+      '2026-06-19',
+      '2026-07-03',
+      '2026-09-07',
+      '2026-11-26',
+      '2026-12-25'
+    ]);
+    // New Year's on a Saturday is not observed on the prior Friday.
+    expect(isTradingDay('2021-12-31')).toBe(true);
+    expect(holidayName('2023-01-02')).toBe("New Year's Day");
+    expect(holidayName('2024-03-29')).toBe('Good Friday');
+    expect(isTradingDay('2021-06-18')).toBe(true); // Juneteenth starts in 2022
+    expect(isTradingDay('2025-01-09')).toBe(false);
+  });
+
+  it('resolves session times across DST and early closes', () => {
+    expect(getTradingSession('2024-01-10')).toEqual({
+      date: '2024-01-10',
+      openUTC: '2024-01-10T14:30:00.000Z',
+      closeUTC: '2024-01-10T21:00:00.000Z',
+      earlyClose: false
+    });
+    expect(getTradingSession('2024-07-03')).toMatchObject({ openUTC: '2024-07-03T13:30:00.000Z', closeUTC: '2024-07-03T17:00:00.000Z', earlyClose: true });
+    expect(getTradingSession('2023-07-03')?.earlyClose).toBe(true);
+    expect(getTradingSession('2024-11-29')?.earlyClose).toBe(true);
+    expect(getTradingSession('2024-12-24')?.earlyClose).toBe(true);
+    expect(getTradingSession('2024-12-25')).toBeUndefined();
+  });
+
+  it('steps and counts trading sessions over holidays', () => {
+    expect(nextTradingDay('2024-11-27')).toBe('2024-11-29');
+    expect(previousTradingDay('2024-12-26')).toBe('2024-12-24');
+    expect(tradingDaysBetween('2024-11-25', '2024-12-02')).toBe(4);
+    expect(tradingDaysBetween('2024-12-02', '2024-11-25')).toBe(-4);
+  });
+});
+
+describe('holiday-aware rebalance scheduling', () => {
+  it('rolls a holiday rebalance day to the next session', () => {
+    // Juneteenth 2024 fell on a Wednesday.
+    expect(rebalanceSlot('2024-06-20', 'WEDNESDAY')).toEqual({
+      nominal: '2024-06-19',
+      session: '2024-06-20',
+      nextSession: '2024-06-26'
+    });
+    expect(isRebalanceDay(new Date('2024-06-19T18:00:00Z'), 'WEDNESDAY')).toBe(false);
+    expect(isRebalanceDay(new Date('2024-06-20T18:00:00Z'), 'WEDNESDAY')).toBe(true);
+    expect(listRebalanceSessions('2024-06-10', '2024-06-30', 'WEDNESDAY')).toEqual(['2024-06-12', '2024-06-20', '2024-06-26']);
+  });
+
+  it('keeps a rolled session in the week it was scheduled for', () => {
+    // Good Friday 2024 rolls a FRIDAY rebalance into Monday.
+    const monday = new Date('2024-04-01T18:00:00Z');
+    expect(isRebalanceDay(monday, 'FRIDAY')).toBe(true);
+    expect(getRebalanceKey(monday, 'FRIDAY')).toBe('2024-W13-FRIDAY');
+    expect(getRebalanceKey(new Date('2024-03-28T18:00:00Z'), 'FRIDAY')).toBe('2024-W12-FRIDAY');
+    const window = getCurrentRebalanceWindow(monday, 'FRIDAY');
+    expect(window.startISO).toBe('2024-04-01T00:00:00.000Z');
+    expect(window.endISO).toBe('2024-04-05T00:00:00.000Z');
+  });
+});
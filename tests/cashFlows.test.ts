@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, EquityPoint } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { appendEvent, getRecentRuns, makeEvent } from '../src/ledger/ledger';
+import { cashFlowsFromEvents, recordCashFlow } from '../src/ledger/cashFlows';
+import { readLedgerEvents } from '../src/ledger/storage';
+import { StubBroker } from '../src/broker/broker.stub';
+import { buildEquityCurve } from '../src/analytics/performance';
+import { computeSummaryMetrics, internalRateOfReturn } from '../src/analytics/metrics';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, startingCapitalUSD: 1000 } as BotConfig;
+
+const flatMarket: MarketDataProvider = {
+  getQuote: async (symbol, asOf) => ({ symbol, price: 100, asOf }),
+  getHistory: async () => []
+};
+
+const point = (date: string, equity: number, externalFlow?: number): EquityPoint => ({
+  date,
+  equity,
+  exposure: 0,
+  drawdown: 0,
+  benchmarkSPY: 0,
+  ...(externalFlow ? { externalFlow } : {})
+});
+
+describe('cash flow ledger events', () => {
+  const tmpLedger = path.join(os.tmpdir(), `cash-flows-ledger-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('adds deposits and dividends to stub cash from their effective date and keeps them out of runs', async () => {
+    recordCashFlow({ type: 'DEPOSIT', amount: 1000, effectiveAt: '2025-02-01T00:00:00Z' });
+    recordCashFlow({ type: 'WITHDRAWAL', amount: 200, effectiveAt: '2025-03-01T00:00:00Z', note: 'rent' });
+    recordCashFlow({ type: 'DIVIDEND', amount: 10, effectiveAt: '2025-03-03T00:00:00Z', symbol: 'spy' });
+    recordCashFlow({ type: 'DEPOSIT', amount: 5000, effectiveAt: '2025-02-01T00:00:00Z' }, 'ira');
+    expect(() => recordCashFlow({ type: 'WITHDRAWAL', amount: -5, effectiveAt: '2025-03-01' })).toThrow(/positive/);
+
+    const events = readLedgerEvents();
+    expect(events.map((e) => [e.runId, e.type])).toEqual([
+      ['cash-flows', 'CASH_DEPOSITED'],
+      ['cash-flows', 'CASH_WITHDRAWN'],
+      ['cash-flows', 'DIVIDEND_RECEIVED'],
+      ['cash-flows@ira', 'CASH_DEPOSITED']
+    ]);
+    expect(cashFlowsFromEvents(events).find((f) => f.type === 'DIVIDEND')).toMatchObject({ amount: 10, symbol: 'SPY' });
+    expect(getRecentRuns(10)).toEqual([]);
+
+    const broker = new StubBroker(config, flatMarket);
+    expect((await broker.getPortfolioState('2025-01-31')).cash).toBe(1000);
+    expect((await broker.getPortfolioState('2025-02-15')).cash).toBe(2000);
+    expect((await broker.getPortfolioState('2025-03-10')).cash).toBe(1810);
+    expect((await new StubBroker(config, flatMarket, 'ira').getPortfolioState('2025-03-10')).cash).toBe(6000);
+  });
+
+  it('records flows on the equity curve without counting a withdrawal as drawdown', async () => {
+    appendEvent(makeEvent('2025-01-08T21-00', 'RUN_STARTED'));
+    appendEvent(makeEvent('2025-01-15T21-00', 'RUN_STARTED'));
+    recordCashFlow({ type: 'WITHDRAWAL', amount: 400, effectiveAt: '2025-01-10T00:00:00Z' });
+
+    const curve = await buildEquityCurve(config, flatMarket);
+    expect(curve.map((p) => [p.date, p.equity, p.drawdown, p.externalFlow])).toEqual([
+      ['2025-01-08T21:00', 1000, 0, undefined],
+      ['2025-01-15T21:00', 600, 0, -400]
+    ]);
+  });
+});
+
+describe('flow-adjusted returns', () => {
+  it('chains time-weighted returns around deposits', () => {
+    const points = [point('2025-01-08', 1100), point('2025-01-15', 2200, 1000), point('2025-01-22', 2310)];
+    const metrics = computeSummaryMetrics(points, 1000);
+    // 10%, then 1100 -> 1200 after stripping the deposit, then 5%.
+    expect(metrics.timeWeightedReturn).toBeCloseTo(1.1 * (1200 / 1100) * 1.05 - 1, 10);
+    expect(metrics.totalReturn).toBe(metrics.timeWeightedReturn);
+    expect(metrics.netExternalFlows).toBe(1000);
+    expect(metrics.moneyWeightedReturn).toBeGreaterThan(0);
+
+    // Without flows both measures reduce to the plain equity change.
+    const plain = computeSummaryMetrics([point('2025-01-08', 1000), point('2025-01-15', 1100)], 1000);
+    expect(plain.totalReturn).toBeCloseTo(0.1, 10);
+  });
+
+  it('solves the money-weighted rate over dated flows', () => {
+    expect(internalRateOfReturn([{ date: '2023-01-01', amount: -100 }, { date: '2024-01-01', amount: 110 }])).toBeCloseTo(0.1, 6);
+    // 220 put in over the year, 198 back out.
+    const rate = internalRateOfReturn([
+      { date: '2023-01-01', amount: -100 },
+      { date: '2023-07-02', amount: -120 },
+      { date: '2024-01-01', amount: 198 }
+    ]);
+    expect(rate).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffConfigs, parseBotConfig, resolveConfig } from '../src/core/config';
+
+const defaultPath = path.resolve(__dirname, '../src/config/default.json');
+const defaultJson = JSON.parse(fs.readFileSync(defaultPath, 'utf-8'));
+
+describe('bot config schema', () => {
+  it('accepts default.json as-is and fills the same defaults into an empty config', () => {
+    expect(diffConfigs(defaultJson, parseBotConfig(defaultJson))).toEqual([]);
+    expect(diffConfigs(defaultJson, parseBotConfig({}))).toEqual([]);
+  });
+
+  it('rejects out-of-range values and misspelled keys with their paths', () => {
+    expect(() => parseBotConfig({ ...defaultJson, maxPositionPct: 35 })).toThrow(/maxPositionPct: Number must be less than or equal to 1/);
+    expect(() => parseBotConfig({ ...defaultJson, dislocation: { ...defaultJson.dislocation, tierz: [] } })).toThrow(
+      /dislocation: Unrecognized key\(s\) in object: 'tierz'/
+    );
+    const unordered = [...defaultJson.dislocation.tiers].reverse();
+    expect(() => parseBotConfig({ ...defaultJson, dislocation: { ...defaultJson.dislocation, tiers: unordered } })).toThrow(
+      /dislocation.tiers: tiers must be ordered/
+    );
+  });
+});
+
+describe('layered config resolution', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-config-'));
+  const base = path.join(dir, 'default.json');
+  fs.writeFileSync(base, JSON.stringify(defaultJson));
+  fs.writeFileSync(path.join(dir, 'live.json'), JSON.stringify({ requireApproval: true, maxPositions: 3, dislocation: { cooldownWeeks: 4 } }));
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('applies base < env file < env vars < --set and records each source', () => {
+    const { config, sources } = resolveConfig(base, {
+      env: { BOT_ENV: 'live', BOT_CONFIG__maxPositions: '2', BOT_CONFIG__dislocation__enabled: 'false' },
+      set: ['maxPositions=5', 'dislocation.tiers.1.peakDrawdownGte=0.12', 'uiBind=0.0.0.0']
+    });
+    expect(config.maxPositions).toBe(5);
+    expect(config.dislocation?.enabled).toBe(false);
+    expect(config.dislocation?.cooldownWeeks).toBe(4);
+    expect(config.dislocation?.minActiveTier).toBe(2);
+    expect(config.dislocation?.tiers?.[1]).toMatchObject({ name: 'mild', peakDrawdownGte: 0.12 });
+    expect(config.uiBind).toBe('0.0.0.0');
+    expect(sources.slice(1)).toEqual([
+      path.relative(process.cwd(), path.join(dir, 'live.json')),
+      'env BOT_CONFIG__dislocation__enabled',
+      'env BOT_CONFIG__maxPositions',
+      '--set maxPositions',
+      '--set dislocation.tiers.1.peakDrawdownGte',
+      '--set uiBind'
+    ]);
+  });
+
+  it('validates overrides like any other layer', () => {
+    expect(() => resolveConfig(base, { env: {}, set: ['maxPositonPct=0.2'] })).toThrow(/Unrecognized key\(s\) in object: 'maxPositonPct'/);
+    expect(() => resolveConfig(base, { env: { BOT_ENV: 'staging' }, set: [] })).toThrow(/BOT_ENV=staging/);
+    expect(() => resolveConfig(base, { env: {}, set: ['novalue'] })).toThrow(/expected key=value/);
+  });
+
+  it('diffs configs leaf by leaf', () => {
+    const previous = parseBotConfig(defaultJson);
+    const current = resolveConfig(base, { env: {}, set: ['maxPositionPct=0.3', 'dislocation.overlayAllowedSymbols=["SPYM"]'] }).config;
+    expect(diffConfigs(previous, current)).toEqual([
+      { path: 'dislocation.overlayAllowedSymbols.1', previous: 'QQQM' },
+      { path: 'maxPositionPct', previous: 0.35, current: 0.3 }
+    ]);
+  });
+});
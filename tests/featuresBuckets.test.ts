@@ -1,7 +1,8 @@
 import fs from 'fs';
 import path from 'path';
-import { buildRound1FromInputs, buildRound2FromFeatures } from '../src/cli/contextBuilder';
-import { RunInputs, BotConfig } from '../src/core/types';
+import { buildFeatures, buildRound1FromInputs, buildRound2FromFeatures } from '../src/cli/contextBuilder';
+import { RunInputs, BotConfig, DataQualityFlag, PriceBar } from '../src/core/types';
+import { StubMarketDataProvider } from '../src/data/marketData.stub';
 
 const runsDir = path.resolve(process.cwd(), 'runs');
 
@@ -120,3 +121,60 @@ describe('Round 1 buckets and samples', () => {
     expect(regimes.equityRegime).toBeDefined();
   });
 });
+
+describe('OHLCV features', () => {
+  const dailyBars = (n: number): PriceBar[] =>
+    Array.from({ length: n }, (_, i) => {
+      const d = new Date('2025-01-01T00:00:00Z');
+      d.setUTCDate(d.getUTCDate() + i);
+      // Every bar opens 2% below the prior close (100), trades 97-101 and closes back at 100.
+      return { date: d.toISOString().slice(0, 10), open: 98, high: 101, low: 97, close: 100, volume: 1000, interval: '1d' };
+    });
+
+  test('computes ATR, average dollar volume and gap stats', () => {
+    const flags: DataQualityFlag[] = [];
+    const [f] = buildFeatures(['A'], { A: 100 }, { A: dailyBars(30) }, flags);
+    expect(f.barInterval).toBe('1d');
+    expect(f.atr14).toBeCloseTo(4, 6); // max(101-97, |101-100|, |97-100|)
+    expect(f.atr14Pct).toBeCloseTo(0.04, 6);
+    expect(f.avgDollarVolume20d).toBeCloseTo(100000, 6);
+    expect(f.gapAbsAvg20d).toBeCloseTo(0.02, 6);
+    expect(f.gapDownMax20d).toBeCloseTo(0.02, 6);
+    expect(f.gapCount20d).toBe(20);
+    expect(flags.some((fl) => fl.code === 'OHLCV_UNAVAILABLE')).toBe(false);
+  });
+
+  test('close-only history omits OHLCV features and flags it', () => {
+    const flags: DataQualityFlag[] = [];
+    const closes = dailyBars(30).map(({ date, close }) => ({ date, close }));
+    const [f] = buildFeatures(['A'], { A: 100 }, { A: closes }, flags);
+    expect(f.atr14).toBeUndefined();
+    expect(f.avgDollarVolume20d).toBeUndefined();
+    expect(flags.find((fl) => fl.code === 'OHLCV_UNAVAILABLE')?.symbols).toEqual(['A']);
+  });
+
+  test('stub provider returns consistent OHLCV bars at the requested interval', async () => {
+    const md = new StubMarketDataProvider();
+    const weekly = await md.getHistory('SPY', '2025-06-04', 70);
+    const daily = await md.getHistory('SPY', '2025-06-04', 14, '1d');
+    const hourly = await md.getHistory('SPY', '2025-06-04T18:00', 0, '1h');
+    expect(weekly).toHaveLength(11);
+    expect(daily.every((b) => b.interval === '1d')).toBe(true);
+    // Memorial Day (2025-05-26) is not a session.
+    expect(daily).toHaveLength(10);
+    expect(daily.map((b) => b.date)).not.toContain('2025-05-26');
+    // June is on EDT: the 09:30 ET open is 13:30 UTC.
+    expect(hourly.map((b) => b.date)).toEqual([
+      '2025-06-04T13:30',
+      '2025-06-04T14:30',
+      '2025-06-04T15:30',
+      '2025-06-04T16:30',
+      '2025-06-04T17:30'
+    ]);
+    for (const b of [...weekly, ...daily, ...hourly]) {
+      expect(b.high!).toBeGreaterThanOrEqual(Math.max(b.open!, b.close));
+      expect(b.low!).toBeLessThanOrEqual(Math.min(b.open!, b.close));
+      expect(b.volume!).toBeGreaterThan(0);
+    }
+  });
+});
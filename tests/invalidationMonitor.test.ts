@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LedgerEvent, TradeOrder } from '../src/core/types';
+import { MarketDataProvider, PriceBar } from '../src/data/marketData.types';
+import { getEvents } from '../src/ledger/ledger';
+import { parseInvalidationRule } from '../src/risk/invalidationAnchor';
+import { runInvalidationMonitor } from '../src/risk/invalidationMonitor';
+import { computeRound6Metrics } from '../src/retrospective/metrics';
+
+const fixedMarket = (price: number, weeklyCloses: Array<[string, number]>): MarketDataProvider => ({
+  getQuote: async (symbol, asOf) => ({ symbol, price, asOf }),
+  getHistory: async () => weeklyCloses.map(([date, close]) => ({ date, close, interval: '1w' }) as PriceBar)
+});
+
+const buyOrder = (invalidation: string): TradeOrder => ({
+  symbol: 'SPY',
+  side: 'BUY',
+  orderType: 'MARKET',
+  notionalUSD: 1000,
+  thesis: 'trend',
+  invalidation,
+  invalidationRule: parseInvalidationRule(invalidation, 500),
+  confidence: 0.6,
+  portfolioLevel: { targetHoldDays: 30, netExposureTarget: 0.8 }
+});
+
+const entryEvents = (order: TradeOrder): LedgerEvent[] => [
+  {
+    id: 'e1',
+    runId: '2025-01-08T21-00',
+    timestamp: '2025-01-08T21:00:01.000Z',
+    type: 'ORDER_PLACED',
+    details: { order, placement: { orderId: 'o-1' } }
+  },
+  {
+    id: 'e2',
+    runId: '2025-01-08T21-00',
+    timestamp: '2025-01-08T21:00:02.000Z',
+    type: 'FILL_RECORDED',
+    details: {
+      fill: { orderId: 'o-1', symbol: 'SPY', side: 'BUY', quantity: 2, price: 500, notional: 1000, timestamp: '2025-01-08T21:00:02.000Z' }
+    }
+  }
+];
+
+describe('invalidation monitor', () => {
+  const tmpLedger = path.join(os.tmpdir(), `invalidation-ledger-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('parses the anchored invalidation text into structured conditions', () => {
+    expect(parseInvalidationRule('Invalidate if weekly close < MA200 (471.25) or drawdown > 7.5% from entry.', 480)).toEqual({
+      referencePrice: 480,
+      conditions: [
+        { type: 'CLOSE_BELOW_LEVEL', level: 471.25, reference: 'MA200', barInterval: '1w' },
+        { type: 'DRAWDOWN_FROM_ENTRY', level: 0.075, reference: 'entry' }
+      ]
+    });
+    expect(parseInvalidationRule('Exit if the thesis no longer holds.')).toBeUndefined();
+  });
+
+  it('flags a weekly close below the level, records the breach once and proposes a full exit', async () => {
+    const events = entryEvents(buyOrder('Invalidate if weekly close < MA200 (480.00) or drawdown > 10% from entry.'));
+    const market = fixedMarket(478, [
+      ['2025-01-01', 470],
+      ['2025-01-15', 478]
+    ]);
+    const holdings = [{ symbol: 'SPY', quantity: 2, avgPrice: 500 }];
+    const first = await runInvalidationMonitor({ runId: 'r1', asOf: '2025-01-15T21:00', holdings, marketData: market, events });
+    expect(first.breaches).toHaveLength(1);
+    expect(first.breaches[0].triggered).toEqual([
+      { type: 'CLOSE_BELOW_LEVEL', level: 480, reference: 'MA200', barInterval: '1w', observed: 478, observedAt: '2025-01-15' }
+    ]);
+    expect(first.breaches[0].rule.entry).toMatchObject({ orderId: 'o-1', price: 500, quantity: 2 });
+    expect(first.sellOrders).toEqual([
+      expect.objectContaining({ symbol: 'SPY', side: 'SELL', notionalUSD: 956, confidence: 1 })
+    ]);
+
+    await runInvalidationMonitor({
+      runId: 'r2',
+      asOf: '2025-01-22T21:00',
+      holdings,
+      marketData: market,
+      events: [...events, ...getEvents()]
+    });
+    expect(getEvents().filter((e) => e.type === 'INVALIDATION_BREACHED')).toHaveLength(1);
+  });
+
+  it('measures drawdown from the entry fill and ignores closes from before entry', async () => {
+    const events = entryEvents(buyOrder('Invalidate if weekly close < MA200 (480.00) or drawdown > 5% from entry.'));
+    const holdings = [{ symbol: 'SPY', quantity: 2, avgPrice: 500 }];
+    const calm = await runInvalidationMonitor({
+      runId: 'r1',
+      asOf: '2025-01-08T21:00',
+      holdings,
+      marketData: fixedMarket(490, [['2025-01-01', 470]]),
+      events
+    });
+    expect(calm.breaches).toHaveLength(0);
+    expect(calm.checks[0].skipped).toEqual(['CLOSE_BELOW_LEVEL: no 1w close since entry']);
+
+    const drop = await runInvalidationMonitor({
+      runId: 'r2',
+      asOf: '2025-01-15T21:00',
+      holdings,
+      marketData: fixedMarket(470, [['2025-01-15', 490]]),
+      events
+    });
+    expect(drop.breaches[0].triggered.map((t) => t.type)).toEqual(['DRAWDOWN_FROM_ENTRY']);
+    expect(drop.breaches[0].triggered[0].observed).toBeCloseTo(0.06, 6);
+  });
+
+  it('feeds breaches into the round 6 metrics', () => {
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'round6-'));
+    const runDir = path.join(baseDir, 'runs', 'r1');
+    fs.mkdirSync(runDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(runDir, 'invalidation_checks.json'),
+      JSON.stringify({ breaches: [{ symbol: 'SPY', triggered: [{ type: 'DRAWDOWN_FROM_ENTRY', level: 0.05, observed: 0.06 }] }] })
+    );
+    const metrics = computeRound6Metrics('r1', baseDir);
+    expect(metrics.invalidationsBreached).toBe(true);
+    expect(metrics.invalidationBreaches.map((b) => b.symbol)).toEqual(['SPY']);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Fill } from '../src/core/types';
+import { appendEvent, makeEvent, setEventClock } from '../src/ledger/ledger';
+import { appendLedgerEvent, readLedgerEvents, readRawLedgerEvents } from '../src/ledger/storage';
+import { diagnoseLedger, quarantineDuplicateFills } from '../src/ledger/ledgerDoctor';
+import { lotPositions, replayLotBook } from '../src/analytics/taxLots';
+
+const fill = (overrides: Partial<Fill> = {}): Fill => ({
+  orderId: 'O-1',
+  executionId: 'X-1',
+  symbol: 'SPY',
+  side: 'BUY',
+  quantity: 2,
+  price: 100,
+  notional: 200,
+  timestamp: '2025-01-08T15:00:00.000Z',
+  ...overrides
+});
+
+const recordedFills = () => readLedgerEvents().filter((e) => e.type === 'FILL_RECORDED');
+
+describe('fill idempotency and ledger doctor', () => {
+  let tmp: string;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-doctor-'));
+    previousLedger = process.env.LEDGER_FILE;
+    process.env.LEDGER_FILE = path.join(tmp, 'events.jsonl');
+    setEventClock(() => new Date('2025-01-08T16:00:00Z'));
+  });
+
+  afterEach(() => {
+    setEventClock();
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('refuses a fill already recorded for the account', () => {
+    expect(appendEvent(makeEvent('r1', 'FILL_RECORDED', { fill: fill() }))).toBe(true);
+    expect(appendEvent(makeEvent('r2', 'FILL_RECORDED', { fill: fill() }))).toBe(false);
+    // A second execution of the same order, and the same execution in another account, are distinct.
+    expect(appendEvent(makeEvent('r1', 'FILL_RECORDED', { fill: fill({ executionId: 'X-2' }) }))).toBe(true);
+    expect(appendEvent(makeEvent('r1@ira', 'FILL_RECORDED', { fill: fill() }))).toBe(true);
+    expect(recordedFills().map((e) => e.details?.fillId)).toEqual(['O-1:X-1', 'O-1:X-2', 'O-1:X-1']);
+  });
+
+  it('quarantines duplicates already in the ledger without removing them', () => {
+    appendEvent(makeEvent('r1', 'FILL_RECORDED', { fill: fill() }));
+    // Written before fills were checked at append time: a re-poll and a repeated line.
+    const repoll = makeEvent('r1', 'FILL_RECORDED', { fill: fill() });
+    appendLedgerEvent(repoll);
+    appendLedgerEvent(repoll);
+    const noExecutionId = fill({ orderId: 'O-2', executionId: undefined, side: 'SELL', quantity: 1, notional: 101, price: 101 });
+    appendEvent(makeEvent('r2', 'FILL_RECORDED', { fill: noExecutionId }));
+    appendLedgerEvent(makeEvent('r3', 'FILL_RECORDED', { fill: noExecutionId }));
+
+    const report = diagnoseLedger(readRawLedgerEvents());
+    expect(report).toMatchObject({ events: 5, fills: 4, repeatedEventIds: [repoll.id], quarantined: 0 });
+    expect(report.duplicateFills.map((d) => [d.runId, d.fillId])).toEqual([
+      ['r1', 'O-1:X-1'],
+      ['r3', 'O-2:2025-01-08T15:00:00.000Z/1@101']
+    ]);
+
+    const repairs = quarantineDuplicateFills(report);
+    expect(repairs.map((e) => [e.runId, e.type, e.details?.eventId])).toEqual([
+      ['ledger-doctor', 'EVENT_QUARANTINED', repoll.id],
+      ['ledger-doctor', 'EVENT_QUARANTINED', report.duplicateFills[1].eventId]
+    ]);
+    expect(readRawLedgerEvents()).toHaveLength(7);
+    expect(recordedFills()).toHaveLength(2);
+    expect(lotPositions(replayLotBook(readLedgerEvents())).SPY.quantity).toBe(1);
+    expect(diagnoseLedger(readRawLedgerEvents())).toMatchObject({ duplicateFills: [], quarantined: 2 });
+  });
+});
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendEvent, getRecentRuns, getRunStatus, makeEvent, setEventClock } from '../src/ledger/ledger';
+import {
+  appendLedgerEvent,
+  closeLedgerStores,
+  getLedgerStore,
+  listLedgerRuns,
+  openLedgerStore,
+  readLedgerEvents,
+  readRawLedgerEvents
+} from '../src/ledger/storage';
+import { LedgerStoreKind } from '../src/ledger/store';
+import { JsonlLedgerStore } from '../src/ledger/jsonlStore';
+import { SqliteLedgerStore } from '../src/ledger/sqliteStore';
+import { chainEvent } from '../src/ledger/chain';
+import { migrateLedger } from '../src/ledger/ledgerMigrate';
+import { verifyLedger } from '../src/ledger/ledgerVerify';
+
+let clock = Date.parse('2025-01-06T15:00:00Z');
+const at = (iso: string) => {
+  clock = Date.parse(iso);
+};
+
+describe.each<LedgerStoreKind>(['jsonl', 'sqlite'])('%s ledger store', (kind) => {
+  let tmp: string;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), `ledger-store-${kind}-`));
+    previousLedger = process.env.LEDGER_FILE;
+    process.env.LEDGER_FILE = path.join(tmp, kind === 'sqlite' ? 'events.sqlite' : 'events.jsonl');
+    setEventClock(() => new Date(clock));
+    at('2025-01-06T15:00:00Z');
+    appendEvent(makeEvent('2025-01-06T15-00', 'RUN_STARTED'));
+    at('2025-01-06T15:05:00Z');
+    appendEvent(makeEvent('2025-01-06T15-00', 'RUN_PENDING_APPROVAL'));
+    at('2025-01-13T15:00:00Z');
+    appendEvent(makeEvent('2025-01-13T15-00@ira', 'RUN_STARTED'));
+    at('2025-01-13T15:10:00Z');
+    appendEvent(makeEvent('daemon', 'DAEMON_HEARTBEAT'));
+    at('2025-01-13T15:20:00Z');
+    appendEvent(makeEvent('2025-01-06T15-00', 'RUN_REJECTED'));
+  });
+
+  afterEach(() => {
+    setEventClock();
+    closeLedgerStores();
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('answers run, account, type and time queries from its indexes', () => {
+    expect(getLedgerStore().kind).toBe(kind);
+    expect(readLedgerEvents({ runId: '2025-01-06T15-00' }).map((e) => e.type)).toEqual([
+      'RUN_STARTED',
+      'RUN_PENDING_APPROVAL',
+      'RUN_REJECTED'
+    ]);
+    expect(readLedgerEvents({ types: ['RUN_STARTED', 'RUN_REJECTED'] }).map((e) => e.seq)).toEqual([1, 3, 5]);
+    expect(readLedgerEvents({ accountId: 'default' }).map((e) => e.seq)).toEqual([1, 2, 4, 5]);
+    expect(readLedgerEvents({ accountId: 'ira', types: ['RUN_STARTED'] }).map((e) => e.runId)).toEqual(['2025-01-13T15-00@ira']);
+    expect(readLedgerEvents({ from: '2025-01-13T00:00:00Z', to: '2025-01-13T15:10:00Z' }).map((e) => e.runId)).toEqual([
+      '2025-01-13T15-00@ira',
+      'daemon'
+    ]);
+    expect(listLedgerRuns()).toEqual([
+      { runId: '2025-01-06T15-00', accountId: 'default', lastTimestamp: '2025-01-13T15:20:00.000Z' },
+      { runId: '2025-01-13T15-00@ira', accountId: 'ira', lastTimestamp: '2025-01-13T15:00:00.000Z' },
+      { runId: 'daemon', accountId: 'default', lastTimestamp: '2025-01-13T15:10:00.000Z' }
+    ]);
+    expect(getRecentRuns(10)).toEqual([
+      { runId: '2025-01-06T15-00', status: 'REJECTED' },
+      { runId: '2025-01-13T15-00@ira', status: 'IN_PROGRESS' }
+    ]);
+    expect(getRecentRuns(10, 'ira')).toEqual([{ runId: '2025-01-13T15-00@ira', status: 'IN_PROGRESS' }]);
+  });
+
+  it('leaves repeated and quarantined events out of queries but not out of the raw records', () => {
+    const started = readLedgerEvents({ runId: '2025-01-13T15-00@ira' })[0];
+    appendLedgerEvent({ ...started });
+    expect(readLedgerEvents({ runId: '2025-01-13T15-00@ira' })).toHaveLength(1);
+    appendEvent(makeEvent('ledger-doctor', 'EVENT_QUARANTINED', { eventId: started.id }));
+    expect(readLedgerEvents({ runId: '2025-01-13T15-00@ira' })).toEqual([]);
+    expect(listLedgerRuns().map((r) => r.runId)).not.toContain('2025-01-13T15-00@ira');
+    expect(readRawLedgerEvents().filter((e) => e.id === started.id)).toHaveLength(2);
+    expect(verifyLedger().ok).toBe(true);
+  });
+
+  it('sees records appended by another process', () => {
+    expect(getRunStatus('2025-01-13T15-00@ira')).toBe('IN_PROGRESS');
+    const other = kind === 'sqlite' ? new SqliteLedgerStore(`${process.env.LEDGER_FILE}`) : new JsonlLedgerStore(`${process.env.LEDGER_FILE}`);
+    at('2025-01-13T16:00:00Z');
+    other.appendLines([JSON.stringify(chainEvent(makeEvent('2025-01-13T15-00@ira', 'RUN_PENDING_APPROVAL'), other.chainTip()))]);
+    other.close();
+    expect(getRunStatus('2025-01-13T15-00@ira')).toBe('PENDING_APPROVAL');
+    expect(readLedgerEvents().map((e) => e.seq)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('ledger migration', () => {
+  let tmp: string;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-migrate-'));
+    previousLedger = process.env.LEDGER_FILE;
+  });
+
+  afterEach(() => {
+    closeLedgerStores();
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('copies a JSONL ledger into SQLite with its hash chain intact', () => {
+    const jsonl = path.join(tmp, 'events.jsonl');
+    // A line from before chaining, then chained events.
+    fs.writeFileSync(jsonl, `${JSON.stringify(makeEvent('r0', 'RUN_STARTED'))}\n`);
+    process.env.LEDGER_FILE = jsonl;
+    appendEvent(makeEvent('r1', 'RUN_STARTED'));
+    appendEvent(makeEvent('r1', 'RUN_COMPLETED'));
+
+    const sqlite = path.join(tmp, 'events.sqlite');
+    const result = migrateLedger(openLedgerStore('jsonl', jsonl), openLedgerStore('sqlite', sqlite));
+    expect(result).toMatchObject({ records: 3, verification: { legacyEvents: 1, chainedEvents: 2, issues: [] } });
+    expect(() => migrateLedger(openLedgerStore('jsonl', jsonl), openLedgerStore('sqlite', sqlite))).toThrow(/already holds 3/);
+
+    process.env.LEDGER_FILE = sqlite;
+    expect(verifyLedger()).toMatchObject({ ok: true, chainedEvents: 2 });
+    appendEvent(makeEvent('r2', 'RUN_STARTED'));
+    expect(readLedgerEvents().map((e) => [e.runId, e.seq])).toEqual([
+      ['r0', undefined],
+      ['r1', 1],
+      ['r1', 2],
+      ['r2', 3]
+    ]);
+    expect(getRunStatus('r1')).toBe('COMPLETED');
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendEvent, makeEvent } from '../src/ledger/ledger';
+import { GENESIS_HASH, eventHash } from '../src/ledger/chain';
+import { getLedgerFile, readLedgerEvents, writeRunArtifact } from '../src/ledger/storage';
+import { latestLedgerVerification, verifyLedger } from '../src/ledger/ledgerVerify';
+import { holdOrdersForApproval } from '../src/execution/executionEngine';
+import { Broker } from '../src/broker/broker.types';
+import { BotConfig, TradeOrder } from '../src/core/types';
+
+const lines = () => fs.readFileSync(getLedgerFile(), 'utf-8').trim().split('\n');
+const writeLines = (content: string[]) => fs.writeFileSync(getLedgerFile(), `${content.join('\n')}\n`);
+const kinds = () => verifyLedger().issues.map((i) => i.kind);
+
+describe('hash-chained ledger', () => {
+  let tmp: string;
+  let cwd: string;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-verify-'));
+    cwd = process.cwd();
+    process.chdir(tmp);
+    previousLedger = process.env.LEDGER_FILE;
+    process.env.LEDGER_FILE = path.join(tmp, 'ledger', 'events.jsonl');
+    appendEvent(makeEvent('r1', 'RUN_STARTED'));
+    appendEvent(makeEvent('r1', 'PROPOSAL_CREATED', { orders: 2 }));
+    writeRunArtifact('r1', 'proposal.json', { orders: 2 });
+    appendEvent(makeEvent('r1', 'RUN_PENDING_APPROVAL'));
+    appendEvent(makeEvent('r1', 'RUN_APPROVED'));
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('chains appended events and records run artifact hashes', () => {
+    const events = readLedgerEvents();
+    expect(events.map((e) => e.seq)).toEqual([1, 2, 3, 4]);
+    expect(events[0].prevHash).toBe(GENESIS_HASH);
+    expect(events.slice(1).map((e) => e.prevHash)).toEqual(events.slice(0, -1).map((e) => e.hash));
+    expect(Object.keys(events[2].details?.artifacts ?? {})).toEqual(['proposal.json']);
+    expect(verifyLedger()).toMatchObject({ ok: true, chainedEvents: 4, lastSeq: 4, runsChecked: 1, artifactsChecked: 1 });
+  });
+
+  it('detects edited, removed, reordered and truncated events', () => {
+    const original = lines();
+    writeLines([original[0], original[1].replace('"orders":2', '"orders":3'), ...original.slice(2)]);
+    expect(kinds()).toEqual(['HASH_MISMATCH']);
+    writeLines([original[0], ...original.slice(2)]);
+    expect(kinds()).toEqual(['SEQUENCE_GAP']);
+    writeLines([original[0], original[2], original[1], original[3]]);
+    expect(kinds()).toEqual(['SEQUENCE_GAP', 'OUT_OF_ORDER', 'SEQUENCE_GAP']);
+    writeLines(original.slice(0, 2));
+    expect(kinds()).toEqual(['TRUNCATED']);
+    writeLines([...original, 'not json', JSON.stringify(makeEvent('r1', 'RUN_COMPLETED'))]);
+    expect(kinds()).toEqual(['UNPARSEABLE_LINE', 'UNCHAINED_EVENT']);
+    // Rewriting the last event with a fresh hash still differs from the recorded head.
+    const last = { ...JSON.parse(original[3]), type: 'RUN_REJECTED' };
+    writeLines([...original.slice(0, 3), JSON.stringify({ ...last, hash: eventHash(last) })]);
+    expect(kinds()).toEqual(['HEAD_MISMATCH']);
+  });
+
+  it('links the first chained event to lines written before chaining', () => {
+    const legacy = JSON.stringify(makeEvent('r0', 'RUN_STARTED'));
+    fs.rmSync(path.join(tmp, 'ledger'), { recursive: true });
+    fs.mkdirSync(path.join(tmp, 'ledger'));
+    writeLines([legacy]);
+    appendEvent(makeEvent('r2', 'RUN_STARTED'));
+    expect(verifyLedger()).toMatchObject({ ok: true, legacyEvents: 1, chainedEvents: 1 });
+    const chained = lines()[1];
+    writeLines([legacy.replace('r0', 'rX'), chained]);
+    expect(kinds()).toEqual(['BROKEN_LINK']);
+  });
+
+  it('flags run artifacts changed after they were recorded', () => {
+    writeRunArtifact('r1', 'proposal.json', { orders: 5 });
+    expect(verifyLedger().issues).toMatchObject([{ kind: 'ARTIFACT_MODIFIED', runId: 'r1', file: 'proposal.json' }]);
+    fs.rmSync(path.join(tmp, 'runs', 'r1', 'proposal.json'));
+    expect(kinds()).toEqual(['ARTIFACT_MISSING']);
+  });
+
+  it('reuses the last verification until the ledger or a run file changes', () => {
+    const first = latestLedgerVerification();
+    expect(first).toMatchObject({ ok: true, lastSeq: 4 });
+    expect(latestLedgerVerification()).toBe(first);
+
+    writeRunArtifact('r1', 'proposal.json', { orders: 25 });
+    const edited = latestLedgerVerification();
+    expect(edited).not.toBe(first);
+    expect(edited.issues).toMatchObject([{ kind: 'ARTIFACT_MODIFIED', file: 'proposal.json' }]);
+
+    appendEvent(makeEvent('r1', 'RUN_COMPLETED'));
+    expect(latestLedgerVerification()).toMatchObject({ ok: true, lastSeq: 5 });
+  });
+
+  it('records pending-approval hashes after the sentinel fills and flags are written', async () => {
+    const order = { symbol: 'SPY', side: 'BUY', orderType: 'MARKET', notionalUSD: 1000 } as TradeOrder;
+    appendEvent(makeEvent('r2', 'RUN_STARTED'));
+    writeRunArtifact('r2', 'fills.json', []);
+    writeRunArtifact('r2', 'round5_flags.json', [{ code: 'EARLIER_FLAG' }]);
+    await holdOrdersForApproval('r2', '2025-01-08', [order], {} as Broker, {} as BotConfig);
+
+    const pending = readLedgerEvents().filter((e) => e.runId === 'r2' && e.type === 'RUN_PENDING_APPROVAL');
+    expect(pending).toHaveLength(1);
+    expect(Object.keys(pending[0].details?.artifacts ?? {})).toEqual(
+      expect.arrayContaining(['fills.json', 'execution_flags.json', 'round5_flags.json'])
+    );
+    expect(JSON.parse(fs.readFileSync(path.join(tmp, 'runs', 'r2', 'round5_flags.json'), 'utf-8'))).toMatchObject([
+      { code: 'EARLIER_FLAG' },
+      { code: 'EXECUTION_SKIPPED_PENDING_APPROVAL' }
+    ]);
+    expect(verifyLedger()).toMatchObject({ ok: true, issues: [] });
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StubBroker } from '../src/broker/broker.stub';
+import { BotConfig, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { setEventClock } from '../src/ledger/ledger';
+import { applyLimitPricing, buildExecutionReport, limitPriceFor, quoteTouch } from '../src/execution/limitPricing';
+import {
+  TrackedOrder,
+  manageOpenOrders,
+  placeTrackedOrder,
+  pollOrders,
+  previewTrackedOrder,
+  summarizeOrder
+} from '../src/execution/orderLifecycle';
+
+const settings = { midOffsetBps: 2, marketableCapBps: 10, pegSteps: 3 };
+const touch = { bid: 99.9, ask: 100.1, mid: 100 };
+
+const configWith = (execution: BotConfig['execution']): BotConfig =>
+  ({
+    startingCapitalUSD: 10000,
+    slippageBps: 10,
+    commissionPerTradeUSD: 0,
+    execution: { orderTimeoutMinutes: 30, limitRepriceBps: 25, maxReplaces: 2, ...settings, ...execution }
+  }) as BotConfig;
+
+// The quote after the first `arrivalQuotes` requests moves to `later`.
+const movingMarket = (arrival: number, later: number, arrivalQuotes = 1): MarketDataProvider => {
+  let calls = 0;
+  return {
+    getQuote: async (symbol, asOf) => ({ symbol, price: calls++ < arrivalQuotes ? arrival : later, asOf }),
+    getHistory: async () => []
+  };
+};
+
+const order = (overrides: Partial<TradeOrder> = {}): TradeOrder => ({
+  symbol: 'VTWO',
+  side: 'BUY',
+  orderType: 'MARKET',
+  notionalUSD: 1000,
+  thesis: 'small caps',
+  invalidation: '',
+  confidence: 0.6,
+  portfolioLevel: { targetHoldDays: 30, netExposureTarget: 0.8 },
+  ...overrides
+});
+
+describe('limit pricing policies', () => {
+  it('prices each policy off the touch', () => {
+    expect(limitPriceFor('BUY', touch, 'mid_offset', settings, 100)).toBe(100.02);
+    expect(limitPriceFor('SELL', touch, 'mid_offset', settings, 100)).toBe(99.98);
+    expect(limitPriceFor('BUY', touch, 'marketable_cap', settings, 100)).toBe(100.1);
+    expect(limitPriceFor('BUY', { bid: 100.4, ask: 100.6, mid: 100.5 }, 'marketable_cap', settings, 100)).toBe(100.1);
+    expect(limitPriceFor('SELL', { bid: 99.4, ask: 99.6, mid: 99.5 }, 'marketable_cap', settings, 100)).toBe(99.9);
+    expect([0, 1, 2, 3].map((step) => limitPriceFor('BUY', touch, 'peg', settings, 100, step))).toEqual([100, 100.05, 100.1, 100.1]);
+    expect(limitPriceFor('SELL', touch, 'peg', settings, 100, 1)).toBe(99.95);
+  });
+
+  it('uses the book when the quote has one and a synthetic spread otherwise', () => {
+    const book = quoteTouch({ symbol: 'SPYM', price: 70, asOf: '', bid: 69.9, ask: 70.02 }, 10);
+    expect(book).toMatchObject({ bid: 69.9, ask: 70.02 });
+    expect(book.mid).toBeCloseTo(69.96, 9);
+    const synthetic = quoteTouch({ symbol: 'SPYM', price: 70, asOf: '' }, 10);
+    expect(synthetic.bid).toBeCloseTo(69.93, 9);
+    expect(synthetic.ask).toBeCloseTo(70.07, 9);
+  });
+
+  it('only converts the configured symbols and records arrival prices for all', async () => {
+    const flat = movingMarket(100, 100);
+    const priced = await applyLimitPricing(
+      [order(), order({ symbol: 'SPY' })],
+      configWith({ limitPolicy: 'mid_offset', limitSymbols: ['VTWO'] }),
+      flat,
+      '2025-01-08T15:00'
+    );
+    expect(priced[0]).toMatchObject({ orderType: 'LIMIT', limitPrice: 100.02, limitPolicy: 'mid_offset', limitStep: 0, arrivalPrice: 100 });
+    expect(priced[1]).toMatchObject({ orderType: 'MARKET', arrivalPrice: 100 });
+    expect(priced[1].limitPrice).toBeUndefined();
+  });
+});
+
+describe('stub broker limit execution', () => {
+  const tmpLedger = path.join(os.tmpdir(), `limit-pricing-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+  const asOf = '2025-01-08T15:00';
+  const now = new Date('2025-01-08T15:01:00.000Z');
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    setEventClock(() => new Date('2025-01-08T15:00:00.000Z'));
+  });
+
+  afterAll(() => {
+    setEventClock();
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  const execute = async (config: BotConfig, marketData: MarketDataProvider) => {
+    const broker = new StubBroker(config, marketData);
+    const [priced] = await applyLimitPricing([order()], config, marketData, asOf);
+    const { tracked } = await previewTrackedOrder('2025-01-08T15-00', priced, broker, asOf);
+    await placeTrackedOrder(tracked, broker, asOf);
+    const all: TrackedOrder[] = [tracked];
+    await pollOrders(all, broker, asOf);
+    let working = all;
+    while (working.length) {
+      const { replacements } = await manageOpenOrders(working, broker, config, { asOf, now, marketData });
+      all.push(...replacements);
+      await pollOrders(replacements, broker, asOf);
+      working = replacements;
+    }
+    return all;
+  };
+
+  it('leaves a capped limit working when the price runs away', async () => {
+    const orders = await execute(configWith({ limitPolicy: 'marketable_cap' }), movingMarket(100, 101));
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ state: 'PLACED', fills: [] });
+    expect(orders[0].order.limitPrice).toBe(100.1);
+    expect(buildExecutionReport(orders.map(summarizeOrder)).unfilled).toEqual([
+      { orderId: orders[0].orderId, symbol: 'VTWO', state: 'PLACED', reason: undefined }
+    ]);
+  });
+
+  it('walks a peg toward the touch and reports slippage against arrival', async () => {
+    const orders = await execute(configWith({ limitPolicy: 'peg' }), movingMarket(100, 101));
+    expect(orders.map((t) => [t.order.limitStep, t.order.limitPrice, t.state])).toEqual([
+      [0, 100, 'CANCELLED'],
+      [1, 101.05, 'FILLED']
+    ]);
+    expect(orders[0].reason).toBe('PEG_STEP');
+
+    const report = buildExecutionReport(orders.map(summarizeOrder));
+    expect(report.orders).toHaveLength(1);
+    expect(report.orders[0]).toMatchObject({ arrivalPrice: 100, avgFillPrice: 101.05 });
+    expect(report.orders[0].slippageBps).toBeCloseTo(105, 6);
+    expect(report.totals.slippageBps).toBeCloseTo(105, 6);
+    expect(report.totals.slippageUSD).toBeCloseTo(report.orders[0].filledQuantity * 1.05, 6);
+  });
+});
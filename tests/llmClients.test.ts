@@ -0,0 +1,183 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { BotConfig } from '../src/core/types';
+import { createLLMClient, getLLMClient, summarizeLLMCalls } from '../src/strategy/llmClients';
+import { generateLLMProposal } from '../src/strategy/llmProposer';
+import { MarketDataProvider } from '../src/data/marketData.types';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+
+interface Seen {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Each request pops the next handler; the last one repeats.
+type Handler = (seen: Seen, res: http.ServerResponse) => void;
+
+const json = (res: http.ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+describe('LLM provider clients', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handlers: Handler[] = [];
+  let seen: Seen[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const entry = { url: req.url ?? '', headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+        seen.push(entry);
+        const handler = handlers.length > 1 ? handlers.shift()! : handlers[0];
+        handler(entry, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handlers = [];
+    seen = [];
+  });
+
+  const settings = (overrides: Partial<NonNullable<BotConfig['llm']>> = {}): NonNullable<BotConfig['llm']> => ({
+    ...defaultJson.llm,
+    providers: {
+      openai: { ...defaultJson.llm.providers.openai, baseUrl: `${baseUrl}/v1` },
+      anthropic: { ...defaultJson.llm.providers.anthropic, baseUrl: `${baseUrl}/v1` },
+      local: { ...defaultJson.llm.providers.local, baseUrl, temperature: 0.2 }
+    },
+    retryBackoffMs: 0,
+    ...overrides
+  });
+  const env = { OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'ak-test' };
+
+  it('speaks each provider wire format and prices the tokens', async () => {
+    handlers = [
+      (_s, res) => json(res, 200, { choices: [{ message: { content: '{"a":1}' } }], usage: { prompt_tokens: 1000, completion_tokens: 200 } }),
+      (_s, res) =>
+        json(res, 200, { content: [{ type: 'text', text: '"b":2}' }], usage: { input_tokens: 500, output_tokens: 100 } }),
+      (_s, res) => json(res, 200, { message: { content: '{"c":3}' }, prompt_eval_count: 40, eval_count: 8 })
+    ];
+
+    const openai = createLLMClient('openai', settings(), env);
+    const anthropic = createLLMClient('anthropic', settings(), env);
+    const local = createLLMClient('local', settings(), {});
+    expect(await openai.complete('hi', { json: true })).toBe('{"a":1}');
+    expect(await anthropic.complete('hi', { json: true })).toBe('{"b":2}');
+    expect(await local.complete('hi', { json: true })).toBe('{"c":3}');
+
+    const [o, a, l] = seen;
+    expect(o.url).toBe('/v1/chat/completions');
+    expect(o.headers.authorization).toBe('Bearer sk-test');
+    expect(o.body).toMatchObject({ model: 'gpt-4o-mini', temperature: 0, max_tokens: 1500, response_format: { type: 'json_object' } });
+    expect(a.url).toBe('/v1/messages');
+    expect(a.headers['x-api-key']).toBe('ak-test');
+    expect(a.headers['anthropic-version']).toBe('2023-06-01');
+    expect(a.body.messages).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: '{' }
+    ]);
+    expect(l.url).toBe('/api/chat');
+    expect(l.headers.authorization).toBeUndefined();
+    expect(l.body).toMatchObject({ model: 'llama3.1:8b', stream: false, format: 'json', options: { temperature: 0.2, num_predict: 1500 } });
+
+    expect(openai.calls[0]).toMatchObject({ provider: 'openai', ok: true, attempts: 1, inputTokens: 1000, outputTokens: 200 });
+    expect(openai.calls[0].costUSD).toBeCloseTo((1000 * 0.15 + 200 * 0.6) / 1e6, 12);
+    expect(local.calls[0].costUSD).toBe(0);
+    const summary = summarizeLLMCalls([...openai.calls, ...anthropic.calls, ...local.calls]);
+    expect(summary).toMatchObject({ calls: 3, failedCalls: 0, inputTokens: 1540, outputTokens: 308 });
+    expect(Object.keys(summary.byModel)).toEqual(['openai/gpt-4o-mini', 'anthropic/claude-3-5-haiku-latest', 'local/llama3.1:8b']);
+  });
+
+  it('retries rate limits and timeouts, but not client errors', async () => {
+    const sleeps: number[] = [];
+    const sleep = async (ms: number) => {
+      sleeps.push(ms);
+    };
+    handlers = [
+      (_s, res) => json(res, 429, { error: 'slow down' }),
+      () => undefined, // never answers; the client times out
+      (_s, res) => json(res, 200, { message: { content: 'ok' }, prompt_eval_count: 1, eval_count: 1 })
+    ];
+    const client = createLLMClient('local', settings({ timeoutMs: 200, retryBackoffMs: 10 }), {}, sleep);
+    expect(await client.complete('hi')).toBe('ok');
+    expect(seen).toHaveLength(3);
+    expect(sleeps).toEqual([10, 20]);
+    expect(client.calls[0]).toMatchObject({ ok: true, attempts: 3 });
+
+    handlers = [(_s, res) => json(res, 400, { error: 'bad request' })];
+    seen = [];
+    await expect(client.complete('hi')).rejects.toThrow(/local \(llama3\.1:8b\) failed after 1 attempt\(s\): HTTP 400/);
+    expect(seen).toHaveLength(1);
+    expect(client.calls[1]).toMatchObject({ ok: false, attempts: 1 });
+
+    handlers = [(_s, res) => json(res, 503, {})];
+    await expect(createLLMClient('local', settings({ maxRetries: 1 }), {}).complete('hi')).rejects.toThrow(/2 attempt\(s\): HTTP 503/);
+  });
+
+  it('times out a response that stalls mid-body', async () => {
+    const stall: Handler = (_s, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{"message":{"content":"partial');
+    };
+    handlers = [stall, (_s, res) => json(res, 200, { message: { content: 'ok' }, prompt_eval_count: 1, eval_count: 1 })];
+    const client = createLLMClient('local', settings({ timeoutMs: 200 }), {});
+    expect(await client.complete('hi')).toBe('ok');
+    expect(client.calls[0]).toMatchObject({ ok: true, attempts: 2 });
+
+    handlers = [stall];
+    await expect(createLLMClient('local', settings({ timeoutMs: 200, maxRetries: 0 }), {}).complete('hi')).rejects.toThrow(
+      /1 attempt\(s\): timed out after 200ms/
+    );
+  });
+
+  it('picks the provider from config or LLM_PROVIDER only when real LLM calls are enabled', () => {
+    const config = { llm: settings({ provider: 'anthropic' }) };
+    expect(getLLMClient(config, { ...env })).toBeNull();
+    expect(getLLMClient(config, { ...env, USE_REAL_LLM: 'true' })).toMatchObject({ name: 'anthropic' });
+    expect(getLLMClient(config, { ...env, USE_REAL_LLM: 'true', LLM_PROVIDER: 'local' })).toMatchObject({ name: 'local' });
+    // LLM_API_KEY still works for OpenAI; a provider without its key is skipped.
+    expect(getLLMClient({ llm: settings() }, { USE_REAL_LLM: 'true', LLM_API_KEY: 'k' })).toMatchObject({ name: 'openai' });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(getLLMClient(config, { USE_REAL_LLM: 'true' })).toBeNull();
+    warn.mockRestore();
+    expect(() => createLLMClient('nope', settings(), env)).toThrow(/Unknown LLM provider "nope"/);
+  });
+
+  it('returns the call records with the proposal', async () => {
+    handlers = [
+      (_s, res) =>
+        json(res, 200, {
+          message: { content: JSON.stringify({ asOf: '2025-03-10', universe: ['SPY'], orders: [] }) },
+          prompt_eval_count: 900,
+          eval_count: 30
+        })
+    ];
+    const marketData: MarketDataProvider = {
+      getQuote: async (symbol, asOf) => ({ symbol, price: 100, asOf }),
+      getHistory: async () => []
+    };
+    const config = { ...defaultJson, llm: settings() } as BotConfig;
+    const portfolio = { cash: 1000, holdings: [], equity: 1000 };
+    const client = createLLMClient('local', config.llm, {});
+    const result = await generateLLMProposal('2025-03-10', ['SPY'], config, portfolio, marketData, client);
+    expect(result.success).toBe(true);
+    expect(seen[0].body.format).toBe('json');
+    expect(result.calls).toEqual([expect.objectContaining({ provider: 'local', inputTokens: 900, outputTokens: 30 })]);
+  });
+});
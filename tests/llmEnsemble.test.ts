@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { BotConfig, LLMContextPacket, ProposalSample, TradeIntent, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { buildEnsembleConsensus } from '../src/strategy/llmEnsemble';
+import { LLMClient, generateLLMProposal } from '../src/strategy/llmProposer';
+import { applyDecisionPolicyGate } from '../src/risk/decisionPolicyGate';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const universe = ['SPY', 'QQQ', 'IWM'];
+const asOf = '2025-03-10';
+
+const buy = (symbol: string, notionalUSD: number, confidence: number, thesis: string): TradeOrder => ({
+  symbol,
+  side: 'BUY',
+  orderType: 'MARKET',
+  notionalUSD,
+  thesis,
+  invalidation: `${symbol} closes below its 20-week average`,
+  confidence,
+  portfolioLevel: { targetHoldDays: 30, netExposureTarget: 0.9 }
+});
+
+const intent = (...orders: TradeOrder[]): TradeIntent => ({ asOf, universe, orders });
+
+const sample = (index: number, value: TradeIntent): ProposalSample => ({
+  index,
+  provider: 'openai',
+  promptVariant: 'base',
+  valid: true,
+  intent: value
+});
+
+const intents = [
+  intent(buy('SPY', 500, 0.8, 'Trend is up. Rates falling.'), buy('QQQ', 300, 0.6, 'Tech leads.')),
+  intent(buy('SPY', 600, 0.7, 'Trend is up. Breadth improving.'), buy('QQQ', 400, 0.5, 'Tech leads. Cheap vs history.')),
+  intent(buy('SPY', 700, 0.9, 'trend is up!'), buy('IWM', 200, 0.9, 'Small caps lagging.'))
+];
+
+describe('LLM proposal ensemble', () => {
+  it('trades median weights with agreement-weighted confidence and recurring theses', () => {
+    const consensus = buildEnsembleConsensus(
+      intents.map((value, i) => sample(i, value)),
+      1000,
+      { asOf, universe, maxDisagreement: 0.35 }
+    );
+    expect(consensus.intent.orders.map((o) => [o.symbol, o.side, o.notionalUSD, o.confidence, o.thesis])).toEqual([
+      ['SPY', 'BUY', 600, 0.8, 'Trend is up.'],
+      ['QQQ', 'BUY', 300, 0.3667, 'Tech leads.']
+    ]);
+    // IWM is in one sample of three, so its median weight is zero.
+    expect(consensus.metrics).toEqual({
+      samples: 3,
+      validSamples: 3,
+      disagreement: 0.2667,
+      symbolAgreement: { SPY: 1, QQQ: 0.6667 },
+      sideConflicts: []
+    });
+    expect(consensus.flags).toEqual([]);
+
+    const strict = buildEnsembleConsensus(
+      intents.map((value, i) => sample(i, value)),
+      1000,
+      { asOf, universe, maxDisagreement: 0.2 }
+    );
+    expect(strict.flags.map((f) => [f.code, f.severity])).toEqual([['ENSEMBLE_DISAGREEMENT', 'warn']]);
+  });
+
+  it('samples the configured members, keeps each sample and needs enough valid ones', async () => {
+    const prompts: string[] = [];
+    const scripted = (responses: string[]): LLMClient => ({
+      complete: async (prompt) => {
+        prompts.push(prompt);
+        return responses[prompts.length - 1];
+      }
+    });
+    const marketData: MarketDataProvider = {
+      getQuote: async (symbol, at) => ({ symbol, price: 100, asOf: at }),
+      getHistory: async () => []
+    };
+    const config = {
+      ...defaultJson,
+      llm: {
+        ...defaultJson.llm,
+        ensemble: { ...defaultJson.llm.ensemble, samples: 3, members: [{ promptVariant: 'base' }, { promptVariant: 'risk-first', temperature: 0.7 }] }
+      }
+    } as BotConfig;
+    const portfolio = { cash: 1000, holdings: [], equity: 1000 };
+
+    const result = await generateLLMProposal(
+      asOf,
+      universe,
+      config,
+      portfolio,
+      marketData,
+      scripted([JSON.stringify(intents[0]), 'not json', JSON.stringify(intents[1])])
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const ensemble = result.result.ensemble!;
+    expect(ensemble.samples.map((s) => [s.index, s.promptVariant, s.temperature, s.valid])).toEqual([
+      [0, 'base', undefined, true],
+      [1, 'risk-first', 0.7, false],
+      [2, 'base', undefined, true]
+    ]);
+    expect(prompts[1]).toContain('name the main downside');
+    expect(prompts[0]).not.toContain('name the main downside');
+    expect(ensemble.metrics.validSamples).toBe(2);
+    expect(result.result.intent.orders.map((o) => [o.symbol, o.notionalUSD])).toEqual([
+      ['SPY', 550],
+      ['QQQ', 350]
+    ]);
+
+    prompts.length = 0;
+    const failed = await generateLLMProposal(
+      asOf,
+      universe,
+      config,
+      portfolio,
+      marketData,
+      scripted([JSON.stringify(intents[0]), 'not json', '{}'])
+    );
+    expect(failed.success).toBe(false);
+    if (failed.success) return;
+    expect(failed.errors[0]).toBe('only 1 of 3 proposal samples were valid (need 2)');
+  });
+
+  it('caps exposure and confidence in the policy gate when samples disagree', () => {
+    const llmContext = { regimes: { equityRegime: { confidence: 0.9, transitionRisk: 'low' } } } as unknown as LLMContextPacket;
+    const portfolio = { cash: 10000, holdings: [], equity: 10000 };
+    const config = defaultJson as BotConfig;
+    const proposed = intent(buy('SPY', 9000, 0.9, 'Trend is up.'));
+    const flag = { code: 'ENSEMBLE_DISAGREEMENT', severity: 'warn' as const, message: 'samples disagree', action: 'warn' as const };
+
+    const calm = applyDecisionPolicyGate(proposed, llmContext, portfolio, config);
+    const split = applyDecisionPolicyGate(proposed, llmContext, portfolio, config, undefined, [flag]);
+    expect(calm.orders[0].confidence).toBe(0.9);
+    expect(split.orders[0].confidence).toBe(0.7);
+    expect(split.policyApplied).toMatchObject({ exposureCap: 0.7, confidenceCap: 0.7, hasProposalDisagreement: true });
+    expect(split.flags.map((f) => f.code)).toEqual(['ENSEMBLE_DISAGREEMENT', 'CONFIDENCE_CAPPED', 'EXPOSURE_DAMPENED']);
+  });
+});
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, LLMContextPacket, SymbolFeature } from '../src/core/types';
+import { estimateTokens, renderLLMPrompt } from '../src/strategy/llmPrompt';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const templatesDir = path.resolve(__dirname, '../src/config/prompts');
+const asOf = '2025-03-10T15:00';
+const universe = Array.from({ length: 12 }, (_, i) => `ETF${i}`);
+
+const feature = (symbol: string): SymbolFeature => ({ symbol, price: 100, return60d: 0.05, trend: 'up', realizedVol20d: 0.15 });
+
+const packet: LLMContextPacket = {
+  asOf,
+  runId: '2025-03-10T15-00',
+  universe,
+  portfolio: { cash: 4000, holdings: [{ symbol: 'ETF0', quantity: 10, avgPrice: 90 }], equity: 5000 },
+  quotes: { ETF0: 100, ETF1: 50 },
+  features: universe.map(feature),
+  regimes: { growth: 'up', equityRegime: { label: 'risk_on', confidence: 0.7, transitionRisk: 'low' } },
+  macroPolicy: { stance: 'neutral' },
+  macro: [{ id: 'CPIAUCSL', title: 'CPI', points: [{ date: '2025-02-01', value: 319.1 }] }],
+  news: Array.from({ length: 40 }, (_, i) => ({ headline: `Headline ${i} about markets and rates moving`, source: 'wire' })),
+  marketMemo: { summary: 'Risk-on, breadth improving' },
+  dataQuality: { round1: [{ code: 'COARSE_PERCENTILES', severity: 'warn', message: 'Few samples' }] },
+  eligibility: { ETF0: { tradable: true, maxNotional: 1500 }, ETF1: { tradable: false, reason: 'ADV below floor', maxNotional: 0 } },
+  executionCapabilities: { fractionalShares: false, minExecutableNotionalUSD: 50 },
+  constraints: {
+    maxPositions: 4,
+    maxTradesPerRun: 4,
+    maxPositionPct: 0.35,
+    minCashPct: 0.05,
+    maxNotionalTradedPctPerRun: 1,
+    minHoldHours: 0,
+    maxWeeklyDrawdownPct: 0.1,
+    cadence: 'weekly'
+  },
+  contextMeta: { sizeBytes: 0, maxBytes: 120000, truncated: false, lineage: { round4Hash: 'abc123' } },
+  generatedAt: '2025-03-10T15:00:00.000Z'
+};
+
+describe('LLM prompt templates', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-prompt-'));
+  const originalCwd = process.cwd();
+  const config = (prompt: Partial<NonNullable<BotConfig['prompt']>> = {}) =>
+    ({ ...defaultJson, prompt: { ...defaultJson.prompt, templatesDir, ...prompt } }) as BotConfig;
+
+  beforeAll(() => {
+    process.chdir(tmp);
+    fs.mkdirSync(path.join(tmp, 'runs', packet.runId), { recursive: true });
+    fs.writeFileSync(path.join(tmp, 'runs', packet.runId, 'llm_context.json'), JSON.stringify(packet));
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('renders every context section and records the template and prompt hashes', () => {
+    const { prompt, record } = renderLLMPrompt(asOf, universe, config(), packet.portfolio);
+    for (const expected of [
+      '- ETF0: 10 @ 90.00, value 1000.00',
+      '- ETF1: not tradable (ADV below floor)',
+      '- ETF0: tradable, max $1500.00',
+      'Fractional shares no, min executable notional $50',
+      '- [round1] WARN COARSE_PERCENTILES: Few samples',
+      '"summary":"Risk-on, breadth improving"',
+      '- CPIAUCSL (CPI): 319.1 as of 2025-02-01',
+      'wire: Headline 39 about markets',
+      'ETF11: px 100.00',
+      'cadence weekly'
+    ]) {
+      expect(prompt).toContain(expected);
+    }
+    expect(prompt).not.toContain('{{');
+    expect(record).toEqual({
+      template: 'proposal.v1',
+      templateVersion: 'v1',
+      templateHash: crypto.createHash('sha256').update(fs.readFileSync(path.join(templatesDir, 'proposal.v1.md'), 'utf-8')).digest('hex'),
+      promptVariant: 'base',
+      promptHash: crypto.createHash('sha256').update(prompt).digest('hex'),
+      contextHash: 'abc123',
+      estimatedTokens: estimateTokens(prompt),
+      tokenBudget: 12000,
+      dropped: [],
+      overBudget: false
+    });
+    expect(renderLLMPrompt(asOf, universe, config(), packet.portfolio).record.promptHash).toBe(record.promptHash);
+  });
+
+  it('drops news, then the feature tail, to fit the token budget', () => {
+    const full = renderLLMPrompt(asOf, universe, config(), packet.portfolio);
+    const noNews = renderLLMPrompt(asOf, universe, config({ tokenBudget: full.record.estimatedTokens - 1 }), packet.portfolio);
+    expect(noNews.record.dropped).toEqual(['news']);
+    expect(noNews.prompt).toContain('## News\nNone.');
+
+    const tight = renderLLMPrompt(asOf, universe, config({ tokenBudget: noNews.record.estimatedTokens - 1 }), packet.portfolio);
+    expect(tight.record.dropped).toEqual(['news', 'features_tail']);
+    expect(tight.prompt).toContain('ETF9: px');
+    expect(tight.prompt).not.toContain('ETF10: px');
+    expect(tight.record.overBudget).toBe(false);
+
+    const tiny = renderLLMPrompt(asOf, universe, config({ tokenBudget: 10 }), packet.portfolio);
+    expect(tiny.record).toMatchObject({ dropped: ['news', 'features_tail'], overBudget: true });
+  });
+
+  it('finds the default templates from outside the repo', () => {
+    expect(process.cwd()).toBe(fs.realpathSync(tmp));
+    const rendered = renderLLMPrompt(asOf, universe, { ...defaultJson } as BotConfig, packet.portfolio);
+    expect(defaultJson.prompt.templatesDir).toBe('src/config/prompts');
+    expect(rendered.record.template).toBe('proposal.v1');
+    expect(rendered.prompt).toContain('ETF0');
+  });
+
+  it('loads templates by version and rejects unknown sections', () => {
+    const dir = path.join(tmp, 'prompts');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'proposal.v2.md'), 'Date {{asOf}}\n{{variant}}\nHoldings:\n{{portfolio}}');
+    fs.writeFileSync(path.join(dir, 'proposal.v3.md'), '{{asOf}} {{weather}}');
+
+    const v2 = renderLLMPrompt(asOf, universe, config({ templatesDir: dir, template: 'proposal.v2' }), packet.portfolio, 'contrarian');
+    expect(v2.prompt.split('\n')[0]).toBe(`Date ${asOf}`);
+    expect(v2.prompt).toContain('priced in');
+    expect(v2.record).toMatchObject({ template: 'proposal.v2', templateVersion: 'v2', promptVariant: 'contrarian' });
+    expect(() => renderLLMPrompt(asOf, universe, config({ templatesDir: dir, template: 'proposal.v3' }), packet.portfolio)).toThrow(
+      /unknown section \{\{weather\}\}/
+    );
+    expect(() => renderLLMPrompt(asOf, universe, config({ templatesDir: dir, template: 'proposal.v9' }), packet.portfolio)).toThrow(
+      /Prompt template not found/
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CachingMarketDataProvider } from '../src/data/marketData.cache';
+import { MarketDataProvider, PriceBar } from '../src/data/marketData.types';
+import { StubMarketDataProvider } from '../src/data/marketData.stub';
+import { ETradeMarketDataProvider } from '../src/data/marketData.etrade';
+import { ETradeClient } from '../src/integrations/etradeClient';
+
+// Wraps the stub so daily bars are deterministic, and records every history request.
+class RecordingProvider implements MarketDataProvider {
+  readonly source: string = 'stub';
+  minLookbackDays?: number;
+  calls: Array<{ asOf: string; lookbackDays: number; interval?: string }> = [];
+  protected stub = new StubMarketDataProvider();
+
+  async getQuote(symbol: string, asOf: string) {
+    return this.stub.getQuote(symbol, asOf);
+  }
+
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval?: PriceBar['interval']) {
+    this.calls.push({ asOf, lookbackDays, interval });
+    return this.stub.getHistory(symbol, asOf, lookbackDays, interval);
+  }
+}
+
+// Like the E*TRADE provider: real bars only for a long enough request, generated ones for the rest.
+class SyntheticTailProvider extends RecordingProvider {
+  readonly source = 'etrade-prod';
+  minLookbackDays = 14;
+
+  async getHistory(symbol: string, asOf: string, lookbackDays: number, interval?: PriceBar['interval']) {
+    const bars = await super.getHistory(symbol, asOf, lookbackDays, interval);
+    return bars.map((bar) => (bar.date === asOf.slice(0, 10) ? { ...bar, synthetic: true } : bar));
+  }
+}
+
+describe('CachingMarketDataProvider', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-cache-'));
+  });
+
+  afterEach(() => fs.rmSync(cacheDir, { recursive: true, force: true }));
+
+  it('stores daily bars on a cold fetch and reports their origin', async () => {
+    const inner = new RecordingProvider();
+    const md = new CachingMarketDataProvider(inner, { cacheDir });
+    const bars = await md.getHistory('SPY', '2025-03-14', 13, '1d');
+    expect(bars.map((b) => b.date)).toEqual([
+      '2025-03-03',
+      '2025-03-04',
+      '2025-03-05',
+      '2025-03-06',
+      '2025-03-07',
+      '2025-03-10',
+      '2025-03-11',
+      '2025-03-12',
+      '2025-03-13',
+      '2025-03-14'
+    ]);
+    expect(inner.calls).toEqual([{ asOf: '2025-03-14', lookbackDays: 11, interval: '1d' }]);
+    expect(fs.readFileSync(path.join(cacheDir, 'stub', '1d', 'SPY.jsonl'), 'utf-8').trim().split('\n')).toHaveLength(10);
+    const [record] = md.drainSourceLog();
+    expect(record).toMatchObject({ symbol: 'SPY', fromProvider: 10, fromCache: 0, missingSessions: [] });
+  });
+
+  it('backfills only missing sessions plus the as-of session on a warm cache', async () => {
+    const inner = new RecordingProvider();
+    const md = new CachingMarketDataProvider(inner, { cacheDir });
+    await md.getHistory('SPY', '2025-03-14', 13, '1d');
+    // Punch a hole (Mar 5-6) into the store.
+    const file = path.join(cacheDir, 'stub', '1d', 'SPY.jsonl');
+    const kept = fs
+      .readFileSync(file, 'utf-8')
+      .trim()
+      .split('\n')
+      .filter((l) => !l.includes('2025-03-05') && !l.includes('2025-03-06'));
+    fs.writeFileSync(file, kept.join('\n') + '\n');
+    inner.calls = [];
+    md.drainSourceLog();
+
+    const bars = await md.getHistory('SPY', '2025-03-18', 17, '1d');
+    expect(inner.calls.map((c) => [c.asOf, c.lookbackDays])).toEqual([
+      ['2025-03-06', 1],
+      ['2025-03-18', 1]
+    ]);
+    expect(bars).toHaveLength(12);
+    const [record] = md.drainSourceLog();
+    expect(record.fromProvider).toBe(4);
+    expect(record.fromCache).toBe(8);
+    expect(record.backfilled.map((r) => [r.from, r.to])).toEqual([
+      ['2025-03-05', '2025-03-06'],
+      ['2025-03-17', '2025-03-18']
+    ]);
+  });
+
+  it('dedupes repeated dates in the store and resamples weekly history from dailies', async () => {
+    fs.mkdirSync(path.join(cacheDir, 'stub', '1d'), { recursive: true });
+    const rows = [
+      { date: '2025-03-10', close: 10 },
+      { date: '2025-03-10', close: 11 },
+      { date: '2025-03-11', close: 12 }
+    ];
+    fs.writeFileSync(path.join(cacheDir, 'stub', '1d', 'ABC.jsonl'), rows.map((r) => JSON.stringify(r)).join('\n'));
+    const md = new CachingMarketDataProvider(new RecordingProvider(), { cacheDir, offline: true });
+    expect(md.readBars('ABC').map((b) => b.close)).toEqual([11, 12]);
+    const weekly = await md.getHistory('ABC', '2025-03-11', 7);
+    expect(weekly).toEqual([{ date: '2025-03-11', open: undefined, high: undefined, low: undefined, close: 12, volume: undefined, interval: '1w' }]);
+  });
+
+  it('serves offline runs from the cache without touching the provider', async () => {
+    const warm = new CachingMarketDataProvider(new RecordingProvider(), { cacheDir });
+    await warm.getHistory('SPY', '2025-03-07', 4, '1d');
+    const inner = new RecordingProvider();
+    const md = new CachingMarketDataProvider(inner, { cacheDir, offline: true });
+    const bars = await md.getHistory('SPY', '2025-03-11', 8, '1d');
+    expect(inner.calls).toHaveLength(0);
+    expect(bars.map((b) => b.date)).toEqual(['2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07']);
+    const [record] = md.drainSourceLog();
+    expect(record.offline).toBe(true);
+    expect(record.missingSessions).toEqual(['2025-03-10', '2025-03-11']);
+    const quote = await md.getQuote('SPY', '2025-03-11T15:00');
+    expect(quote.price).toBe(bars[bars.length - 1].close);
+  });
+
+  it('fetches gaps with the minimum lookback, keeps synthetic bars out of the store and stores per source', async () => {
+    const inner = new SyntheticTailProvider();
+    const md = new CachingMarketDataProvider(inner, { cacheDir });
+    const bars = await md.getHistory('SPY', '2025-03-14', 1, '1d');
+    expect(inner.calls).toEqual([{ asOf: '2025-03-14', lookbackDays: 14, interval: '1d' }]);
+    expect(bars.map((b) => [b.date, Boolean(b.synthetic)])).toEqual([
+      ['2025-03-13', false],
+      ['2025-03-14', true]
+    ]);
+    expect(md.drainSourceLog()[0]).toMatchObject({ fromProvider: 2, synthetic: 1, missingSessions: [] });
+    expect(md.readBars('SPY').map((b) => b.date)).toEqual(['2025-03-13']);
+    expect(fs.existsSync(path.join(cacheDir, 'etrade-prod', '1d', 'SPY.jsonl'))).toBe(true);
+
+    // The stub's store is separate, and offline runs read the store they name.
+    const stubOffline = new CachingMarketDataProvider(new RecordingProvider(), { cacheDir, offline: true });
+    expect(await stubOffline.getHistory('SPY', '2025-03-14', 1, '1d')).toEqual([]);
+    const etradeOffline = new CachingMarketDataProvider(new RecordingProvider(), { cacheDir, offline: true, source: 'etrade-prod' });
+    expect((await etradeOffline.getHistory('SPY', '2025-03-14', 1, '1d')).map((b) => b.date)).toEqual(['2025-03-13']);
+  });
+
+  it('keeps only the live session bar from E*TRADE, which is what offline runs get', async () => {
+    const quote = { lastTrade: 123.45, open: 122, high: 124, low: 121, totalVolume: 1000 };
+    const client = {
+      signedFetch: async () => ({ ok: true, json: async () => ({ QuoteResponse: { QuoteData: [{ All: quote }] } }) })
+    } as unknown as ETradeClient;
+    const previousProvider = process.env.MARKET_DATA_PROVIDER;
+    process.env.MARKET_DATA_PROVIDER = 'etrade';
+    jest.useFakeTimers({ now: new Date('2025-03-14T18:00:00Z') });
+    try {
+      const md = new CachingMarketDataProvider(new ETradeMarketDataProvider(client, 'prod'), { cacheDir });
+      const earlier = await md.getHistory('SPY', '2025-03-07T15:00', 30, '1d');
+      expect(earlier.every((b) => b.synthetic)).toBe(true);
+      expect(md.hasBars()).toBe(false);
+
+      const bars = await md.getHistory('SPY', '2025-03-14T15:00', 30, '1d');
+      expect(bars.slice(0, -1).every((b) => b.synthetic)).toBe(true);
+      expect(bars.at(-1)).toEqual({ date: '2025-03-14', close: 123.45, open: 122, high: 124, low: 121, volume: 1000, interval: '1d' });
+      expect(md.readBars('SPY').map((b) => [b.date, b.close])).toEqual([['2025-03-14', 123.45]]);
+
+      const offline = new CachingMarketDataProvider(new RecordingProvider(), { cacheDir, offline: true, source: 'etrade-prod' });
+      expect((await offline.getHistory('SPY', '2025-03-14', 30, '1d')).map((b) => b.close)).toEqual([123.45]);
+      expect((await offline.getQuote('SPY', '2025-03-17T15:00')).price).toBe(123.45);
+      expect((await offline.getQuote('QQQ', '2025-03-17T15:00')).price).toBe(0);
+    } finally {
+      jest.useRealTimers();
+      if (previousProvider === undefined) delete process.env.MARKET_DATA_PROVIDER;
+      else process.env.MARKET_DATA_PROVIDER = previousProvider;
+    }
+  });
+});
@@ -0,0 +1,204 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Broker } from '../src/broker/broker.types';
+import { BotConfig, Fill, OrderPlacement, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { appendEvent, getEvents, makeEvent, setEventClock } from '../src/ledger/ledger';
+import { writeRunArtifact } from '../src/ledger/storage';
+import { verifyLedger } from '../src/ledger/ledgerVerify';
+import { runInWorkspace, workspaceAt } from '../src/core/workspace';
+import {
+  manageOpenOrders,
+  placeTrackedOrder,
+  pollOrders,
+  previewTrackedOrder,
+  replayOrders,
+  resumeOpenOrders,
+  syncRunOrders,
+  transitionOrder
+} from '../src/execution/orderLifecycle';
+
+const config = { execution: { orderTimeoutMinutes: 30, limitRepriceBps: 25, maxReplaces: 1 } } as BotConfig;
+
+// Fills are queued per order id and handed out on the next getFills poll.
+class ScriptedBroker implements Broker {
+  queued: Record<string, Fill[]> = {};
+  cancelled: string[] = [];
+  private seq = 0;
+
+  async getPortfolioState() {
+    return { cash: 0, holdings: [], equity: 0 };
+  }
+  async previewOrder(order: TradeOrder) {
+    const price = order.limitPrice ?? 100;
+    return { symbol: order.symbol, quantity: order.notionalUSD / price, estimatedCost: order.notionalUSD, fees: 0 };
+  }
+  async placeOrder(order: TradeOrder): Promise<OrderPlacement> {
+    return { ...(await this.previewOrder(order)), orderId: `o-${++this.seq}` };
+  }
+  async getFills(orderIds: string[]) {
+    const out = orderIds.flatMap((id) => this.queued[id] ?? []);
+    orderIds.forEach((id) => delete this.queued[id]);
+    return out;
+  }
+  async cancelOrder(orderId: string) {
+    this.cancelled.push(orderId);
+  }
+}
+
+const fill = (orderId: string, quantity: number, price = 100, timestamp = '2025-01-08T15:05:00.000Z'): Fill => ({
+  orderId,
+  symbol: 'VTWO',
+  side: 'BUY',
+  quantity,
+  price,
+  notional: quantity * price,
+  timestamp
+});
+
+const order = (overrides: Partial<TradeOrder> = {}): TradeOrder => ({
+  symbol: 'VTWO',
+  side: 'BUY',
+  orderType: 'MARKET',
+  notionalUSD: 1000,
+  thesis: 'small caps',
+  invalidation: '',
+  confidence: 0.6,
+  portfolioLevel: { targetHoldDays: 30, netExposureTarget: 0.8 },
+  ...overrides
+});
+
+const quoteAt = (price: number): MarketDataProvider => ({
+  getQuote: async (symbol, asOf) => ({ symbol, price, asOf }),
+  getHistory: async () => []
+});
+
+describe('order lifecycle', () => {
+  const tmpLedger = path.join(os.tmpdir(), `order-lifecycle-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+  const asOf = '2025-01-08T15:00';
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    setEventClock(() => new Date('2025-01-08T15:00:00.000Z'));
+  });
+
+  afterAll(() => {
+    setEventClock();
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  const place = async (broker: ScriptedBroker, o: TradeOrder) => {
+    const { tracked } = await previewTrackedOrder('2025-01-08T15-00', o, broker, asOf);
+    await placeTrackedOrder(tracked, broker, asOf);
+    return tracked;
+  };
+
+  it('records partial fills and cancels what is left once the order times out', async () => {
+    const broker = new ScriptedBroker();
+    const tracked = await place(broker, order());
+    broker.queued['o-1'] = [fill('o-1', 4)];
+    await pollOrders([tracked], broker, asOf);
+    expect(tracked.state).toBe('PARTIALLY_FILLED');
+
+    await manageOpenOrders([tracked], broker, config, { asOf, now: new Date('2025-01-08T15:20:00.000Z') });
+    expect(tracked.state).toBe('PARTIALLY_FILLED');
+    await manageOpenOrders([tracked], broker, config, { asOf, now: new Date('2025-01-08T15:31:00.000Z') });
+    expect(broker.cancelled).toEqual(['o-1']);
+    expect(tracked.state).toBe('CANCELLED');
+
+    expect(getEvents().map((e) => e.type)).toEqual([
+      'ORDER_PREVIEWED',
+      'ORDER_PLACED',
+      'FILL_RECORDED',
+      'ORDER_PARTIALLY_FILLED',
+      'ORDER_CANCELLED'
+    ]);
+    expect(getEvents().at(-1)?.details).toMatchObject({ from: 'PARTIALLY_FILLED', filledQuantity: 4, remainingQuantity: 6, reason: 'TIMEOUT' });
+    expect(() => transitionOrder(tracked, 'FILLED')).toThrow(/Illegal order transition CANCELLED -> FILLED/);
+  });
+
+  it('cancels and replaces a stale limit at the quote for the unfilled remainder', async () => {
+    const broker = new ScriptedBroker();
+    const tracked = await place(broker, order({ orderType: 'LIMIT', limitPrice: 100 }));
+    broker.queued['o-1'] = [fill('o-1', 2)];
+    await pollOrders([tracked], broker, asOf);
+
+    const { replacements } = await manageOpenOrders([tracked], broker, config, {
+      asOf,
+      now: new Date('2025-01-08T15:10:00.000Z'),
+      marketData: quoteAt(100.5)
+    });
+    expect(tracked).toMatchObject({ state: 'CANCELLED', reason: 'STALE_LIMIT', replacedBy: 'o-2' });
+    expect(replacements).toHaveLength(1);
+    expect(replacements[0]).toMatchObject({ state: 'PLACED', replaces: 'o-1', replaceCount: 1, origin: tracked.origin });
+    expect(replacements[0].order.limitPrice).toBe(100.5);
+    expect(replacements[0].quantity).toBeCloseTo(8, 9);
+
+    // maxReplaces reached: the replacement is left working until it times out.
+    const again = await manageOpenOrders(replacements, broker, config, {
+      asOf,
+      now: new Date('2025-01-08T15:10:00.000Z'),
+      marketData: quoteAt(102)
+    });
+    expect(again.replacements).toHaveLength(0);
+    expect(replayOrders(getEvents()).map((t) => [t.orderId, t.state, t.replacedBy])).toEqual([
+      ['o-1', 'CANCELLED', 'o-2'],
+      ['o-2', 'PLACED', undefined]
+    ]);
+  });
+
+  it('resumes open orders from the ledger after a restart without double counting fills', async () => {
+    await place(new ScriptedBroker(), order());
+    const restarted = new ScriptedBroker();
+    restarted.queued['o-1'] = [fill('o-1', 6), fill('o-1', 4, 100, '2025-01-08T15:06:00.000Z')];
+    const first = await resumeOpenOrders(getEvents(), restarted, config, { asOf, now: new Date('2025-01-08T15:07:00.000Z') });
+    expect(first.fills).toHaveLength(2);
+    expect(first.orders[0].state).toBe('FILLED');
+
+    restarted.queued['o-1'] = [fill('o-1', 6)];
+    const second = await resumeOpenOrders(getEvents(), restarted, config, { asOf, now: new Date('2025-01-08T15:08:00.000Z') });
+    expect(second.fills).toHaveLength(0);
+    expect(getEvents().filter((e) => e.type === 'FILL_RECORDED')).toHaveLength(2);
+  });
+
+  it('checkpoints the artifacts a fill sync rewrites after the run completed', async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'order-sync-'));
+    try {
+      await runInWorkspace(workspaceAt(tmp), async () => {
+        const runId = '2025-01-08T15-00';
+        const broker = new ScriptedBroker();
+        await place(broker, order());
+        writeRunArtifact(runId, 'fills.json', [{ type: 'NO_FILL', reason: 'NO_EXECUTIONS' }]);
+        appendEvent(makeEvent(runId, 'RUN_COMPLETED'));
+
+        broker.queued['o-1'] = [fill('o-1', 10)];
+        await syncRunOrders(runId, broker, config, { now: new Date('2025-01-08T15:07:00.000Z') });
+        const checkpoints = () => getEvents().filter((e) => e.type === 'RUN_ARTIFACTS_UPDATED');
+        expect(checkpoints()).toHaveLength(1);
+        expect(Object.keys(checkpoints()[0].details?.artifacts ?? {})).toEqual(
+          expect.arrayContaining(['fills.json', 'order_states.json', 'execution_report.json'])
+        );
+        expect(verifyLedger()).toMatchObject({ ok: true, issues: [] });
+
+        // A sync that changes nothing records nothing.
+        await syncRunOrders(runId, broker, config, { now: new Date('2025-01-08T15:08:00.000Z') });
+        expect(checkpoints()).toHaveLength(1);
+      });
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  it('expires day orders still open on a later session', async () => {
+    const broker = new ScriptedBroker();
+    await place(broker, order());
+    const { orders } = await resumeOpenOrders(getEvents(), broker, config, { asOf, now: new Date('2025-01-09T14:31:00.000Z') });
+    expect(orders[0]).toMatchObject({ state: 'EXPIRED', reason: 'DAY_ORDER_EXPIRED' });
+    expect(broker.cancelled).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, Fill, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { appendEvent, makeEvent, setEventClock } from '../src/ledger/ledger';
+import { recordCashFlow } from '../src/ledger/cashFlows';
+import { closeLedgerStores, getLedgerSnapshotDir, readLedgerEvents } from '../src/ledger/storage';
+import { getPortfolioAt } from '../src/ledger/portfolioProjection';
+import { StubBroker } from '../src/broker/broker.stub';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, startingCapitalUSD: 10000 } as BotConfig;
+const withSnapshots = (every: number) => ({ ...config, ledger: { snapshotEveryEvents: every } }) as BotConfig;
+
+const flatMarket: MarketDataProvider = {
+  getQuote: async (symbol, asOf) => ({ symbol, price: 100, asOf }),
+  getHistory: async () => []
+};
+
+let clock = 0;
+const at = (iso: string) => {
+  clock = Date.parse(iso);
+};
+
+const trade = (runId: string, orderId: string, side: 'BUY' | 'SELL', symbol: string, quantity: number, sleeve?: TradeOrder['sleeve']) => {
+  appendEvent(makeEvent(runId, 'ORDER_PLACED', { order: { symbol, side, notionalUSD: quantity * 100, sleeve }, placement: { orderId } }));
+  const fill: Fill = { orderId, symbol, side, quantity, price: 100, notional: quantity * 100, timestamp: new Date(clock).toISOString() };
+  appendEvent(makeEvent(runId, 'FILL_RECORDED', { fill }));
+};
+
+describe('portfolio projection', () => {
+  let tmp: string;
+  let previousLedger: string | undefined;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'portfolio-projection-'));
+    previousLedger = process.env.LEDGER_FILE;
+    process.env.LEDGER_FILE = path.join(tmp, 'events.jsonl');
+    setEventClock(() => new Date(clock));
+    at('2025-01-08T21:00:00Z');
+    trade('2025-01-08T21-00', 'o1', 'BUY', 'SPY', 10);
+    trade('2025-01-08T21-00', 'o2', 'BUY', 'QQQ', 5, 'dislocation');
+    at('2025-01-15T21:00:00Z');
+    trade('2025-01-15T21-00', 'o3', 'BUY', 'QQQ', 5);
+    trade('2025-01-15T21-00', 'o4', 'SELL', 'SPY', 4);
+    at('2025-01-20T12:00:00Z');
+    appendEvent(makeEvent('reconciliation', 'CORPORATE_ACTION_RECORDED', { symbol: 'QQQ', ratio: 2 }));
+    // Recorded later than it took effect.
+    recordCashFlow({ type: 'DEPOSIT', amount: 500, effectiveAt: '2025-01-10T00:00:00Z' });
+    at('2025-01-22T21:00:00Z');
+    trade('2025-01-22T21-00', 'o5', 'SELL', 'QQQ', 6, 'dislocation');
+  });
+
+  afterEach(() => {
+    setEventClock();
+    closeLedgerStores();
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('folds fills, sleeve tags, corporate actions and cash flows as of a date', async () => {
+    const early = getPortfolioAt('2025-01-09', config);
+    expect(early.cash).toBe(10000 - 1500);
+    expect(early.positions.QQQ).toMatchObject({ quantity: 5, sleeves: { base: 0, dislocation: 5 } });
+
+    const mid = getPortfolioAt('2025-01-20', config);
+    expect(mid.cash).toBe(10000 - 1500 - 500 + 400 + 500);
+    expect(mid.positions.SPY).toMatchObject({ quantity: 6, costBasis: 600, sleeves: { base: 6, dislocation: 0 } });
+    expect(mid.positions.QQQ).toMatchObject({ quantity: 20, costBasis: 1000, sleeves: { base: 10, dislocation: 10 } });
+
+    const late = getPortfolioAt('2025-01-22T21:00', config);
+    expect(late.positions.QQQ.sleeves).toEqual({ base: 10, dislocation: 4 });
+    expect(await new StubBroker(config, flatMarket).getPortfolioState('2025-01-22T21:00')).toEqual({
+      cash: late.cash,
+      holdings: [
+        { symbol: 'SPY', quantity: 6, avgPrice: 100, holdSince: '2025-01-08T21:00:00.000Z' },
+        { symbol: 'QQQ', quantity: 14, avgPrice: 50, holdSince: '2025-01-08T21:00:00.000Z' }
+      ],
+      equity: late.cash + 2000
+    });
+  });
+
+  it('reads only the account it projects', () => {
+    const before = getPortfolioAt('2025-01-31', config);
+    trade('2025-01-22T21-00@ira', 'ira-1', 'BUY', 'TLT', 3);
+    const ira = getPortfolioAt('2025-01-31', config, 'ira');
+    expect(ira.events).toBe(2);
+    expect(Object.keys(ira.positions)).toEqual(['TLT']);
+    expect(getPortfolioAt('2025-01-31', config)).toMatchObject({ events: before.events, cash: before.cash, positions: before.positions });
+  });
+
+  it('resumes from snapshot checkpoints and matches a full replay', () => {
+    const full = getPortfolioAt('2025-01-31', config);
+    const first = getPortfolioAt('2025-01-31', withSnapshots(4));
+    expect(first.fromSnapshot).toBe(0);
+    expect(fs.readdirSync(getLedgerSnapshotDir('default')).sort()).toEqual(['000000004.json', '000000008.json', '000000012.json']);
+
+    const resumed = getPortfolioAt('2025-01-31', withSnapshots(4));
+    expect(resumed.fromSnapshot).toBe(12);
+    expect(resumed.cash).toBe(full.cash);
+    expect(resumed.positions).toEqual(full.positions);
+    expect(resumed.book.lots).toEqual(full.book.lots);
+    expect(resumed.book.realized).toEqual(full.book.realized);
+
+    // Later snapshots run past 2025-01-09, so that date resumes from the first one.
+    const earlier = getPortfolioAt('2025-01-09', withSnapshots(4));
+    expect(earlier.fromSnapshot).toBe(4);
+    expect(earlier.positions).toEqual(getPortfolioAt('2025-01-09', config).positions);
+  });
+
+  it('stops using a snapshot once an event it covers is quarantined', () => {
+    getPortfolioAt('2025-01-31', withSnapshots(4));
+    const buy = readLedgerEvents({ types: ['FILL_RECORDED'] }).find((e) => (e.details?.fill as Fill).orderId === 'o3');
+    appendEvent(makeEvent('ledger-doctor', 'EVENT_QUARANTINED', { eventId: buy?.id }));
+
+    const projection = getPortfolioAt('2025-01-31', withSnapshots(4));
+    expect(projection.fromSnapshot).toBe(4);
+    expect(projection.positions.QQQ).toMatchObject({ quantity: 4, sleeves: { base: 0, dislocation: 4 } });
+    expect(projection.positions).toEqual(getPortfolioAt('2025-01-31', config).positions);
+  });
+});
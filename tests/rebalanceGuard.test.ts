@@ -76,4 +76,22 @@ describe('rebalance helpers', () => {
     expect(eligibility.eligible).toBe(true);
     expect(eligibility.reasons.length).toBe(0);
   });
+
+  it('rolls approval to the next session when the rebalance day is a market holiday', () => {
+    const cfg = { ...baseConfig, rebalanceDay: 'THURSDAY' };
+    const christmas = computeApprovalEligibility('2025-12-25', cfg, {
+      now: new Date('2025-12-25T18:00:00Z'),
+      events: [],
+      runStatus: 'PENDING_APPROVAL'
+    });
+    expect(christmas.reasons).toContain('NOT_REBALANCE_DAY');
+    expect(christmas.window.endISO).toBe('2025-12-26T00:00:00.000Z');
+    const friday = computeApprovalEligibility('2025-12-26', cfg, {
+      now: new Date('2025-12-26T18:00:00Z'),
+      events: [],
+      runStatus: 'PENDING_APPROVAL'
+    });
+    expect(friday.eligible).toBe(true);
+    expect(friday.rebalanceSession).toBe('2025-12-26');
+  });
 });
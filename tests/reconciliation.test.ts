@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, PortfolioState, TradeOrder } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { Broker } from '../src/broker/broker.types';
+import { StubBroker } from '../src/broker/broker.stub';
+import { appendEvent, makeEvent, setEventClock } from '../src/ledger/ledger';
+import { applyReconciliation, reconcileAccount, reconcilePortfolios } from '../src/broker/reconciliation';
+import { TrackedOrder } from '../src/execution/orderLifecycle';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, startingCapitalUSD: 10000 } as BotConfig;
+
+const flatMarket: MarketDataProvider = {
+  getQuote: async (symbol, asOf) => ({ symbol, price: 100, asOf }),
+  getHistory: async () => []
+};
+
+const order = (symbol: string, side: TradeOrder['side'], notionalUSD: number): TradeOrder => ({
+  symbol,
+  side,
+  orderType: 'MARKET',
+  notionalUSD,
+  thesis: '',
+  invalidation: '',
+  confidence: 1,
+  portfolioLevel: { targetHoldDays: 0, netExposureTarget: 1 }
+});
+
+const state = (cash: number, holdings: Array<[string, number, number]>): PortfolioState => ({
+  cash,
+  holdings: holdings.map(([symbol, quantity, avgPrice]) => ({ symbol, quantity, avgPrice })),
+  equity: cash + holdings.reduce((acc, [, q, p]) => acc + q * p, 0)
+});
+
+describe('broker reconciliation', () => {
+  it('classifies reinvested dividends, stale orders and orders placed outside the bot', () => {
+    const working: TrackedOrder = {
+      runId: '2025-03-07T15-00',
+      order: order('VTI', 'SELL', 600),
+      origin: order('VTI', 'SELL', 600),
+      state: 'PLACED',
+      orderId: 'o9',
+      quantity: 3,
+      fills: [],
+      placedAt: '2025-03-07T15:00:00.000Z',
+      replaceCount: 0
+    };
+    const report = reconcilePortfolios({
+      asOf: '2025-03-10T15:00',
+      ledger: state(1000, [['VTI', 10, 200]]),
+      broker: state(1000, [['VTI', 10.1, 200]]),
+      prices: { VTI: 200, BND: 70 },
+      orders: [working],
+      brokerOpenOrders: [{ orderId: 'x1', symbol: 'BND', side: 'BUY', quantity: 4 }],
+      orderStatuses: { o9: { orderId: 'o9', status: 'CANCELLED' } },
+      config
+    });
+
+    expect(report.breaks.map((b) => [b.kind, b.symbol, b.orderId])).toEqual([
+      ['DIVIDEND', 'VTI', undefined],
+      ['ORDER_STATE', 'VTI', 'o9'],
+      ['MANUAL_TRADE', 'BND', 'x1']
+    ]);
+    const [drip, stale, manual] = report.breaks;
+    expect(drip.valueUSD).toBeCloseTo(20, 6);
+    expect(drip.adjustments.map((a) => a.type)).toEqual(['DIVIDEND_RECEIVED', 'FILL_RECORDED']);
+    expect(stale.adjustments).toEqual([
+      { runId: '2025-03-07T15-00', type: 'ORDER_CANCELLED', details: { orderId: 'o9', from: 'PLACED', to: 'CANCELLED', reason: 'RECONCILIATION' } }
+    ]);
+    expect(manual).toMatchObject({ valueUSD: 280, adjustments: [] });
+    expect(report.toleranceUSD).toBe(25);
+    expect(report.withinTolerance).toBe(false);
+  });
+
+  describe('against the ledger', () => {
+    const tmpLedger = path.join(os.tmpdir(), `reconciliation-ledger-${process.pid}.jsonl`);
+    const previousLedger = process.env.LEDGER_FILE;
+
+    beforeEach(() => {
+      process.env.LEDGER_FILE = tmpLedger;
+      if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+      setEventClock(() => new Date('2025-03-10T15:00:00.000Z'));
+    });
+
+    afterAll(() => {
+      setEventClock();
+      if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+      if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+      else process.env.LEDGER_FILE = previousLedger;
+    });
+
+    it('finds splits, missing fills, manual trades and dividends, and clears them with ledger adjustments', async () => {
+      const runId = '2025-03-03T15-00';
+      appendEvent(makeEvent(runId, 'ORDER_PLACED', { order: order('SPY', 'BUY', 1000), placement: { orderId: 'o1', quantity: 10 } }));
+      appendEvent(
+        makeEvent(runId, 'FILL_RECORDED', {
+          fill: { orderId: 'o1', symbol: 'SPY', side: 'BUY', quantity: 10, price: 100, notional: 1000, timestamp: '2025-03-03T15:00:00.000Z' }
+        })
+      );
+      appendEvent(makeEvent(runId, 'ORDER_PLACED', { order: order('QQQ', 'BUY', 500), placement: { orderId: 'o2', quantity: 5 } }));
+
+      // SPY split 2:1, QQQ filled without the ledger hearing about it, IWM bought by hand, 30 of dividends.
+      const broker: Broker = {
+        getPortfolioState: async () => state(8330, [['SPY', 20, 50], ['QQQ', 5, 100], ['IWM', 2, 100]]),
+        previewOrder: async () => {
+          throw new Error('not used');
+        },
+        placeOrder: async () => {
+          throw new Error('not used');
+        },
+        getFills: async () => [],
+        cancelOrder: async () => undefined
+      };
+      const asOf = '2025-03-10T15:00';
+      const report = await reconcileAccount(broker, config, flatMarket, { asOf });
+      expect(report.breaks.map((b) => [b.kind, b.symbol ?? null])).toEqual([
+        ['CORPORATE_ACTION', 'SPY'],
+        ['MANUAL_TRADE', 'IWM'],
+        ['MISSING_FILL', 'QQQ'],
+        ['DIVIDEND', null]
+      ]);
+      expect(report.breaks[3].cashUSD).toBeCloseTo(30, 6);
+      expect(report.withinTolerance).toBe(false);
+
+      applyReconciliation(report);
+      const ledgerView = await new StubBroker(config, flatMarket).getPortfolioState(asOf);
+      expect(ledgerView.cash).toBeCloseTo(8330, 6);
+      expect(ledgerView.holdings.map((h) => [h.symbol, h.quantity, h.avgPrice])).toEqual([
+        ['SPY', 20, 50],
+        ['IWM', 2, 100],
+        ['QQQ', 5, 100]
+      ]);
+      const rerun = await reconcileAccount(broker, config, flatMarket, { asOf });
+      expect(rerun.breaks).toEqual([]);
+      expect(rerun.withinTolerance).toBe(true);
+    });
+  });
+});
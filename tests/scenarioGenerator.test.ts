@@ -0,0 +1,158 @@
+import {
+  DEFAULT_REGIMES,
+  DEFAULT_TRANSITIONS,
+  GeneratorSpec,
+  SIM_PROXIES,
+  SIM_SYMBOLS,
+  cholesky,
+  defaultCorrelation,
+  generatePaths,
+  pathToScenarioPreset,
+  weeklyReturnsFromCloses
+} from '../scripts/scenarioGenerator';
+import { distribution, runMonteCarlo, summarizeSimPath } from '../scripts/simMonteCarlo';
+
+const sampleCorrelation = (a: number[], b: number[]) => {
+  const mean = (xs: number[]) => xs.reduce((acc, x) => acc + x, 0) / xs.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  const cov = a.reduce((acc, x, i) => acc + (x - ma) * (b[i] - mb), 0);
+  const va = a.reduce((acc, x) => acc + (x - ma) ** 2, 0);
+  const vb = b.reduce((acc, x) => acc + (x - mb) ** 2, 0);
+  return cov / Math.sqrt(va * vb);
+};
+
+describe('scenario generator', () => {
+  it('samples correlated GBM paths reproducibly and tracks proxies to their parents', () => {
+    const spec: GeneratorSpec = {
+      model: 'gbm',
+      paths: 40,
+      weeks: 50,
+      seed: 11,
+      symbols: SIM_SYMBOLS,
+      proxies: SIM_PROXIES,
+      correlation: defaultCorrelation(SIM_SYMBOLS)
+    };
+    const paths = generatePaths(spec);
+    expect(paths).toHaveLength(40);
+    expect(paths[0].name).toBe('MC_GBM_0001');
+    expect(generatePaths(spec)).toEqual(paths);
+    expect(generatePaths({ ...spec, seed: 12 })[0].returns).not.toEqual(paths[0].returns);
+
+    const rows = paths.flatMap((p) => p.returns);
+    expect(sampleCorrelation(rows.map((r) => r.SPY), rows.map((r) => r.QQQ))).toBeGreaterThan(0.7);
+    expect(sampleCorrelation(rows.map((r) => r.SPY), rows.map((r) => r.TLT))).toBeLessThan(0);
+    rows.forEach((r) => expect(Math.abs(r.SPYM - r.SPY)).toBeLessThan(0.02));
+
+    expect(() => cholesky([[1, 2], [2, 1]])).toThrow(/not positive definite/);
+    expect(() => generatePaths({ ...spec, correlation: [[1]] })).toThrow(/correlation must be 9x9/);
+  });
+
+  it('bootstraps whole blocks of historical weeks and overlays shocks', () => {
+    const history = weeklyReturnsFromCloses({ SPY: [100, 101, 102, 103, 104, 105, 106, 107, 108], QQQ: [50, 51, 52, 53, 54, 55, 56] });
+    expect(history.SPY).toHaveLength(6);
+    expect(history.QQQ).toHaveLength(6);
+
+    const [path] = generatePaths({
+      model: 'bootstrap',
+      paths: 1,
+      weeks: 12,
+      seed: 3,
+      symbols: ['SPY', 'QQQ'],
+      history,
+      blockWeeks: 3,
+      shocks: [{ name: 'CRASH', probability: 1, returns: { SPY: -0.5 }, durationWeeks: 12 }]
+    });
+    expect(path.returns).toHaveLength(12);
+    expect(path.shocks).toHaveLength(12);
+    for (let start = 0; start < 12; start += 3) {
+      const offset = history.QQQ.indexOf(path.returns[start].QQQ);
+      expect(offset).toBeGreaterThanOrEqual(0);
+      [0, 1, 2].forEach((k) => {
+        expect(path.returns[start + k].QQQ).toBe(history.QQQ[offset + k]);
+        expect(path.returns[start + k].SPY).toBeCloseTo((1 + history.SPY[offset + k]) * 0.5 - 1, 12);
+      });
+    }
+    expect(pathToScenarioPreset(path).events.map((e) => e.weekIndex)).toEqual(Array.from({ length: 13 }, (_, i) => i));
+  });
+
+  it('switches regimes on the Markov chain', () => {
+    const paths = generatePaths({
+      model: 'regime',
+      paths: 20,
+      weeks: 52,
+      seed: 5,
+      symbols: SIM_SYMBOLS,
+      regimes: DEFAULT_REGIMES,
+      transitions: DEFAULT_TRANSITIONS
+    });
+    const regimes = paths.flatMap((p) => p.regimes ?? []);
+    expect(regimes).toHaveLength(20 * 52);
+    expect(new Set(regimes)).toEqual(new Set(['CALM', 'STRESS']));
+    paths.forEach((p) => expect(p.regimes?.[0]).toBe('CALM'));
+    expect(() => generatePaths({ model: 'regime', paths: 1, weeks: 1, seed: 1, symbols: ['SPY'], regimes: DEFAULT_REGIMES })).toThrow(
+      /transitions must be 2x2/
+    );
+  });
+});
+
+describe('simPortfolio Monte Carlo', () => {
+  it('summarizes drawdown trips, sleeve usage, reserve burn and NAV per path', () => {
+    const week = (nav: number, phase: string, extra: Record<string, unknown> = {}) => ({
+      nav,
+      dislocation: { phase },
+      overlayOrders: [],
+      reserveBudget: 600,
+      reserveUsedTotal: 0,
+      ...extra
+    });
+    const outcome = summarizeSimPath(
+      'p',
+      [
+        week(2000, 'INACTIVE'),
+        week(2200, 'ADD', { overlayOrders: [{ side: 'BUY', notionalUSD: 150 }, { side: 'SELL', notionalUSD: 40 }] }),
+        week(1950, 'HOLD', { insurance: { spend: 120 }, reserveUsedTotal: 120 }),
+        week(2100, 'INACTIVE', { reserveUsedTotal: 90 })
+      ],
+      2000,
+      0.1
+    );
+    expect(outcome).toMatchObject({
+      finalNav: 2100,
+      drawdownTripped: true,
+      firstTripWeek: 2,
+      dislocationEpisodes: 1,
+      dislocationActiveWeeks: 2,
+      dislocationBuyUSD: 150,
+      optionsSpendUSD: 120,
+      reserveBurnPct: 0.2
+    });
+    expect(outcome.maxDrawdown).toBeCloseTo(250 / 2200, 10);
+    expect(distribution([4, 1, 3, 2, 5])).toMatchObject({ mean: 3, min: 1, p25: 2, p50: 3, p75: 4, max: 5 });
+  });
+
+  it('runs the harness over generated paths', async () => {
+    const paths = generatePaths({
+      model: 'regime',
+      paths: 3,
+      weeks: 8,
+      seed: 2,
+      symbols: SIM_SYMBOLS,
+      proxies: SIM_PROXIES,
+      correlation: defaultCorrelation(SIM_SYMBOLS),
+      regimes: DEFAULT_REGIMES,
+      transitions: DEFAULT_TRANSITIONS
+    });
+    const { outcomes, summary } = await runMonteCarlo(paths);
+    expect(outcomes.map((o) => [o.name, o.ok])).toEqual([
+      ['MC_REGIME_0001', true],
+      ['MC_REGIME_0002', true],
+      ['MC_REGIME_0003', true]
+    ]);
+    expect(summary).toMatchObject({ paths: 3, failedPaths: 0, startingCapitalUSD: 2000, maxWeeklyDrawdownPct: 0.1 });
+    expect(summary.finalNav.min).toBeGreaterThan(0);
+    expect(summary.finalNav.min).toBeLessThanOrEqual(summary.finalNav.p50);
+    expect(summary.drawdownTripProbability).toBeGreaterThanOrEqual(0);
+    expect(summary.drawdownTripProbability).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../src/core/utils';
+import { BotConfig } from '../src/core/types';
+import { appendEvent, DAEMON_RUN_ID, getEvents, makeEvent } from '../src/ledger/ledger';
+import { planSlotsForDay, readDaemonStatus, ScheduleStage, SchedulerDaemon } from '../src/scheduler/daemon';
+
+const config: BotConfig = {
+  ...loadConfig(path.resolve(__dirname, '../src/config/default.json')),
+  cadence: 'weekly',
+  rebalanceDay: 'WEDNESDAY',
+  scheduler: { dumpTime: '15:30', tradeTime: '15:35', maxAttempts: 3, retryBackoffSec: 60, missedGraceMinutes: 20, heartbeatSec: 300 }
+};
+
+// Simulated clock; sleeping just advances it.
+const makeClock = (startISO: string) => {
+  let t = new Date(startISO).getTime();
+  return {
+    now: () => new Date(t),
+    set: (iso: string) => {
+      t = new Date(iso).getTime();
+    },
+    sleep: async (ms: number) => {
+      t += ms;
+    }
+  };
+};
+
+describe('schedule planning', () => {
+  it('plans weekly slots on trading sessions only, rolled past holidays and pulled in on early closes', () => {
+    // Juneteenth 2024 was a Wednesday.
+    expect(planSlotsForDay('2024-06-19', config)).toEqual([]);
+    expect(planSlotsForDay('2024-06-20', config)).toEqual([
+      {
+        session: '2024-06-20',
+        asOf: '2024-06-20T19:30',
+        runId: '2024-06-20T19-30',
+        dumpAt: '2024-06-20T19:30:00.000Z',
+        tradeAt: '2024-06-20T19:35:00.000Z'
+      }
+    ]);
+    expect(planSlotsForDay('2024-06-22', config)).toEqual([]);
+    // 13:00 ET close on July 3: 15:30 ET becomes 12:30 ET.
+    expect(planSlotsForDay('2024-07-03', config)[0].dumpAt).toBe('2024-07-03T16:30:00.000Z');
+  });
+
+  it('plans hourly slots inside the session', () => {
+    const slots = planSlotsForDay('2024-01-10', { ...config, cadence: 'hourly' });
+    expect(slots.map((s) => s.tradeAt)).toEqual([
+      '2024-01-10T15:00:00.000Z',
+      '2024-01-10T16:00:00.000Z',
+      '2024-01-10T17:00:00.000Z',
+      '2024-01-10T18:00:00.000Z',
+      '2024-01-10T19:00:00.000Z',
+      '2024-01-10T20:00:00.000Z'
+    ]);
+  });
+});
+
+describe('scheduler daemon', () => {
+  const tmpLedger = path.join(os.tmpdir(), `daemon-ledger-${process.pid}.jsonl`);
+  const previousLedger = process.env.LEDGER_FILE;
+
+  beforeEach(() => {
+    process.env.LEDGER_FILE = tmpLedger;
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(tmpLedger)) fs.unlinkSync(tmpLedger);
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  const daemonEvents = () => getEvents().filter((e) => e.runId === DAEMON_RUN_ID);
+
+  it('waits for the slot, runs dump then trade, and heartbeats the next due slot', async () => {
+    const clock = makeClock('2024-06-20T18:00:00Z');
+    const calls: Array<[ScheduleStage, string, string]> = [];
+    const daemon = new SchedulerDaemon({
+      config,
+      now: clock.now,
+      sleep: clock.sleep,
+      runStage: async (stage, slot) => {
+        calls.push([stage, slot.runId, clock.now().toISOString()]);
+      }
+    });
+
+    const idle = await daemon.tick();
+    expect(idle.action).toBe('idle');
+    expect(idle.next?.runId).toBe('2024-06-20T19-30');
+    expect(readDaemonStatus(getEvents(), config, clock.now()).next?.dumpAt).toBe('2024-06-20T19:30:00.000Z');
+
+    clock.set('2024-06-20T19:31:00Z');
+    const ran = await daemon.tick();
+    expect(ran.action).toBe('ran');
+    expect(calls).toEqual([
+      ['dump', '2024-06-20T19-30', '2024-06-20T19:31:00.000Z'],
+      ['trade', '2024-06-20T19-30', '2024-06-20T19:35:00.000Z']
+    ]);
+
+    const after = await daemon.tick();
+    expect(after.next?.session).toBe('2024-06-26');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('retries a failed stage with exponential backoff', async () => {
+    const clock = makeClock('2024-06-26T19:30:00Z');
+    let failures = 2;
+    const daemon = new SchedulerDaemon({
+      config,
+      now: clock.now,
+      sleep: clock.sleep,
+      runStage: async (stage) => {
+        if (stage === 'dump' && failures-- > 0) throw new Error('fred timeout');
+      }
+    });
+    expect((await daemon.tick()).action).toBe('ran');
+    const failed = daemonEvents().filter((e) => e.type === 'SCHEDULE_STAGE_FAILED');
+    expect(failed.map((e) => e.details?.retryInSec)).toEqual([60, 120]);
+    expect(failed.map((e) => e.details?.attempt)).toEqual([1, 2]);
+    expect(clock.now().toISOString()).toBe('2024-06-26T19:35:00.000Z');
+  });
+
+  it('does not fire when the rebalance window already executed', async () => {
+    appendEvent({
+      ...makeEvent('manual-run', 'EXECUTION_SENT_TO_BROKER'),
+      timestamp: '2024-06-26T17:00:00.000Z'
+    });
+    const clock = makeClock('2024-06-26T19:30:00Z');
+    const runStage = jest.fn(async () => undefined);
+    const daemon = new SchedulerDaemon({ config, now: clock.now, sleep: clock.sleep, runStage });
+    await daemon.tick();
+    expect(runStage).not.toHaveBeenCalled();
+    expect(daemonEvents().find((e) => e.type === 'SCHEDULE_SKIPPED')?.details).toMatchObject({
+      runId: '2024-06-26T19-30',
+      reason: 'ALREADY_EXECUTED_THIS_WINDOW',
+      alreadyExecutedRunId: 'manual-run'
+    });
+  });
+
+  it('reports slots that passed while the daemon was down as missed', async () => {
+    appendEvent({ ...makeEvent(DAEMON_RUN_ID, 'DAEMON_HEARTBEAT'), timestamp: '2024-06-18T15:00:00.000Z' });
+    const clock = makeClock('2024-06-21T14:00:00Z');
+    const runStage = jest.fn(async () => undefined);
+    const daemon = new SchedulerDaemon({ config, now: clock.now, sleep: clock.sleep, runStage });
+    const result = await daemon.tick();
+    expect(runStage).not.toHaveBeenCalled();
+    expect(result.next?.session).toBe('2024-06-26');
+    const status = readDaemonStatus(getEvents(), config, clock.now());
+    expect(status.lastMissed).toMatchObject({ runId: '2024-06-20T19-30', session: '2024-06-20' });
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, EquityPoint, ProposalResult, StrategyName } from '../src/core/types';
+import { MarketDataProvider } from '../src/data/marketData.types';
+import { appendEvent, makeEvent, setEventClock } from '../src/ledger/ledger';
+import { readShadowEvents } from '../src/ledger/storage';
+import { ShadowPlanningContext, runShadowStrategies, shadowPortfolioState } from '../src/analytics/shadowPortfolios';
+import { buildEquityCurve } from '../src/analytics/performance';
+import { computeStrategyComparison, studentTPValue } from '../src/analytics/metrics';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, startingCapitalUSD: 1000, slippageBps: 0, baselinesEnabled: true } as BotConfig;
+const universe = ['SPY', 'QQQ'];
+
+const prices: Record<string, Record<string, number>> = {
+  '2025-01-08T21:00': { SPY: 100, QQQ: 50 },
+  '2025-01-15T21:00': { SPY: 110, QQQ: 45 }
+};
+
+const market: MarketDataProvider = {
+  getQuote: async (symbol, asOf) => ({ symbol, price: prices[asOf]?.[symbol] ?? 100, asOf }),
+  getHistory: async () => []
+};
+
+const proposal = (strategy: StrategyName, symbol: string, asOf: string): ProposalResult => ({
+  strategy,
+  intent: {
+    asOf,
+    universe,
+    orders: [
+      {
+        symbol,
+        side: 'BUY',
+        orderType: 'MARKET',
+        notionalUSD: 500,
+        thesis: `${symbol} trend`,
+        invalidation: `${symbol} breaks its 20-week average`,
+        confidence: 0.8,
+        portfolioLevel: { targetHoldDays: 30, netExposureTarget: 1 }
+      }
+    ]
+  }
+});
+
+const planning = (asOf: string): ShadowPlanningContext => ({
+  prices: prices[asOf],
+  proxiesMap: {},
+  proxyParentMap: {},
+  exposureGroups: {},
+  deployPct: 1,
+  marketExposureCap: 1
+});
+
+describe('shadow portfolios', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'shadow-'));
+  const previousLedger = process.env.LEDGER_FILE;
+
+  beforeAll(() => {
+    process.env.LEDGER_FILE = path.join(tmp, 'events.jsonl');
+  });
+
+  afterAll(() => {
+    setEventClock();
+    fs.rmSync(tmp, { recursive: true, force: true });
+    if (previousLedger === undefined) delete process.env.LEDGER_FILE;
+    else process.env.LEDGER_FILE = previousLedger;
+  });
+
+  it('fills each strategy against its own book and charts it next to the live curve', async () => {
+    const asOf = '2025-01-08T21:00';
+    const runId = '2025-01-08T21-00';
+    setEventClock(() => new Date('2025-01-08T21:00:00Z'));
+    appendEvent(makeEvent(runId, 'RUN_STARTED'));
+    const input = {
+      runId,
+      asOf,
+      universe,
+      config,
+      marketData: market,
+      accountId: 'default',
+      selected: proposal('deterministic', 'SPY', asOf),
+      known: { llm: null, random: proposal('random', 'QQQ', asOf) },
+      planning: planning(asOf)
+    };
+    // The planner sizes each proposal to the 70% core budget, as in the live run.
+    const shadows = await runShadowStrategies(input);
+    expect(shadows.map((s) => [s.strategy, s.proposed, s.fills.map((f) => [f.symbol, f.side, f.quantity])])).toEqual([
+      ['llm', false, []],
+      ['deterministic', true, [['SPY', 'BUY', 7]]],
+      ['random', true, [['QQQ', 'BUY', 14]]]
+    ]);
+    // A repeated run is already recorded and is not filled twice.
+    expect(await runShadowStrategies(input)).toEqual([]);
+    expect(readShadowEvents('deterministic').map((e) => e.type)).toEqual(['PROPOSAL_CREATED', 'FILL_RECORDED']);
+
+    setEventClock(() => new Date('2025-01-15T21:00:00Z'));
+    appendEvent(makeEvent('2025-01-15T21-00', 'RUN_STARTED'));
+    const book = shadowPortfolioState('deterministic', config, 'default', '2025-01-15T21:00', prices['2025-01-15T21:00']);
+    expect(book).toEqual({ cash: 300, holdings: [{ symbol: 'SPY', quantity: 7, avgPrice: 100 }], equity: 1070 });
+
+    const curve = await buildEquityCurve(config, market);
+    expect(curve.map((p) => [p.date, p.equity, p.llmEquity, p.deterministicEquity, p.randomEquity])).toEqual([
+      ['2025-01-08T21:00', 1000, 1000, 1000, 1000],
+      ['2025-01-15T21:00', 1000, 1000, 1070, 930]
+    ]);
+  });
+
+  it('scores strategies and tests their paired return gaps', () => {
+    const point = (date: string, equity: number, deterministicEquity: number): EquityPoint => ({
+      date,
+      equity,
+      deterministicEquity,
+      exposure: 0,
+      drawdown: 0,
+      benchmarkSPY: 0
+    });
+    const comparison = computeStrategyComparison(
+      [point('w1', 1010, 1000), point('w2', 1030, 1010), point('w3', 1040, 1015), point('w4', 1070, 1030)],
+      1000
+    );
+    expect(Object.keys(comparison.strategies)).toEqual(['live', 'deterministic']);
+    expect(comparison.strategies.live).toMatchObject({ periods: 4, hitRate: 1 });
+    expect(comparison.strategies.live!.totalReturn).toBeCloseTo(0.07);
+    expect(comparison.strategies.deterministic).toMatchObject({ periods: 4, hitRate: 0.75 });
+    const [gap] = comparison.gaps;
+    expect(gap).toMatchObject({ a: 'live', b: 'deterministic', periods: 4, winRate: 1 });
+    expect(gap.pValue).toBeGreaterThan(0);
+    expect(gap.pValue).toBeLessThan(0.05);
+
+    // Two-sided p-values of known t quantiles.
+    expect(studentTPValue(2.776, 4)).toBeCloseTo(0.05, 3);
+    expect(studentTPValue(0, 10)).toBeCloseTo(1, 6);
+  });
+});
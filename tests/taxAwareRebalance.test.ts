@@ -0,0 +1,151 @@
+import { BotConfig, TaxLot, TradeOrder } from '../src/core/types';
+import { loadExposureGroups } from '../src/core/exposureGroups';
+import { loadWashSaleFamilies } from '../src/analytics/taxLots';
+import { planTaxAwareRebalance, selectSellLots } from '../src/execution/taxAwareRebalance';
+import { planCanonicalization } from '../src/execution/canonicalizeExposureGroups';
+
+const asOf = '2025-01-20T15:00';
+const exposureGroups = loadExposureGroups('src/config/exposure_groups.json');
+
+const lot = (lotId: string, symbol: string, quantity: number, price: number, openedAt: string): TaxLot => ({
+  lotId,
+  symbol,
+  quantity,
+  costBasis: quantity * price,
+  openedAt: `${openedAt}T15:00:00.000Z`,
+  holdingStart: `${openedAt}T15:00:00.000Z`,
+  orderId: lotId
+});
+
+const order = (symbol: string, side: TradeOrder['side'], notionalUSD: number): TradeOrder => ({
+  symbol,
+  side,
+  orderType: 'MARKET',
+  notionalUSD,
+  thesis: '',
+  invalidation: '',
+  confidence: 1,
+  portfolioLevel: { targetHoldDays: 0, netExposureTarget: 1 }
+});
+
+const config = (tax: BotConfig['tax'] = {}): BotConfig =>
+  ({
+    fractionalSharesSupported: false,
+    exposureGroupsFile: 'src/config/exposure_groups.json',
+    tax: { taxAwareRebalance: true, shortTermDeferDays: 30, harvestLosses: true, harvestMinLossPct: 0.05, harvestMinLossUSD: 100, ...tax }
+  }) as BotConfig;
+
+// At 100: a loss lot, a long-term gain, a short-term gain 22 days from long-term and a fresh short-term gain.
+const spyLots = [
+  lot('loss', 'SPY', 2, 110, '2024-11-01'),
+  lot('long', 'SPY', 2, 80, '2023-06-01'),
+  lot('nearLong', 'SPY', 2, 90, '2024-02-10'),
+  lot('short', 'SPY', 2, 95, '2024-10-01')
+];
+
+describe('tax-aware lot selection', () => {
+  it('sells losses, then long-term gains, and defers short-term gains about to turn long-term', () => {
+    const selection = selectSellLots(spyLots, 'SPY', 8, 100, asOf, { deferDays: 30, allowShortTermGains: true });
+    expect(selection.picks.map((p) => [p.lotId, p.term])).toEqual([
+      ['loss', 'SHORT'],
+      ['long', 'LONG'],
+      ['short', 'SHORT']
+    ]);
+    expect(selection.quantity).toBe(6);
+    expect(selection.deferred).toEqual([{ lotId: 'nearLong', quantity: 2, unrealizedGain: 20, longTermOn: '2025-02-11' }]);
+
+    expect(selectSellLots(spyLots, 'SPY', 8, 100, asOf, { deferDays: 30 }).quantity).toBe(4);
+  });
+
+  it('trims deferred quantity from rebalance sells and scales buys to the cash left', () => {
+    const plan = planTaxAwareRebalance({
+      asOf,
+      orders: [order('SPY', 'SELL', 800), order('QQQ', 'BUY', 800)],
+      lots: spyLots,
+      realized: [],
+      prices: { SPY: 100, QQQ: 400 },
+      cash: 0,
+      config: config({ harvestLosses: false }),
+      exposureGroups,
+      families: new Map()
+    });
+    expect(plan.orders[0]).toMatchObject({ symbol: 'SPY', side: 'SELL', notionalUSD: 600, lotIds: ['loss', 'long', 'short'] });
+    expect(plan.orders[1]).toMatchObject({ symbol: 'QQQ', side: 'BUY', notionalUSD: 600 });
+    expect(plan.flags.map((f) => f.code)).toEqual(['SELL_DEFERRED_SHORT_TERM', 'BUYS_SCALED_FOR_DEFERRED_SELLS']);
+  });
+
+  it('sells from a fresh lot when it covers what a deferred lot would have', () => {
+    // The smaller gain is 11 days from long-term; the other lot was bought a month ago.
+    const lots = [lot('nearLong', 'SPY', 10, 95, '2024-01-30'), lot('fresh', 'SPY', 10, 90, '2024-12-20')];
+    const plan = planTaxAwareRebalance({
+      asOf,
+      orders: [order('SPY', 'SELL', 1000)],
+      lots,
+      realized: [],
+      prices: { SPY: 100 },
+      cash: 0,
+      config: config({ harvestLosses: false }),
+      exposureGroups,
+      families: new Map()
+    });
+    expect(plan.selections.SPY.quantity).toBe(10);
+    expect(plan.selections.SPY.deferred.map((d) => d.lotId)).toEqual(['nearLong']);
+    expect(plan.orders).toEqual([expect.objectContaining({ symbol: 'SPY', side: 'SELL', notionalUSD: 1000, lotIds: ['fresh'] })]);
+    expect(plan.flags).toEqual([]);
+  });
+
+  it('harvests losses into an exposure alternate outside the wash-sale family', () => {
+    const lots = [lot('iwm1', 'IWM', 10, 220, '2024-06-03'), lot('iwm2', 'IWM', 5, 190, '2024-08-01')];
+    const prices = { IWM: 200, VTWO: 80, IJR: 110 };
+    const separateIndexes = config({ substantiallyIdentical: [['IWM', 'VTWO'], ['IJR']] });
+    const plan = planTaxAwareRebalance({
+      asOf,
+      orders: [],
+      lots,
+      realized: [],
+      prices,
+      cash: 0,
+      config: separateIndexes,
+      exposureGroups,
+      families: loadWashSaleFamilies(separateIndexes)
+    });
+    expect(plan.harvests).toEqual([{ symbol: 'IWM', replacement: 'IJR', exposure: 'US_SMALL_CAP', quantity: 10, loss: -200, lotIds: ['iwm1'] }]);
+    expect(plan.orders.map((o) => [o.symbol, o.side, o.notionalUSD])).toEqual([
+      ['IWM', 'SELL', 2000],
+      ['IJR', 'BUY', 1980]
+    ]);
+
+    // With families derived from exposure groups every alternate is substantially identical.
+    const derived = planTaxAwareRebalance({
+      asOf,
+      orders: [],
+      lots,
+      realized: [],
+      prices,
+      cash: 0,
+      config: config(),
+      exposureGroups,
+      families: loadWashSaleFamilies(config())
+    });
+    expect(derived.orders).toEqual([]);
+    expect(derived.flags.map((f) => f.code)).toEqual(['HARVEST_NO_ALTERNATE']);
+  });
+
+  it('keeps short-term gain lots out of canonicalization swaps', () => {
+    const lots = [lot('a', 'SPYM', 6, 80, '2024-12-02'), lot('b', 'SPYM', 4, 60, '2024-12-02')];
+    const { orders, flags } = planCanonicalization({
+      exposureGroups,
+      holdings: [{ symbol: 'SPYM', quantity: 10 }],
+      prices: { SPYM: 70, SPY: 100 },
+      config: { ...config(), canonicalizeExposureGroups: true, canonicalizeMaxNotionalPctPerRun: 1 } as BotConfig,
+      phase: 'REINTEGRATE',
+      protectFromSells: false,
+      equity: 100000,
+      asOf,
+      taxLots: lots
+    });
+    expect(orders[0]).toMatchObject({ symbol: 'SPYM', side: 'SELL', notionalUSD: 420, lotIds: ['a'] });
+    expect(orders[1]).toMatchObject({ symbol: 'SPY', side: 'BUY', notionalUSD: 400 });
+    expect(flags[0]).toMatchObject({ code: 'CANONICALIZATION_DEFERRED_TAX', observed: { taxSellableQty: 6 } });
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { Fill, LedgerEvent } from '../src/core/types';
+import { loadExposureGroups } from '../src/core/exposureGroups';
+import {
+  applyFillToLots,
+  createLotBook,
+  holdingTerm,
+  lotPositions,
+  realizedGainsReport,
+  replayLotBook,
+  washSaleFamilies
+} from '../src/analytics/taxLots';
+
+const proxies = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/proxies.json'), 'utf-8'));
+const families = washSaleFamilies(proxies, loadExposureGroups('src/config/exposure_groups.json'));
+
+const fill = (orderId: string, symbol: string, side: Fill['side'], quantity: number, price: number, day: string): Fill => ({
+  orderId,
+  symbol,
+  side,
+  quantity,
+  price,
+  notional: quantity * price,
+  timestamp: `${day}T15:00:00.000Z`
+});
+
+describe('tax lots', () => {
+  it('relieves lots FIFO or HIFO and classifies the holding period', () => {
+    const trades = [fill('b1', 'SPY', 'BUY', 10, 100, '2024-01-02'), fill('b2', 'SPY', 'BUY', 10, 120, '2024-02-01')];
+    const sell = fill('s1', 'SPY', 'SELL', 10, 130, '2025-01-15');
+
+    const fifo = createLotBook({ method: 'FIFO' });
+    trades.forEach((f) => applyFillToLots(fifo, f));
+    expect(applyFillToLots(fifo, sell)).toMatchObject([{ lotId: 'b1', gain: 300, term: 'LONG' }]);
+
+    const hifo = createLotBook({ method: 'HIFO' });
+    trades.forEach((f) => applyFillToLots(hifo, f));
+    expect(applyFillToLots(hifo, sell)).toMatchObject([{ lotId: 'b2', gain: 100, term: 'SHORT' }]);
+    expect(lotPositions(hifo).SPY).toMatchObject({ quantity: 10, costBasis: 1000, since: '2024-01-02T15:00:00.000Z' });
+
+    expect(holdingTerm('2024-01-02T15:00:00.000Z', '2025-01-02T20:00:00.000Z')).toBe('SHORT');
+    expect(holdingTerm('2024-01-02T15:00:00.000Z', '2025-01-03T14:00:00.000Z')).toBe('LONG');
+  });
+
+  it('honours specific lot ids recorded on the SELL order', () => {
+    const event = (type: LedgerEvent['type'], details: Record<string, unknown>): LedgerEvent => ({
+      id: `${type}-${Math.random()}`,
+      runId: '2025-03-04T15-00',
+      timestamp: '2025-03-04T15:00:00.000Z',
+      type,
+      details
+    });
+    const book = replayLotBook(
+      [
+        event('FILL_RECORDED', { fill: fill('b1', 'VTWO', 'BUY', 5, 80, '2025-01-02') }),
+        event('FILL_RECORDED', { fill: fill('b2', 'VTWO', 'BUY', 5, 90, '2025-01-10') }),
+        event('FILL_RECORDED', { fill: fill('b3', 'VTWO', 'BUY', 5, 85, '2025-01-20') }),
+        event('ORDER_PLACED', { order: { symbol: 'VTWO', side: 'SELL', lotIds: ['b3'] }, placement: { orderId: 's1' } }),
+        event('FILL_RECORDED', { fill: fill('s1', 'VTWO', 'SELL', 7, 95, '2025-03-04') })
+      ],
+      { method: 'SPECIFIC_ID' }
+    );
+    expect(book.realized.map((r) => [r.lotId, r.quantity])).toEqual([
+      ['b3', 5],
+      ['b1', 2]
+    ]);
+    expect(book.lots.map((l) => [l.lotId, l.quantity])).toEqual([
+      ['b1', 3],
+      ['b2', 5]
+    ]);
+  });
+
+  it('treats SPY and IVV as substantially identical but not SPY and QQQ', () => {
+    expect(families.get('SPY')).toBe(families.get('IVV'));
+    expect(families.get('SPY')).toBe(families.get('SPLG'));
+    expect(families.get('IWM')).toBe(families.get('VTWO'));
+    expect(families.get('SPY')).not.toBe(families.get('QQQ'));
+
+    const book = createLotBook({ families });
+    applyFillToLots(book, fill('b1', 'SPY', 'BUY', 10, 500, '2025-01-02'));
+    applyFillToLots(book, fill('s1', 'SPY', 'SELL', 10, 450, '2025-03-03'));
+    applyFillToLots(book, fill('b2', 'QQQ', 'BUY', 2, 400, '2025-03-10'));
+    applyFillToLots(book, fill('b3', 'IVV', 'BUY', 4, 455, '2025-03-20'));
+
+    const [loss] = book.realized;
+    expect(loss).toMatchObject({ gain: -500, washSaleDisallowed: 200, washSaleReplacements: ['b3'] });
+    const ivv = book.lots.find((l) => l.symbol === 'IVV');
+    expect(ivv).toMatchObject({ costBasis: 4 * 455 + 200, washSaleAdjustment: 200 });
+    // The 60 days SPY was held carry over to the replacement.
+    expect(ivv?.holdingStart).toBe('2025-01-19T15:00:00.000Z');
+    expect(book.lots.find((l) => l.symbol === 'QQQ')?.washSaleAdjustment).toBeUndefined();
+
+    const report = realizedGainsReport(book.realized, 2025);
+    expect(report.shortTerm).toMatchObject({ proceeds: 4500, costBasis: 5000, washSaleDisallowed: 200, gain: -300 });
+    expect(report.washSales).toBe(1);
+  });
+
+  it('washes against a purchase made before the loss and splits the replacement lot', () => {
+    const book = createLotBook({ families });
+    applyFillToLots(book, fill('b1', 'IWM', 'BUY', 2, 200, '2025-01-02'));
+    applyFillToLots(book, fill('b2', 'VTWO', 'BUY', 10, 80, '2025-02-20'));
+    applyFillToLots(book, fill('s1', 'IWM', 'SELL', 2, 180, '2025-03-01'));
+    // Outside the window: no wash.
+    applyFillToLots(book, fill('b3', 'IWM', 'BUY', 1, 185, '2025-04-15'));
+
+    expect(book.realized[0]).toMatchObject({ gain: -40, washSaleDisallowed: 40, washSaleReplacements: ['b2-w1'] });
+    expect(book.lots.map((l) => [l.lotId, l.quantity, l.costBasis])).toEqual([
+      ['b2-w1', 2, 200],
+      ['b2', 8, 640],
+      ['b3', 1, 185]
+    ]);
+    expect(lotPositions(book).VTWO).toMatchObject({ quantity: 10, costBasis: 800 });
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotConfig, EquityPoint } from '../src/core/types';
+import {
+  SegmentEvaluator,
+  buildWalkForwardWindows,
+  generateCandidates,
+  parseOptimizerSpec,
+  runWalkForward,
+  spearman,
+  writeWalkForwardReport
+} from '../src/backtest/walkForward';
+
+const defaultJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../src/config/default.json'), 'utf-8'));
+const config = { ...defaultJson, startingCapitalUSD: 1000 } as BotConfig;
+
+// Four weeks compounding at `weekly`.
+const curve = (weekly: number): EquityPoint[] =>
+  [1, 2, 3, 4].map((k) => ({ date: `2024-01-0${k}`, equity: 1000 * (1 + weekly) ** k, exposure: 0, drawdown: 0, benchmarkSPY: 0 }));
+
+describe('walk-forward optimizer', () => {
+  it('expands grids, samples random searches reproducibly and rejects bad specs', () => {
+    const grid = generateCandidates(
+      parseOptimizerSpec({
+        from: '2024-01-01',
+        to: '2024-12-31',
+        dataDir: 'history',
+        search: { parameters: { maxPositionPct: [0.25, 0.35], 'rebalance.portfolioDriftThreshold': { min: 0.03, max: 0.07, step: 0.02 } } }
+      }).search
+    );
+    expect(grid).toHaveLength(6);
+    expect(grid[5]).toEqual({ id: 'c006', parameters: { maxPositionPct: 0.35, 'rebalance.portfolioDriftThreshold': 0.07 } });
+
+    const randomSpec = parseOptimizerSpec({
+      from: '2024-01-01',
+      to: '2024-12-31',
+      dataDir: 'history',
+      search: { mode: 'random', samples: 5, seed: 7, parameters: { maxPositions: { min: 2, max: 6, integer: true }, cadence: ['weekly'] } }
+    });
+    const sampled = generateCandidates(randomSpec.search);
+    expect(sampled).toHaveLength(5);
+    expect(new Set(sampled.map((c) => c.parameters.maxPositions)).size).toBe(5);
+    expect(generateCandidates(randomSpec.search)).toEqual(sampled);
+
+    const unstepped = { from: '2024-01-01', to: '2024-12-31', dataDir: 'history', search: { parameters: { maxPositionPct: { min: 0, max: 1 } } } };
+    expect(() => parseOptimizerSpec(unstepped)).toThrow(/grid search needs a value list or a range with a step/);
+  });
+
+  it('builds rolling and anchored windows from rebalance sessions', () => {
+    const dates = Array.from({ length: 10 }, (_, i) => `d${i}`);
+    const rolling = buildWalkForwardWindows(dates, { trainWeeks: 4, testWeeks: 2, anchored: false });
+    expect(rolling.map((w) => [w.train.from, w.train.to, w.test.from, w.test.to])).toEqual([
+      ['d0', 'd3', 'd4', 'd5'],
+      ['d2', 'd5', 'd6', 'd7'],
+      ['d4', 'd7', 'd8', 'd9']
+    ]);
+    const anchored = buildWalkForwardWindows(dates, { trainWeeks: 4, testWeeks: 3, stepWeeks: 3, anchored: true });
+    expect(anchored.map((w) => [w.train.from, w.train.to])).toEqual([
+      ['d0', 'd3'],
+      ['d0', 'd6']
+    ]);
+    expect(spearman([1, 2, 3], [2.5, 2.5, 1])).toBeCloseTo(-0.866, 3);
+  });
+
+  it('ranks candidates on out-of-sample results and reports stability', async () => {
+    const spec = parseOptimizerSpec({
+      from: '2024-01-01',
+      to: '2024-03-31',
+      dataDir: 'history',
+      windows: { trainWeeks: 6, testWeeks: 3 },
+      search: { parameters: { maxPositionPct: [0.2, 0.3, 0.4, 1.5] } },
+      objectives: { totalReturn: 1 }
+    });
+    const segments: string[] = [];
+    // In sample, bigger positions always win; in the second test window the biggest one breaks down.
+    const evaluate: SegmentEvaluator = async (candidateConfig, segment) => {
+      segments.push(`${segment.label} ${segment.from}..${segment.to}`);
+      const p = candidateConfig.maxPositionPct;
+      if (segment.label === 'w2-test') return curve(p === 0.4 ? -0.01 : 0.004);
+      return curve(p * 0.01);
+    };
+    const result = await runWalkForward(spec, config, evaluate);
+
+    expect(result.rejected.map((c) => [c.id, c.parameters.maxPositionPct])).toEqual([['c004', 1.5]]);
+    expect(Array.from(new Set(segments))).toEqual([
+      'w1-train 2024-01-03..2024-02-07',
+      'w1-test 2024-02-14..2024-02-28',
+      'w2-train 2024-01-24..2024-02-28',
+      'w2-test 2024-03-06..2024-03-20'
+    ]);
+    expect(result.windows.map((w) => [w.selected, w.rankCorrelation])).toEqual([
+      ['c003', 1],
+      ['c003', expect.closeTo(-0.866, 3)]
+    ]);
+    expect(result.leaderboard.map((e) => [e.rank, e.id, e.consistency, e.timesSelected])).toEqual([
+      [1, 'c002', 1, 0],
+      [2, 'c001', 0.5, 0],
+      [3, 'c003', 0.5, 2]
+    ]);
+    expect(result.leaderboard[2].degradation).toBeGreaterThan(result.leaderboard[0].degradation);
+    expect(result.stability).toMatchObject({ windows: 2, selectionChanges: 0 });
+    expect(result.stability.meanRankCorrelation).toBeCloseTo((1 - 0.866) / 2, 3);
+    expect(result.stability.selectedOutOfSampleReturn).toBeCloseTo(1.004 ** 4 * 0.99 ** 4 - 1, 10);
+
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walk-forward-'));
+    try {
+      writeWalkForwardReport(outDir, result);
+      const csv = fs.readFileSync(path.join(outDir, 'leaderboard.csv'), 'utf-8').split('\n');
+      expect(csv[0].startsWith('rank,id,maxPositionPct,outOfSampleObjective')).toBe(true);
+      expect(csv[1].startsWith('1,c002,0.3000,')).toBe(true);
+      expect(JSON.parse(fs.readFileSync(path.join(outDir, 'walk_forward.json'), 'utf-8')).windows).toHaveLength(2);
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});